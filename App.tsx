@@ -7,15 +7,29 @@ import 'react-native-get-random-values';
  * @format
  */
 
-import React from 'react';
+import React, { useEffect } from 'react';
 import { StatusBar, useColorScheme } from 'react-native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { NavigationContainer } from '@react-navigation/native';
 import AppNavigator from './src/navigation/AppNavigator';
+import { flushPendingChunkSync, startChunkSyncRetries } from './src/ai/chunkSyncService';
+import { purgeExpiredTrash } from './src/storage/trash';
 
 function App() {
   const isDarkMode = useColorScheme() === 'dark';
 
+  // Retry server chunk updates left over from changes made while offline
+  useEffect(() => startChunkSyncRetries(), []);
+
+  // Permanently delete items that outlived the trash retention period
+  useEffect(() => {
+    purgeExpiredTrash().then(purged => {
+      if (purged > 0) {
+        void flushPendingChunkSync();
+      }
+    });
+  }, []);
+
   return (
     <SafeAreaProvider>
       <NavigationContainer>
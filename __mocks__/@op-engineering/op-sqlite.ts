@@ -0,0 +1,76 @@
+/**
+ * Jest mock for @op-engineering/op-sqlite.
+ *
+ * Backs the native module with sql.js (SQLite compiled to JavaScript) so
+ * storage tests exercise real SQL in Node. Each `open()` name gets its own
+ * in-memory database for the lifetime of the test file.
+ */
+
+import type { BindParams, Database, SqlJsStatic } from 'sql.js';
+
+type Scalar = string | number | boolean | null | ArrayBuffer | ArrayBufferView;
+
+interface QueryResult {
+  rowsAffected: number;
+  insertId?: number;
+  rows: Array<Record<string, Scalar>>;
+}
+
+interface Transaction {
+  execute: (query: string, params?: Scalar[]) => Promise<QueryResult>;
+}
+
+// The asm.js build needs no .wasm file, which keeps jest setup trivial
+const initSqlJs: () => Promise<SqlJsStatic> = require('sql.js/dist/sql-asm.js');
+
+const sqlJsPromise = initSqlJs();
+const databases = new Map<string, Promise<Database>>();
+
+function runStatement(db: Database, query: string, params: Scalar[] = []): QueryResult {
+  const statement = db.prepare(query);
+  try {
+    statement.bind(params as BindParams);
+    const rows: Array<Record<string, Scalar>> = [];
+    while (statement.step()) {
+      rows.push(statement.getAsObject() as Record<string, Scalar>);
+    }
+    return { rows, rowsAffected: db.getRowsModified() };
+  } finally {
+    statement.free();
+  }
+}
+
+export function open(params: { name: string }) {
+  let dbPromise = databases.get(params.name);
+  if (!dbPromise) {
+    dbPromise = sqlJsPromise.then(SQL => new SQL.Database());
+    databases.set(params.name, dbPromise);
+  }
+  const database = dbPromise;
+
+  // Like the native module, transactions run one at a time
+  let transactionChain: Promise<void> = Promise.resolve();
+
+  return {
+    execute: async (query: string, queryParams?: Scalar[]): Promise<QueryResult> =>
+      runStatement(await database, query, queryParams),
+    transaction: (fn: (tx: Transaction) => Promise<void>): Promise<void> => {
+      const run = transactionChain.then(async () => {
+        const db = await database;
+        db.run('BEGIN');
+        try {
+          await fn({
+            execute: async (query, queryParams) => runStatement(db, query, queryParams),
+          });
+          db.run('COMMIT');
+        } catch (error) {
+          db.run('ROLLBACK');
+          throw error;
+        }
+      });
+      transactionChain = run.catch(() => undefined);
+      return run;
+    },
+    close: () => undefined,
+  };
+}
@@ -0,0 +1,224 @@
+import { BACKUP_VERSION, createBackupArchive, restoreBackup } from '../src/storage/backup';
+import { createFolder, loadFolders, updateFolder } from '../src/storage/folders';
+import { createNote, loadNotesByFolder } from '../src/storage/notes';
+import { createPage, getPageById, loadPagesByNote, updatePageSize } from '../src/storage/pages';
+import { loadDrawingData, saveDrawingData } from '../src/storage/drawings';
+import { loadPaperSettings, savePaperSettings } from '../src/storage/paperSettings';
+import { loadPendingChunkPurges } from '../src/storage/chunkPurges';
+import { loadPendingChunkPageIndexes } from '../src/storage/chunkPageIndexes';
+import { DrawingData } from '../src/types/models';
+
+const DRAWING: DrawingData = {
+  version: 1,
+  strokes: [
+    {
+      id: 'stroke-1',
+      points: [
+        { x: 1, y: 2 },
+        { x: 3, y: 4 },
+      ],
+      color: '#111111',
+      width: 3,
+      tool: 'pen',
+      timestamp: 1,
+    },
+  ],
+};
+
+async function seedFolder(name: string) {
+  const folders = await createFolder(name);
+  const folder = folders.find(f => f.name === name)!;
+  const [note] = await createNote(folder.id, `${name} note`);
+  await createPage(note.id);
+  await createPage(note.id);
+  const pages = await loadPagesByNote(note.id);
+  await saveDrawingData(pages[1].id, DRAWING);
+  await savePaperSettings(pages[1].id, { background: 'lined', lineSpacing: 'wide' });
+  return { folder, note, pages };
+}
+
+describe('backup and restore', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  it('merges a backup into existing data with new ids for conflicts', async () => {
+    const { folder, pages } = await seedFolder('Biology');
+    const archive = await createBackupArchive();
+
+    expect(archive.manifest.version).toBe(BACKUP_VERSION);
+    expect(archive.manifest.counts).toMatchObject({ folders: 1, notes: 1, pages: 2, drawings: 1 });
+
+    const result = await restoreBackup(archive, 'merge');
+
+    expect(result).toEqual({ folders: 1, notes: 1, pages: 2, remappedIds: 4 });
+    const folders = await loadFolders();
+    expect(folders).toHaveLength(2);
+    const copy = folders.find(f => f.id !== folder.id)!;
+    expect(copy.name).toBe('Biology');
+    const [copiedNote] = await loadNotesByFolder(copy.id);
+    const copiedPages = await loadPagesByNote(copiedNote.id);
+    expect(copiedPages.map(page => page.pageIndex)).toEqual([0, 1]);
+    expect(copiedPages.some(page => pages.some(p => p.id === page.id))).toBe(false);
+    expect(await loadDrawingData(copiedPages[1].id)).toEqual(DRAWING);
+    expect(await loadPaperSettings(copiedPages[1].id)).toEqual({
+      background: 'lined',
+      lineSpacing: 'wide',
+    });
+  });
+
+  it('replaces all data and purges server chunks of removed pages', async () => {
+    const archive = await createBackupArchive();
+    const { pages: extraPages } = await seedFolder('Chemistry');
+
+    const result = await restoreBackup(archive, 'replace');
+
+    expect(result.remappedIds).toBe(0);
+    const folders = await loadFolders();
+    expect(folders.map(f => f.id).sort()).toEqual(archive.folders.map(f => f.id).sort());
+    const purges = await loadPendingChunkPurges();
+    const purgedIds = purges.flatMap(purge => purge.sourceIds ?? []);
+    expect(purgedIds).toEqual(expect.arrayContaining(extraPages.map(page => page.id)));
+    expect(purgedIds).not.toEqual(expect.arrayContaining([archive.pages[0].id]));
+  });
+
+  it('rejects a backup from a newer version without writing anything', async () => {
+    const archive = await createBackupArchive();
+    const before = await loadFolders();
+    const future = {
+      ...archive,
+      manifest: { ...archive.manifest, version: BACKUP_VERSION + 1 },
+      folders: [{ id: 'future', name: 'Future', createdAt: 1, updatedAt: 1 }],
+    };
+
+    await expect(restoreBackup(future, 'replace')).rejects.toThrow(/newer version/);
+    expect(await loadFolders()).toEqual(before);
+  });
+
+  it('rejects a backup with broken references', async () => {
+    const archive = await createBackupArchive();
+    const broken = {
+      ...archive,
+      notes: [{ ...archive.notes[0], folderId: 'missing' }],
+    };
+
+    await expect(restoreBackup(broken, 'merge')).rejects.toThrow(/folder is missing/);
+  });
+
+  it('keeps subfolders under their parent when ids are remapped', async () => {
+    const { folder: course } = await seedFolder('Physics');
+    const folders = await createFolder('Unit 1', course.id);
+    const unit = folders.find(f => f.name === 'Unit 1')!;
+    const archive = await createBackupArchive();
+
+    await restoreBackup(archive, 'merge');
+
+    const after = await loadFolders();
+    const copy = after.find(f => f.name === 'Unit 1' && f.id !== unit.id)!;
+    const copyParent = after.find(f => f.id === copy.parentId)!;
+    expect(copyParent.id).not.toBe(course.id);
+    expect(copyParent.name).toBe('Physics');
+  });
+
+  it('carries folder details through a replace restore', async () => {
+    const { folder } = await seedFolder('Chemistry');
+    await updateFolder(folder.id, {
+      description: 'Lab notes',
+      color: '#34C759',
+      courseCode: 'CHEM 110',
+    });
+    const archive = await createBackupArchive();
+
+    await restoreBackup(archive, 'replace');
+
+    expect((await loadFolders()).find(f => f.id === folder.id)).toMatchObject({
+      description: 'Lab notes',
+      color: '#34C759',
+      courseCode: 'CHEM 110',
+    });
+  });
+
+  it('carries page sizes, and restores pages from older backups unsized', async () => {
+    const { pages } = await seedFolder('Geometry');
+    await updatePageSize(pages[0].id, { preset: 'square', width: 800, height: 800 });
+    const archive = await createBackupArchive();
+
+    await restoreBackup(archive, 'replace');
+    expect((await getPageById(pages[0].id))?.size).toEqual({
+      preset: 'square',
+      width: 800,
+      height: 800,
+    });
+
+    const older = {
+      ...archive,
+      manifest: { ...archive.manifest, version: 5 },
+      pages: archive.pages.map(({ size: _size, ...page }) => page),
+    };
+    await restoreBackup(older, 'replace');
+    expect((await getPageById(pages[0].id))?.size).toBeNull();
+  });
+
+  it('queues chunk page number updates for indexed pages that move on restore', async () => {
+    const { folder, note } = await seedFolder('Astronomy');
+    const archive = await createBackupArchive();
+    // The note as backed up on another device after its first page was deleted
+    const gapped = {
+      ...archive,
+      folders: archive.folders
+        .filter(f => f.id === folder.id)
+        .map(f => ({ ...f, id: 'gapped-folder' })),
+      notes: archive.notes
+        .filter(n => n.id === note.id)
+        .map(n => ({ ...n, id: 'gapped-note', folderId: 'gapped-folder' })),
+      pages: archive.pages
+        .filter(p => p.noteId === note.id)
+        .map((p, i) => ({
+          ...p,
+          id: `gapped-page-${i}`,
+          noteId: 'gapped-note',
+          pageIndex: i + 1,
+          indexStatus: 'done' as const,
+        })),
+      noteTags: {},
+      drawings: {},
+      paperSettings: {},
+    };
+
+    await restoreBackup(gapped, 'merge');
+
+    const restored = await loadPagesByNote('gapped-note');
+    expect(restored.map(p => [p.id, p.pageIndex, p.indexStatus])).toEqual([
+      ['gapped-page-0', 0, 'done'],
+      ['gapped-page-1', 1, 'done'],
+    ]);
+    const updates = (await loadPendingChunkPageIndexes())
+      .filter(update => update.pageId.startsWith('gapped-page'))
+      .map(update => [update.pageId, update.pageIndex]);
+    expect(updates).toEqual(
+      expect.arrayContaining([
+        ['gapped-page-0', 0],
+        ['gapped-page-1', 1],
+      ]),
+    );
+    expect(updates).toHaveLength(2);
+  });
+
+  it('rejects folders nested inside themselves', async () => {
+    const archive = await createBackupArchive();
+    const cyclic = {
+      ...archive,
+      folders: [
+        { id: 'a', name: 'A', parentId: 'b', createdAt: 1, updatedAt: 1 },
+        { id: 'b', name: 'B', parentId: 'a', createdAt: 1, updatedAt: 1 },
+      ],
+      notes: [],
+      pages: [],
+      drawings: {},
+      paperSettings: {},
+    };
+
+    await expect(restoreBackup(cyclic, 'merge')).rejects.toThrow(/nested inside themselves/);
+  });
+});
@@ -0,0 +1,245 @@
+import { buildPdfDocument, pdfColor, pdfNumber } from '../src/utils/pdfDocument';
+import {
+  getPdfPageSize,
+  renderPageToPdf,
+  renderPagesToPdf,
+  resolvePageRange,
+} from '../src/utils/exportPdf';
+import { DrawingData, PaperSettings } from '../src/types/models';
+
+jest.mock('react-native-fs', () => ({}));
+
+const LOGICAL_SIZE = { width: 800, height: 1000 };
+
+const DRAWING: DrawingData = {
+  version: 1,
+  strokes: [
+    {
+      id: 'stroke-1',
+      points: [
+        { x: 10, y: 20 },
+        { x: 30, y: 40 },
+      ],
+      color: '#ff0000',
+      width: 4,
+      tool: 'pen',
+      timestamp: 1,
+    },
+  ],
+};
+
+const LINED: PaperSettings = { background: 'lined', lineSpacing: 'wide' };
+const BLANK: PaperSettings = { background: 'blank', lineSpacing: 'medium' };
+
+describe('pdf document', () => {
+  it('formats numbers and colors for content streams', () => {
+    expect(pdfNumber(1.005)).toBe('1');
+    expect(pdfNumber(12.5)).toBe('12.5');
+    expect(pdfNumber(-0.001)).toBe('0');
+    expect(pdfColor('#ff0000')).toEqual([1, 0, 0]);
+    expect(pdfColor('#fff')).toEqual([1, 1, 1]);
+    expect(pdfColor('not-a-color')).toEqual([0, 0, 0]);
+  });
+
+  it('writes a cross-reference table that points at every object', () => {
+    const pdf = buildPdfDocument(
+      [
+        { width: 100, height: 200, content: '0 0 m 10 10 l S' },
+        { width: 100, height: 200, content: '' },
+      ],
+      { title: 'Homework' },
+    );
+
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(pdf).toContain('/Count 2');
+
+    const xrefOffset = Number(pdf.match(/startxref\n(\d+)/)?.[1]);
+    expect(pdf.slice(xrefOffset).startsWith('xref\n')).toBe(true);
+
+    const entries = pdf
+      .slice(xrefOffset)
+      .split('\n')
+      .filter(line => line.endsWith(' n '));
+    expect(entries).toHaveLength(7);
+    entries.forEach((entry, i) => {
+      const offset = Number(entry.slice(0, 10));
+      expect(pdf.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true);
+    });
+  });
+
+  it('rejects documents without pages', () => {
+    expect(() => buildPdfDocument([])).toThrow();
+  });
+});
+
+describe('pdf export', () => {
+  it('clamps page ranges to existing pages', () => {
+    expect(resolvePageRange(5)).toEqual({ start: 0, end: 5 });
+    expect(resolvePageRange(5, { from: 2, to: 3 })).toEqual({ start: 1, end: 3 });
+    expect(resolvePageRange(5, { from: 0, to: 99 })).toEqual({ start: 0, end: 5 });
+    expect(resolvePageRange(5, { from: 4, to: 2 })).toEqual({ start: 3, end: 3 });
+  });
+
+  it('turns paper sizes landscape for landscape canvases', () => {
+    expect(getPdfPageSize('letter', LOGICAL_SIZE)).toEqual({ width: 612, height: 792 });
+    expect(getPdfPageSize('letter', { width: 1000, height: 800 })).toEqual({
+      width: 792,
+      height: 612,
+    });
+    const canvasSize = getPdfPageSize('canvas', LOGICAL_SIZE);
+    expect(canvasSize.width / canvasSize.height).toBeCloseTo(0.8);
+  });
+
+  it('renders strokes as vector paths', () => {
+    const page = renderPageToPdf(
+      { drawingData: DRAWING, paperSettings: BLANK },
+      LOGICAL_SIZE,
+      { width: 800, height: 1000 },
+      true,
+    );
+
+    expect(page.content).toContain('1 0 0 RG');
+    expect(page.content).toContain('4 w');
+    expect(page.content).toContain('10 20 m\n30 40 l\nS');
+    expect(page.content).toContain('1 0 0 -1 0 1000 cm');
+  });
+
+  it('fills the outline of variable-width strokes', () => {
+    const page = renderPageToPdf(
+      {
+        drawingData: {
+          version: 2,
+          strokes: [
+            {
+              ...DRAWING.strokes[0],
+              points: [
+                { x: 10, y: 20, pressure: 0.2 },
+                { x: 30, y: 40, pressure: 0.9 },
+                { x: 60, y: 40, pressure: 0.5 },
+              ],
+            },
+          ],
+        },
+        paperSettings: BLANK,
+      },
+      LOGICAL_SIZE,
+      LOGICAL_SIZE,
+      true,
+    );
+
+    expect(page.content).toContain('1 0 0 rg');
+    expect(page.content).toMatch(/\nh\nf\nQ$/);
+    expect(page.content).not.toContain('RG');
+    expect(page.content).not.toMatch(/\nS\n/);
+  });
+
+  it('draws the canvas curves as cubic segments', () => {
+    const page = renderPageToPdf(
+      {
+        drawingData: {
+          version: 2,
+          strokes: [
+            {
+              ...DRAWING.strokes[0],
+              points: [
+                { x: 0, y: 0 },
+                { x: 30, y: 30 },
+                { x: 60, y: 30 },
+              ],
+            },
+          ],
+        },
+        paperSettings: BLANK,
+      },
+      LOGICAL_SIZE,
+      LOGICAL_SIZE,
+      true,
+    );
+
+    // The quadratic from (0,0) via (30,30) to (45,30), raised to a cubic
+    expect(page.content).toContain('0 0 m\n20 20 35 30 45 30 c\n60 30 l\nS');
+  });
+
+  it('draws highlighter strokes translucent and beneath ink', () => {
+    const page = renderPageToPdf(
+      {
+        drawingData: {
+          version: 2,
+          strokes: [
+            ...DRAWING.strokes,
+            {
+              id: 'marker',
+              points: [
+                { x: 0, y: 25 },
+                { x: 50, y: 25 },
+              ],
+              color: '#ffcc00',
+              width: 18,
+              tool: 'highlighter',
+              timestamp: 2,
+            },
+          ],
+        },
+        paperSettings: BLANK,
+      },
+      LOGICAL_SIZE,
+      LOGICAL_SIZE,
+      true,
+    );
+
+    expect(page.resources).toBe('/ExtGState << /GSHighlighter << /CA 0.35 >> >>');
+    expect(page.content).toContain('q\n/GSHighlighter gs\n0 J');
+    expect(page.content.indexOf('0 25 m')).toBeLessThan(page.content.indexOf('10 20 m'));
+    expect(buildPdfDocument([page])).toContain('/Resources << /ExtGState');
+  });
+
+  it('includes background lines only when requested', () => {
+    const withLines = renderPageToPdf(
+      { drawingData: null, paperSettings: LINED },
+      LOGICAL_SIZE,
+      LOGICAL_SIZE,
+      true,
+    );
+    const withoutLines = renderPageToPdf(
+      { drawingData: null, paperSettings: LINED },
+      LOGICAL_SIZE,
+      LOGICAL_SIZE,
+      false,
+    );
+
+    // Wide spacing is 48, so lines at 48..960
+    expect(withLines.content).toContain('0 48 m 800 48 l');
+    expect(withLines.content).toContain('0 960 m 800 960 l');
+    expect(withoutLines.content).not.toContain('800 48 l');
+  });
+
+  it('writes one PDF page per source page', () => {
+    const pdf = renderPagesToPdf(
+      [
+        { drawingData: DRAWING, paperSettings: BLANK },
+        { drawingData: null, paperSettings: LINED },
+        { drawingData: DRAWING, paperSettings: LINED },
+      ],
+      LOGICAL_SIZE,
+      { pageSize: 'a4', includeBackground: true },
+    );
+
+    expect(pdf).toContain('/Count 3');
+    expect(pdf.match(/\/Type \/Page /g)).toHaveLength(3);
+    expect(pdf).toContain('/MediaBox [0 0 595.28 841.89]');
+  });
+
+  it('fits each page to a PDF page for its own size', () => {
+    const pdf = renderPagesToPdf(
+      [
+        { drawingData: DRAWING, paperSettings: BLANK },
+        { drawingData: null, paperSettings: BLANK, logicalSize: { width: 1000, height: 800 } },
+      ],
+      LOGICAL_SIZE,
+      { pageSize: 'a4', includeBackground: false },
+    );
+
+    expect(pdf).toContain('/MediaBox [0 0 595.28 841.89]');
+    expect(pdf).toContain('/MediaBox [0 0 841.89 595.28]');
+  });
+});
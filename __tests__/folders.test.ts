@@ -0,0 +1,96 @@
+import {
+  createFolder,
+  deleteFolder,
+  loadFolders,
+  moveFolder,
+  trashFolder,
+} from '../src/storage/folders';
+import { createNote, getNoteById } from '../src/storage/notes';
+import { loadPendingChunkPurges } from '../src/storage/chunkPurges';
+import { loadTrashItems, restoreTrashItem } from '../src/storage/trash';
+import {
+  flattenFolderTree,
+  getDescendantFolderIds,
+  getFolderPath,
+} from '../src/utils/folderTree';
+import { Folder } from '../src/types/models';
+
+async function createChild(name: string, parentId: string | null): Promise<Folder> {
+  const folders = await createFolder(name, parentId);
+  return folders.find(f => f.name === name && f.parentId === parentId)!;
+}
+
+async function seedCourse(prefix: string) {
+  const course = await createChild(`${prefix} Course`, null);
+  const unit = await createChild(`${prefix} Unit`, course.id);
+  const week = await createChild(`${prefix} Week`, unit.id);
+  return { course, unit, week };
+}
+
+describe('folder hierarchy', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  it('flattens the tree depth first and finds descendants and paths', async () => {
+    const { course, unit, week } = await seedCourse('Tree');
+    const folders = await loadFolders();
+
+    const expanded = flattenFolderTree(folders, null).filter(row =>
+      row.folder.name.startsWith('Tree'),
+    );
+    expect(expanded.map(row => [row.folder.id, row.depth, row.childCount])).toEqual([
+      [course.id, 0, 1],
+      [unit.id, 1, 1],
+      [week.id, 2, 0],
+    ]);
+    const collapsed = flattenFolderTree(folders, new Set([course.id]));
+    expect(collapsed.some(row => row.folder.id === unit.id)).toBe(true);
+    expect(collapsed.some(row => row.folder.id === week.id)).toBe(false);
+
+    expect(getDescendantFolderIds(folders, course.id).sort()).toEqual([unit.id, week.id].sort());
+    expect(getFolderPath(folders, week.id).map(f => f.id)).toEqual([course.id, unit.id, week.id]);
+  });
+
+  it('moves folders between parents but never into their own subtree', async () => {
+    const { course, unit, week } = await seedCourse('Move');
+
+    await expect(moveFolder(course.id, week.id)).rejects.toThrow(/itself or one of its subfolders/);
+    await expect(moveFolder(unit.id, unit.id)).rejects.toThrow(/itself or one of its subfolders/);
+
+    const moved = await moveFolder(week.id, course.id);
+    expect(moved.find(f => f.id === week.id)?.parentId).toBe(course.id);
+    const topLevel = await moveFolder(unit.id, null);
+    expect(topLevel.find(f => f.id === unit.id)?.parentId).toBeNull();
+  });
+
+  it('trashes and restores a folder together with its subfolders', async () => {
+    const { course, unit, week } = await seedCourse('Trash');
+
+    await trashFolder(unit.id);
+
+    const folders = await loadFolders();
+    expect(folders.some(f => f.id === course.id)).toBe(true);
+    expect(folders.some(f => f.id === unit.id || f.id === week.id)).toBe(false);
+    const purgedFolders = (await loadPendingChunkPurges()).map(purge => purge.folderId);
+    expect(purgedFolders).toEqual(expect.arrayContaining([unit.id, week.id]));
+    const items = await loadTrashItems();
+    expect(items.some(item => item.id === unit.id)).toBe(true);
+    expect(items.some(item => item.id === week.id)).toBe(false);
+
+    await restoreTrashItem(items.find(item => item.id === unit.id)!);
+    const restored = await loadFolders();
+    expect(restored.some(f => f.id === week.id)).toBe(true);
+  });
+
+  it('deletes subfolders and their notes with the folder', async () => {
+    const { course, week } = await seedCourse('Delete');
+    const [note] = await createNote(week.id, 'Week note');
+
+    const remaining = await deleteFolder(course.id);
+
+    expect(remaining.some(f => f.name.startsWith('Delete'))).toBe(false);
+    expect(await getNoteById(note.id)).toBeNull();
+  });
+});
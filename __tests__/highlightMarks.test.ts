@@ -0,0 +1,23 @@
+import {
+  hasHighlightMark,
+  HIGHLIGHT_MARK_CLOSE,
+  HIGHLIGHT_MARK_OPEN,
+} from '../supabase/functions/_shared/highlightMarks';
+
+const mark = (text: string) => `${HIGHLIGHT_MARK_OPEN}${text}${HIGHLIGHT_MARK_CLOSE}`;
+
+describe('hasHighlightMark', () => {
+  it('finds highlighted equations that contain equals signs', () => {
+    expect(hasHighlightMark(`Newton: ${mark('F = ma')}`)).toBe(true);
+    expect(hasHighlightMark(mark('E = mc^2'))).toBe(true);
+    expect(hasHighlightMark(mark('a == b'))).toBe(true);
+    expect(hasHighlightMark(`Key result:\n${mark('v = u + at')} holds`)).toBe(true);
+  });
+
+  it('ignores unmarked comparisons and unbalanced marks', () => {
+    expect(hasHighlightMark('a == b == c')).toBe(false);
+    expect(hasHighlightMark('==F = ma==')).toBe(false);
+    expect(hasHighlightMark(`${HIGHLIGHT_MARK_OPEN}F = ma`)).toBe(false);
+    expect(hasHighlightMark(mark(''))).toBe(false);
+  });
+});
@@ -0,0 +1,199 @@
+import {
+  MAX_IMPORT_PAGES,
+  parseInkml,
+  parseTracePoints,
+  renderPagesToInkml,
+} from '../src/utils/inkml';
+import { DrawingData } from '../src/types/models';
+
+const PAGES: DrawingData[] = [
+  {
+    version: 1,
+    strokes: [
+      {
+        id: 'a',
+        points: [
+          { x: 10, y: 20 },
+          { x: 30.5, y: 40.25 },
+        ],
+        color: '#ff0000',
+        width: 2,
+        tool: 'pen',
+        timestamp: 1000,
+      },
+      {
+        id: 'b',
+        points: [{ x: 5, y: 5 }],
+        color: '#111111',
+        width: 3,
+        tool: 'pen',
+        timestamp: 1500,
+      },
+    ],
+  },
+  { version: 1, strokes: [] },
+  {
+    version: 1,
+    strokes: [
+      {
+        id: 'c',
+        points: [
+          { x: 1, y: 2 },
+          { x: 3, y: 4 },
+          { x: 5, y: 6 },
+        ],
+        color: '#ff0000',
+        width: 2,
+        tool: 'pen',
+        timestamp: 2000,
+      },
+    ],
+  },
+];
+
+describe('inkml', () => {
+  it('round-trips pages, points, brushes and timestamps', () => {
+    const xml = renderPagesToInkml(PAGES, 'Lecture <3> & notes');
+    const parsed = parseInkml(xml);
+
+    expect(parsed.title).toBe('Lecture <3> & notes');
+    expect(parsed.pages).toHaveLength(3);
+    parsed.pages.forEach((page, pageIndex) => {
+      expect(page.strokes).toHaveLength(PAGES[pageIndex].strokes.length);
+      page.strokes.forEach((stroke, i) => {
+        const original = PAGES[pageIndex].strokes[i];
+        expect(stroke.points).toEqual(original.points);
+        expect(stroke.color).toBe(original.color);
+        expect(stroke.width).toBe(original.width);
+        expect(stroke.timestamp).toBe(original.timestamp);
+      });
+    });
+  });
+
+  it('shares one brush between strokes with the same color and width', () => {
+    const xml = renderPagesToInkml(PAGES);
+    expect(xml.match(/<brush /g)).toHaveLength(2);
+  });
+
+  it('round-trips pressure, point times and highlighter strokes', () => {
+    const pages: DrawingData[] = [
+      {
+        version: 2,
+        strokes: [
+          {
+            id: 'pen',
+            points: [
+              { x: 10, y: 20, pressure: 0.25, t: 0 },
+              { x: 12, y: 22, pressure: 0.5, t: 16 },
+              { x: 14, y: 24, t: 33 },
+              { x: 16, y: 26 },
+            ],
+            color: '#ff0000',
+            width: 2,
+            tool: 'pen',
+            timestamp: 1000,
+          },
+          {
+            id: 'highlight',
+            points: [
+              { x: 0, y: 50, t: 0 },
+              { x: 100, y: 50, t: 120 },
+            ],
+            color: '#ff0000',
+            width: 2,
+            tool: 'highlighter',
+            timestamp: 2000,
+          },
+        ],
+      },
+    ];
+
+    const xml = renderPagesToInkml(pages);
+    const [page] = parseInkml(xml).pages;
+
+    // Same color and width, but the highlighter gets its own brush
+    expect(xml.match(/<brush /g)).toHaveLength(2);
+    expect(page.version).toBe(2);
+    expect(page.strokes.map(stroke => stroke.tool)).toEqual(['pen', 'highlighter']);
+    page.strokes.forEach((stroke, i) => {
+      expect(stroke.points).toEqual(pages[0].strokes[i].points);
+    });
+  });
+
+  it('reads pressure and time in the channel order of the trace format', () => {
+    const xml = `<ink xmlns="http://www.w3.org/2003/InkML">
+      <definitions>
+        <context xml:id="ctx0">
+          <traceFormat>
+            <channel name="X" type="decimal"/>
+            <channel name="Y" type="decimal"/>
+            <channel name="T" type="decimal" units="ms"/>
+            <channel name="F" type="integer" min="0" max="1024"/>
+          </traceFormat>
+        </context>
+      </definitions>
+      <trace>10 20 0 512, '1'1'8'256, * * !20 ?</trace>
+    </ink>`;
+
+    expect(parseInkml(xml).pages[0].strokes[0].points).toEqual([
+      { x: 10, y: 20, t: 0, pressure: 0.5 },
+      { x: 11, y: 21, t: 8, pressure: 0.75 },
+      { x: 11, y: 21, t: 20 },
+    ]);
+  });
+
+  it('decodes difference-encoded traces', () => {
+    expect(parseTracePoints("10 10, '2'3, 2 3, \"1\"0")).toEqual([
+      { x: 10, y: 10 },
+      { x: 12, y: 13 },
+      { x: 14, y: 16 },
+      { x: 17, y: 19 },
+    ]);
+  });
+
+  it('puts traces from other tools on one page and fits them to the canvas', () => {
+    const xml = `<ink xmlns="http://www.w3.org/2003/InkML">
+      <trace>0 0, 2000 1000</trace>
+      <trace>1000 500, 1000 600 0.5</trace>
+    </ink>`;
+
+    const parsed = parseInkml(xml, { width: 1040, height: 1040 });
+
+    expect(parsed.pages).toHaveLength(1);
+    const [first, second] = parsed.pages[0].strokes;
+    expect(first.points).toEqual([
+      { x: 20, y: 20 },
+      { x: 1020, y: 520 },
+    ]);
+    expect(second.points[0]).toEqual({ x: 520, y: 270 });
+    expect(first.width).toBeCloseTo(1.5);
+  });
+
+  it('exports notes with more strokes than fit in an argument list', () => {
+    const strokes = Array.from({ length: 150000 }, (_, i) => ({
+      ...PAGES[0].strokes[1],
+      id: `s${i}`,
+      timestamp: 5000 - (i % 1000),
+    }));
+
+    const xml = renderPagesToInkml([{ version: 2, strokes }]);
+
+    expect(xml).toContain('<timestamp xml:id="ts0" time="4001"/>');
+  });
+
+  it('rejects page numbers beyond the import limit', () => {
+    const pageGroup = (id: number) =>
+      `<traceGroup xml:id="page-${id}"><trace>1 2, 3 4</trace></traceGroup>`;
+
+    expect(
+      parseInkml(`<ink>${pageGroup(MAX_IMPORT_PAGES)}</ink>`).pages,
+    ).toHaveLength(MAX_IMPORT_PAGES);
+    expect(() => parseInkml(`<ink>${pageGroup(MAX_IMPORT_PAGES + 1)}</ink>`)).toThrow();
+    expect(() => parseInkml(`<ink>${pageGroup(1e9)}</ink>`)).toThrow();
+  });
+
+  it('rejects files that are not InkML', () => {
+    expect(() => parseInkml('<svg></svg>')).toThrow();
+    expect(() => parseInkml('<ink></ink>')).toThrow();
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  getLassoBounds,
+  getStrokesInLasso,
+  isLassoClosedArea,
+  isStrokeInLasso,
+  pointInPolygon,
+} from '../src/utils/lasso';
+import { Point, Stroke } from '../src/types/models';
+
+// An L-shaped loop: the top-right corner of its bounding box is outside it
+const L_LASSO: Point[] = [
+  { x: 0, y: 0 },
+  { x: 20, y: 0 },
+  { x: 20, y: 80 },
+  { x: 100, y: 80 },
+  { x: 100, y: 100 },
+  { x: 0, y: 100 },
+];
+
+function makeStroke(id: string, points: Array<[number, number]>): Stroke {
+  return {
+    id,
+    tool: 'pen',
+    color: '#111111',
+    width: 3,
+    points: points.map(([x, y]) => ({ x, y })),
+    timestamp: 0,
+  };
+}
+
+describe('lasso selection', () => {
+  it('tests points against the polygon', () => {
+    expect(pointInPolygon({ x: 10, y: 50 }, L_LASSO)).toBe(true);
+    expect(pointInPolygon({ x: 60, y: 90 }, L_LASSO)).toBe(true);
+    expect(pointInPolygon({ x: 60, y: 40 }, L_LASSO)).toBe(false);
+    expect(pointInPolygon({ x: 120, y: 90 }, L_LASSO)).toBe(false);
+  });
+
+  it('measures the bounding box and rejects lassos without an area', () => {
+    expect(getLassoBounds(L_LASSO)).toEqual({ x: 0, y: 0, width: 100, height: 100 });
+    expect(isLassoClosedArea(L_LASSO, 5)).toBe(true);
+    expect(
+      isLassoClosedArea(
+        [
+          { x: 0, y: 0 },
+          { x: 50, y: 1 },
+          { x: 100, y: 2 },
+        ],
+        5,
+      ),
+    ).toBe(false);
+    expect(isLassoClosedArea([{ x: 0, y: 0 }], 5)).toBe(false);
+  });
+
+  it('selects strokes with most of their points inside', () => {
+    const inside = makeStroke('inside', [
+      [5, 10],
+      [10, 40],
+      [15, 70],
+    ]);
+    const mostlyInside = makeStroke('mostly', [
+      [50, 90],
+      [80, 90],
+      [110, 90],
+    ]);
+    const mostlyOutside = makeStroke('outside', [
+      [10, 50],
+      [40, 50],
+      [70, 50],
+    ]);
+    // Inside the bounding box, but not the lasso
+    const inCorner = makeStroke('corner', [
+      [60, 20],
+      [80, 40],
+    ]);
+
+    expect(isStrokeInLasso(inside, L_LASSO)).toBe(true);
+    expect(isStrokeInLasso(mostlyInside, L_LASSO)).toBe(true);
+    expect(isStrokeInLasso(mostlyOutside, L_LASSO)).toBe(false);
+    expect(isStrokeInLasso(inCorner, L_LASSO)).toBe(false);
+    expect(isStrokeInLasso(makeStroke('empty', []), L_LASSO)).toBe(false);
+
+    expect(
+      getStrokesInLasso([inCorner, mostlyInside, mostlyOutside, inside], L_LASSO).map(
+        stroke => stroke.id,
+      ),
+    ).toEqual(['mostly', 'inside']);
+  });
+});
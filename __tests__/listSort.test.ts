@@ -0,0 +1,114 @@
+import { createFolder, deleteFolder, loadFolders, updateFolder } from '../src/storage/folders';
+import { createNote, getNoteById, markNoteOpened, updateNote } from '../src/storage/notes';
+import { createPage, loadPagesByNote } from '../src/storage/pages';
+import { saveDrawingData } from '../src/storage/drawings';
+import { loadListSort, saveListSort } from '../src/storage/listSort';
+import { sortItems } from '../src/utils/listSort';
+import { DrawingData } from '../src/types/models';
+
+const DRAWING: DrawingData = {
+  version: 1,
+  strokes: [
+    {
+      id: 'stroke-1',
+      points: [
+        { x: 1, y: 2 },
+        { x: 3, y: 4 },
+      ],
+      color: '#111111',
+      width: 3,
+      tool: 'pen',
+      timestamp: 1,
+    },
+  ],
+};
+
+function item(name: string, createdAt: number, updatedAt: number, lastOpenedAt: number | null) {
+  return { name, createdAt, updatedAt, lastOpenedAt };
+}
+
+describe('item details and list sorting', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('sorts by name, created, modified and opened', () => {
+    const items = [
+      item('Week 10', 1, 30, null),
+      item('week 2', 2, 10, 500),
+      item('Algebra', 3, 20, 900),
+    ];
+    const names = (sort: Parameters<typeof sortItems>[1]) =>
+      sortItems(items, sort, i => i.name).map(i => i.name);
+
+    expect(names('name')).toEqual(['Algebra', 'week 2', 'Week 10']);
+    expect(names('created')).toEqual(['Week 10', 'week 2', 'Algebra']);
+    expect(names('modified')).toEqual(['Week 10', 'Algebra', 'week 2']);
+    expect(names('opened')).toEqual(['Algebra', 'week 2', 'Week 10']);
+    // The input list is left alone
+    expect(items[0].name).toBe('Week 10');
+  });
+
+  it('renames folders and notes and saves their details', async () => {
+    const [folder] = (await createFolder('Details folder')).filter(
+      f => f.name === 'Details folder',
+    );
+    const folders = await updateFolder(folder.id, {
+      name: '  Physics  ',
+      description: 'Mechanics and waves',
+      color: '#FF9500',
+      courseCode: 'PHYS 101',
+    });
+    expect(folders.find(f => f.id === folder.id)).toMatchObject({
+      name: 'Physics',
+      description: 'Mechanics and waves',
+      color: '#FF9500',
+      courseCode: 'PHYS 101',
+    });
+
+    const [note] = await createNote(folder.id, 'Lecture');
+    const notes = await updateNote(folder.id, note.id, { title: 'Lecture 1', courseCode: null });
+    expect(notes[0]).toMatchObject({ title: 'Lecture 1', courseCode: null, description: null });
+
+    expect(note.lastOpenedAt).toBeNull();
+    await markNoteOpened(note.id);
+    expect((await getNoteById(note.id))?.lastOpenedAt).toEqual(expect.any(Number));
+  });
+
+  it('bumps a note as modified only when a drawing actually changes', async () => {
+    const [folder] = (await createFolder('Modified folder')).filter(
+      f => f.name === 'Modified folder',
+    );
+    const [note] = await createNote(folder.id, 'Drawn note');
+    await createPage(note.id);
+    const [page] = await loadPagesByNote(note.id);
+    const nowSpy = jest.spyOn(Date, 'now');
+
+    nowSpy.mockReturnValue(note.updatedAt + 1000);
+    await saveDrawingData(page.id, DRAWING);
+    expect((await getNoteById(note.id))?.updatedAt).toBe(note.updatedAt + 1000);
+
+    nowSpy.mockReturnValue(note.updatedAt + 2000);
+    await saveDrawingData(page.id, DRAWING);
+    expect((await getNoteById(note.id))?.updatedAt).toBe(note.updatedAt + 1000);
+
+    nowSpy.mockRestore();
+  });
+
+  it('remembers the sort per folder and forgets it when the folder is deleted', async () => {
+    const [folder] = (await createFolder('Sorted folder')).filter(
+      f => f.name === 'Sorted folder',
+    );
+
+    expect(await loadListSort(folder.id)).toBe('created');
+    await saveListSort(folder.id, 'name');
+    await saveListSort(null, 'opened');
+    expect(await loadListSort(folder.id)).toBe('name');
+    expect(await loadListSort(null)).toBe('opened');
+
+    await deleteFolder(folder.id);
+    expect((await loadFolders()).some(f => f.id === folder.id)).toBe(false);
+    expect(await loadListSort(folder.id)).toBe('created');
+    expect(await loadListSort(null)).toBe('opened');
+  });
+});
@@ -0,0 +1,87 @@
+import { createFolder } from '../src/storage/folders';
+import { copyNote, createNote, getNoteById, loadNotesByFolder, moveNote } from '../src/storage/notes';
+import {
+  createPage,
+  loadPagesByNote,
+  trashPage,
+  updatePageIndexStatus,
+} from '../src/storage/pages';
+import { loadDrawingData, saveDrawingData } from '../src/storage/drawings';
+import { loadPaperSettings, savePaperSettings } from '../src/storage/paperSettings';
+import { loadPendingChunkFolderMoves } from '../src/storage/chunkFolderMoves';
+import { DrawingData } from '../src/types/models';
+
+const DRAWING: DrawingData = {
+  version: 1,
+  strokes: [
+    {
+      id: 'stroke-1',
+      points: [
+        { x: 1, y: 2 },
+        { x: 3, y: 4 },
+      ],
+      color: '#111111',
+      width: 3,
+      tool: 'pen',
+      timestamp: 1,
+    },
+  ],
+};
+
+async function seedFolders(prefix: string) {
+  await createFolder(`${prefix} A`);
+  const folders = await createFolder(`${prefix} B`);
+  const source = folders.find(f => f.name === `${prefix} A`)!;
+  const target = folders.find(f => f.name === `${prefix} B`)!;
+  const [note] = await createNote(source.id, `${prefix} note`);
+  await createPage(note.id);
+  await createPage(note.id);
+  const pages = await loadPagesByNote(note.id);
+  return { source, target, note, pages };
+}
+
+describe('moving and copying notes', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('moves a note and queues its chunks for the new folder', async () => {
+    const { source, target, note, pages } = await seedFolders('Move');
+    await trashPage(note.id, pages[0].id);
+
+    const remaining = await moveNote(source.id, note.id, target.id);
+
+    expect(remaining).toEqual([]);
+    expect((await getNoteById(note.id))?.folderId).toBe(target.id);
+    expect((await loadNotesByFolder(target.id)).map(n => n.id)).toEqual([note.id]);
+    const moves = (await loadPendingChunkFolderMoves()).filter(move =>
+      pages.some(page => page.id === move.pageId),
+    );
+    expect(moves.map(move => [move.pageId, move.folderId])).toEqual([[pages[1].id, target.id]]);
+  });
+
+  it('copies pages, drawings and paper settings into unindexed pages', async () => {
+    const { source, target, note, pages } = await seedFolders('Copy');
+    await saveDrawingData(pages[1].id, DRAWING);
+    await savePaperSettings(pages[1].id, { background: 'lined', lineSpacing: 'wide' });
+    await updatePageIndexStatus(pages[1].id, 'done', 1, null, 'hash');
+
+    const copy = await copyNote(note.id, target.id);
+
+    expect(copy).toMatchObject({ folderId: target.id, title: 'Copy note' });
+    const copiedPages = await loadPagesByNote(copy.id);
+    expect(copiedPages.map(page => page.pageIndex)).toEqual([0, 1]);
+    expect(copiedPages.some(page => pages.some(p => p.id === page.id))).toBe(false);
+    expect(copiedPages.every(page => page.indexStatus === 'none')).toBe(true);
+    expect(await loadDrawingData(copiedPages[1].id)).toEqual(DRAWING);
+    expect(await loadPaperSettings(copiedPages[1].id)).toEqual({
+      background: 'lined',
+      lineSpacing: 'wide',
+    });
+    // The original stays where it was
+    expect((await loadNotesByFolder(source.id)).map(n => n.id)).toEqual([note.id]);
+
+    const sameFolderCopy = await copyNote(note.id, source.id);
+    expect(sameFolderCopy.title).toBe('Copy note (Copy)');
+  });
+});
@@ -0,0 +1,150 @@
+import {
+  assignLegacyPageSize,
+  createPage,
+  deletePage,
+  duplicatePage,
+  insertPage,
+  loadPagesByNote,
+  movePage,
+  updatePageSize,
+} from '../src/storage/pages';
+import { execute } from '../src/storage/db';
+import { loadDrawingData, saveDrawingData } from '../src/storage/drawings';
+import { loadPaperSettings, savePaperSettings } from '../src/storage/paperSettings';
+import { loadPageView, savePageView } from '../src/storage/pageViews';
+import { loadPendingChunkPurges } from '../src/storage/chunkPurges';
+import { loadPendingChunkPageIndexes } from '../src/storage/chunkPageIndexes';
+import { DEFAULT_PAGE_SIZE, DrawingData, PAGE_SIZE_PRESETS } from '../src/types/models';
+
+const DRAWING: DrawingData = {
+  version: 1,
+  strokes: [
+    {
+      id: 'stroke-1',
+      points: [
+        { x: 1, y: 2 },
+        { x: 3, y: 4 },
+      ],
+      color: '#111111',
+      width: 3,
+      tool: 'pen',
+      timestamp: 1,
+    },
+  ],
+};
+
+async function createPages(noteId: string, count: number): Promise<string[]> {
+  for (let i = 0; i < count; i += 1) {
+    await createPage(noteId);
+  }
+  const pages = await loadPagesByNote(noteId);
+  return pages.map(page => page.id);
+}
+
+function pendingIndexFor(pageId: string) {
+  return loadPendingChunkPageIndexes().then(
+    pending => pending.find(update => update.pageId === pageId)?.pageIndex,
+  );
+}
+
+describe('page management', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('inserts a blank page and shifts the pages after it', async () => {
+    const [a, b] = await createPages('note-insert', 2);
+
+    const pages = await insertPage('note-insert', 1);
+
+    expect(pages.map(page => page.pageIndex)).toEqual([0, 1, 2]);
+    expect(pages[0].id).toBe(a);
+    expect(pages[2].id).toBe(b);
+    expect(await pendingIndexFor(b)).toBe(2);
+    expect(await pendingIndexFor(pages[1].id)).toBeUndefined();
+  });
+
+  it('deletes a page, its drawing and its server chunks', async () => {
+    const [a, b, c] = await createPages('note-delete', 3);
+    await saveDrawingData(b, DRAWING);
+    await savePageView(b, { zoom: 2, offsetX: -40, offsetY: -10 });
+    expect(await loadPageView(b)).toEqual({ zoom: 2, offsetX: -40, offsetY: -10 });
+
+    const pages = await deletePage('note-delete', b);
+
+    expect(pages.map(page => [page.id, page.pageIndex])).toEqual([
+      [a, 0],
+      [c, 1],
+    ]);
+    expect(await loadDrawingData(b)).toBeNull();
+    expect(await loadPageView(b)).toEqual({ zoom: 1, offsetX: 0, offsetY: 0 });
+    expect(await pendingIndexFor(c)).toBe(1);
+    const purges = await loadPendingChunkPurges();
+    expect(purges.some(purge => purge.sourceIds?.includes(b))).toBe(true);
+  });
+
+  it('moves a page and keeps indexes contiguous', async () => {
+    const [a, b, c] = await createPages('note-move', 3);
+
+    const pages = await movePage('note-move', a, 2);
+
+    expect(pages.map(page => page.id)).toEqual([b, c, a]);
+    expect(pages.map(page => page.pageIndex)).toEqual([0, 1, 2]);
+    expect(await pendingIndexFor(a)).toBe(2);
+    expect(await pendingIndexFor(b)).toBe(0);
+  });
+
+  it('duplicates a page with its drawing and paper settings', async () => {
+    const [a, b] = await createPages('note-duplicate', 2);
+    await Promise.all([
+      saveDrawingData(a, DRAWING),
+      savePaperSettings(a, { background: 'lined', lineSpacing: 'narrow' }),
+    ]);
+
+    const pages = await duplicatePage('note-duplicate', a);
+
+    expect(pages).toHaveLength(3);
+    expect(pages[0].id).toBe(a);
+    expect(pages[2].id).toBe(b);
+    const copy = pages[1];
+    expect(copy.indexStatus).toBe('none');
+    expect(await loadDrawingData(copy.id)).toEqual(DRAWING);
+    expect(await loadPaperSettings(copy.id)).toEqual({
+      background: 'lined',
+      lineSpacing: 'narrow',
+    });
+  });
+
+  it('gives new pages the size of the pages around them', async () => {
+    const [a] = await createPages('note-size', 1);
+    expect((await loadPagesByNote('note-size'))[0].size).toEqual(DEFAULT_PAGE_SIZE);
+
+    const letter = { preset: 'letter' as const, ...PAGE_SIZE_PRESETS.letter };
+    expect((await updatePageSize(a, letter))?.size).toEqual(letter);
+
+    const inserted = await insertPage('note-size', 1);
+    expect(inserted[1].size).toEqual(letter);
+    const created = await createPage('note-size');
+    expect(created[2].size).toEqual(letter);
+  });
+
+  it('records the layout size of pages from before page sizes', async () => {
+    const [a, b] = await createPages('note-legacy-size', 2);
+    await execute(
+      'UPDATE pages SET page_size = NULL, page_width = NULL, page_height = NULL WHERE id = ?',
+      [a],
+    );
+    expect((await loadPagesByNote('note-legacy-size'))[0].size).toBeNull();
+
+    // A duplicate's ink is in the same coordinates, so it stays unsized too
+    const pages = await duplicatePage('note-legacy-size', a);
+    expect(pages[1].size).toBeNull();
+
+    const page = await assignLegacyPageSize(a, { width: 820, height: 1100 });
+    expect(page?.size).toEqual({ preset: 'custom', width: 820, height: 1100 });
+
+    // Pages that already have a size keep it
+    const sized = await assignLegacyPageSize(b, { width: 820, height: 1100 });
+    expect(sized?.size).toEqual(DEFAULT_PAGE_SIZE);
+  });
+});
@@ -0,0 +1,69 @@
+import {
+  loadPageSnapshots,
+  MAX_SNAPSHOTS_PER_PAGE,
+  savePageSnapshot,
+} from '../src/storage/pageSnapshots';
+import { createPage, deletePage, loadPagesByNote } from '../src/storage/pages';
+import { DrawingData } from '../src/types/models';
+
+function drawingWithStrokes(count: number): DrawingData {
+  return {
+    version: 1,
+    strokes: Array.from({ length: count }, (_, i) => ({
+      id: `stroke-${i}`,
+      points: [
+        { x: i, y: i },
+        { x: i + 1, y: i + 1 },
+      ],
+      color: '#111111',
+      width: 3,
+      tool: 'pen' as const,
+      timestamp: i,
+    })),
+  };
+}
+
+describe('page snapshots', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('skips snapshots identical to the latest one', async () => {
+    expect(await savePageSnapshot('page-dedupe', drawingWithStrokes(1), 'interval')).toBe(true);
+    expect(await savePageSnapshot('page-dedupe', drawingWithStrokes(1), 'pageLeave')).toBe(false);
+    expect(await savePageSnapshot('page-dedupe', drawingWithStrokes(2), 'interval')).toBe(true);
+    // Going back to an earlier state is a new version
+    expect(await savePageSnapshot('page-dedupe', drawingWithStrokes(1), 'background')).toBe(true);
+
+    const snapshots = await loadPageSnapshots('page-dedupe');
+    expect(snapshots.map(snapshot => snapshot.strokeCount)).toEqual([1, 2, 1]);
+    expect(snapshots[0].reason).toBe('background');
+    expect(snapshots[0].drawingData).toEqual(drawingWithStrokes(1));
+  });
+
+  it('does not snapshot a page that never had content', async () => {
+    expect(await savePageSnapshot('page-empty', drawingWithStrokes(0), 'interval')).toBe(false);
+    expect(await loadPageSnapshots('page-empty')).toEqual([]);
+  });
+
+  it('keeps only the newest snapshots per page', async () => {
+    for (let i = 1; i <= MAX_SNAPSHOTS_PER_PAGE + 5; i += 1) {
+      await savePageSnapshot('page-cap', drawingWithStrokes(i), 'interval');
+    }
+
+    const snapshots = await loadPageSnapshots('page-cap');
+    expect(snapshots).toHaveLength(MAX_SNAPSHOTS_PER_PAGE);
+    expect(snapshots[0].strokeCount).toBe(MAX_SNAPSHOTS_PER_PAGE + 5);
+    expect(snapshots[snapshots.length - 1].strokeCount).toBe(6);
+  });
+
+  it('deletes snapshots with their page', async () => {
+    await createPage('note-snapshots');
+    const [page] = await loadPagesByNote('note-snapshots');
+    await savePageSnapshot(page.id, drawingWithStrokes(1), 'pageLeave');
+
+    await deletePage('note-snapshots', page.id);
+
+    expect(await loadPageSnapshots(page.id)).toEqual([]);
+  });
+});
@@ -0,0 +1,56 @@
+import { execute } from '../src/storage/db';
+import {
+  addPenPreset,
+  deletePenPreset,
+  loadPenPresets,
+  loadPenStyle,
+  MAX_PEN_PRESETS,
+  savePenStyle,
+} from '../src/storage/penSettings';
+import { DEFAULT_PEN_STYLE } from '../src/types/models';
+
+describe('pen settings', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('remembers the active pen style', async () => {
+    expect(await loadPenStyle()).toEqual(DEFAULT_PEN_STYLE);
+
+    await savePenStyle({ color: '#FF3B30', width: 5 });
+
+    expect(await loadPenStyle()).toEqual({ color: '#FF3B30', width: 5 });
+  });
+
+  it('falls back to the default style when the saved one is unreadable', async () => {
+    await execute("INSERT OR REPLACE INTO app_meta (key, value) VALUES ('pen_style', '{oops')");
+
+    expect(await loadPenStyle()).toEqual(DEFAULT_PEN_STYLE);
+  });
+
+  it('saves and deletes presets, starting from the built-in ones', async () => {
+    const builtIn = await loadPenPresets();
+    expect(builtIn.map(preset => preset.name)).toEqual(['Pen', 'Forces', 'Velocities']);
+
+    const added = await addPenPreset('  Accelerations ', { color: '#34C759', width: 1.5 });
+    const preset = added[added.length - 1];
+    expect(preset).toMatchObject({ name: 'Accelerations', color: '#34C759', width: 1.5 });
+    expect(await loadPenPresets()).toEqual(added);
+
+    const remaining = await deletePenPreset(builtIn[0].id);
+    expect(remaining.map(p => p.name)).toEqual(['Forces', 'Velocities', 'Accelerations']);
+    expect(await loadPenPresets()).toEqual(remaining);
+  });
+
+  it('limits the number of presets', async () => {
+    const presets = await loadPenPresets();
+    for (let i = presets.length; i < MAX_PEN_PRESETS; i += 1) {
+      await addPenPreset(`Preset ${i}`, DEFAULT_PEN_STYLE);
+    }
+
+    await expect(addPenPreset('One too many', DEFAULT_PEN_STYLE)).rejects.toThrow(
+      `up to ${MAX_PEN_PRESETS}`,
+    );
+    await expect(addPenPreset('   ', DEFAULT_PEN_STYLE)).rejects.toThrow('name is required');
+  });
+});
@@ -0,0 +1,125 @@
+import { recognizeShape } from '../src/utils/shapeRecognition';
+import { Point } from '../src/types/models';
+
+// Hand-drawn-ish ink: points every few px along the corners, with a little wobble
+function trace(corners: Array<[number, number]>, wobble = 1): Point[] {
+  const points: Point[] = [];
+  for (let i = 1; i < corners.length; i += 1) {
+    const [x1, y1] = corners[i - 1];
+    const [x2, y2] = corners[i];
+    const steps = Math.max(1, Math.round(Math.hypot(x2 - x1, y2 - y1) / 4));
+    for (let s = i === 1 ? 0 : 1; s <= steps; s += 1) {
+      const t = s / steps;
+      const jitter = Math.sin(points.length * 1.7) * wobble;
+      points.push({ x: x1 + (x2 - x1) * t + jitter, y: y1 + (y2 - y1) * t - jitter });
+    }
+  }
+  return points;
+}
+
+function circle(cx: number, cy: number, rx: number, ry: number, sweep = 2 * Math.PI): Point[] {
+  const points: Point[] = [];
+  for (let i = 0; i <= 60; i += 1) {
+    const t = (sweep * i) / 60;
+    points.push({ x: cx + Math.cos(t) * rx, y: cy + Math.sin(t) * ry });
+  }
+  return points;
+}
+
+describe('shape recognition', () => {
+  it('straightens lines and snaps them to the axes', () => {
+    const shape = recognizeShape(trace([[10, 10], [200, 14]]));
+
+    expect(shape?.kind).toBe('line');
+    expect(shape?.points).toHaveLength(2);
+    expect(shape?.points[0]).toEqual({ x: 10, y: 10 });
+    expect(shape?.points[1].y).toBeCloseTo(10);
+
+    // A diagonal line keeps its angle
+    const diagonal = recognizeShape(trace([[0, 0], [100, 60]], 0));
+    expect(diagonal?.kind).toBe('line');
+    expect(diagonal?.points[1].x).toBeCloseTo(100, 0);
+    expect(diagonal?.points[1].y).toBeCloseTo(60, 0);
+  });
+
+  it('recognizes open polylines', () => {
+    const shape = recognizeShape(trace([[0, 0], [100, 0], [100, 80], [200, 80]]));
+
+    expect(shape?.kind).toBe('polyline');
+    expect(shape?.points).toHaveLength(4);
+  });
+
+  it('recognizes rectangles and squares them up', () => {
+    const shape = recognizeShape(trace([[20, 20], [180, 22], [182, 120], [18, 118], [22, 24]]));
+
+    expect(shape?.kind).toBe('rectangle');
+    expect(shape?.points).toHaveLength(5);
+    const [topLeft, topRight, bottomRight, bottomLeft] = shape?.points ?? [];
+    expect(topLeft.y).toBeCloseTo(topRight.y);
+    expect(topRight.x).toBeCloseTo(bottomRight.x);
+    expect(bottomRight.y).toBeCloseTo(bottomLeft.y);
+    expect(shape?.points[4]).toEqual(topLeft);
+  });
+
+  it('recognizes triangles', () => {
+    const shape = recognizeShape(trace([[100, 10], [180, 150], [20, 150], [98, 14]]));
+
+    expect(shape?.kind).toBe('triangle');
+    expect(shape?.points).toHaveLength(4);
+    expect(shape?.points[3]).toEqual(shape?.points[0]);
+  });
+
+  it('recognizes circles and ellipses', () => {
+    const round = recognizeShape(circle(100, 100, 50, 48));
+    expect(round?.kind).toBe('ellipse');
+    const first = round?.points[0] as Point;
+    expect(Math.hypot(first.x - 100, first.y - 100)).toBeCloseTo(49, 0);
+
+    const oval = recognizeShape(circle(100, 100, 80, 30));
+    expect(oval?.kind).toBe('ellipse');
+    const xs = (oval?.points ?? []).map(point => point.x);
+    expect(Math.max(...xs) - Math.min(...xs)).toBeCloseTo(160, 0);
+  });
+
+  it('recognizes single-stroke arrows with a symmetrical head', () => {
+    const shape = recognizeShape(
+      trace([[0, 100], [200, 100], [175, 85], [200, 101], [172, 118]]),
+    );
+
+    expect(shape?.kind).toBe('arrow');
+    const [tail, tip, barb1, tipAgain, barb2] = shape?.points ?? [];
+    expect(tip).toEqual(tipAgain);
+    expect(Math.hypot(barb1.x - tip.x, barb1.y - tip.y)).toBeCloseTo(
+      Math.hypot(barb2.x - tip.x, barb2.y - tip.y),
+    );
+    expect(barb1.x).toBeLessThan(tip.x);
+    expect(barb2.x).toBeLessThan(tip.x);
+    expect(tail.x).toBeLessThan(10);
+  });
+
+  it('leaves curves, scribbles and tiny strokes alone', () => {
+    // Half a circle is a curve, not a polyline
+    expect(recognizeShape(circle(100, 100, 60, 60, Math.PI))).toBeNull();
+
+    const wave: Point[] = [];
+    for (let x = 0; x <= 200; x += 4) {
+      wave.push({ x, y: 50 + Math.sin(x / 10) * 20 });
+    }
+    expect(recognizeShape(wave)).toBeNull();
+
+    expect(recognizeShape(trace([[0, 0], [6, 5], [10, 0]], 0))).toBeNull();
+    expect(recognizeShape([{ x: 5, y: 5 }])).toBeNull();
+  });
+
+  it('drops pressure and time from the clean shape', () => {
+    const points = trace([[10, 10], [200, 10]]).map((point, i) => ({
+      ...point,
+      pressure: 0.5,
+      t: i * 16,
+    }));
+
+    expect(recognizeShape(points)?.points.every(point => point.pressure === undefined)).toBe(
+      true,
+    );
+  });
+});
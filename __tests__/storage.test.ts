@@ -0,0 +1,326 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { purgeChunks } from '../src/ai/apiClient';
+import { flushPendingChunkSync } from '../src/ai/chunkSyncService';
+import { execute, placeholders, queryAll } from '../src/storage/db';
+import { MIGRATIONS } from '../src/storage/migrations';
+import { loadPendingChunkPurges } from '../src/storage/chunkPurges';
+import { createFolder, deleteFolder, loadFolders, updateFolder } from '../src/storage/folders';
+import { createNote, deleteNote, getNoteById, loadNotesByFolder } from '../src/storage/notes';
+import {
+  assignLegacyPageSize,
+  createPage,
+  ensurePageExists,
+  getPageById,
+  loadPagesByNote,
+  updatePageIndexStatus,
+} from '../src/storage/pages';
+import { loadDrawingData, saveDrawingData } from '../src/storage/drawings';
+import { loadPaperSettings, savePaperSettings } from '../src/storage/paperSettings';
+import { savePageView } from '../src/storage/pageViews';
+import { setNoteTags } from '../src/storage/tags';
+import { loadListSort, saveListSort } from '../src/storage/listSort';
+import { DrawingData } from '../src/types/models';
+
+// Chunk sync requests succeed unless a test says otherwise
+jest.mock('../src/ai/apiClient', () => {
+  const ok = async () => ({ ok: true, data: { chunksDeleted: 0, chunksUpdated: 0 } });
+  return {
+    purgeChunks: jest.fn(ok),
+    updateChunkFolders: jest.fn(ok),
+    updateChunkPageIndexes: jest.fn(ok),
+    updateChunkTags: jest.fn(ok),
+  };
+});
+
+const LEGACY_FOLDER = { id: 'legacy-folder', name: 'Old Folder', createdAt: 1, updatedAt: 2 };
+const LEGACY_NOTE = {
+  id: 'legacy-note',
+  folderId: 'legacy-folder',
+  title: 'Old Note',
+  createdAt: 3,
+  updatedAt: 4,
+};
+const LEGACY_PAGE = {
+  id: 'legacy-page',
+  noteId: 'legacy-note',
+  pageIndex: 0,
+  createdAt: 5,
+  updatedAt: 6,
+  indexStatus: 'done',
+  indexedAt: 7,
+  indexError: null,
+  lastIndexedHash: 'hash',
+};
+const LEGACY_DRAWING: DrawingData = {
+  version: 1,
+  strokes: [
+    {
+      id: 'legacy-stroke',
+      points: [
+        { x: 1, y: 2 },
+        { x: 3, y: 4 },
+      ],
+      color: '#000000',
+      width: 2,
+      tool: 'pen',
+      timestamp: 8,
+    },
+  ],
+};
+
+/**
+ * Count the rows left behind for pages, notes and folders, per table
+ */
+async function countRows(pageIds: string[], noteIds: string[], folderIds: string[]) {
+  const tables: [string, string, string[]][] = [
+    ['pages', 'id', pageIds],
+    ['page_drawings', 'page_id', pageIds],
+    ['paper_settings', 'page_id', pageIds],
+    ['page_views', 'page_id', pageIds],
+    ['notes', 'id', noteIds],
+    ['note_tags', 'note_id', noteIds],
+    ['folders', 'id', folderIds],
+  ];
+  const counts: Record<string, number> = {};
+  for (const [table, column, ids] of tables) {
+    const [row] = await queryAll(
+      `SELECT COUNT(*) AS count FROM ${table} WHERE ${column} IN (${placeholders(ids.length)})`,
+      ids,
+    );
+    counts[table] = row.count as number;
+  }
+  return counts;
+}
+
+// countRows result once everything is deleted
+const NO_ROWS = {
+  pages: 0,
+  page_drawings: 0,
+  paper_settings: 0,
+  page_views: 0,
+  notes: 0,
+  note_tags: 0,
+  folders: 0,
+};
+
+/**
+ * Create a note with two pages that have a drawing, paper settings, a saved
+ * view and a tag. Returns the page ids.
+ */
+async function seedNote(folderId: string, title: string) {
+  const notes = await createNote(folderId, title);
+  const note = notes.find(n => n.title === title)!;
+  await createPage(note.id);
+  const pages = await createPage(note.id);
+  for (const page of pages) {
+    await saveDrawingData(page.id, LEGACY_DRAWING);
+    await savePaperSettings(page.id, { background: 'lined', lineSpacing: 'medium' });
+    await savePageView(page.id, { zoom: 2, offsetX: 10, offsetY: 20 });
+  }
+  await setNoteTags(note.id, ['exam']);
+  return { note, pageIds: pages.map(p => p.id) };
+}
+
+describe('SQLite storage', () => {
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    // Seeded before the first query so database initialization imports it
+    await AsyncStorage.multiSet([
+      ['@folders', JSON.stringify([LEGACY_FOLDER])],
+      ['@notes', JSON.stringify([LEGACY_NOTE])],
+      ['@pages', JSON.stringify([LEGACY_PAGE])],
+      ['@pageDrawings', JSON.stringify({ 'legacy-page': JSON.stringify(LEGACY_DRAWING) })],
+      ['@paperSettings', JSON.stringify({ 'legacy-page': { background: 'lined', lineSpacing: 'wide' } })],
+    ]);
+  });
+
+  it('applies every migration on first open', async () => {
+    const [row] = await queryAll('PRAGMA user_version');
+    const latest = Math.max(...MIGRATIONS.map(migration => migration.version));
+
+    expect(row.user_version).toBe(latest);
+  });
+
+  it('imports legacy AsyncStorage data once and removes it', async () => {
+    expect(await loadFolders()).toEqual(
+      expect.arrayContaining([expect.objectContaining(LEGACY_FOLDER)]),
+    );
+    expect(await loadNotesByFolder('legacy-folder')).toEqual([
+      expect.objectContaining(LEGACY_NOTE),
+    ]);
+    expect(await getPageById('legacy-page')).toMatchObject(LEGACY_PAGE);
+    expect(await loadDrawingData('legacy-page')).toEqual(LEGACY_DRAWING);
+    expect(await loadPaperSettings('legacy-page')).toEqual({
+      background: 'lined',
+      lineSpacing: 'wide',
+    });
+    expect(await AsyncStorage.getItem('@folders')).toBeNull();
+  });
+
+  it('keeps pages from before page sizes unsized until their layout is recorded', async () => {
+    // Legacy pages were drawn on a landscape canvas, not an A4 page
+    expect((await getPageById('legacy-page'))?.size).toBeNull();
+
+    const landscape = { width: 1180, height: 820 };
+    const page = await assignLegacyPageSize('legacy-page', landscape);
+    expect(page?.size).toEqual({ preset: 'custom', ...landscape });
+
+    // A later layout, e.g. after rotating, does not replace the recorded one
+    await assignLegacyPageSize('legacy-page', { width: 820, height: 1180 });
+    expect((await getPageById('legacy-page'))?.size).toEqual({ preset: 'custom', ...landscape });
+    const [next] = (await createPage('legacy-note')).slice(1);
+    expect(next.size).toEqual({ preset: 'custom', ...landscape });
+  });
+
+  it('creates, renames and lists folders and notes', async () => {
+    const folders = await createFolder('  Physics  ');
+    const folder = folders.find(f => f.name === 'Physics')!;
+    expect(folder).toBeDefined();
+
+    const renamed = await updateFolder(folder.id, { name: 'Chemistry' });
+    expect(renamed.find(f => f.id === folder.id)?.name).toBe('Chemistry');
+
+    await createNote(folder.id, 'First');
+    const notes = await createNote(folder.id, 'Second');
+    expect(notes.map(n => n.title)).toEqual(['First', 'Second']);
+    expect(notes.every(n => n.folderId === folder.id)).toBe(true);
+  });
+
+  it('creates pages in order and updates their index status', async () => {
+    await createPage('note-pages');
+    await ensurePageExists('note-pages', 0);
+    const pages = await createPage('note-pages');
+    expect(pages.map(p => p.pageIndex)).toEqual([0, 1]);
+
+    await updatePageIndexStatus(pages[1].id, 'done', 100, null, 'abc');
+    await updatePageIndexStatus(pages[1].id, 'queued');
+
+    expect(await getPageById(pages[1].id)).toMatchObject({
+      indexStatus: 'queued',
+      indexedAt: 100,
+      indexError: null,
+      lastIndexedHash: 'abc',
+    });
+    expect(await loadPagesByNote('note-pages')).toHaveLength(2);
+  });
+
+  it('round-trips drawings and paper settings and replaces them on save', async () => {
+    expect(await loadDrawingData('page-round-trip')).toBeNull();
+    expect(await loadPaperSettings('page-round-trip')).toEqual({
+      background: 'blank',
+      lineSpacing: 'medium',
+    });
+
+    await saveDrawingData('page-round-trip', { version: 1, strokes: [] });
+    await saveDrawingData('page-round-trip', LEGACY_DRAWING);
+    await savePaperSettings('page-round-trip', { background: 'lined', lineSpacing: 'narrow' });
+
+    expect(await loadDrawingData('page-round-trip')).toEqual(LEGACY_DRAWING);
+    expect(await loadPaperSettings('page-round-trip')).toEqual({
+      background: 'lined',
+      lineSpacing: 'narrow',
+    });
+    const [{ count }] = await queryAll(
+      'SELECT COUNT(*) AS count FROM page_drawings WHERE page_id = ?',
+      ['page-round-trip'],
+    );
+    expect(count).toBe(1);
+  });
+
+  it('deletes a note with its pages, drawings and tags and queues its chunk purge', async () => {
+    const [folder] = (await createFolder('Cascade note')).filter(f => f.name === 'Cascade note');
+    const kept = await seedNote(folder.id, 'Kept');
+    const deleted = await seedNote(folder.id, 'Deleted');
+
+    const remaining = await deleteNote(folder.id, deleted.note.id);
+
+    expect(remaining.map(n => n.id)).toEqual([kept.note.id]);
+    expect(await getNoteById(deleted.note.id)).toBeNull();
+    expect(await countRows(deleted.pageIds, [deleted.note.id], [])).toEqual(NO_ROWS);
+    expect(await countRows(kept.pageIds, [kept.note.id], [folder.id])).toEqual({
+      pages: 2,
+      page_drawings: 2,
+      paper_settings: 2,
+      page_views: 2,
+      notes: 1,
+      note_tags: 1,
+      folders: 1,
+    });
+    expect(
+      (await loadPendingChunkPurges()).filter(purge =>
+        purge.sourceIds?.includes(deleted.pageIds[0]),
+      ),
+    ).toEqual([expect.objectContaining({ folderId: null, sourceIds: deleted.pageIds })]);
+  });
+
+  it('deletes a folder subtree with its notes, pages and list sorts and queues a purge per folder', async () => {
+    const [course] = (await createFolder('Cascade course')).filter(
+      f => f.name === 'Cascade course',
+    );
+    const [unit] = (await createFolder('Cascade unit', course.id)).filter(
+      f => f.name === 'Cascade unit',
+    );
+    const courseNote = await seedNote(course.id, 'Course note');
+    const unitNote = await seedNote(unit.id, 'Unit note');
+    await saveListSort(course.id, 'name');
+    await saveListSort(unit.id, 'opened');
+    const pageIds = [...courseNote.pageIds, ...unitNote.pageIds];
+    const noteIds = [courseNote.note.id, unitNote.note.id];
+    expect(await loadListSort(unit.id)).toBe('opened');
+
+    await deleteFolder(course.id);
+
+    expect(await countRows(pageIds, noteIds, [course.id, unit.id])).toEqual(NO_ROWS);
+    expect(await loadListSort(course.id)).toBe('created');
+    expect(await loadListSort(unit.id)).toBe('created');
+    const folderPurges = (await loadPendingChunkPurges()).filter(
+      purge => purge.folderId === course.id || purge.folderId === unit.id,
+    );
+    expect(folderPurges.map(purge => purge.folderId).sort()).toEqual(
+      [course.id, unit.id].sort(),
+    );
+    expect(folderPurges.every(purge => purge.sourceIds === null)).toBe(true);
+  });
+
+  it('keeps queued chunk purges until the backend confirms them', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const queued = await loadPendingChunkPurges();
+    expect(queued.length).toBeGreaterThan(0);
+
+    jest.mocked(purgeChunks).mockResolvedValueOnce({
+      ok: false,
+      error: 'Network request failed',
+      code: 'NETWORK_ERROR',
+    });
+    await flushPendingChunkSync();
+
+    expect(await loadPendingChunkPurges()).toEqual(
+      queued.map((purge, i) =>
+        i === 0
+          ? { ...purge, attempts: 1, lastError: 'Network request failed' }
+          : purge,
+      ),
+    );
+
+    await flushPendingChunkSync();
+
+    expect(await loadPendingChunkPurges()).toEqual([]);
+    queued.forEach(purge => {
+      expect(purgeChunks).toHaveBeenCalledWith(
+        purge.folderId ? { folderId: purge.folderId } : { sourceIds: purge.sourceIds },
+      );
+    });
+  });
+
+  it('rejects a duplicate id without touching the stored row', async () => {
+    await expect(
+      execute('INSERT INTO folders (id, name, created_at, updated_at) VALUES (?, ?, ?, ?)', [
+        'legacy-folder',
+        'Duplicate',
+        0,
+        0,
+      ]),
+    ).rejects.toThrow();
+    expect((await loadFolders()).find(f => f.id === 'legacy-folder')?.name).toBe('Old Folder');
+  });
+});
@@ -0,0 +1,113 @@
+import {
+  createPage,
+  getPageById,
+  loadPagesByNote,
+  updatePageIndexStatus,
+} from '../src/storage/pages';
+import { loadDrawingData, saveDrawingData } from '../src/storage/drawings';
+import { loadPaperSettings, savePaperSettings } from '../src/storage/paperSettings';
+import { DrawingData } from '../src/types/models';
+
+function drawingWithStrokes(count: number): DrawingData {
+  return {
+    version: 1,
+    strokes: Array.from({ length: count }, (_, i) => ({
+      id: `stroke-${i}`,
+      points: [
+        { x: i, y: i },
+        { x: i + 10, y: i + 10 },
+      ],
+      color: '#111111',
+      width: 3,
+      tool: 'pen' as const,
+      timestamp: i,
+    })),
+  };
+}
+
+describe('storage concurrency', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('keeps index status and drawing data written at the same time', async () => {
+    const [page] = await createPage('note-status-and-drawing');
+
+    await Promise.all([
+      updatePageIndexStatus(page.id, 'queued'),
+      saveDrawingData(page.id, drawingWithStrokes(1)),
+      updatePageIndexStatus(page.id, 'running'),
+      saveDrawingData(page.id, drawingWithStrokes(2)),
+      updatePageIndexStatus(page.id, 'done', 1234, null, 'hash-1'),
+      saveDrawingData(page.id, drawingWithStrokes(3)),
+    ]);
+
+    expect(await getPageById(page.id)).toMatchObject({
+      indexStatus: 'done',
+      indexedAt: 1234,
+      indexError: null,
+      lastIndexedHash: 'hash-1',
+    });
+    expect(await loadDrawingData(page.id)).toEqual(drawingWithStrokes(3));
+  });
+
+  it('does not drop drawings saved for many pages concurrently', async () => {
+    const noteId = 'note-many-pages';
+    for (let i = 0; i < 10; i += 1) {
+      await createPage(noteId);
+    }
+    const pages = await loadPagesByNote(noteId);
+
+    await Promise.all(
+      pages.flatMap(page => [
+        saveDrawingData(page.id, drawingWithStrokes(page.pageIndex + 1)),
+        updatePageIndexStatus(page.id, 'done', page.pageIndex),
+        savePaperSettings(page.id, { background: 'lined', lineSpacing: 'wide' }),
+      ]),
+    );
+
+    for (const page of pages) {
+      const drawing = await loadDrawingData(page.id);
+      expect(drawing?.strokes).toHaveLength(page.pageIndex + 1);
+      expect(await getPageById(page.id)).toMatchObject({
+        indexStatus: 'done',
+        indexedAt: page.pageIndex,
+      });
+      expect(await loadPaperSettings(page.id)).toEqual({
+        background: 'lined',
+        lineSpacing: 'wide',
+      });
+    }
+  });
+
+  it('applies status updates for one page in call order', async () => {
+    const [page] = await createPage('note-status-order');
+
+    await Promise.all([
+      updatePageIndexStatus(page.id, 'running'),
+      updatePageIndexStatus(page.id, 'error', null, 'timeout'),
+      updatePageIndexStatus(page.id, 'done', 99, undefined, 'hash-2'),
+    ]);
+
+    expect(await getPageById(page.id)).toMatchObject({
+      indexStatus: 'done',
+      indexedAt: 99,
+      indexError: null,
+      lastIndexedHash: 'hash-2',
+    });
+  });
+
+  it('keeps page indexes contiguous when pages are created concurrently', async () => {
+    const noteId = 'note-concurrent-create';
+
+    await Promise.all([
+      createPage(noteId),
+      createPage(noteId),
+      createPage(noteId),
+      createPage(noteId),
+    ]);
+
+    const pages = await loadPagesByNote(noteId);
+    expect(pages.map(page => page.pageIndex)).toEqual([0, 1, 2, 3]);
+  });
+});
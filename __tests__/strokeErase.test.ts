@@ -0,0 +1,101 @@
+import { cutStrokePoints, segmentCircleOverlap } from '../src/utils/strokeErase';
+import { Point } from '../src/types/models';
+
+const LINE: Point[] = [
+  { x: 0, y: 0 },
+  { x: 10, y: 0 },
+  { x: 20, y: 0 },
+  { x: 30, y: 0 },
+  { x: 40, y: 0 },
+];
+
+describe('precision eraser geometry', () => {
+  it('finds where a segment enters and leaves the eraser', () => {
+    expect(segmentCircleOverlap({ x: 0, y: 0 }, { x: 20, y: 0 }, { x: 10, y: 0 }, 5)).toEqual([
+      0.25, 0.75,
+    ]);
+    expect(segmentCircleOverlap({ x: 0, y: 0 }, { x: 20, y: 0 }, { x: 0, y: 0 }, 5)).toEqual([
+      0, 0.25,
+    ]);
+    expect(segmentCircleOverlap({ x: 0, y: 0 }, { x: 20, y: 0 }, { x: 10, y: 10 }, 5)).toBeNull();
+    // Touching the edge is not a cut
+    expect(segmentCircleOverlap({ x: 0, y: 0 }, { x: 20, y: 0 }, { x: 10, y: 5 }, 5)).toBeNull();
+  });
+
+  it('leaves untouched strokes alone', () => {
+    expect(cutStrokePoints(LINE, { x: 20, y: 30 }, 5)).toBeNull();
+    expect(cutStrokePoints([{ x: 0, y: 0 }], { x: 20, y: 30 }, 5)).toBeNull();
+  });
+
+  it('splits a stroke in two at the edges of the eraser', () => {
+    const pieces = cutStrokePoints(LINE, { x: 20, y: 0 }, 5);
+
+    expect(pieces).toEqual([
+      [
+        { x: 0, y: 0 },
+        { x: 10, y: 0 },
+        { x: 15, y: 0 },
+      ],
+      [
+        { x: 25, y: 0 },
+        { x: 30, y: 0 },
+        { x: 40, y: 0 },
+      ],
+    ]);
+  });
+
+  it('cuts the middle of a long segment', () => {
+    const pieces = cutStrokePoints(
+      [
+        { x: 0, y: 0 },
+        { x: 100, y: 0 },
+      ],
+      { x: 50, y: 3 },
+      5,
+    );
+
+    expect(pieces).toEqual([
+      [
+        { x: 0, y: 0 },
+        { x: 46, y: 0 },
+      ],
+      [
+        { x: 54, y: 0 },
+        { x: 100, y: 0 },
+      ],
+    ]);
+  });
+
+  it('trims stroke ends and drops specks', () => {
+    expect(cutStrokePoints(LINE, { x: 0, y: 0 }, 5)).toEqual([
+      [
+        { x: 5, y: 0 },
+        { x: 10, y: 0 },
+        { x: 20, y: 0 },
+        { x: 30, y: 0 },
+        { x: 40, y: 0 },
+      ],
+    ]);
+    // 0.5px left on the right of the eraser is too small to keep
+    expect(cutStrokePoints(LINE.slice(0, 2), { x: 4.5, y: 0 }, 5)).toEqual([]);
+    expect(cutStrokePoints([{ x: 1, y: 1 }], { x: 0, y: 0 }, 5)).toEqual([]);
+  });
+
+  it('interpolates pressure and time at the cut', () => {
+    const pieces = cutStrokePoints(
+      [
+        { x: 0, y: 0, pressure: 0.2, t: 0 },
+        { x: 20, y: 0, pressure: 0.6, t: 40 },
+      ],
+      { x: 20, y: 0 },
+      10,
+    );
+
+    expect(pieces).toEqual([
+      [
+        { x: 0, y: 0, pressure: 0.2, t: 0 },
+        { x: 10, y: 0, pressure: 0.4, t: 20 },
+      ],
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+import {
+  getSmoothPathSegments,
+  pathLength,
+  simplifyPoints,
+} from '../src/utils/strokeGeometry';
+import { Point } from '../src/types/models';
+
+describe('stroke geometry', () => {
+  it('drops samples that add nothing to the stroke', () => {
+    const points: Point[] = [
+      { x: 0, y: 0, pressure: 0.3, t: 0 },
+      { x: 10, y: 0.2, pressure: 0.4, t: 8 },
+      { x: 20, y: 0, pressure: 0.5, t: 16 },
+      { x: 20, y: 10, pressure: 0.6, t: 24 },
+      { x: 20, y: 20, pressure: 0.7, t: 32 },
+    ];
+
+    const simplified = simplifyPoints(points);
+
+    expect(simplified).toEqual([points[0], points[2], points[4]]);
+    // Kept samples are the originals, pressure and time included
+    expect(simplified[1]).toBe(points[2]);
+    expect(simplifyPoints(points.slice(0, 2))).toEqual(points.slice(0, 2));
+    expect(pathLength(simplified)).toBe(40);
+  });
+
+  it('draws dots and two-point strokes as lines', () => {
+    expect(getSmoothPathSegments([])).toEqual([]);
+    expect(getSmoothPathSegments([{ x: 5, y: 5 }])).toEqual([
+      { type: 'move', to: { x: 5, y: 5 } },
+      { type: 'line', to: { x: 5, y: 5 } },
+    ]);
+    expect(
+      getSmoothPathSegments([
+        { x: 0, y: 0 },
+        { x: 10, y: 0 },
+      ]),
+    ).toEqual([
+      { type: 'move', to: { x: 0, y: 0 } },
+      { type: 'line', to: { x: 10, y: 0 } },
+    ]);
+  });
+
+  it('curves through the midpoints between samples', () => {
+    expect(
+      getSmoothPathSegments([
+        { x: 0, y: 0 },
+        { x: 10, y: 4 },
+        { x: 20, y: 4 },
+        { x: 30, y: 0 },
+      ]),
+    ).toEqual([
+      { type: 'move', to: { x: 0, y: 0 } },
+      { type: 'quad', control: { x: 10, y: 4 }, to: { x: 15, y: 4 } },
+      { type: 'quad', control: { x: 20, y: 4 }, to: { x: 25, y: 2 } },
+      { type: 'line', to: { x: 30, y: 0 } },
+    ]);
+  });
+
+  it('keeps sharp corners', () => {
+    const segments = getSmoothPathSegments([
+      { x: 0, y: 0 },
+      { x: 10, y: 0 },
+      { x: 10, y: 10 },
+    ]);
+
+    expect(segments[1]).toEqual({ type: 'line', to: { x: 10, y: 0 } });
+  });
+
+  it('closes outlines, starting on a corner when there is one', () => {
+    const square = getSmoothPathSegments(
+      [
+        { x: 0, y: 0 },
+        { x: 10, y: 0 },
+        { x: 10, y: 10 },
+        { x: 0, y: 10 },
+      ],
+      true,
+    );
+    expect(square).toEqual([
+      { type: 'move', to: { x: 0, y: 0 } },
+      { type: 'line', to: { x: 10, y: 0 } },
+      { type: 'line', to: { x: 10, y: 10 } },
+      { type: 'line', to: { x: 0, y: 10 } },
+      { type: 'close' },
+    ]);
+
+    const octagon: Point[] = [];
+    for (let i = 0; i < 8; i += 1) {
+      octagon.push({ x: Math.cos((i * Math.PI) / 4), y: Math.sin((i * Math.PI) / 4) });
+    }
+    const round = getSmoothPathSegments(octagon, true);
+    expect(round[0].type).toBe('move');
+    expect(round.slice(1, -1).every(segment => segment.type === 'quad')).toBe(true);
+    expect(round[round.length - 1]).toEqual({ type: 'close' });
+  });
+});
@@ -0,0 +1,67 @@
+import {
+  computePointWidths,
+  computeStrokeOutline,
+  getStrokeOutline,
+  hasVariableWidth,
+} from '../src/utils/strokeOutline';
+import { Point } from '../src/types/models';
+
+function horizontalLine(count: number, spacing: number, extra: (i: number) => Partial<Point>) {
+  return Array.from({ length: count }, (_, i): Point => ({ x: i * spacing, y: 50, ...extra(i) }));
+}
+
+describe('stroke outlines', () => {
+  it('keeps version 1 strokes at constant width', () => {
+    const points = horizontalLine(5, 10, () => ({}));
+
+    expect(hasVariableWidth({ points })).toBe(false);
+    expect(computePointWidths(points, 3)).toBeNull();
+    expect(getStrokeOutline({ points, width: 3 })).toBeNull();
+  });
+
+  it('widens strokes with pressure', () => {
+    const light = computePointWidths(horizontalLine(10, 5, () => ({ pressure: 0.1 })), 4)!;
+    const firm = computePointWidths(horizontalLine(10, 5, () => ({ pressure: 0.9 })), 4)!;
+
+    expect(light).toHaveLength(10);
+    firm.forEach((width, i) => expect(width).toBeGreaterThan(light[i]));
+    computePointWidths(horizontalLine(3, 5, () => ({ pressure: 0.5 })), 4)!.forEach(width =>
+      expect(width).toBeCloseTo(4),
+    );
+  });
+
+  it('thins strokes drawn quickly when there is no pressure', () => {
+    const slow = computePointWidths(horizontalLine(10, 4, i => ({ t: i * 40 })), 3)!;
+    const fast = computePointWidths(horizontalLine(10, 4, i => ({ t: i * 2 })), 3)!;
+
+    expect(fast[9]).toBeLessThan(slow[9]);
+    expect(slow[9]).toBeGreaterThan(3);
+  });
+
+  it('outlines the centerline at half the width on each side', () => {
+    const points = horizontalLine(3, 10, () => ({}));
+    const outline = computeStrokeOutline(points, [4, 4, 4]);
+
+    // Left side, end cap, right side, start cap
+    expect(outline.slice(0, 3)).toEqual([
+      { x: 0, y: 52 },
+      { x: 10, y: 52 },
+      { x: 20, y: 52 },
+    ]);
+    const ys = outline.map(point => point.y);
+    const xs = outline.map(point => point.x);
+    expect(Math.max(...ys)).toBeCloseTo(52);
+    expect(Math.min(...ys)).toBeCloseTo(48);
+    expect(Math.max(...xs)).toBeCloseTo(22, 0);
+    expect(Math.min(...xs)).toBeCloseTo(-2, 0);
+  });
+
+  it('turns a single point into a dot', () => {
+    const outline = computeStrokeOutline([{ x: 10, y: 10, t: 0 }, { x: 10, y: 10, t: 5 }], [6, 6]);
+
+    expect(outline.length).toBeGreaterThan(4);
+    outline.forEach(point => {
+      expect(Math.hypot(point.x - 10, point.y - 10)).toBeCloseTo(3);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import {
+  cloneStrokes,
+  getStrokesBounds,
+  transformPoint,
+  transformStroke,
+  translation,
+} from '../src/utils/strokeTransform';
+import { copyStrokesToClipboard, getClipboardStrokes } from '../src/utils/strokeClipboard';
+import { Stroke } from '../src/types/models';
+
+const STROKE: Stroke = {
+  id: 'stroke-1',
+  tool: 'pen',
+  color: '#111111',
+  width: 4,
+  timestamp: 1,
+  points: [
+    { x: 10, y: 10, pressure: 0.5, t: 0 },
+    { x: 30, y: 10, pressure: 0.7, t: 16 },
+  ],
+};
+
+describe('stroke transforms', () => {
+  it('moves, scales and rotates points about the origin', () => {
+    expect(transformPoint({ x: 1, y: 2 }, translation(5, -2))).toEqual({ x: 6, y: 0 });
+
+    const scaled = transformPoint(
+      { x: 20, y: 10 },
+      { origin: { x: 10, y: 10 }, translateX: 0, translateY: 0, scale: 2, rotation: 0 },
+    );
+    expect(scaled).toEqual({ x: 30, y: 10 });
+
+    const rotated = transformPoint(
+      { x: 20, y: 10 },
+      { origin: { x: 10, y: 10 }, translateX: 0, translateY: 0, scale: 1, rotation: Math.PI / 2 },
+    );
+    expect(rotated.x).toBeCloseTo(10);
+    expect(rotated.y).toBeCloseTo(20);
+  });
+
+  it('scales stroke widths and keeps pressure and time', () => {
+    const stroke = transformStroke(STROKE, {
+      origin: { x: 10, y: 10 },
+      translateX: 0,
+      translateY: 0,
+      scale: 0.5,
+      rotation: 0,
+    });
+
+    expect(stroke.width).toBe(2);
+    expect(stroke.points).toEqual([
+      { x: 10, y: 10, pressure: 0.5, t: 0 },
+      { x: 20, y: 10, pressure: 0.7, t: 16 },
+    ]);
+  });
+
+  it('measures ink bounds including stroke width', () => {
+    expect(getStrokesBounds([STROKE])).toEqual({ x: 8, y: 8, width: 24, height: 4 });
+    expect(getStrokesBounds([])).toBeNull();
+  });
+
+  it('clones strokes with new ids at an offset', () => {
+    const [copy] = cloneStrokes([STROKE], 20, 20);
+
+    expect(copy.id).not.toBe(STROKE.id);
+    expect(copy.points.map(point => [point.x, point.y])).toEqual([
+      [30, 30],
+      [50, 30],
+    ]);
+    expect(copy).toMatchObject({ color: STROKE.color, width: STROKE.width, tool: 'pen' });
+  });
+
+  it('keeps clipboard strokes apart from later edits', () => {
+    const stroke = { ...STROKE, points: STROKE.points.map(point => ({ ...point })) };
+    copyStrokesToClipboard([stroke]);
+    stroke.points[0].x = 999;
+
+    expect(getClipboardStrokes()[0].points[0].x).toBe(10);
+  });
+});
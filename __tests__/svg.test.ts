@@ -0,0 +1,211 @@
+import { buildPath } from '../src/utils/exportDrawing';
+import {
+  parseSvgPathData,
+  parseSvgStrokes,
+  pointsToSvgPathData,
+  renderDrawingToSvg,
+} from '../src/utils/svg';
+import { DrawingData, PaperSettings, Point } from '../src/types/models';
+
+type PathCommand = [string, ...number[]];
+
+// Record the path commands buildPath issues instead of drawing them
+jest.mock('@shopify/react-native-skia', () => ({
+  Skia: {
+    Path: {
+      Make: () => {
+        const commands: PathCommand[] = [];
+        return {
+          commands,
+          moveTo: (x: number, y: number) => commands.push(['M', x, y]),
+          lineTo: (x: number, y: number) => commands.push(['L', x, y]),
+          quadTo: (cx: number, cy: number, x: number, y: number) =>
+            commands.push(['Q', cx, cy, x, y]),
+          close: () => commands.push(['Z']),
+        };
+      },
+    },
+  },
+}));
+
+function recordBuildPath(points: Point[]): PathCommand[] {
+  return (buildPath(points) as unknown as { commands: PathCommand[] }).commands;
+}
+
+function svgPathCommands(d: string): PathCommand[] {
+  return (d.match(/[A-Z][^A-Z]*/g) ?? []).map((command): PathCommand => [
+    command[0],
+    ...command
+      .slice(1)
+      .trim()
+      .split(' ')
+      .filter(Boolean)
+      .map(Number),
+  ]);
+}
+
+const LOGICAL_SIZE = { width: 800, height: 1000 };
+const BLANK: PaperSettings = { background: 'blank', lineSpacing: 'medium' };
+
+const DRAWING: DrawingData = {
+  version: 1,
+  strokes: [
+    {
+      id: 'curve',
+      points: [
+        { x: 10.25, y: 20.5 },
+        { x: 15.75, y: 28 },
+        { x: 22, y: 31.5 },
+        { x: 40.12, y: 29.87 },
+      ],
+      color: '#1e90ff',
+      width: 2.5,
+      tool: 'pen',
+      timestamp: 1,
+    },
+    {
+      id: 'dot',
+      points: [{ x: 100, y: 100 }],
+      color: '#111111',
+      width: 3,
+      tool: 'pen',
+      timestamp: 2,
+    },
+  ],
+};
+
+describe('svg export and import', () => {
+  it('writes the same segments buildPath draws', () => {
+    const points = DRAWING.strokes[0].points;
+    const commands = svgPathCommands(pointsToSvgPathData(points));
+
+    // SVG coordinates are written with 2 decimals
+    const rounded = recordBuildPath(points).map(([name, ...values]): PathCommand => [
+      name,
+      ...values.map(value => Math.round(value * 100) / 100),
+    ]);
+    expect(commands).toEqual(rounded);
+    expect(commands.map(command => command[0])).toEqual(['M', 'Q', 'Q', 'L']);
+  });
+
+  it('round-trips stroke geometry, color and width', () => {
+    const svg = renderDrawingToSvg(DRAWING, LOGICAL_SIZE, BLANK);
+    const strokes = parseSvgStrokes(svg);
+
+    expect(strokes).toHaveLength(DRAWING.strokes.length);
+    strokes.forEach((stroke, i) => {
+      const original = DRAWING.strokes[i];
+      expect(stroke.points).toEqual(original.points);
+      expect(stroke.color).toBe(original.color);
+      expect(stroke.width).toBe(original.width);
+      expect(recordBuildPath(stroke.points)).toEqual(
+        recordBuildPath(original.points),
+      );
+    });
+  });
+
+  it('fills variable-width strokes and imports them from their centerline', () => {
+    const points = [
+      { x: 10, y: 20, pressure: 0.2 },
+      { x: 30, y: 40, pressure: 0.9 },
+      { x: 60, y: 40, pressure: 0.5 },
+    ];
+    const svg = renderDrawingToSvg(
+      { version: 2, strokes: [{ ...DRAWING.strokes[0], points }] },
+      LOGICAL_SIZE,
+      BLANK,
+    );
+
+    const path = svg.match(/<path\b[^>]*>/)![0];
+    expect(path).toContain(`fill="${DRAWING.strokes[0].color}" stroke="none"`);
+    expect(path).toMatch(/ d="M[^"]*Z"/);
+    expect(path).toContain(`data-centerline="${pointsToSvgPathData(points)}"`);
+
+    const [stroke] = parseSvgStrokes(svg);
+    expect(stroke.points).toEqual(points.map(({ x, y }) => ({ x, y })));
+    expect(stroke.color).toBe(DRAWING.strokes[0].color);
+    expect(stroke.width).toBe(DRAWING.strokes[0].width);
+  });
+
+  it('puts highlighter strokes beneath ink and imports them as highlighters', () => {
+    const highlighted: DrawingData = {
+      version: 2,
+      strokes: [
+        ...DRAWING.strokes,
+        {
+          id: 'marker',
+          points: [
+            { x: 0, y: 25 },
+            { x: 50, y: 25 },
+          ],
+          color: '#FFCC00',
+          width: 18,
+          tool: 'highlighter',
+          timestamp: 3,
+        },
+      ],
+    };
+
+    const svg = renderDrawingToSvg(highlighted, LOGICAL_SIZE, BLANK);
+    const strokes = parseSvgStrokes(svg);
+
+    expect(svg.indexOf('stroke-marker')).toBeLessThan(svg.indexOf('stroke-curve'));
+    expect(svg).toContain('stroke-opacity="0.35" stroke-linecap="butt"');
+    expect(strokes.map(stroke => stroke.tool)).toEqual(['highlighter', 'pen', 'pen']);
+  });
+
+  it('keeps the paper background out of imported strokes', () => {
+    const svg = renderDrawingToSvg(DRAWING, LOGICAL_SIZE, {
+      background: 'lined',
+      lineSpacing: 'narrow',
+    });
+
+    expect(svg).toContain('inkscape:label="Paper"');
+    expect(svg).toContain('<line x1="0" y1="24" x2="800" y2="24"');
+    expect(parseSvgStrokes(svg)).toHaveLength(DRAWING.strokes.length);
+    expect(renderDrawingToSvg(DRAWING, LOGICAL_SIZE, BLANK, false)).not.toContain(
+      'Paper',
+    );
+  });
+
+  it('parses relative commands, subpaths and closed shapes', () => {
+    expect(parseSvgPathData('m10 10 l5 0 0 5 z M50 50 H60 V70')).toEqual([
+      [
+        { x: 10, y: 10 },
+        { x: 15, y: 10 },
+        { x: 15, y: 15 },
+        { x: 10, y: 10 },
+      ],
+      [
+        { x: 50, y: 50 },
+        { x: 60, y: 50 },
+        { x: 60, y: 70 },
+      ],
+    ]);
+  });
+
+  it('flattens curves through their end points', () => {
+    const [points] = parseSvgPathData('M0 0 C0 10 10 10 10 0 Q15 -5 20 0');
+    expect(points[0]).toEqual({ x: 0, y: 0 });
+    expect(points).toContainEqual({ x: 10, y: 0 });
+    expect(points[points.length - 1]).toEqual({ x: 20, y: 0 });
+    expect(points.length).toBeGreaterThan(10);
+  });
+
+  it('reads style attributes, skips unpainted paths and fits the target size', () => {
+    const svg = `<svg viewBox="100 100 400 400">
+      <path d="M100 100 L500 500" style="stroke: rgb(255, 0, 0); stroke-width: 4px"/>
+      <path d="M100 100 L200 200" stroke="none" fill="none"/>
+    </svg>`;
+
+    const strokes = parseSvgStrokes(svg, { width: 200, height: 300 });
+
+    expect(strokes).toHaveLength(1);
+    expect(strokes[0].color).toBe('#ff0000');
+    expect(strokes[0].width).toBe(2);
+    expect(strokes[0].points).toEqual([
+      { x: 0, y: 0 },
+      { x: 200, y: 200 },
+    ]);
+  });
+});
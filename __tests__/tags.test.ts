@@ -0,0 +1,81 @@
+import { createFolder, trashFolder } from '../src/storage/folders';
+import {
+  copyNote,
+  createNote,
+  deleteNote,
+  loadAllTags,
+  loadNotesByTag,
+} from '../src/storage/notes';
+import { loadTagsForNotes, setNoteTags } from '../src/storage/tags';
+import { loadPendingChunkTagUpdates } from '../src/storage/chunkTagUpdates';
+import { createBackupArchive, restoreBackup } from '../src/storage/backup';
+import { normalizeTag, normalizeTags } from '../src/utils/tags';
+
+async function seedNote(folderName: string, title: string) {
+  const folders = await createFolder(folderName);
+  const folder = folders.find(f => f.name === folderName)!;
+  const [note] = await createNote(folder.id, title);
+  return { folder, note };
+}
+
+describe('note tags', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('normalizes typed tags', () => {
+    expect(normalizeTag('  #Exam 2 ')).toBe('exam-2');
+    expect(normalizeTag('# ')).toBeNull();
+    expect(normalizeTags(['b', 'A', 'a', ''])).toEqual(['a', 'b']);
+  });
+
+  it('saves tags and queues them for the note chunks', async () => {
+    const { note } = await seedNote('Tag save', 'Kinematics');
+
+    const saved = await setNoteTags(note.id, ['Derivations', 'exam 2', 'derivations']);
+
+    expect(saved).toEqual(['derivations', 'exam-2']);
+    expect(await loadTagsForNotes([note.id])).toEqual({ [note.id]: ['derivations', 'exam-2'] });
+    const queued = (await loadPendingChunkTagUpdates()).find(u => u.noteId === note.id);
+    expect(queued?.tags).toEqual(['derivations', 'exam-2']);
+
+    await setNoteTags(note.id, []);
+    expect(await loadTagsForNotes([note.id])).toEqual({});
+    expect((await loadPendingChunkTagUpdates()).find(u => u.noteId === note.id)?.tags).toEqual(
+      [],
+    );
+  });
+
+  it('finds tagged notes across folders but not in the trash', async () => {
+    const { note: physics } = await seedNote('Tag physics', 'Waves');
+    const { folder: chemistry, note: chem } = await seedNote('Tag chemistry', 'Bonds');
+    const { folder: trashed, note: hidden } = await seedNote('Tag trashed', 'Old');
+    await setNoteTags(physics.id, ['midterm']);
+    await setNoteTags(chem.id, ['midterm', 'lab']);
+    await setNoteTags(hidden.id, ['midterm', 'forgotten']);
+    await trashFolder(trashed.id);
+
+    const tagged = await loadNotesByTag('midterm');
+    expect(tagged.map(n => n.id)).toEqual([physics.id, chem.id]);
+    const tags = await loadAllTags();
+    expect(tags).toEqual(expect.arrayContaining(['lab', 'midterm']));
+    expect(tags).not.toContain('forgotten');
+
+    const copy = await copyNote(chem.id, chemistry.id);
+    expect((await loadTagsForNotes([copy.id]))[copy.id]).toEqual(['lab', 'midterm']);
+
+    await deleteNote(chemistry.id, chem.id);
+    expect(await loadTagsForNotes([chem.id])).toEqual({});
+  });
+
+  it('keeps tags through a backup restore', async () => {
+    const { note } = await seedNote('Tag backup', 'Optics');
+    await setNoteTags(note.id, ['final']);
+    const archive = await createBackupArchive();
+
+    await restoreBackup(archive, 'replace');
+
+    expect(await loadTagsForNotes([note.id])).toEqual({ [note.id]: ['final'] });
+    expect(await loadPendingChunkTagUpdates()).toEqual([]);
+  });
+});
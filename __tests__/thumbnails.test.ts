@@ -0,0 +1,108 @@
+import RNFS from 'react-native-fs';
+import { computeDrawingHash } from '../src/utils/drawingHash';
+import { renderDrawingToPngBase64 } from '../src/utils/exportDrawing';
+import { getPageThumbnailUri } from '../src/utils/thumbnails';
+import { DrawingData } from '../src/types/models';
+
+// An in-memory cache directory keyed by file path
+const mockFiles = new Map<string, string>();
+
+jest.mock('react-native-fs', () => ({
+  CachesDirectoryPath: '/caches',
+  exists: jest.fn(async (path: string) => mockFiles.has(path)),
+  mkdir: jest.fn(async () => undefined),
+  writeFile: jest.fn(async (path: string, contents: string) => {
+    mockFiles.set(path, contents);
+  }),
+  readDir: jest.fn(async () =>
+    [...mockFiles.keys()].map(path => ({ path, name: path.split('/').pop() })),
+  ),
+  unlink: jest.fn(async (path: string) => {
+    mockFiles.delete(path);
+  }),
+}));
+
+jest.mock('../src/utils/exportDrawing', () => ({
+  renderDrawingToPngBase64: jest.fn(() => 'png'),
+}));
+
+const LOGICAL_SIZE = { width: 800, height: 1000 };
+
+const DRAWING: DrawingData = {
+  version: 1,
+  strokes: [
+    {
+      id: 'stroke-1',
+      points: [
+        { x: 10, y: 20 },
+        { x: 30, y: 40 },
+        { x: 50, y: 60 },
+        { x: 70, y: 80 },
+        { x: 90, y: 100 },
+      ],
+      color: '#000000',
+      width: 2,
+      tool: 'pen',
+      timestamp: 1,
+    },
+  ],
+};
+
+function editStroke(edit: Partial<DrawingData['strokes'][number]>): DrawingData {
+  return { ...DRAWING, strokes: [{ ...DRAWING.strokes[0], ...edit }] };
+}
+
+function movePoint(index: number): DrawingData {
+  const points = DRAWING.strokes[0].points.map((point, i) =>
+    i === index ? { ...point, x: point.x + 5 } : point,
+  );
+  return editStroke({ points });
+}
+
+describe('computeDrawingHash', () => {
+  it('is stable for the same content', () => {
+    expect(computeDrawingHash(JSON.parse(JSON.stringify(DRAWING)))).toBe(
+      computeDrawingHash(DRAWING),
+    );
+    expect(computeDrawingHash(null)).toBe('empty');
+    expect(computeDrawingHash({ version: 1, strokes: [] })).toBe('empty');
+  });
+
+  it('changes on recolor, width and tool changes and edits to any point', () => {
+    const hash = computeDrawingHash(DRAWING);
+
+    expect(computeDrawingHash(editStroke({ color: '#ff0000' }))).not.toBe(hash);
+    expect(computeDrawingHash(editStroke({ width: 4 }))).not.toBe(hash);
+    expect(computeDrawingHash(editStroke({ tool: 'highlighter' }))).not.toBe(hash);
+    // Points between the first, middle and last one
+    expect(computeDrawingHash(movePoint(1))).not.toBe(hash);
+    expect(computeDrawingHash(movePoint(3))).not.toBe(hash);
+  });
+});
+
+describe('getPageThumbnailUri', () => {
+  beforeEach(() => {
+    mockFiles.clear();
+    jest.mocked(renderDrawingToPngBase64).mockClear();
+  });
+
+  it('reuses the cached thumbnail until the drawing changes', async () => {
+    const uri = await getPageThumbnailUri('page-1', DRAWING, LOGICAL_SIZE);
+    expect(await getPageThumbnailUri('page-1', DRAWING, LOGICAL_SIZE)).toBe(uri);
+    expect(renderDrawingToPngBase64).toHaveBeenCalledTimes(1);
+
+    const recolored = editStroke({ color: '#ff0000' });
+    const recoloredUri = await getPageThumbnailUri('page-1', recolored, LOGICAL_SIZE);
+
+    expect(recoloredUri).not.toBe(uri);
+    expect(renderDrawingToPngBase64).toHaveBeenCalledTimes(2);
+    expect(renderDrawingToPngBase64).toHaveBeenLastCalledWith(
+      recolored,
+      LOGICAL_SIZE,
+      expect.anything(),
+    );
+    // The stale thumbnail is removed once the new one is written
+    expect([...mockFiles.keys()]).toEqual([recoloredUri.replace('file://', '')]);
+    expect(RNFS.unlink).toHaveBeenCalledWith(uri.replace('file://', ''));
+  });
+});
@@ -0,0 +1,194 @@
+import { createFolder, loadFolders, trashFolder } from '../src/storage/folders';
+import { createNote, loadNotesByFolder, trashNote } from '../src/storage/notes';
+import {
+  createPage,
+  getPageById,
+  loadPagesByNote,
+  trashPage,
+  updatePageIndexStatus,
+} from '../src/storage/pages';
+import { loadDrawingData, saveDrawingData } from '../src/storage/drawings';
+import { savePaperSettings } from '../src/storage/paperSettings';
+import { queryAll } from '../src/storage/db';
+import { loadPendingChunkPurges } from '../src/storage/chunkPurges';
+import {
+  loadTrashItems,
+  purgeExpiredTrash,
+  purgeTrashItem,
+  restoreTrashItem,
+  saveTrashRetentionDays,
+} from '../src/storage/trash';
+import { DrawingData } from '../src/types/models';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DRAWING: DrawingData = {
+  version: 1,
+  strokes: [
+    {
+      id: 'stroke-1',
+      points: [
+        { x: 1, y: 2 },
+        { x: 3, y: 4 },
+      ],
+      color: '#111111',
+      width: 3,
+      tool: 'pen',
+      timestamp: 1,
+    },
+  ],
+};
+
+async function seedNote(folderName: string, pageCount: number) {
+  const folders = await createFolder(folderName);
+  const folder = folders.find(f => f.name === folderName)!;
+  const notes = await createNote(folder.id, `${folderName} note`);
+  const note = notes[notes.length - 1];
+  for (let i = 0; i < pageCount; i += 1) {
+    await createPage(note.id);
+  }
+  const pages = await loadPagesByNote(note.id);
+  return { folder, note, pages };
+}
+
+async function purgedSourceIds(): Promise<string[]> {
+  const purges = await loadPendingChunkPurges();
+  return purges.flatMap(purge => purge.sourceIds ?? []);
+}
+
+describe('trash', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('trashes a page, purges its chunks and restores it in place', async () => {
+    const { note, pages } = await seedNote('Physics', 3);
+    await updatePageIndexStatus(pages[1].id, 'done', 1, null, 'hash');
+    await saveDrawingData(pages[1].id, DRAWING);
+
+    const remaining = await trashPage(note.id, pages[1].id);
+
+    expect(remaining.map(page => page.id)).toEqual([pages[0].id, pages[2].id]);
+    expect(remaining.map(page => page.pageIndex)).toEqual([0, 1]);
+    expect(await purgedSourceIds()).toContain(pages[1].id);
+    const trashed = await getPageById(pages[1].id);
+    expect(trashed?.indexStatus).toBe('none');
+    expect(trashed?.lastIndexedHash).toBeNull();
+
+    const item = (await loadTrashItems()).find(entry => entry.id === pages[1].id)!;
+    expect(item).toMatchObject({ kind: 'page', title: 'Page 2', noteId: note.id });
+    await restoreTrashItem(item);
+
+    const restored = await loadPagesByNote(note.id);
+    expect(restored.map(page => page.id)).toEqual(pages.map(page => page.id));
+    expect(restored.map(page => page.pageIndex)).toEqual([0, 1, 2]);
+    expect(await loadDrawingData(pages[1].id)).toEqual(DRAWING);
+  });
+
+  it('hides trashed notes and folders and lists only the top-level item', async () => {
+    const { folder, note, pages } = await seedNote('History', 1);
+
+    expect(await trashNote(folder.id, note.id)).toEqual([]);
+    expect(await purgedSourceIds()).toContain(pages[0].id);
+    expect(await loadNotesByFolder(folder.id)).toEqual([]);
+
+    const folders = await trashFolder(folder.id);
+    expect(folders.some(f => f.id === folder.id)).toBe(false);
+    const purges = await loadPendingChunkPurges();
+    expect(purges.some(purge => purge.folderId === folder.id)).toBe(true);
+
+    const items = await loadTrashItems();
+    expect(items.some(item => item.id === folder.id)).toBe(true);
+    expect(items.some(item => item.id === note.id)).toBe(false);
+
+    // Restoring the folder brings back its contents except the separately trashed note
+    await restoreTrashItem(items.find(item => item.id === folder.id)!);
+    expect((await loadFolders()).some(f => f.id === folder.id)).toBe(true);
+    expect((await loadTrashItems()).some(item => item.id === note.id)).toBe(true);
+  });
+
+  it('purges items permanently', async () => {
+    const { folder, note, pages } = await seedNote('Art', 1);
+    await trashNote(folder.id, note.id);
+    const item = (await loadTrashItems()).find(entry => entry.id === note.id)!;
+
+    await purgeTrashItem(item);
+
+    expect((await loadTrashItems()).some(entry => entry.id === note.id)).toBe(false);
+    expect(await getPageById(pages[0].id)).toBeNull();
+  });
+
+  it('lets queued saves land before purging, so they leave no orphaned rows', async () => {
+    const { folder, note, pages } = await seedNote('Drafts', 1);
+    const { folder: otherFolder, pages: otherPages } = await seedNote('Sketches', 1);
+    const { note: pageNote } = await seedNote('Scraps', 2);
+    const [, trashedPage] = await loadPagesByNote(pageNote.id);
+    await trashNote(folder.id, note.id);
+    await trashFolder(otherFolder.id);
+    await trashPage(pageNote.id, trashedPage.id);
+    const items = await loadTrashItems();
+
+    const saves = [
+      saveDrawingData(pages[0].id, DRAWING),
+      savePaperSettings(pages[0].id, { background: 'lined', lineSpacing: 'wide' }),
+      saveDrawingData(otherPages[0].id, DRAWING),
+      saveDrawingData(trashedPage.id, DRAWING),
+    ];
+    for (const id of [note.id, otherFolder.id, trashedPage.id]) {
+      await purgeTrashItem(items.find(item => item.id === id)!);
+    }
+    await Promise.all(saves);
+
+    const pageIds = [pages[0].id, otherPages[0].id, trashedPage.id];
+    const drawings = await queryAll(
+      'SELECT page_id FROM page_drawings WHERE page_id IN (?, ?, ?)',
+      pageIds,
+    );
+    const settings = await queryAll(
+      'SELECT page_id FROM paper_settings WHERE page_id IN (?, ?, ?)',
+      pageIds,
+    );
+    expect(drawings).toEqual([]);
+    expect(settings).toEqual([]);
+  });
+
+  it('purges only items older than the retention period', async () => {
+    const { folder: oldFolder } = await seedNote('Old', 1);
+    const { folder: newFolder } = await seedNote('New', 1);
+    await saveTrashRetentionDays(7);
+    const now = Date.now();
+    await trashFolder(oldFolder.id);
+    const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(now + 5 * DAY_MS);
+    await trashFolder(newFolder.id);
+    nowSpy.mockRestore();
+
+    const purged = await purgeExpiredTrash(now + 8 * DAY_MS);
+
+    expect(purged).toBeGreaterThanOrEqual(1);
+    const remaining = await loadTrashItems();
+    expect(remaining.some(item => item.id === oldFolder.id)).toBe(false);
+    expect(remaining.some(item => item.id === newFolder.id)).toBe(true);
+    expect(await loadFolders()).not.toContainEqual(expect.objectContaining({ id: oldFolder.id }));
+  });
+
+  it('counts an expired subfolder once when its expired parent takes it along', async () => {
+    const { folder: parent } = await seedNote('Expired parent', 1);
+    const [child] = (await createFolder('Expired child', parent.id)).filter(
+      f => f.name === 'Expired child',
+    );
+    await saveTrashRetentionDays(7);
+    const now = Date.now();
+    // Clear items left in the trash by earlier tests
+    await purgeExpiredTrash(now + 8 * DAY_MS);
+    // The subfolder was trashed on its own before its parent
+    await trashFolder(child.id);
+    await trashFolder(parent.id);
+
+    const purged = await purgeExpiredTrash(now + 8 * DAY_MS);
+
+    expect(purged).toBe(1);
+    const remaining = (await loadFolders()).map(f => f.id);
+    expect(remaining).not.toContain(parent.id);
+    expect(remaining).not.toContain(child.id);
+  });
+});
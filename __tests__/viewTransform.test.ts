@@ -0,0 +1,59 @@
+import {
+  clampPageView,
+  composePageViews,
+  getPageFit,
+  getPinchView,
+  MAX_ZOOM,
+  toPagePoint,
+  toScreenPoint,
+} from '../src/utils/viewTransform';
+
+const SIZE = { width: 400, height: 600 };
+
+describe('view transform', () => {
+  it('maps between screen and page coordinates', () => {
+    const view = { zoom: 2, offsetX: -100, offsetY: -50 };
+
+    expect(toPagePoint({ x: 100, y: 150 }, view)).toEqual({ x: 100, y: 100 });
+    expect(toScreenPoint({ x: 100, y: 100 }, view)).toEqual({ x: 100, y: 150 });
+  });
+
+  it('keeps the zoom in range and the page covering the canvas', () => {
+    expect(clampPageView({ zoom: 0.5, offsetX: 30, offsetY: 30 }, SIZE)).toEqual({
+      zoom: 1,
+      offsetX: 0,
+      offsetY: 0,
+    });
+    expect(clampPageView({ zoom: 10, offsetX: -5000, offsetY: 20 }, SIZE)).toEqual({
+      zoom: MAX_ZOOM,
+      offsetX: 400 - 400 * MAX_ZOOM,
+      offsetY: 0,
+    });
+  });
+
+  it('zooms about the pinch midpoint and pans with it', () => {
+    const start = {
+      view: { zoom: 1, offsetX: 0, offsetY: 0 },
+      midpoint: { x: 200, y: 300 },
+      distance: 100,
+    };
+
+    const zoomed = getPinchView(start, { x: 200, y: 300 }, 200, SIZE);
+    expect(zoomed).toEqual({ zoom: 2, offsetX: -200, offsetY: -300 });
+    // The page point that was under the fingers is still under them
+    expect(toPagePoint({ x: 200, y: 300 }, zoomed)).toEqual({ x: 200, y: 300 });
+
+    const panned = getPinchView({ ...start, view: zoomed }, { x: 250, y: 280 }, 100, SIZE);
+    expect(panned).toEqual({ zoom: 2, offsetX: -150, offsetY: -320 });
+  });
+
+  it('letterboxes the page into the canvas under the zoom', () => {
+    const fit = getPageFit({ width: 800, height: 800 }, SIZE);
+    expect(fit).toEqual({ zoom: 0.5, offsetX: 0, offsetY: 100 });
+    expect(toScreenPoint({ x: 800, y: 800 }, fit)).toEqual({ x: 400, y: 500 });
+
+    const display = composePageViews({ zoom: 2, offsetX: -200, offsetY: -300 }, fit);
+    expect(display).toEqual({ zoom: 1, offsetX: -200, offsetY: -100 });
+    expect(toPagePoint({ x: 200, y: 300 }, display)).toEqual({ x: 400, y: 400 });
+  });
+});
@@ -0,0 +1,129 @@
+import {
+  enqueueCoalescedWrite,
+  enqueueWrite,
+  waitForPendingWrites,
+} from '../src/storage/writeQueue';
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(res => {
+    resolve = res;
+  });
+  return { promise, resolve };
+}
+
+describe('writeQueue', () => {
+  it('runs writes for the same key one at a time in call order', async () => {
+    const events: string[] = [];
+    const gate = deferred();
+
+    const first = enqueueWrite('key', async () => {
+      events.push('first:start');
+      await gate.promise;
+      events.push('first:end');
+    });
+    const second = enqueueWrite('key', async () => {
+      events.push('second:start');
+    });
+
+    await Promise.resolve();
+    expect(events).toEqual(['first:start']);
+
+    gate.resolve();
+    await Promise.all([first, second]);
+    expect(events).toEqual(['first:start', 'first:end', 'second:start']);
+  });
+
+  it('runs writes for different keys independently', async () => {
+    const gate = deferred();
+    const events: string[] = [];
+
+    const blocked = enqueueWrite('a', async () => {
+      await gate.promise;
+      events.push('a');
+    });
+    await enqueueWrite('b', async () => {
+      events.push('b');
+    });
+
+    expect(events).toEqual(['b']);
+    gate.resolve();
+    await blocked;
+    expect(events).toEqual(['b', 'a']);
+  });
+
+  it('coalesces queued full-state writes into the latest one', async () => {
+    const gate = deferred();
+    const written: number[] = [];
+
+    const inFlight = enqueueCoalescedWrite('drawing', async () => {
+      await gate.promise;
+      written.push(1);
+    });
+    const queued = [2, 3, 4].map(value =>
+      enqueueCoalescedWrite('drawing', async () => {
+        written.push(value);
+      }),
+    );
+
+    gate.resolve();
+    await Promise.all([inFlight, ...queued]);
+    expect(written).toEqual([1, 4]);
+  });
+
+  it('does not coalesce across a plain write', async () => {
+    const gate = deferred();
+    const written: string[] = [];
+
+    const inFlight = enqueueWrite('key', async () => {
+      await gate.promise;
+    });
+    const a = enqueueCoalescedWrite('key', async () => {
+      written.push('a');
+    });
+    const plain = enqueueWrite('key', async () => {
+      written.push('plain');
+    });
+    const b = enqueueCoalescedWrite('key', async () => {
+      written.push('b');
+    });
+
+    gate.resolve();
+    await Promise.all([inFlight, a, plain, b]);
+    expect(written).toEqual(['a', 'plain', 'b']);
+  });
+
+  it('rejects every caller of a failed batch and keeps the queue running', async () => {
+    const gate = deferred();
+
+    const inFlight = enqueueWrite('key', () => gate.promise);
+    const failingA = enqueueCoalescedWrite('key', async () => {
+      throw new Error('should be replaced');
+    });
+    const failingB = enqueueCoalescedWrite('key', async () => {
+      throw new Error('disk full');
+    });
+    const after = enqueueWrite('key', async () => 'ok');
+
+    gate.resolve();
+    await inFlight;
+    await expect(failingA).rejects.toThrow('disk full');
+    await expect(failingB).rejects.toThrow('disk full');
+    await expect(after).resolves.toBe('ok');
+  });
+
+  it('waits for every write queued before the call', async () => {
+    const gate = deferred();
+    let done = false;
+
+    enqueueWrite('slow', async () => {
+      await gate.promise;
+      done = true;
+    });
+
+    const waiting = waitForPendingWrites();
+    gate.resolve();
+    await waiting;
+    expect(done).toBe(true);
+  });
+});
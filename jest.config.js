@@ -1,3 +1,7 @@
 module.exports = {
   preset: 'react-native',
+  // uuid ships ES modules only, so it needs to go through babel like RN packages
+  transformIgnorePatterns: [
+    'node_modules/(?!((jest-)?react-native|@react-native(-community)?|uuid)/)',
+  ],
 };
@@ -34,6 +34,8 @@ export interface HealthResponse {
 // Ask region types
 export interface AskRegionRequest {
   folderId: string; // For RAG context retrieval from indexed pages
+  folderIds?: string[]; // Retrieve from these folders instead (e.g. folderId and its subfolders)
+  tag?: string; // Only retrieve chunks of notes with this tag
   pageId: string;
   regionImageBase64: string;
   question: string;
@@ -59,6 +61,8 @@ export interface IndexPageRequest {
   pageId: string;
   pageIndex: number;
   pageImageBase64: string;
+  tags?: string[]; // The note's tags, stored in chunk metadata
+  hasHighlights?: boolean; // Highlighted passages get flagged as important
 }
 
 export interface IndexPageResponse {
@@ -77,6 +81,62 @@ export interface IndexPdfResponse {
   pageCount: number;
 }
 
+// Purge chunks: exactly one of folderId / sourceIds should be provided
+export interface PurgeChunksRequest {
+  folderId?: string;
+  sourceIds?: string[];
+}
+
+export interface PurgeChunksResponse {
+  ok: boolean;
+  chunksDeleted: number;
+}
+
+// Update chunk page indexes after pages are reordered, inserted or deleted
+export interface ChunkPageIndexUpdate {
+  sourceId: string; // pageId
+  pageIndex: number;
+}
+
+export interface UpdateChunkPageIndexesRequest {
+  updates: ChunkPageIndexUpdate[];
+}
+
+export interface UpdateChunkPageIndexesResponse {
+  ok: boolean;
+  chunksUpdated: number;
+}
+
+// Update chunk folder ids after notes move to another folder
+export interface ChunkFolderUpdate {
+  sourceId: string; // pageId
+  folderId: string;
+}
+
+export interface UpdateChunkFoldersRequest {
+  updates: ChunkFolderUpdate[];
+}
+
+export interface UpdateChunkFoldersResponse {
+  ok: boolean;
+  chunksUpdated: number;
+}
+
+// Update the tags in chunk metadata after a note's tags change
+export interface ChunkTagUpdate {
+  noteId: string;
+  tags: string[];
+}
+
+export interface UpdateChunkTagsRequest {
+  updates: ChunkTagUpdate[];
+}
+
+export interface UpdateChunkTagsResponse {
+  ok: boolean;
+  chunksUpdated: number;
+}
+
 // ============ Configuration ============
 
 function getConfig(): {url: string; anonKey: string} | null {
@@ -212,3 +272,55 @@ export async function indexPdf(
     request,
   );
 }
+
+/**
+ * Delete indexed chunks for a whole folder or for specific sources (page IDs).
+ * Used when folders, notes or pages are deleted locally.
+ */
+export async function purgeChunks(
+  request: PurgeChunksRequest,
+): Promise<ApiResponse<PurgeChunksResponse>> {
+  return callEdgeFunction<PurgeChunksRequest, PurgeChunksResponse>(
+    'purgeChunks',
+    request,
+  );
+}
+
+/**
+ * Re-point indexed chunks at their page's new position so citations still
+ * navigate to the right page after pages move within a note.
+ */
+export async function updateChunkPageIndexes(
+  request: UpdateChunkPageIndexesRequest,
+): Promise<ApiResponse<UpdateChunkPageIndexesResponse>> {
+  return callEdgeFunction<UpdateChunkPageIndexesRequest, UpdateChunkPageIndexesResponse>(
+    'updateChunkPageIndexes',
+    request,
+  );
+}
+
+/**
+ * Re-point indexed chunks at their note's new folder so retrieval context
+ * follows notes that moved between folders.
+ */
+export async function updateChunkFolders(
+  request: UpdateChunkFoldersRequest,
+): Promise<ApiResponse<UpdateChunkFoldersResponse>> {
+  return callEdgeFunction<UpdateChunkFoldersRequest, UpdateChunkFoldersResponse>(
+    'updateChunkFolders',
+    request,
+  );
+}
+
+/**
+ * Replace the tags stored in indexed chunks of notes whose tags changed,
+ * so tag-filtered questions see the current tags.
+ */
+export async function updateChunkTags(
+  request: UpdateChunkTagsRequest,
+): Promise<ApiResponse<UpdateChunkTagsResponse>> {
+  return callEdgeFunction<UpdateChunkTagsRequest, UpdateChunkTagsResponse>(
+    'updateChunkTags',
+    request,
+  );
+}
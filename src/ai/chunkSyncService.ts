@@ -0,0 +1,269 @@
+/**
+ * Chunk Sync Service
+ *
+ * Keeps server-side RAG chunks consistent with local structural changes:
+ * - Purges chunks for content that was deleted locally
+ * - Re-points chunk page_index after pages are reordered within a note
+ * - Re-points chunk folder_id after notes move to another folder
+ * - Rewrites the tags in chunk metadata after a note's tags change
+ *
+ * Local changes queue their server work in SQLite (see storage/chunkPurges.ts,
+ * storage/chunkPageIndexes.ts, storage/chunkFolderMoves.ts and
+ * storage/chunkTagUpdates.ts). This service
+ * sends queued work to the edge functions and keeps it queued when the device
+ * is offline or the backend fails, so it is retried on the next flush (after
+ * the next change, or when the app returns to the foreground).
+ */
+
+import { AppState } from 'react-native';
+import {
+  ApiError,
+  purgeChunks,
+  updateChunkFolders,
+  updateChunkPageIndexes,
+  updateChunkTags,
+} from './apiClient';
+import {
+  loadPendingChunkPurges,
+  recordChunkPurgeFailure,
+  removePendingChunkPurge,
+} from '../storage/chunkPurges';
+import {
+  loadPendingChunkPageIndexes,
+  recordChunkPageIndexFailure,
+  removePendingChunkPageIndex,
+} from '../storage/chunkPageIndexes';
+import {
+  loadPendingChunkFolderMoves,
+  recordChunkFolderMoveFailure,
+  removePendingChunkFolderMove,
+} from '../storage/chunkFolderMoves';
+import {
+  loadPendingChunkTagUpdates,
+  recordChunkTagUpdateFailure,
+  removePendingChunkTagUpdate,
+} from '../storage/chunkTagUpdates';
+
+// Maximum page_index updates sent per request (matches the edge function)
+const PAGE_INDEX_BATCH_SIZE = 200;
+
+// Maximum folder_id updates sent per request (matches the edge function)
+const FOLDER_MOVE_BATCH_SIZE = 200;
+
+// Maximum note tag updates sent per request (matches the edge function)
+const TAG_UPDATE_BATCH_SIZE = 100;
+
+// Prevent overlapping flushes from sending the same work twice
+let flushInProgress = false;
+
+/**
+ * Internal helper: Whether a failed request is worth retrying later
+ */
+function isRetryable(error: ApiError): boolean {
+  // A 400 means the request itself is invalid - retrying will never succeed
+  return !(error.code === 'HTTP_ERROR' && error.status === 400);
+}
+
+/**
+ * Internal helper: Whether later requests in this flush would fail the same way
+ */
+function isConnectivityError(error: ApiError): boolean {
+  return error.code === 'NETWORK_ERROR' || error.code === 'CONFIG_ERROR';
+}
+
+/**
+ * Send queued chunk purges. Returns false if the backend is unreachable.
+ */
+async function flushChunkPurges(): Promise<boolean> {
+  const pending = await loadPendingChunkPurges();
+  for (const purge of pending) {
+    const result = await purgeChunks(
+      purge.folderId
+        ? { folderId: purge.folderId }
+        : { sourceIds: purge.sourceIds ?? [] },
+    );
+
+    if (result.ok) {
+      console.log(
+        `[chunkSyncService] Purge ${purge.id} done: ${result.data.chunksDeleted} chunks deleted`,
+      );
+      await removePendingChunkPurge(purge.id);
+      continue;
+    }
+
+    if (!isRetryable(result)) {
+      console.error(`[chunkSyncService] Dropping invalid purge ${purge.id}:`, result.error);
+      await removePendingChunkPurge(purge.id);
+      continue;
+    }
+
+    console.warn(`[chunkSyncService] Purge ${purge.id} failed, will retry:`, result.error);
+    await recordChunkPurgeFailure(purge.id, result.error);
+    if (isConnectivityError(result)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Send queued chunk page_index updates in batches
+ */
+async function flushChunkPageIndexes(): Promise<void> {
+  const pending = await loadPendingChunkPageIndexes();
+  for (let start = 0; start < pending.length; start += PAGE_INDEX_BATCH_SIZE) {
+    const batch = pending.slice(start, start + PAGE_INDEX_BATCH_SIZE);
+    const result = await updateChunkPageIndexes({
+      updates: batch.map(update => ({
+        sourceId: update.pageId,
+        pageIndex: update.pageIndex,
+      })),
+    });
+
+    if (result.ok || !isRetryable(result)) {
+      if (!result.ok) {
+        console.error('[chunkSyncService] Dropping invalid page index batch:', result.error);
+      } else {
+        console.log(
+          `[chunkSyncService] Page indexes synced: ${result.data.chunksUpdated} chunks updated`,
+        );
+      }
+      for (const update of batch) {
+        await removePendingChunkPageIndex(update.pageId, update.pageIndex);
+      }
+      continue;
+    }
+
+    console.warn('[chunkSyncService] Page index sync failed, will retry:', result.error);
+    await recordChunkPageIndexFailure(
+      batch.map(update => update.pageId),
+      result.error,
+    );
+    if (isConnectivityError(result)) {
+      return;
+    }
+  }
+}
+
+/**
+ * Send queued chunk folder_id updates in batches. Returns false if the
+ * backend is unreachable.
+ */
+async function flushChunkFolderMoves(): Promise<boolean> {
+  const pending = await loadPendingChunkFolderMoves();
+  for (let start = 0; start < pending.length; start += FOLDER_MOVE_BATCH_SIZE) {
+    const batch = pending.slice(start, start + FOLDER_MOVE_BATCH_SIZE);
+    const result = await updateChunkFolders({
+      updates: batch.map(move => ({
+        sourceId: move.pageId,
+        folderId: move.folderId,
+      })),
+    });
+
+    if (result.ok || !isRetryable(result)) {
+      if (!result.ok) {
+        console.error('[chunkSyncService] Dropping invalid folder move batch:', result.error);
+      } else {
+        console.log(
+          `[chunkSyncService] Folder moves synced: ${result.data.chunksUpdated} chunks updated`,
+        );
+      }
+      for (const move of batch) {
+        await removePendingChunkFolderMove(move.pageId, move.folderId);
+      }
+      continue;
+    }
+
+    console.warn('[chunkSyncService] Folder move sync failed, will retry:', result.error);
+    await recordChunkFolderMoveFailure(
+      batch.map(move => move.pageId),
+      result.error,
+    );
+    if (isConnectivityError(result)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Send queued chunk tag updates in batches. Returns false if the backend
+ * is unreachable.
+ */
+async function flushChunkTagUpdates(): Promise<boolean> {
+  const pending = await loadPendingChunkTagUpdates();
+  for (let start = 0; start < pending.length; start += TAG_UPDATE_BATCH_SIZE) {
+    const batch = pending.slice(start, start + TAG_UPDATE_BATCH_SIZE);
+    const result = await updateChunkTags({
+      updates: batch.map(update => ({ noteId: update.noteId, tags: update.tags })),
+    });
+
+    if (result.ok || !isRetryable(result)) {
+      if (!result.ok) {
+        console.error('[chunkSyncService] Dropping invalid tag update batch:', result.error);
+      } else {
+        console.log(
+          `[chunkSyncService] Tags synced: ${result.data.chunksUpdated} chunks updated`,
+        );
+      }
+      for (const update of batch) {
+        await removePendingChunkTagUpdate(update.noteId, update.tags);
+      }
+      continue;
+    }
+
+    console.warn('[chunkSyncService] Tag sync failed, will retry:', result.error);
+    await recordChunkTagUpdateFailure(
+      batch.map(update => update.noteId),
+      result.error,
+    );
+    if (isConnectivityError(result)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Send all queued chunk work to the backend.
+ * Folder moves are sent before purges, so purging the folder a note left
+ * cannot delete the note's chunks, and purging a moved note's new folder
+ * or pages also removes chunks that were still waiting to be re-pointed.
+ * This function does not throw - failed work stays queued for a later retry.
+ */
+export async function flushPendingChunkSync(): Promise<void> {
+  if (flushInProgress) {
+    return;
+  }
+  flushInProgress = true;
+
+  try {
+    const reachable =
+      (await flushChunkFolderMoves()) &&
+      (await flushChunkTagUpdates()) &&
+      (await flushChunkPurges());
+    if (reachable) {
+      await flushChunkPageIndexes();
+    }
+  } catch (error) {
+    console.error('[chunkSyncService] Unexpected error flushing chunk sync:', error);
+  } finally {
+    flushInProgress = false;
+  }
+}
+
+/**
+ * Flush queued chunk work now and every time the app becomes active.
+ * Returns a function that stops the foreground retries.
+ */
+export function startChunkSyncRetries(): () => void {
+  void flushPendingChunkSync();
+  const subscription = AppState.addEventListener('change', nextState => {
+    if (nextState === 'active') {
+      void flushPendingChunkSync();
+    }
+  });
+  return () => {
+    subscription.remove();
+  };
+}
@@ -10,55 +10,26 @@
 import { indexPage } from './apiClient';
 import { updatePageIndexStatus } from '../storage/pages';
 import { loadDrawingData } from '../storage/drawings';
+import { loadTagsForNotes } from '../storage/tags';
 import {
   renderDrawingToPngBase64,
   getExportSizeForLogicalSize,
   ExportSize,
 } from '../utils/exportDrawing';
-import { Page, DrawingData } from '../types/models';
-
-/**
- * Compute a simple hash of drawing data to detect content changes.
- * Uses a string representation of strokes for comparison.
- */
-function computeDrawingHash(drawingData: DrawingData | null): string {
-  if (!drawingData || drawingData.strokes.length === 0) {
-    return 'empty';
-  }
-
-  // Create a deterministic string representation of the drawing
-  // Include stroke count, point counts, and a sample of coordinates
-  const strokeSummaries = drawingData.strokes.map(stroke => {
-    const pointCount = stroke.points.length;
-    // Sample first, middle, and last points for the hash
-    const firstPoint = stroke.points[0];
-    const midPoint = stroke.points[Math.floor(pointCount / 2)];
-    const lastPoint = stroke.points[pointCount - 1];
-    return `${stroke.id}:${pointCount}:${firstPoint?.x.toFixed(1)},${firstPoint?.y.toFixed(1)}:${midPoint?.x.toFixed(1)},${midPoint?.y.toFixed(1)}:${lastPoint?.x.toFixed(1)},${lastPoint?.y.toFixed(1)}`;
-  });
-
-  const hashInput = `v${drawingData.version}:${drawingData.strokes.length}:${strokeSummaries.join('|')}`;
-
-  // Simple hash function (djb2)
-  let hash = 5381;
-  for (let i = 0; i < hashInput.length; i++) {
-    hash = ((hash << 5) + hash) + hashInput.charCodeAt(i);
-    hash = hash & hash; // Convert to 32-bit integer
-  }
-
-  return hash.toString(16);
-}
+import { computeDrawingHash } from '../utils/drawingHash';
+import { hasHighlighterStrokes } from '../utils/highlighter';
+import { Page } from '../types/models';
 
 export interface IndexPageParams {
   page: Page;
   folderId: string;
-  canvasSize: ExportSize;
+  canvasSize: ExportSize; // for pages without a declared size
 }
 
 export interface IndexNoteParams {
   pages: Page[];
   folderId: string;
-  canvasSize: ExportSize;
+  canvasSize: ExportSize; // for pages without a declared size
   onProgress?: (indexed: number, total: number) => void;
 }
 
@@ -130,11 +101,12 @@ export async function triggerPageIndexing(params: IndexPageParams): Promise<void
     }
 
     // Render drawing to base64 PNG
-    const outputSize = getExportSizeForLogicalSize(canvasSize);
+    const logicalSize = page.size ?? canvasSize;
+    const outputSize = getExportSizeForLogicalSize(logicalSize);
     let imageBase64: string;
 
     try {
-      imageBase64 = renderDrawingToPngBase64(drawingData, canvasSize, outputSize);
+      imageBase64 = renderDrawingToPngBase64(drawingData, logicalSize, outputSize);
     } catch (renderError) {
       const message = renderError instanceof Error ? renderError.message : 'Render failed';
       console.error(`[indexingService] Failed to render page ${page.id}:`, message);
@@ -143,12 +115,15 @@ export async function triggerPageIndexing(params: IndexPageParams): Promise<void
     }
 
     // Call the indexPage API
+    const tagsByNote = await loadTagsForNotes([page.noteId]);
     const result = await indexPage({
       folderId,
       noteId: page.noteId,
       pageId: page.id,
       pageIndex: page.pageIndex,
       pageImageBase64: imageBase64,
+      tags: tagsByNote[page.noteId] ?? [],
+      hasHighlights: hasHighlighterStrokes(drawingData.strokes),
     });
 
     if (result.ok) {
@@ -231,16 +206,20 @@ export async function indexNote(params: IndexNoteParams): Promise<IndexNoteResul
 
       try {
         // Render drawing to base64 PNG
-        const outputSize = getExportSizeForLogicalSize(canvasSize);
-        const imageBase64 = renderDrawingToPngBase64(drawingData, canvasSize, outputSize);
+        const logicalSize = page.size ?? canvasSize;
+        const outputSize = getExportSizeForLogicalSize(logicalSize);
+        const imageBase64 = renderDrawingToPngBase64(drawingData, logicalSize, outputSize);
 
         // Call the indexPage API
+        const tagsByNote = await loadTagsForNotes([page.noteId]);
         const apiResult = await indexPage({
           folderId,
           noteId: page.noteId,
           pageId: page.id,
           pageIndex: page.pageIndex,
           pageImageBase64: imageBase64,
+          tags: tagsByNote[page.noteId] ?? [],
+          hasHighlights: hasHighlighterStrokes(drawingData.strokes),
         });
 
         if (apiResult.ok) {
@@ -9,13 +9,18 @@ import {
   StyleSheet,
   ScrollView,
   ActivityIndicator,
+  Switch,
   KeyboardAvoidingView,
   Platform,
   Dimensions,
 } from 'react-native';
 import type {Citation} from '../types/ai';
 import {askRegion} from '../ai/apiClient';
+import {loadFolders} from '../storage/folders';
+import {loadAllTags} from '../storage/notes';
+import {getDescendantFolderIds} from '../utils/folderTree';
 import MathText from './MathText';
+import TagFilterBar from './TagFilterBar';
 
 interface AskSheetProps {
   visible: boolean;
@@ -31,6 +36,10 @@ const AskSheet: React.FC<AskSheetProps> = ({visible, onClose, folderId, pageId,
   const [loading, setLoading] = useState(false);
   const [answer, setAnswer] = useState<string | null>(null);
   const [citations, setCitations] = useState<Citation[]>([]);
+  const [subfolderIds, setSubfolderIds] = useState<string[]>([]);
+  const [includeSubfolders, setIncludeSubfolders] = useState(false);
+  const [tags, setTags] = useState<string[]>([]);
+  const [tag, setTag] = useState<string | null>(null);
 
   const slideAnim = useRef(new Animated.Value(1000)).current;
   const screenHeight = Dimensions.get('window').height;
@@ -55,6 +64,29 @@ const AskSheet: React.FC<AskSheetProps> = ({visible, onClose, folderId, pageId,
     }
   }, [visible, slideAnim]);
 
+  // Look up subfolders, so the question can cover e.g. a whole course
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+    let isActive = true;
+    loadFolders().then(folders => {
+      if (isActive) {
+        setSubfolderIds(getDescendantFolderIds(folders, folderId));
+      }
+    });
+    // Tags for limiting the question to e.g. notes tagged "exam-2"
+    loadAllTags().then(allTags => {
+      if (isActive) {
+        setTags(allTags);
+        setTag(current => (current && allTags.includes(current) ? current : null));
+      }
+    });
+    return () => {
+      isActive = false;
+    };
+  }, [visible, folderId]);
+
   // Reset answer/citations when question is cleared
   useEffect(() => {
     if (question.trim() === '') {
@@ -79,6 +111,11 @@ const AskSheet: React.FC<AskSheetProps> = ({visible, onClose, folderId, pageId,
     try {
       const result = await askRegion({
         folderId,
+        folderIds:
+          includeSubfolders && subfolderIds.length > 0
+            ? [folderId, ...subfolderIds]
+            : undefined,
+        tag: tag ?? undefined,
         pageId,
         regionImageBase64,
         question: trimmedQuestion,
@@ -194,6 +231,34 @@ const AskSheet: React.FC<AskSheetProps> = ({visible, onClose, folderId, pageId,
             </Text>
           </View>
 
+          {/* Scope toggle, only when the folder has subfolders */}
+          {subfolderIds.length > 0 && (
+            <View style={styles.scopeRow}>
+              <Text style={styles.scopeLabel}>
+                Include {subfolderIds.length}{' '}
+                {subfolderIds.length === 1 ? 'subfolder' : 'subfolders'}
+              </Text>
+              <Switch
+                value={includeSubfolders}
+                onValueChange={setIncludeSubfolders}
+                disabled={loading}
+              />
+            </View>
+          )}
+
+          {/* Tag filter, only when some notes have tags */}
+          {tags.length > 0 && (
+            <View style={styles.tagRow}>
+              <TagFilterBar
+                label="Only notes tagged"
+                tags={tags}
+                selectedTag={tag}
+                disabled={loading}
+                onSelect={setTag}
+              />
+            </View>
+          )}
+
           {/* Submit Button */}
           <TouchableOpacity
             style={[
@@ -318,6 +383,19 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#333',
   },
+  scopeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  scopeLabel: {
+    fontSize: 15,
+    color: '#333',
+  },
+  tagRow: {
+    marginBottom: 12,
+  },
   closeButton: {
     width: 32,
     height: 32,
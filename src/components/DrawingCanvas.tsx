@@ -8,27 +8,63 @@ import React, {
   useRef,
   useState,
 } from 'react';
-import { PanResponder, StyleSheet, View } from 'react-native';
-import { Canvas, Line, Path, Rect, Skia, vec } from '@shopify/react-native-skia';
+import { GestureResponderEvent, PanResponder, StyleSheet, View } from 'react-native';
+import { Canvas, Circle, Group, Line, Path, Rect, rect, vec } from '@shopify/react-native-skia';
 import { v4 as uuidv4 } from 'uuid';
 import {
+  DEFAULT_HIGHLIGHTER_STYLE,
+  DEFAULT_PAGE_VIEW,
+  DEFAULT_PEN_STYLE,
   DrawingData,
   DrawingTool,
+  EraserMode,
   LINE_SPACING_VALUES,
+  PageView,
   PaperSettings,
+  PenStyle,
   Point,
+  SelectionLasso,
   SelectionRect,
   Stroke,
+  StrokeTool,
 } from '../types/models';
+import { getStrokeOutline } from '../utils/strokeOutline';
+import { buildPath } from '../utils/exportDrawing';
+import { simplifyPoints, STROKE_SIMPLIFY_TOLERANCE } from '../utils/strokeGeometry';
+import { HIGHLIGHTER_OPACITY } from '../utils/highlighter';
+import { cutStrokePoints } from '../utils/strokeErase';
+import { getStrokesInLasso, isLassoClosedArea, pointInPolygon } from '../utils/lasso';
+import { recognizeShape } from '../utils/shapeRecognition';
+import {
+  getStrokesBounds,
+  StrokeTransform,
+  transformPoint,
+  transformStroke,
+  translation,
+} from '../utils/strokeTransform';
+import {
+  clampPageView,
+  composePageViews,
+  getPageFit,
+  getPinchView,
+  PinchStart,
+  toPagePoint,
+  ViewSize,
+} from '../utils/viewTransform';
 
-const DRAWING_VERSION = 1;
-const DEFAULT_COLOR = '#111111';
-const DEFAULT_WIDTH = 3;
+// 2: points may carry pressure and time (version 1 data loads unchanged)
+const DRAWING_VERSION = 2;
+// Touch sizes below are in screen px; they shrink on the page as it is zoomed in
 const MIN_POINT_DISTANCE = 2;
-const MIN_POINT_DISTANCE_SQ = MIN_POINT_DISTANCE * MIN_POINT_DISTANCE;
 const ERASER_HIT_PADDING = 12;
+const PRECISION_ERASER_RADIUS = 8;
 const MAX_HISTORY = 20;
 const MIN_SELECTION_SIZE = 5;
+const SELECTION_BOX_PADDING = 8;
+const SELECTION_HANDLE_RADIUS = 8;
+const SELECTION_HANDLE_HIT_RADIUS = 24;
+const ROTATE_HANDLE_OFFSET = 32;
+const MIN_TRANSFORM_SCALE = 0.1;
 
 type HistoryStack = Stroke[][];
 
@@ -36,12 +72,21 @@ type DrawingState = {
   strokes: Stroke[];
   undoStack: HistoryStack;
   redoStack: HistoryStack;
+  // Eraser or transform gesture that already has an undo step
+  gestureId?: number;
+  // Strokes before the current transform gesture started
+  gestureBase?: Stroke[];
 };
 
 type DrawingAction =
   | { type: 'set'; strokes: Stroke[] }
   | { type: 'add'; stroke: Stroke }
+  | { type: 'addMany'; strokes: Stroke[] }
+  | { type: 'replace'; strokes: Stroke[] }
   | { type: 'erase'; strokeId: string }
+  | { type: 'reshape'; strokeId: string; points: Point[] }
+  | { type: 'cut'; point: Point; radius: number; gestureId: number }
+  | { type: 'transform'; strokeIds: string[]; transform: StrokeTransform; gestureId: number }
   | { type: 'clear' }
   | { type: 'undo' }
   | { type: 'redo' };
@@ -71,6 +116,22 @@ function drawingReducer(state: DrawingState, action: DrawingAction): DrawingStat
         undoStack: pushHistory(state.undoStack, state.strokes),
         redoStack: [],
       };
+    case 'addMany':
+      if (action.strokes.length === 0) {
+        return state;
+      }
+      return {
+        strokes: [...state.strokes, ...action.strokes],
+        undoStack: pushHistory(state.undoStack, state.strokes),
+        redoStack: [],
+      };
+    case 'replace':
+      // Like 'set', but undoable (e.g. restoring an older page version)
+      return {
+        strokes: action.strokes,
+        undoStack: pushHistory(state.undoStack, state.strokes),
+        redoStack: [],
+      };
     case 'erase': {
       const exists = state.strokes.some(stroke => stroke.id === action.strokeId);
       if (!exists) {
@@ -82,6 +143,62 @@ function drawingReducer(state: DrawingState, action: DrawingAction): DrawingStat
         redoStack: [],
       };
     }
+    case 'reshape': {
+      // Its own undo step, so one undo brings back the raw ink
+      const exists = state.strokes.some(stroke => stroke.id === action.strokeId);
+      if (!exists) {
+        return state;
+      }
+      return {
+        strokes: state.strokes.map(stroke =>
+          stroke.id === action.strokeId ? { ...stroke, points: action.points } : stroke,
+        ),
+        undoStack: pushHistory(state.undoStack, state.strokes),
+        redoStack: [],
+      };
+    }
+    case 'cut': {
+      let changed = false;
+      const strokes = state.strokes.flatMap(stroke => {
+        const radius = action.radius + stroke.width / 2;
+        const pieces = cutStrokePoints(stroke.points, action.point, radius);
+        if (!pieces) {
+          return [stroke];
+        }
+        changed = true;
+        return pieces.map(points => ({ ...stroke, id: uuidv4(), points }));
+      });
+      if (!changed) {
+        return state;
+      }
+      // All cuts of one eraser gesture are undone together
+      const isNewGesture = state.gestureId !== action.gestureId;
+      return {
+        strokes,
+        undoStack: isNewGesture ? pushHistory(state.undoStack, state.strokes) : state.undoStack,
+        redoStack: [],
+        gestureId: action.gestureId,
+      };
+    }
+    case 'transform': {
+      // Each move of a transform gesture is measured from where the gesture
+      // started, and the whole gesture is one undo step
+      const isNewGesture = state.gestureId !== action.gestureId || !state.gestureBase;
+      const base = isNewGesture ? state.strokes : state.gestureBase ?? state.strokes;
+      const ids = new Set(action.strokeIds);
+      if (!base.some(stroke => ids.has(stroke.id))) {
+        return state;
+      }
+      return {
+        strokes: base.map(stroke =>
+          ids.has(stroke.id) ? transformStroke(stroke, action.transform) : stroke,
+        ),
+        undoStack: isNewGesture ? pushHistory(state.undoStack, state.strokes) : state.undoStack,
+        redoStack: [],
+        gestureId: action.gestureId,
+        gestureBase: base,
+      };
+    }
     case 'clear':
       if (state.strokes.length === 0) {
         return state;
@@ -142,12 +259,12 @@ function distanceToSegmentSq(point: Point, a: Point, b: Point): number {
   return distanceSq(point, projection);
 }
 
-function isPointNearStroke(point: Point, stroke: Stroke): boolean {
+function isPointNearStroke(point: Point, stroke: Stroke, padding: number): boolean {
   const points = stroke.points;
   if (points.length === 0) {
     return false;
   }
-  const tolerance = stroke.width / 2 + ERASER_HIT_PADDING;
+  const tolerance = stroke.width / 2 + padding;
   const toleranceSq = tolerance * tolerance;
   if (points.length === 1) {
     return distanceSq(point, points[0]) <= toleranceSq;
@@ -162,38 +279,132 @@ function isPointNearStroke(point: Point, stroke: Stroke): boolean {
   return false;
 }
 
-interface SelectionDragState {
-  startX: number;
-  startY: number;
-  currentX: number;
-  currentY: number;
+
+// Filled outline for pressure- or speed-sensitive strokes, else the centerline
+function buildStrokePath(stroke: Pick<Stroke, 'points' | 'width'>) {
+  const outline = getStrokeOutline(stroke);
+  if (!outline) {
+    return { path: buildPath(stroke.points), filled: false };
+  }
+  return { path: buildPath(outline, true), filled: true };
+}
+
+function isStrokeTool(tool: DrawingTool): tool is StrokeTool {
+  return tool === 'pen' || tool === 'highlighter';
 }
 
-function normalizeToRect(drag: SelectionDragState): SelectionRect {
+// Pen point with its timing and, when the touch reports it, pressure
+function makePenPoint(point: Point, elapsed: number, force: number | undefined): Point {
+  const penPoint: Point = { ...point, t: Math.max(0, Math.round(elapsed)) };
+  // Touches without pressure support report 0
+  if (force !== undefined && force > 0) {
+    penPoint.pressure = Math.round(Math.min(1, force) * 100) / 100;
+  }
+  return penPoint;
+}
+
+type SelectionGestureMode = 'move' | 'scale' | 'rotate';
+
+interface SelectionGesture {
+  mode: SelectionGestureMode;
+  start: Point;
+  box: SelectionRect; // selection box when the gesture started
+  gestureId: number;
+  transform: StrokeTransform | null;
+}
+
+// Box drawn around the selected strokes, or null if none of them are on the page
+function getSelectionBox(
+  strokes: Stroke[],
+  strokeIds: string[],
+  zoom: number,
+): SelectionRect | null {
+  const ids = new Set(strokeIds);
+  const bounds = getStrokesBounds(strokes.filter(stroke => ids.has(stroke.id)));
+  if (!bounds) {
+    return null;
+  }
+  const padding = SELECTION_BOX_PADDING / zoom;
   return {
-    x: Math.min(drag.startX, drag.currentX),
-    y: Math.min(drag.startY, drag.currentY),
-    width: Math.abs(drag.currentX - drag.startX),
-    height: Math.abs(drag.currentY - drag.startY),
+    x: bounds.x - padding,
+    y: bounds.y - padding,
+    width: bounds.width + padding * 2,
+    height: bounds.height + padding * 2,
   };
 }
 
-function buildPath(points: Point[]) {
-  const path = Skia.Path.Make();
-  if (points.length === 0) {
-    return path;
+// Scale handle on the bottom-right corner, rotate handle above the top edge
+function getSelectionHandles(box: SelectionRect, zoom: number): { scale: Point; rotate: Point } {
+  return {
+    scale: { x: box.x + box.width, y: box.y + box.height },
+    rotate: { x: box.x + box.width / 2, y: box.y - ROTATE_HANDLE_OFFSET / zoom },
+  };
+}
+
+// What a touch at this point does to the selection, or null to start a new lasso
+function getSelectionGestureMode(
+  point: Point,
+  box: SelectionRect,
+  lasso: Point[],
+  zoom: number,
+): SelectionGestureMode | null {
+  const handles = getSelectionHandles(box, zoom);
+  const hitRadius = SELECTION_HANDLE_HIT_RADIUS / zoom;
+  const hitSq = hitRadius * hitRadius;
+  if (distanceSq(point, handles.rotate) <= hitSq) {
+    return 'rotate';
   }
-  path.moveTo(points[0].x, points[0].y);
-  for (let i = 1; i < points.length; i += 1) {
-    path.lineTo(points[i].x, points[i].y);
+  if (distanceSq(point, handles.scale) <= hitSq) {
+    return 'scale';
   }
-  return path;
+  const inBox =
+    point.x >= box.x &&
+    point.x <= box.x + box.width &&
+    point.y >= box.y &&
+    point.y <= box.y + box.height;
+  return inBox || pointInPolygon(point, lasso) ? 'move' : null;
+}
+
+// Transform from the start of a selection gesture to the current touch
+function getSelectionGestureTransform(gesture: SelectionGesture, point: Point): StrokeTransform {
+  const { box, start } = gesture;
+  if (gesture.mode === 'scale') {
+    // Scale uniformly, keeping the opposite corner in place
+    const anchor = { x: box.x, y: box.y };
+    const startDistance = Math.sqrt(distanceSq(start, anchor));
+    const scale =
+      startDistance > 0
+        ? Math.max(MIN_TRANSFORM_SCALE, Math.sqrt(distanceSq(point, anchor)) / startDistance)
+        : 1;
+    return { origin: anchor, translateX: 0, translateY: 0, scale, rotation: 0 };
+  }
+  if (gesture.mode === 'rotate') {
+    const center = { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+    const rotation =
+      Math.atan2(point.y - center.y, point.x - center.x) -
+      Math.atan2(start.y - center.y, start.x - center.x);
+    return { origin: center, translateX: 0, translateY: 0, scale: 1, rotation };
+  }
+  return translation(point.x - start.x, point.y - start.y);
+}
+
+// Midpoint of the first two touches and the distance between them
+function getPinchGeometry(
+  event: GestureResponderEvent,
+): { midpoint: Point; distance: number } {
+  const [a, b] = event.nativeEvent.touches;
+  return {
+    midpoint: { x: (a.locationX + b.locationX) / 2, y: (a.locationY + b.locationY) / 2 },
+    distance: Math.hypot(a.locationX - b.locationX, a.locationY - b.locationY),
+  };
 }
 
 export interface DrawingCanvasHandle {
   undo: () => void;
   redo: () => void;
   clear: () => void;
+  addStrokes: (strokes: Stroke[]) => void;
+  replaceStrokes: (strokes: Stroke[]) => void;
   getDrawingData: () => DrawingData;
 }
 
@@ -204,9 +415,16 @@ interface DrawingCanvasProps {
   onDrawingChange: (drawingData: DrawingData) => void;
   onHistoryChange?: (canUndo: boolean, canRedo: boolean) => void;
   isInteractive?: boolean;
-  selectionRect?: SelectionRect | null;
-  onSelectionChange?: (rect: SelectionRect | null) => void;
+  selection?: SelectionLasso | null;
+  onSelectionChange?: (selection: SelectionLasso | null) => void;
   paperSettings?: PaperSettings;
+  penStyle?: PenStyle; // color and width of new pen strokes
+  highlighterStyle?: PenStyle; // color and width of new highlighter strokes
+  eraserMode?: EraserMode;
+  shapeAssist?: boolean; // snap finished pen strokes to recognized shapes
+  pageView?: PageView; // zoom and pan to show the page with
+  onPageViewChange?: (pageView: PageView) => void; // after each pinch
+  pageSize?: ViewSize | null; // declared page size, letterboxed into the canvas
 }
 
 const DEFAULT_PAPER_SETTINGS: PaperSettings = {
@@ -215,6 +433,7 @@ const DEFAULT_PAPER_SETTINGS: PaperSettings = {
 };
 
 const LINE_COLOR = '#d0d0d0';
+const PAGE_COLOR = '#ffffff';
 
 const DrawingCanvas = forwardRef<DrawingCanvasHandle, DrawingCanvasProps>(
   (
@@ -225,13 +444,21 @@ const DrawingCanvas = forwardRef<DrawingCanvasHandle, DrawingCanvasProps>(
       onDrawingChange,
       onHistoryChange,
       isInteractive = true,
-      selectionRect,
+      selection,
       onSelectionChange,
       paperSettings = DEFAULT_PAPER_SETTINGS,
+      penStyle = DEFAULT_PEN_STYLE,
+      highlighterStyle = DEFAULT_HIGHLIGHTER_STYLE,
+      eraserMode = 'stroke',
+      shapeAssist = false,
+      pageView = DEFAULT_PAGE_VIEW,
+      onPageViewChange,
+      pageSize,
     },
     ref,
   ) => {
-    const [canvasSize, setCanvasSize] = useState<{ width: number; height: number } | null>(null);
+    const [canvasSize, setCanvasSize] = useState<ViewSize | null>(null);
+    const canvasSizeRef = useRef<ViewSize | null>(null);
     const [state, dispatch] = useReducer(drawingReducer, {
       strokes: [],
       undoStack: [],
@@ -242,14 +469,32 @@ const DrawingCanvas = forwardRef<DrawingCanvasHandle, DrawingCanvasProps>(
     const currentPointsRef = useRef<Point[]>([]);
     const strokesRef = useRef<Stroke[]>(state.strokes);
     const activeToolRef = useRef<DrawingTool>(activeTool);
+    const penStyleRef = useRef<PenStyle>(penStyle);
+    const highlighterStyleRef = useRef<PenStyle>(highlighterStyle);
+    const strokeToolRef = useRef<StrokeTool>('pen');
     const isDrawingRef = useRef(false);
     const isInteractiveRef = useRef(isInteractive);
     const suppressOnChangeRef = useRef(true);
-    const eraserStartRef = useRef<Point | null>(null);
-    const selectionDragRef = useRef<SelectionDragState | null>(null);
-    const [selectionDrag, setSelectionDrag] = useState<SelectionDragState | null>(
-      null,
-    );
+    const penStartTimeRef = useRef(0);
+    const eraserModeRef = useRef<EraserMode>(eraserMode);
+    const shapeAssistRef = useRef(shapeAssist);
+    const eraserLastPointRef = useRef<Point | null>(null);
+    const gestureRef = useRef(0); // eraser and transform gestures
+    // Lasso points while the select tool is dragging
+    const selectionDragRef = useRef<Point[] | null>(null);
+    const [selectionDrag, setSelectionDrag] = useState<Point[] | null>(null);
+    const selectionRef = useRef<SelectionLasso | null>(selection ?? null);
+    // Move, scale or rotate of the selected strokes in progress
+    const selectionGestureRef = useRef<SelectionGesture | null>(null);
+    const [selectionTransform, setSelectionTransform] = useState<StrokeTransform | null>(null);
+    const [view, setView] = useState<PageView>(pageView);
+    const viewRef = useRef<PageView>(pageView);
+    // Page to screen transform (page fit, then view) for touch handling
+    const displayRef = useRef<PageView>(DEFAULT_PAGE_VIEW);
+    // Two-finger zoom and pan in progress
+    const pinchRef = useRef<PinchStart | null>(null);
+    // Set once a touch becomes a pinch; single-finger input waits for every finger to lift
+    const pinchedRef = useRef(false);
 
     const updateCurrentPoints = useCallback(
       (updater: Point[] | ((prev: Point[]) => Point[])) => {
@@ -275,8 +520,14 @@ const DrawingCanvas = forwardRef<DrawingCanvasHandle, DrawingCanvasProps>(
       // Clear in-progress selection drag when switching tools
       selectionDragRef.current = null;
       setSelectionDrag(null);
+      selectionGestureRef.current = null;
+      setSelectionTransform(null);
     }, [activeTool, cancelCurrentStroke]);
 
+    useEffect(() => {
+      selectionRef.current = selection ?? null;
+    }, [selection]);
+
     useEffect(() => {
       isInteractiveRef.current = isInteractive;
       if (!isInteractive) {
@@ -284,10 +535,49 @@ const DrawingCanvas = forwardRef<DrawingCanvasHandle, DrawingCanvasProps>(
       }
     }, [isInteractive, cancelCurrentStroke]);
 
+    useEffect(() => {
+      penStyleRef.current = penStyle;
+      highlighterStyleRef.current = highlighterStyle;
+    }, [penStyle, highlighterStyle]);
+
+    useEffect(() => {
+      eraserModeRef.current = eraserMode;
+    }, [eraserMode]);
+
+    useEffect(() => {
+      shapeAssistRef.current = shapeAssist;
+    }, [shapeAssist]);
+
     useEffect(() => {
       strokesRef.current = state.strokes;
     }, [state.strokes]);
 
+    // Without a declared size the page is the canvas itself
+    const pageBounds = pageSize ?? canvasSize;
+    const pageFit = useMemo(
+      () =>
+        pageBounds && canvasSize ? getPageFit(pageBounds, canvasSize) : DEFAULT_PAGE_VIEW,
+      [pageBounds, canvasSize],
+    );
+    const pageFitRef = useRef(pageFit);
+    const display = useMemo(() => composePageViews(view, pageFit), [view, pageFit]);
+
+    useEffect(() => {
+      pageFitRef.current = pageFit;
+      displayRef.current = composePageViews(viewRef.current, pageFit);
+    }, [pageFit]);
+
+    const updateView = useCallback((next: PageView) => {
+      viewRef.current = next;
+      displayRef.current = composePageViews(next, pageFitRef.current);
+      setView(next);
+    }, []);
+
+    useEffect(() => {
+      const size = canvasSizeRef.current;
+      updateView(size ? clampPageView(pageView, size) : pageView);
+    }, [pageView, updateView]);
+
     useEffect(() => {
       suppressOnChangeRef.current = true;
       dispatch({ type: 'set', strokes: drawingData?.strokes ?? [] });
@@ -310,26 +600,38 @@ const DrawingCanvas = forwardRef<DrawingCanvasHandle, DrawingCanvasProps>(
       undo: () => dispatch({ type: 'undo' }),
       redo: () => dispatch({ type: 'redo' }),
       clear: () => dispatch({ type: 'clear' }),
+      addStrokes: (strokes: Stroke[]) => dispatch({ type: 'addMany', strokes }),
+      replaceStrokes: (strokes: Stroke[]) => dispatch({ type: 'replace', strokes }),
       getDrawingData: () => ({ version: DRAWING_VERSION, strokes: state.strokes }),
     }));
 
     const handlePenStart = useCallback(
-      (point: Point) => {
+      (point: Point, timestamp: number, force?: number) => {
         isDrawingRef.current = true;
-        updateCurrentPoints([point]);
+        penStartTimeRef.current = timestamp;
+        strokeToolRef.current = activeToolRef.current === 'highlighter' ? 'highlighter' : 'pen';
+        // Highlighters keep a constant width, so they skip pressure and timing
+        updateCurrentPoints([
+          strokeToolRef.current === 'pen' ? makePenPoint(point, 0, force) : point,
+        ]);
       },
       [updateCurrentPoints],
     );
 
     const handlePenMove = useCallback(
-      (point: Point) => {
+      (point: Point, timestamp: number, force?: number) => {
         if (!isDrawingRef.current) {
           return;
         }
         const lastPoint =
           currentPointsRef.current[currentPointsRef.current.length - 1];
-        if (!lastPoint || distanceSq(lastPoint, point) >= MIN_POINT_DISTANCE_SQ) {
-          updateCurrentPoints(prev => [...prev, point]);
+        const minDistance = MIN_POINT_DISTANCE / displayRef.current.zoom;
+        if (!lastPoint || distanceSq(lastPoint, point) >= minDistance * minDistance) {
+          const penPoint =
+            strokeToolRef.current === 'pen'
+              ? makePenPoint(point, timestamp - penStartTimeRef.current, force)
+              : point;
+          updateCurrentPoints(prev => [...prev, penPoint]);
         }
       },
       [updateCurrentPoints],
@@ -344,30 +646,61 @@ const DrawingCanvas = forwardRef<DrawingCanvasHandle, DrawingCanvasProps>(
       if (points.length === 0) {
         return;
       }
+      const tool = strokeToolRef.current;
+      const style = tool === 'highlighter' ? highlighterStyleRef.current : penStyleRef.current;
       const stroke: Stroke = {
         id: uuidv4(),
-        points,
-        color: DEFAULT_COLOR,
-        width: DEFAULT_WIDTH,
-        tool: 'pen',
+        // Saved strokes keep only the samples that shape them
+        points: simplifyPoints(points, STROKE_SIMPLIFY_TOLERANCE / displayRef.current.zoom),
+        color: style.color,
+        width: style.width,
+        tool,
         timestamp: Date.now(),
       };
       dispatch({ type: 'add', stroke });
+      if (tool === 'pen' && shapeAssistRef.current) {
+        const shape = recognizeShape(points);
+        if (shape) {
+          dispatch({ type: 'reshape', strokeId: stroke.id, points: shape.points });
+        }
+      }
     }, [cancelCurrentStroke]);
 
     const eraseStrokesAtPoint = useCallback((point: Point) => {
+      const zoom = displayRef.current.zoom;
+      if (eraserModeRef.current === 'precision') {
+        // Cut along the drag so fast moves don't skip over ink
+        const radius = PRECISION_ERASER_RADIUS / zoom;
+        const from = eraserLastPointRef.current ?? point;
+        const distance = Math.hypot(point.x - from.x, point.y - from.y);
+        const steps = Math.max(1, Math.ceil(distance / (radius / 2)));
+        for (let i = 1; i <= steps; i += 1) {
+          dispatch({
+            type: 'cut',
+            point: {
+              x: from.x + ((point.x - from.x) * i) / steps,
+              y: from.y + ((point.y - from.y) * i) / steps,
+            },
+            radius,
+            gestureId: gestureRef.current,
+          });
+        }
+        eraserLastPointRef.current = point;
+        return;
+      }
       const strokes = strokesRef.current;
       // Erase all strokes that the eraser touches (from top to bottom)
       for (let i = strokes.length - 1; i >= 0; i -= 1) {
         const stroke = strokes[i];
-        if (isPointNearStroke(point, stroke)) {
+        if (isPointNearStroke(point, stroke, ERASER_HIT_PADDING / zoom)) {
           dispatch({ type: 'erase', strokeId: stroke.id });
         }
       }
     }, []);
 
     const handleEraserStart = useCallback((point: Point) => {
-      eraserStartRef.current = point;
+      eraserLastPointRef.current = null;
+      gestureRef.current += 1;
       // Immediately erase any strokes at the starting point
       eraseStrokesAtPoint(point);
     }, [eraseStrokesAtPoint]);
@@ -378,53 +711,132 @@ const DrawingCanvas = forwardRef<DrawingCanvasHandle, DrawingCanvasProps>(
     }, [eraseStrokesAtPoint]);
 
     const handleEraserEnd = useCallback(() => {
-      eraserStartRef.current = null;
+      eraserLastPointRef.current = null;
     }, []);
 
     const handleSelectionStart = useCallback(
       (point: Point) => {
+        // Touching the selection or its handles transforms the selected strokes
+        const current = selectionRef.current;
+        const zoom = displayRef.current.zoom;
+        const box = current ? getSelectionBox(strokesRef.current, current.strokeIds, zoom) : null;
+        const mode =
+          current && box ? getSelectionGestureMode(point, box, current.points, zoom) : null;
+        if (box && mode) {
+          gestureRef.current += 1;
+          selectionGestureRef.current = {
+            mode,
+            start: point,
+            box,
+            gestureId: gestureRef.current,
+            transform: null,
+          };
+          return;
+        }
         // Clear any existing finalized selection when starting new drag
         onSelectionChange?.(null);
-        const dragState: SelectionDragState = {
-          startX: point.x,
-          startY: point.y,
-          currentX: point.x,
-          currentY: point.y,
-        };
-        selectionDragRef.current = dragState;
-        setSelectionDrag(dragState);
+        const dragPoints = [{ x: point.x, y: point.y }];
+        selectionDragRef.current = dragPoints;
+        setSelectionDrag(dragPoints);
       },
       [onSelectionChange],
     );
 
     const handleSelectionMove = useCallback((point: Point) => {
+      const gesture = selectionGestureRef.current;
+      const current = selectionRef.current;
+      if (gesture && current) {
+        const transform = getSelectionGestureTransform(gesture, point);
+        gesture.transform = transform;
+        dispatch({
+          type: 'transform',
+          strokeIds: current.strokeIds,
+          transform,
+          gestureId: gesture.gestureId,
+        });
+        setSelectionTransform(transform);
+        return;
+      }
       const drag = selectionDragRef.current;
       if (!drag) {
         return;
       }
-      const newDrag: SelectionDragState = {
-        ...drag,
-        currentX: point.x,
-        currentY: point.y,
-      };
+      const last = drag[drag.length - 1];
+      const minDistance = MIN_POINT_DISTANCE / displayRef.current.zoom;
+      if (distanceSq(point, last) < minDistance * minDistance) {
+        return;
+      }
+      const newDrag = [...drag, { x: point.x, y: point.y }];
       selectionDragRef.current = newDrag;
       setSelectionDrag(newDrag);
     }, []);
 
     const handleSelectionEnd = useCallback(() => {
+      const gesture = selectionGestureRef.current;
+      const current = selectionRef.current;
+      if (gesture) {
+        // The lasso moves with the strokes it selected
+        if (gesture.transform && current) {
+          const transform = gesture.transform;
+          onSelectionChange?.({
+            points: current.points.map(point => transformPoint(point, transform)),
+            strokeIds: current.strokeIds,
+          });
+        }
+        selectionGestureRef.current = null;
+        setSelectionTransform(null);
+        return;
+      }
       const drag = selectionDragRef.current;
       if (!drag) {
         return;
       }
-      const rect = normalizeToRect(drag);
-      // Only finalize if selection is large enough
-      if (rect.width >= MIN_SELECTION_SIZE && rect.height >= MIN_SELECTION_SIZE) {
-        onSelectionChange?.(rect);
+      // Only finalize if the lasso encloses a large enough area
+      if (isLassoClosedArea(drag, MIN_SELECTION_SIZE)) {
+        const selected = getStrokesInLasso(strokesRef.current, drag);
+        onSelectionChange?.({ points: drag, strokeIds: selected.map(stroke => stroke.id) });
       }
       selectionDragRef.current = null;
       setSelectionDrag(null);
     }, [onSelectionChange]);
 
+    const handlePinchMove = useCallback(
+      (event: GestureResponderEvent) => {
+        const { midpoint, distance } = getPinchGeometry(event);
+        const pinch = pinchRef.current;
+        if (!pinch) {
+          // A second finger turns the touch into a pinch: drop the stroke or
+          // lasso the first finger started, and finish a selection transform
+          if (!pinchedRef.current) {
+            cancelCurrentStroke();
+            eraserLastPointRef.current = null;
+            selectionDragRef.current = null;
+            setSelectionDrag(null);
+            handleSelectionEnd();
+          }
+          pinchedRef.current = true;
+          pinchRef.current = { view: viewRef.current, midpoint, distance };
+          return;
+        }
+        const size = canvasSizeRef.current;
+        if (size) {
+          updateView(getPinchView(pinch, midpoint, distance, size));
+        }
+      },
+      [cancelCurrentStroke, handleSelectionEnd, updateView],
+    );
+
+    // Returns true if the touch was a pinch (and so is not single-finger input)
+    const handlePinchEnd = useCallback(() => {
+      if (!pinchedRef.current) {
+        return false;
+      }
+      pinchRef.current = null;
+      pinchedRef.current = false;
+      onPageViewChange?.(viewRef.current);
+      return true;
+    }, [onPageViewChange]);
+
     const panResponder = useMemo(
       () =>
         PanResponder.create({
@@ -434,12 +846,17 @@ const DrawingCanvas = forwardRef<DrawingCanvasHandle, DrawingCanvasProps>(
             if (!isInteractiveRef.current) {
               return;
             }
-            const point = {
-              x: event.nativeEvent.locationX,
-              y: event.nativeEvent.locationY,
-            };
-            if (activeToolRef.current === 'pen') {
-              handlePenStart(point);
+            if (event.nativeEvent.touches.length >= 2) {
+              handlePinchMove(event);
+              return;
+            }
+            // Ink, lassos and eraser hits are all in page coordinates
+            const point = toPagePoint(
+              { x: event.nativeEvent.locationX, y: event.nativeEvent.locationY },
+              displayRef.current,
+            );
+            if (isStrokeTool(activeToolRef.current)) {
+              handlePenStart(point, event.nativeEvent.timestamp, event.nativeEvent.force);
             } else if (activeToolRef.current === 'eraser') {
               handleEraserStart(point);
             } else if (activeToolRef.current === 'select') {
@@ -450,23 +867,32 @@ const DrawingCanvas = forwardRef<DrawingCanvasHandle, DrawingCanvasProps>(
             if (!isInteractiveRef.current) {
               return;
             }
-            const point = {
-              x: event.nativeEvent.locationX,
-              y: event.nativeEvent.locationY,
-            };
-            if (activeToolRef.current === 'pen') {
-              handlePenMove(point);
+            if (event.nativeEvent.touches.length >= 2) {
+              handlePinchMove(event);
+              return;
+            }
+            if (pinchedRef.current) {
+              // A finger lifted; the other one neither draws nor pans
+              pinchRef.current = null;
+              return;
+            }
+            const point = toPagePoint(
+              { x: event.nativeEvent.locationX, y: event.nativeEvent.locationY },
+              displayRef.current,
+            );
+            if (isStrokeTool(activeToolRef.current)) {
+              handlePenMove(point, event.nativeEvent.timestamp, event.nativeEvent.force);
             } else if (activeToolRef.current === 'eraser') {
               handleEraserMove(point);
             } else if (activeToolRef.current === 'select') {
               handleSelectionMove(point);
             }
           },
-          onPanResponderRelease: event => {
-            if (!isInteractiveRef.current) {
+          onPanResponderRelease: () => {
+            if (handlePinchEnd() || !isInteractiveRef.current) {
               return;
             }
-            if (activeToolRef.current === 'pen') {
+            if (isStrokeTool(activeToolRef.current)) {
               handlePenEnd();
             } else if (activeToolRef.current === 'eraser') {
               handleEraserEnd();
@@ -475,10 +901,13 @@ const DrawingCanvas = forwardRef<DrawingCanvasHandle, DrawingCanvasProps>(
             }
           },
           onPanResponderTerminate: () => {
+            handlePinchEnd();
             cancelCurrentStroke();
           },
         }),
       [
+        handlePinchMove,
+        handlePinchEnd,
         handlePenStart,
         handlePenMove,
         handlePenEnd,
@@ -496,101 +925,200 @@ const DrawingCanvas = forwardRef<DrawingCanvasHandle, DrawingCanvasProps>(
       () =>
         state.strokes.map(stroke => ({
           id: stroke.id,
-          path: buildPath(stroke.points),
+          ...buildStrokePath(stroke),
           color: stroke.color,
           width: stroke.width,
+          highlighter: stroke.tool === 'highlighter',
         })),
       [state.strokes],
     );
 
+    // Highlighter strokes are painted beneath pen ink
+    const highlighterPaths = useMemo(
+      () => strokePaths.filter(stroke => stroke.highlighter),
+      [strokePaths],
+    );
+    const inkPaths = useMemo(
+      () => strokePaths.filter(stroke => !stroke.highlighter),
+      [strokePaths],
+    );
+
+    const currentStyle = activeTool === 'highlighter' ? highlighterStyle : penStyle;
     const currentPath = useMemo(
-      () => buildPath(currentPoints),
-      [currentPoints],
+      () => buildStrokePath({ points: currentPoints, width: currentStyle.width }),
+      [currentPoints, currentStyle.width],
     );
 
-    // Compute the selection rect to render (active drag takes priority over finalized)
-    const selectionRectToRender = useMemo(() => {
-      if (selectionDrag) {
-        return normalizeToRect(selectionDrag);
+    // Compute the lasso to render (active drag takes priority over finalized)
+    const selectionPath = useMemo(() => {
+      let points = selectionDrag ?? selection?.points;
+      if (!points || points.length < 2) {
+        return null;
       }
-      return selectionRect ?? null;
-    }, [selectionDrag, selectionRect]);
+      if (!selectionDrag && selectionTransform) {
+        const transform = selectionTransform;
+        points = points.map(point => transformPoint(point, transform));
+      }
+      return buildPath(points, true);
+    }, [selectionDrag, selection, selectionTransform]);
+
+    // Box and handles around the selected strokes
+    const selectionBox = useMemo(() => {
+      if (selectionDrag || !selection) {
+        return null;
+      }
+      const box = getSelectionBox(state.strokes, selection.strokeIds, display.zoom);
+      return box ? { ...box, handles: getSelectionHandles(box, display.zoom) } : null;
+    }, [selectionDrag, selection, state.strokes, display.zoom]);
 
     // Compute line positions for lined paper background
     const linePositions = useMemo(() => {
-      if (paperSettings.background !== 'lined' || !canvasSize) {
+      if (paperSettings.background !== 'lined' || !pageBounds) {
         return [];
       }
       const spacing = LINE_SPACING_VALUES[paperSettings.lineSpacing];
       const positions: number[] = [];
       // Start from the spacing value (first line below top)
-      for (let y = spacing; y < canvasSize.height; y += spacing) {
+      for (let y = spacing; y < pageBounds.height; y += spacing) {
         positions.push(y);
       }
       return positions;
-    }, [paperSettings.background, paperSettings.lineSpacing, canvasSize]);
+    }, [paperSettings.background, paperSettings.lineSpacing, pageBounds]);
 
     const handleCanvasLayout = useCallback((event: { nativeEvent: { layout: { width: number; height: number } } }) => {
       const { width, height } = event.nativeEvent.layout;
       if (width > 0 && height > 0) {
-        setCanvasSize({ width, height });
+        const size = { width, height };
+        canvasSizeRef.current = size;
+        setCanvasSize(size);
+        updateView(clampPageView(viewRef.current, size));
       }
-    }, []);
+    }, [updateView]);
+
+    // Outlines and handles keep their on-screen size at any zoom
+    const outlineWidth = 1 / display.zoom;
+    const handleRadius = SELECTION_HANDLE_RADIUS / display.zoom;
 
     return (
       <View style={styles.container} {...panResponder.panHandlers} onLayout={handleCanvasLayout}>
         <Canvas style={styles.canvas}>
-          {/* Render lined paper background */}
-          {canvasSize && linePositions.map((y, index) => (
-            <Line
-              key={`line-${index}`}
-              p1={vec(0, y)}
-              p2={vec(canvasSize.width, y)}
-              color={LINE_COLOR}
-              strokeWidth={1}
-            />
-          ))}
-          {strokePaths.map(stroke => (
-            <Path
-              key={stroke.id}
-              path={stroke.path}
-              color={stroke.color}
-              style="stroke"
-              strokeWidth={stroke.width}
-              strokeJoin="round"
-              strokeCap="round"
-            />
-          ))}
-          {activeTool === 'pen' && currentPoints.length > 0 ? (
-            <Path
-              path={currentPath}
-              color={DEFAULT_COLOR}
-              style="stroke"
-              strokeWidth={DEFAULT_WIDTH}
-              strokeJoin="round"
-              strokeCap="round"
-            />
-          ) : null}
-          {selectionRectToRender ? (
-            <>
-              <Rect
-                x={selectionRectToRender.x}
-                y={selectionRectToRender.y}
-                width={selectionRectToRender.width}
-                height={selectionRectToRender.height}
-                color="rgba(30, 144, 255, 0.15)"
-              />
+          <Group
+            transform={[
+              { translateX: display.offsetX },
+              { translateY: display.offsetY },
+              { scale: display.zoom },
+            ]}
+          >
+            {pageBounds ? (
               <Rect
-                x={selectionRectToRender.x}
-                y={selectionRectToRender.y}
-                width={selectionRectToRender.width}
-                height={selectionRectToRender.height}
-                color="#1E90FF"
-                style="stroke"
-                strokeWidth={2}
+                x={0}
+                y={0}
+                width={pageBounds.width}
+                height={pageBounds.height}
+                color={PAGE_COLOR}
               />
-            </>
-          ) : null}
+            ) : null}
+            <Group clip={pageBounds ? rect(0, 0, pageBounds.width, pageBounds.height) : undefined}>
+              {/* Render lined paper background */}
+              {pageBounds && linePositions.map((y, index) => (
+                <Line
+                  key={`line-${index}`}
+                  p1={vec(0, y)}
+                  p2={vec(pageBounds.width, y)}
+                  color={LINE_COLOR}
+                  strokeWidth={1}
+                />
+              ))}
+              {highlighterPaths.map(stroke => (
+                <Path
+                  key={stroke.id}
+                  path={stroke.path}
+                  color={stroke.color}
+                  opacity={HIGHLIGHTER_OPACITY}
+                  style="stroke"
+                  strokeWidth={stroke.width}
+                  strokeJoin="round"
+                  strokeCap="butt"
+                />
+              ))}
+              {activeTool === 'highlighter' && currentPoints.length > 0 ? (
+                <Path
+                  path={currentPath.path}
+                  color={highlighterStyle.color}
+                  opacity={HIGHLIGHTER_OPACITY}
+                  style="stroke"
+                  strokeWidth={highlighterStyle.width}
+                  strokeJoin="round"
+                  strokeCap="butt"
+                />
+              ) : null}
+              {inkPaths.map(stroke => (
+                <Path
+                  key={stroke.id}
+                  path={stroke.path}
+                  color={stroke.color}
+                  style={stroke.filled ? 'fill' : 'stroke'}
+                  strokeWidth={stroke.width}
+                  strokeJoin="round"
+                  strokeCap="round"
+                />
+              ))}
+              {activeTool === 'pen' && currentPoints.length > 0 ? (
+                <Path
+                  path={currentPath.path}
+                  color={penStyle.color}
+                  style={currentPath.filled ? 'fill' : 'stroke'}
+                  strokeWidth={penStyle.width}
+                  strokeJoin="round"
+                  strokeCap="round"
+                />
+              ) : null}
+            </Group>
+            {selectionPath ? (
+              <>
+                <Path path={selectionPath} color="rgba(30, 144, 255, 0.15)" style="fill" />
+                <Path
+                  path={selectionPath}
+                  color="#1E90FF"
+                  style="stroke"
+                  strokeWidth={outlineWidth * 2}
+                  strokeJoin="round"
+                />
+              </>
+            ) : null}
+            {selectionBox ? (
+              <>
+                <Rect
+                  x={selectionBox.x}
+                  y={selectionBox.y}
+                  width={selectionBox.width}
+                  height={selectionBox.height}
+                  color="#1E90FF"
+                  style="stroke"
+                  strokeWidth={outlineWidth}
+                />
+                <Line
+                  p1={vec(selectionBox.x + selectionBox.width / 2, selectionBox.y)}
+                  p2={vec(selectionBox.handles.rotate.x, selectionBox.handles.rotate.y)}
+                  color="#1E90FF"
+                  strokeWidth={outlineWidth}
+                />
+                <Circle
+                  cx={selectionBox.handles.rotate.x}
+                  cy={selectionBox.handles.rotate.y}
+                  r={handleRadius}
+                  color="#1E90FF"
+                />
+                <Rect
+                  x={selectionBox.handles.scale.x - handleRadius}
+                  y={selectionBox.handles.scale.y - handleRadius}
+                  width={handleRadius * 2}
+                  height={handleRadius * 2}
+                  color="#1E90FF"
+                />
+              </>
+            ) : null}
+          </Group>
         </Canvas>
       </View>
     );
@@ -602,7 +1130,8 @@ DrawingCanvas.displayName = 'DrawingCanvas';
 const styles = StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: '#ffffff',
+    // Shows around pages whose shape differs from the canvas
+    backgroundColor: '#e0e0e0',
   },
   canvas: {
     flex: 1,
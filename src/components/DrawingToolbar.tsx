@@ -7,11 +7,18 @@ import {
   Alert,
   ActivityIndicator,
 } from 'react-native';
-import { DrawingTool } from '../types/models';
+import { DrawingTool, EraserMode, PenStyle } from '../types/models';
+import { HIGHLIGHTER_OPACITY } from '../utils/highlighter';
 
 interface DrawingToolbarProps {
   activeTool: DrawingTool;
   onToolChange: (tool: DrawingTool) => void;
+  penStyle: PenStyle; // style of the active pen or highlighter
+  onPenStylePress: () => void;
+  eraserMode: EraserMode;
+  onEraserModeChange: (mode: EraserMode) => void;
+  shapeAssist: boolean;
+  onShapeAssistChange: (enabled: boolean) => void;
   onUndo: () => void;
   onRedo: () => void;
   onClear: () => void;
@@ -22,11 +29,21 @@ interface DrawingToolbarProps {
   hasSelection?: boolean;
   onClearSelection?: () => void;
   onExportSelection?: () => void;
+  onCopySelection?: () => void;
+  onDuplicateSelection?: () => void;
+  canPaste?: boolean; // strokes were copied (on any page)
+  onPaste?: () => void;
 }
 
 const DrawingToolbar = ({
   activeTool,
   onToolChange,
+  penStyle,
+  onPenStylePress,
+  eraserMode,
+  onEraserModeChange,
+  shapeAssist,
+  onShapeAssistChange,
   onUndo,
   onRedo,
   onClear,
@@ -37,6 +54,10 @@ const DrawingToolbar = ({
   hasSelection = false,
   onClearSelection,
   onExportSelection,
+  onCopySelection,
+  onDuplicateSelection,
+  canPaste = false,
+  onPaste,
 }: DrawingToolbarProps) => {
   const handleClear = () => {
     Alert.alert(
@@ -68,6 +89,50 @@ const DrawingToolbar = ({
             Pen
           </Text>
         </TouchableOpacity>
+        <TouchableOpacity
+          style={[
+            styles.toolButton,
+            activeTool === 'highlighter' && styles.toolButtonActive,
+          ]}
+          onPress={() => onToolChange('highlighter')}
+        >
+          <Text
+            style={[
+              styles.toolButtonText,
+              activeTool === 'highlighter' && styles.toolButtonTextActive,
+            ]}
+          >
+            Highlighter
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.penStyleButton}
+          onPress={onPenStylePress}
+          accessibilityLabel="Pen color and width"
+        >
+          <View
+            style={[
+              styles.penStyleDot,
+              {
+                backgroundColor: penStyle.color,
+                width: 8 + penStyle.width * 1.5,
+                height: 8 + penStyle.width * 1.5,
+              },
+              activeTool === 'highlighter' && styles.highlighterDot,
+            ]}
+          />
+        </TouchableOpacity>
+        {activeTool === 'pen' && (
+          <TouchableOpacity
+            style={[styles.toolButton, shapeAssist && styles.toolButtonActive]}
+            onPress={() => onShapeAssistChange(!shapeAssist)}
+            accessibilityLabel="Shape assist"
+          >
+            <Text style={[styles.toolButtonText, shapeAssist && styles.toolButtonTextActive]}>
+              Shapes
+            </Text>
+          </TouchableOpacity>
+        )}
         <TouchableOpacity
           style={[
             styles.toolButton,
@@ -84,6 +149,19 @@ const DrawingToolbar = ({
             Eraser
           </Text>
         </TouchableOpacity>
+        {activeTool === 'eraser' && (
+          <TouchableOpacity
+            style={styles.toolButton}
+            onPress={() =>
+              onEraserModeChange(eraserMode === 'precision' ? 'stroke' : 'precision')
+            }
+            accessibilityLabel="Eraser mode"
+          >
+            <Text style={styles.toolButtonText}>
+              {eraserMode === 'precision' ? 'Precise' : 'Whole Strokes'}
+            </Text>
+          </TouchableOpacity>
+        )}
         <TouchableOpacity
           style={[
             styles.toolButton,
@@ -110,6 +188,18 @@ const DrawingToolbar = ({
           >
             <Text style={styles.actionButtonText}>Clear Sel</Text>
           </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={onCopySelection}
+          >
+            <Text style={styles.actionButtonText}>Copy</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={onDuplicateSelection}
+          >
+            <Text style={styles.actionButtonText}>Duplicate</Text>
+          </TouchableOpacity>
           <TouchableOpacity
             style={styles.exportSelectionButton}
             onPress={onExportSelection}
@@ -119,6 +209,17 @@ const DrawingToolbar = ({
         </View>
       )}
 
+      {activeTool === 'select' && canPaste && (
+        <View style={styles.group}>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={onPaste}
+          >
+            <Text style={styles.actionButtonText}>Paste</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       <View style={styles.group}>
         <TouchableOpacity
           style={[styles.actionButton, !canUndo && styles.actionButtonDisabled]}
@@ -185,6 +286,26 @@ const styles = StyleSheet.create({
     marginRight: 8,
     backgroundColor: '#f7f7f7',
   },
+  penStyleButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#d0d0d0',
+    marginRight: 8,
+    backgroundColor: '#f7f7f7',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  penStyleDot: {
+    borderRadius: 12,
+  },
+  highlighterDot: {
+    width: 24,
+    height: 14,
+    borderRadius: 2,
+    opacity: HIGHLIGHTER_OPACITY,
+  },
   toolButtonActive: {
     backgroundColor: '#1f6feb',
     borderColor: '#1f6feb',
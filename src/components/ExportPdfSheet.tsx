@@ -0,0 +1,315 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  Switch,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { PdfExportOptions, PdfPageSize } from '../utils/exportPdf';
+
+type RangeMode = 'all' | 'current' | 'custom';
+
+interface ExportPdfSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  currentPageNumber: number; // 1-based
+  totalPages: number;
+  exporting?: boolean;
+  onExport: (options: PdfExportOptions) => void;
+}
+
+const RANGE_OPTIONS: { value: RangeMode; label: string }[] = [
+  { value: 'all', label: 'All Pages' },
+  { value: 'current', label: 'Current Page' },
+  { value: 'custom', label: 'Range' },
+];
+
+const PAGE_SIZE_OPTIONS: { value: PdfPageSize; label: string }[] = [
+  { value: 'a4', label: 'A4' },
+  { value: 'letter', label: 'Letter' },
+  { value: 'canvas', label: 'Match Page' },
+];
+
+const ExportPdfSheet = ({
+  visible,
+  onClose,
+  currentPageNumber,
+  totalPages,
+  exporting = false,
+  onExport,
+}: ExportPdfSheetProps) => {
+  const [rangeMode, setRangeMode] = useState<RangeMode>('all');
+  const [rangeFrom, setRangeFrom] = useState('1');
+  const [rangeTo, setRangeTo] = useState(String(totalPages));
+  const [pageSize, setPageSize] = useState<PdfPageSize>('a4');
+  const [includeBackground, setIncludeBackground] = useState(true);
+
+  // Reset the custom range whenever the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setRangeFrom('1');
+      setRangeTo(String(totalPages));
+    }
+  }, [visible, totalPages]);
+
+  const handleExport = () => {
+    let pageRange: PdfExportOptions['pageRange'];
+    if (rangeMode === 'current') {
+      pageRange = { from: currentPageNumber, to: currentPageNumber };
+    } else if (rangeMode === 'custom') {
+      const from = parseInt(rangeFrom, 10);
+      const to = parseInt(rangeTo, 10);
+      if (
+        Number.isNaN(from) ||
+        Number.isNaN(to) ||
+        from < 1 ||
+        to > totalPages ||
+        from > to
+      ) {
+        Alert.alert(
+          'Invalid Range',
+          `Enter pages between 1 and ${totalPages}, with the first page not after the last.`,
+        );
+        return;
+      }
+      pageRange = { from, to };
+    }
+    onExport({ pageRange, pageSize, includeBackground });
+  };
+
+  const renderOption = <T extends string>(
+    value: T,
+    label: string,
+    selected: T,
+    onSelect: (value: T) => void,
+  ) => (
+    <TouchableOpacity
+      key={value}
+      style={[styles.option, selected === value && styles.optionActive]}
+      onPress={() => onSelect(value)}
+      disabled={exporting}
+    >
+      <Text
+        style={[styles.optionText, selected === value && styles.optionTextActive]}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      transparent
+      visible={visible}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        style={styles.backdrop}
+        activeOpacity={1}
+        onPress={onClose}
+      />
+      <View style={styles.panel}>
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>Export PDF</Text>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Text style={styles.closeButtonText}>✕</Text>
+          </TouchableOpacity>
+        </View>
+
+        <Text style={styles.sectionLabel}>Pages</Text>
+        <View style={styles.optionRow}>
+          {RANGE_OPTIONS.map(option =>
+            renderOption(option.value, option.label, rangeMode, setRangeMode),
+          )}
+        </View>
+        {rangeMode === 'custom' && (
+          <View style={styles.rangeRow}>
+            <TextInput
+              style={styles.rangeInput}
+              value={rangeFrom}
+              onChangeText={setRangeFrom}
+              keyboardType="number-pad"
+              editable={!exporting}
+            />
+            <Text style={styles.rangeSeparator}>to</Text>
+            <TextInput
+              style={styles.rangeInput}
+              value={rangeTo}
+              onChangeText={setRangeTo}
+              keyboardType="number-pad"
+              editable={!exporting}
+            />
+            <Text style={styles.rangeHint}>of {totalPages}</Text>
+          </View>
+        )}
+
+        <Text style={styles.sectionLabel}>Page Size</Text>
+        <View style={styles.optionRow}>
+          {PAGE_SIZE_OPTIONS.map(option =>
+            renderOption(option.value, option.label, pageSize, setPageSize),
+          )}
+        </View>
+
+        <View style={styles.switchRow}>
+          <Text style={styles.switchLabel}>Include background lines</Text>
+          <Switch
+            value={includeBackground}
+            onValueChange={setIncludeBackground}
+            disabled={exporting}
+          />
+        </View>
+
+        <TouchableOpacity
+          style={[styles.exportButton, exporting && styles.exportButtonDisabled]}
+          onPress={handleExport}
+          disabled={exporting}
+        >
+          {exporting ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <Text style={styles.exportButtonText}>Export</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  panel: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 32,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: -2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 10,
+    elevation: 5,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  closeButtonText: {
+    fontSize: 28,
+    color: '#666',
+    fontWeight: '300',
+  },
+  sectionLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666',
+    marginTop: 12,
+    marginBottom: 8,
+    textTransform: 'uppercase',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    backgroundColor: '#fff',
+  },
+  optionActive: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  optionTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  rangeInput: {
+    width: 64,
+    height: 40,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  rangeSeparator: {
+    marginHorizontal: 10,
+    fontSize: 14,
+    color: '#666',
+  },
+  rangeHint: {
+    marginLeft: 10,
+    fontSize: 14,
+    color: '#999',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  switchLabel: {
+    fontSize: 16,
+    color: '#333',
+  },
+  exportButton: {
+    marginTop: 20,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#007AFF',
+    alignItems: 'center',
+  },
+  exportButtonDisabled: {
+    opacity: 0.6,
+  },
+  exportButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default ExportPdfSheet;
@@ -0,0 +1,240 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  FlatList,
+  ActivityIndicator,
+} from 'react-native';
+import RNFS from 'react-native-fs';
+
+// Files dropped into Documents/imports (e.g. via the Files app) plus our own exports
+const DEFAULT_SEARCH_DIRS = [
+  `${RNFS.DocumentDirectoryPath}/imports`,
+  `${RNFS.DocumentDirectoryPath}/exports`,
+];
+
+interface PickableFile {
+  name: string;
+  path: string;
+  folder: string;
+  modifiedAt: number;
+}
+
+interface FilePickerSheetProps {
+  visible: boolean;
+  title: string;
+  extensions: string[]; // lowercase, without the dot
+  directories?: string[]; // absolute paths, defaults to imports and exports
+  busy?: boolean;
+  onClose: () => void;
+  onSelect: (path: string) => void;
+}
+
+/**
+ * Internal helper: List matching files in the search directories, newest first
+ */
+async function listFiles(
+  directories: string[],
+  extensions: string[],
+): Promise<PickableFile[]> {
+  const files: PickableFile[] = [];
+  for (const dir of directories) {
+    if (!(await RNFS.exists(dir))) {
+      continue;
+    }
+    const entries = await RNFS.readDir(dir);
+    entries.forEach(entry => {
+      const extension = entry.name.split('.').pop()?.toLowerCase() ?? '';
+      if (entry.isFile() && extensions.includes(extension)) {
+        files.push({
+          name: entry.name,
+          path: entry.path,
+          folder: dir.split('/').pop() ?? '',
+          modifiedAt: entry.mtime?.getTime() ?? 0,
+        });
+      }
+    });
+  }
+  return files.sort((a, b) => b.modifiedAt - a.modifiedAt);
+}
+
+const FilePickerSheet = ({
+  visible,
+  title,
+  extensions,
+  directories = DEFAULT_SEARCH_DIRS,
+  busy = false,
+  onClose,
+  onSelect,
+}: FilePickerSheetProps) => {
+  const [files, setFiles] = useState<PickableFile[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const extensionKey = extensions.join(',');
+  const directoryKey = directories.join('\n');
+
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+    let isActive = true;
+    setLoading(true);
+    listFiles(directoryKey.split('\n'), extensionKey.split(','))
+      .then(found => {
+        if (isActive) {
+          setFiles(found);
+        }
+      })
+      .catch(error => {
+        console.error('Failed to list files:', error);
+        if (isActive) {
+          setFiles([]);
+        }
+      })
+      .finally(() => {
+        if (isActive) {
+          setLoading(false);
+        }
+      });
+    return () => {
+      isActive = false;
+    };
+  }, [visible, directoryKey, extensionKey]);
+
+  const renderFile = ({ item }: { item: PickableFile }) => (
+    <TouchableOpacity
+      style={styles.fileItem}
+      onPress={() => onSelect(item.path)}
+      disabled={busy}
+    >
+      <Text style={styles.fileName} numberOfLines={1}>
+        {item.name}
+      </Text>
+      <Text style={styles.fileFolder}>{item.folder}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      transparent
+      visible={visible}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        style={styles.backdrop}
+        activeOpacity={1}
+        onPress={onClose}
+      />
+      <View style={styles.panel}>
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>{title}</Text>
+          {busy ? (
+            <ActivityIndicator size="small" color="#666" />
+          ) : (
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Text style={styles.closeButtonText}>✕</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {loading ? (
+          <ActivityIndicator style={styles.loading} size="large" />
+        ) : (
+          <FlatList
+            data={files}
+            renderItem={renderFile}
+            keyExtractor={item => item.path}
+            ListEmptyComponent={
+              <Text style={styles.emptyText}>
+                No .{extensions.join(' / .')} files found. Copy files into the
+                app's "imports" folder using the Files app.
+              </Text>
+            }
+          />
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  panel: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    maxHeight: '60%',
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 32,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: -2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 10,
+    elevation: 5,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  closeButtonText: {
+    fontSize: 28,
+    color: '#666',
+    fontWeight: '300',
+  },
+  loading: {
+    marginVertical: 24,
+  },
+  fileItem: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  fileName: {
+    flex: 1,
+    fontSize: 16,
+    color: '#333',
+    marginRight: 12,
+  },
+  fileFolder: {
+    fontSize: 13,
+    color: '#999',
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#666',
+    textAlign: 'center',
+    marginVertical: 24,
+  },
+});
+
+export default FilePickerSheet;
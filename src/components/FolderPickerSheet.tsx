@@ -0,0 +1,177 @@
+import React, { useMemo } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  FlatList,
+  ActivityIndicator,
+} from 'react-native';
+import { Folder } from '../types/models';
+import { flattenFolderTree, FolderTreeRow } from '../utils/folderTree';
+
+interface FolderPickerSheetProps {
+  visible: boolean;
+  title: string;
+  folders: Folder[];
+  disabledIds?: string[]; // shown but not selectable (e.g. the folder being moved)
+  allowTopLevel?: boolean; // offer "Top Level" as a target (selects null)
+  busy?: boolean;
+  onClose: () => void;
+  onSelect: (folderId: string | null) => void;
+}
+
+const INDENT_PER_LEVEL = 20;
+
+const FolderPickerSheet = ({
+  visible,
+  title,
+  folders,
+  disabledIds = [],
+  allowTopLevel = false,
+  busy = false,
+  onClose,
+  onSelect,
+}: FolderPickerSheetProps) => {
+  const rows = useMemo(() => flattenFolderTree(folders, null), [folders]);
+
+  const renderRow = ({ item }: { item: FolderTreeRow }) => {
+    const disabled = busy || disabledIds.includes(item.folder.id);
+    return (
+      <TouchableOpacity
+        style={[styles.folderItem, { paddingLeft: item.depth * INDENT_PER_LEVEL }]}
+        onPress={() => onSelect(item.folder.id)}
+        disabled={disabled}
+      >
+        <Text
+          style={[styles.folderName, disabled && styles.folderNameDisabled]}
+          numberOfLines={1}
+        >
+          {item.folder.name}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal
+      transparent
+      visible={visible}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        style={styles.backdrop}
+        activeOpacity={1}
+        onPress={onClose}
+      />
+      <View style={styles.panel}>
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>{title}</Text>
+          {busy ? (
+            <ActivityIndicator size="small" color="#666" />
+          ) : (
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Text style={styles.closeButtonText}>✕</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <FlatList
+          data={rows}
+          renderItem={renderRow}
+          keyExtractor={item => item.folder.id}
+          ListHeaderComponent={
+            allowTopLevel ? (
+              <TouchableOpacity
+                style={styles.folderItem}
+                onPress={() => onSelect(null)}
+                disabled={busy}
+              >
+                <Text style={styles.topLevelText}>Top Level</Text>
+              </TouchableOpacity>
+            ) : null
+          }
+          ListEmptyComponent={
+            <Text style={styles.emptyText}>No folders yet.</Text>
+          }
+        />
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  panel: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    maxHeight: '60%',
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 32,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: -2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 10,
+    elevation: 5,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  closeButtonText: {
+    fontSize: 28,
+    color: '#666',
+    fontWeight: '300',
+  },
+  folderItem: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  folderName: {
+    fontSize: 16,
+    color: '#333',
+  },
+  folderNameDisabled: {
+    color: '#bbb',
+  },
+  topLevelText: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#666',
+    textAlign: 'center',
+    marginVertical: 24,
+  },
+});
+
+export default FolderPickerSheet;
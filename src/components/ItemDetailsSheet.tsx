@@ -0,0 +1,281 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { ITEM_COLORS } from '../types/models';
+
+export interface ItemDetails {
+  name: string;
+  description: string | null;
+  color: string | null;
+  courseCode: string | null;
+}
+
+interface ItemDetailsSheetProps {
+  visible: boolean;
+  title: string;
+  nameLabel: string; // "Name" for folders, "Title" for notes
+  maxNameLength: number;
+  initialDetails: ItemDetails | null;
+  busy?: boolean;
+  onClose: () => void;
+  onSave: (details: ItemDetails) => void;
+}
+
+const MAX_COURSE_CODE_LENGTH = 20;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+const ItemDetailsSheet = ({
+  visible,
+  title,
+  nameLabel,
+  maxNameLength,
+  initialDetails,
+  busy = false,
+  onClose,
+  onSave,
+}: ItemDetailsSheetProps) => {
+  const [name, setName] = useState('');
+  const [courseCode, setCourseCode] = useState('');
+  const [description, setDescription] = useState('');
+  const [color, setColor] = useState<string | null>(null);
+
+  // Start from the item's current details every time the sheet opens
+  useEffect(() => {
+    if (visible && initialDetails) {
+      setName(initialDetails.name);
+      setCourseCode(initialDetails.courseCode ?? '');
+      setDescription(initialDetails.description ?? '');
+      setColor(initialDetails.color);
+    }
+  }, [visible, initialDetails]);
+
+  const handleSave = () => {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      Alert.alert(`Invalid ${nameLabel}`, `Please enter a ${nameLabel.toLowerCase()}.`);
+      return;
+    }
+    if (trimmedName.length > maxNameLength) {
+      Alert.alert(
+        `${nameLabel} Too Long`,
+        `${nameLabel} must be ${maxNameLength} characters or less.`,
+      );
+      return;
+    }
+    onSave({
+      name: trimmedName,
+      courseCode: courseCode.trim() || null,
+      description: description.trim() || null,
+      color,
+    });
+  };
+
+  return (
+    <Modal
+      transparent
+      visible={visible}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        style={styles.backdrop}
+        activeOpacity={1}
+        onPress={onClose}
+      />
+      <View style={styles.panel}>
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>{title}</Text>
+          {busy ? (
+            <ActivityIndicator size="small" color="#666" />
+          ) : (
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Text style={styles.closeButtonText}>✕</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <Text style={styles.label}>{nameLabel}</Text>
+        <TextInput
+          style={styles.input}
+          value={name}
+          onChangeText={setName}
+          maxLength={maxNameLength}
+          editable={!busy}
+        />
+
+        <Text style={styles.label}>Course Code</Text>
+        <TextInput
+          style={styles.input}
+          value={courseCode}
+          onChangeText={setCourseCode}
+          placeholder="e.g. PHYS 101"
+          autoCapitalize="characters"
+          maxLength={MAX_COURSE_CODE_LENGTH}
+          editable={!busy}
+        />
+
+        <Text style={styles.label}>Description</Text>
+        <TextInput
+          style={[styles.input, styles.descriptionInput]}
+          value={description}
+          onChangeText={setDescription}
+          multiline
+          maxLength={MAX_DESCRIPTION_LENGTH}
+          editable={!busy}
+        />
+
+        <Text style={styles.label}>Color</Text>
+        <View style={styles.colorRow}>
+          <TouchableOpacity
+            style={[styles.colorSwatch, styles.noColorSwatch, color === null && styles.colorSwatchSelected]}
+            onPress={() => setColor(null)}
+            disabled={busy}
+          >
+            <Text style={styles.noColorText}>None</Text>
+          </TouchableOpacity>
+          {ITEM_COLORS.map(itemColor => (
+            <TouchableOpacity
+              key={itemColor}
+              style={[
+                styles.colorSwatch,
+                { backgroundColor: itemColor },
+                color === itemColor && styles.colorSwatchSelected,
+              ]}
+              onPress={() => setColor(itemColor)}
+              disabled={busy}
+            />
+          ))}
+        </View>
+
+        <TouchableOpacity
+          style={[styles.saveButton, busy && styles.saveButtonDisabled]}
+          onPress={handleSave}
+          disabled={busy}
+        >
+          <Text style={styles.saveButtonText}>Save</Text>
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  panel: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 32,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: -2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 10,
+    elevation: 5,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  closeButtonText: {
+    fontSize: 28,
+    color: '#666',
+    fontWeight: '300',
+  },
+  label: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  input: {
+    height: 44,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    fontSize: 16,
+    backgroundColor: '#fff',
+  },
+  descriptionInput: {
+    height: 88,
+    paddingTop: 10,
+    textAlignVertical: 'top',
+  },
+  colorRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+  },
+  colorSwatch: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    marginRight: 10,
+    marginBottom: 8,
+    borderWidth: 3,
+    borderColor: 'transparent',
+  },
+  colorSwatchSelected: {
+    borderColor: '#333',
+  },
+  noColorSwatch: {
+    width: 56,
+    backgroundColor: '#f0f0f0',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  noColorText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  saveButton: {
+    marginTop: 20,
+    height: 44,
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default ItemDetailsSheet;
@@ -0,0 +1,300 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { MAX_TAG_LENGTH, MAX_TAGS_PER_NOTE, normalizeTag, normalizeTags } from '../utils/tags';
+
+interface NoteTagsSheetProps {
+  visible: boolean;
+  noteTitle: string;
+  initialTags: string[];
+  suggestions: string[]; // Tags already used by other notes
+  busy?: boolean;
+  onClose: () => void;
+  onSave: (tags: string[]) => void;
+}
+
+const NoteTagsSheet = ({
+  visible,
+  noteTitle,
+  initialTags,
+  suggestions,
+  busy = false,
+  onClose,
+  onSave,
+}: NoteTagsSheetProps) => {
+  const [tags, setTags] = useState<string[]>([]);
+  const [input, setInput] = useState('');
+
+  // Start from the note's current tags every time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setTags(initialTags);
+      setInput('');
+    }
+  }, [visible, initialTags]);
+
+  const addTag = (value: string) => {
+    const tag = normalizeTag(value);
+    if (!tag) {
+      return;
+    }
+    if (!tags.includes(tag) && tags.length >= MAX_TAGS_PER_NOTE) {
+      Alert.alert('Too Many Tags', `A note can have up to ${MAX_TAGS_PER_NOTE} tags.`);
+      return;
+    }
+    setTags(current => normalizeTags([...current, tag]));
+    setInput('');
+  };
+
+  const removeTag = (tag: string) => {
+    setTags(current => current.filter(existing => existing !== tag));
+  };
+
+  const handleSave = () => {
+    // Include a tag that was typed but not added yet
+    onSave(normalizeTags(input.trim() ? [...tags, input] : tags));
+  };
+
+  const unusedSuggestions = suggestions.filter(tag => !tags.includes(tag));
+
+  return (
+    <Modal
+      transparent
+      visible={visible}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        style={styles.backdrop}
+        activeOpacity={1}
+        onPress={onClose}
+      />
+      <View style={styles.panel}>
+        <View style={styles.header}>
+          <Text style={styles.headerTitle} numberOfLines={1}>
+            Tags for "{noteTitle}"
+          </Text>
+          {busy ? (
+            <ActivityIndicator size="small" color="#666" />
+          ) : (
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Text style={styles.closeButtonText}>✕</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <View style={styles.tagList}>
+          {tags.length === 0 ? (
+            <Text style={styles.emptyText}>No tags yet.</Text>
+          ) : (
+            tags.map(tag => (
+              <TouchableOpacity
+                key={tag}
+                style={styles.tagChip}
+                onPress={() => removeTag(tag)}
+                disabled={busy}
+              >
+                <Text style={styles.tagChipText}>#{tag} ✕</Text>
+              </TouchableOpacity>
+            ))
+          )}
+        </View>
+
+        <View style={styles.inputRow}>
+          <TextInput
+            style={styles.input}
+            placeholder="Add a tag, e.g. exam-2"
+            value={input}
+            onChangeText={setInput}
+            onSubmitEditing={() => addTag(input)}
+            autoCapitalize="none"
+            autoCorrect={false}
+            returnKeyType="done"
+            maxLength={MAX_TAG_LENGTH}
+            editable={!busy}
+          />
+          <TouchableOpacity
+            style={[styles.addButton, busy && styles.buttonDisabled]}
+            onPress={() => addTag(input)}
+            disabled={busy}
+          >
+            <Text style={styles.addButtonText}>Add</Text>
+          </TouchableOpacity>
+        </View>
+
+        {unusedSuggestions.length > 0 ? (
+          <>
+            <Text style={styles.label}>Used in other notes</Text>
+            <View style={styles.tagList}>
+              {unusedSuggestions.map(tag => (
+                <TouchableOpacity
+                  key={tag}
+                  style={styles.suggestionChip}
+                  onPress={() => addTag(tag)}
+                  disabled={busy}
+                >
+                  <Text style={styles.suggestionChipText}>#{tag}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </>
+        ) : null}
+
+        <TouchableOpacity
+          style={[styles.saveButton, busy && styles.buttonDisabled]}
+          onPress={handleSave}
+          disabled={busy}
+        >
+          <Text style={styles.saveButtonText}>Save</Text>
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  panel: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 32,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: -2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 10,
+    elevation: 5,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+    marginRight: 12,
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  closeButtonText: {
+    fontSize: 28,
+    color: '#666',
+    fontWeight: '300',
+  },
+  label: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    marginBottom: 8,
+  },
+  tagList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  tagChip: {
+    paddingHorizontal: 12,
+    height: 30,
+    borderRadius: 15,
+    backgroundColor: '#007AFF',
+    justifyContent: 'center',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  tagChipText: {
+    fontSize: 14,
+    color: '#fff',
+    fontWeight: '600',
+  },
+  suggestionChip: {
+    paddingHorizontal: 12,
+    height: 30,
+    borderRadius: 15,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    justifyContent: 'center',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  suggestionChipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    marginTop: 4,
+  },
+  input: {
+    flex: 1,
+    height: 44,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    fontSize: 16,
+    backgroundColor: '#fff',
+  },
+  addButton: {
+    marginLeft: 12,
+    paddingHorizontal: 20,
+    height: 44,
+    backgroundColor: '#8E8E93',
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  addButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  saveButton: {
+    marginTop: 20,
+    height: 44,
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default NoteTagsSheet;
@@ -0,0 +1,288 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { PageSize, PageSizePreset } from '../types/models';
+
+export type PageAction =
+  | 'insertBefore'
+  | 'insertAfter'
+  | 'duplicate'
+  | 'moveFirst'
+  | 'moveEarlier'
+  | 'moveLater'
+  | 'moveLast'
+  | 'delete';
+
+const PAGE_SIZE_OPTIONS: Array<{ preset: Exclude<PageSizePreset, 'custom'>; label: string }> = [
+  { preset: 'a4', label: 'A4' },
+  { preset: 'letter', label: 'Letter' },
+  { preset: 'square', label: 'Square' },
+];
+
+interface PageActionsSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  pageNumber: number; // 1-based, for display
+  totalPages: number;
+  busy?: boolean;
+  onAction: (action: PageAction) => void;
+  pageSize?: PageSize | null;
+  onPageSizeChange?: (preset: Exclude<PageSizePreset, 'custom'>) => void;
+}
+
+const PageActionsSheet = ({
+  visible,
+  onClose,
+  pageNumber,
+  totalPages,
+  busy = false,
+  onAction,
+  pageSize,
+  onPageSizeChange,
+}: PageActionsSheetProps) => {
+  const isFirst = pageNumber <= 1;
+  const isLast = pageNumber >= totalPages;
+  const isOnlyPage = totalPages <= 1;
+
+  const handleDelete = () => {
+    Alert.alert(
+      'Delete page?',
+      `Page ${pageNumber} will be moved to the Trash. You can restore it from the Trash on the Folders screen.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => onAction('delete'),
+        },
+      ],
+    );
+  };
+
+  const renderAction = (
+    label: string,
+    action: PageAction,
+    disabled = false,
+  ) => {
+    const isDisabled = disabled || busy;
+    return (
+      <TouchableOpacity
+        key={action}
+        style={[styles.actionButton, isDisabled && styles.actionButtonDisabled]}
+        onPress={() => onAction(action)}
+        disabled={isDisabled}
+      >
+        <Text
+          style={[styles.actionButtonText, isDisabled && styles.disabledText]}
+        >
+          {label}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal
+      transparent
+      visible={visible}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        style={styles.backdrop}
+        activeOpacity={1}
+        onPress={onClose}
+      />
+      <View style={styles.panel}>
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>
+            Page {pageNumber} of {totalPages}
+          </Text>
+          {busy ? (
+            <ActivityIndicator size="small" color="#666" />
+          ) : (
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Text style={styles.closeButtonText}>✕</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <Text style={styles.sectionLabel}>Add</Text>
+        <View style={styles.actionRow}>
+          {renderAction('Blank Page Before', 'insertBefore')}
+          {renderAction('Blank Page After', 'insertAfter')}
+          {renderAction('Duplicate Page', 'duplicate')}
+        </View>
+
+        <Text style={styles.sectionLabel}>Move</Text>
+        <View style={styles.actionRow}>
+          {renderAction('To First', 'moveFirst', isFirst)}
+          {renderAction('Earlier', 'moveEarlier', isFirst)}
+          {renderAction('Later', 'moveLater', isLast)}
+          {renderAction('To Last', 'moveLast', isLast)}
+        </View>
+
+        <Text style={styles.sectionLabel}>
+          Size
+          {pageSize?.preset === 'custom'
+            ? ` (custom, ${Math.round(pageSize.width)} × ${Math.round(pageSize.height)})`
+            : ''}
+        </Text>
+        <View style={styles.actionRow}>
+          {PAGE_SIZE_OPTIONS.map(option => {
+            const isSelected = pageSize?.preset === option.preset;
+            return (
+              <TouchableOpacity
+                key={option.preset}
+                style={[
+                  styles.actionButton,
+                  isSelected && styles.actionButtonSelected,
+                  busy && styles.actionButtonDisabled,
+                ]}
+                onPress={() => onPageSizeChange?.(option.preset)}
+                disabled={busy || isSelected}
+              >
+                <Text
+                  style={[
+                    styles.actionButtonText,
+                    isSelected && styles.selectedText,
+                    busy && styles.disabledText,
+                  ]}
+                >
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <TouchableOpacity
+          style={[
+            styles.deleteButton,
+            (isOnlyPage || busy) && styles.actionButtonDisabled,
+          ]}
+          onPress={handleDelete}
+          disabled={isOnlyPage || busy}
+        >
+          <Text
+            style={[
+              styles.deleteButtonText,
+              (isOnlyPage || busy) && styles.disabledText,
+            ]}
+          >
+            {isOnlyPage ? 'Cannot Delete Only Page' : 'Delete Page'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  panel: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 32,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: -2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 10,
+    elevation: 5,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  closeButtonText: {
+    fontSize: 28,
+    color: '#666',
+    fontWeight: '300',
+  },
+  sectionLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666',
+    marginTop: 12,
+    marginBottom: 8,
+    textTransform: 'uppercase',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  actionButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#007AFF',
+  },
+  actionButtonDisabled: {
+    backgroundColor: '#e0e0e0',
+  },
+  actionButtonSelected: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    paddingHorizontal: 13,
+    paddingVertical: 9,
+  },
+  actionButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  disabledText: {
+    color: '#999',
+  },
+  selectedText: {
+    color: '#007AFF',
+  },
+  deleteButton: {
+    marginTop: 20,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#ff3b30',
+    alignItems: 'center',
+  },
+  deleteButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default PageActionsSheet;
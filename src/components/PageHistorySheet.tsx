@@ -0,0 +1,290 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  FlatList,
+  ActivityIndicator,
+} from 'react-native';
+import {
+  loadPageSnapshots,
+  PageSnapshot,
+  SnapshotReason,
+} from '../storage/pageSnapshots';
+import { ExportSize, renderDrawingToPngBase64 } from '../utils/exportDrawing';
+import { getThumbnailSize } from '../utils/thumbnails';
+
+interface PageHistorySheetProps {
+  visible: boolean;
+  pageId: string | null;
+  logicalSize: ExportSize | null;
+  busy?: boolean;
+  onClose: () => void;
+  onRestore: (snapshot: PageSnapshot) => void;
+}
+
+const REASON_LABELS: Record<SnapshotReason, string> = {
+  pageLeave: 'Left page',
+  background: 'App closed',
+  interval: 'Autosave',
+  restore: 'Before restore',
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const PageHistorySheet = ({
+  visible,
+  pageId,
+  logicalSize,
+  busy = false,
+  onClose,
+  onRestore,
+}: PageHistorySheetProps) => {
+  const [snapshots, setSnapshots] = useState<PageSnapshot[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!visible || !pageId) {
+      return;
+    }
+    let isActive = true;
+    setLoading(true);
+    loadPageSnapshots(pageId)
+      .then(loaded => {
+        if (isActive) {
+          setSnapshots(loaded);
+          setSelectedId(loaded[0]?.id ?? null);
+        }
+      })
+      .finally(() => {
+        if (isActive) {
+          setLoading(false);
+        }
+      });
+    return () => {
+      isActive = false;
+    };
+  }, [visible, pageId]);
+
+  const selected = snapshots.find(snapshot => snapshot.id === selectedId) ?? null;
+
+  // Render only the selected version, with the same renderer as PNG export
+  const previewUri = useMemo(() => {
+    if (!selected || !logicalSize) {
+      return null;
+    }
+    try {
+      const base64 = renderDrawingToPngBase64(
+        selected.drawingData,
+        logicalSize,
+        getThumbnailSize(logicalSize),
+      );
+      return `data:image/png;base64,${base64}`;
+    } catch (error) {
+      console.error('Failed to render snapshot preview:', error);
+      return null;
+    }
+  }, [selected, logicalSize]);
+
+  const renderSnapshot = ({ item }: { item: PageSnapshot }) => (
+    <TouchableOpacity
+      style={[styles.snapshotItem, item.id === selectedId && styles.snapshotItemSelected]}
+      onPress={() => setSelectedId(item.id)}
+    >
+      <Text style={styles.snapshotTime}>{formatTime(item.createdAt)}</Text>
+      <Text style={styles.snapshotMeta}>
+        {REASON_LABELS[item.reason] ?? item.reason} · {item.strokeCount} strokes
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      transparent
+      visible={visible}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        style={styles.backdrop}
+        activeOpacity={1}
+        onPress={onClose}
+      />
+      <View style={styles.panel}>
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>Page History</Text>
+          {busy ? (
+            <ActivityIndicator size="small" color="#666" />
+          ) : (
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Text style={styles.closeButtonText}>✕</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {loading ? (
+          <ActivityIndicator style={styles.loading} size="large" />
+        ) : snapshots.length === 0 ? (
+          <Text style={styles.emptyText}>
+            No earlier versions yet. Versions are saved when you leave the page,
+            when the app goes to the background and every few minutes while you write.
+          </Text>
+        ) : (
+          <View style={styles.body}>
+            <FlatList
+              style={styles.list}
+              data={snapshots}
+              renderItem={renderSnapshot}
+              keyExtractor={item => item.id}
+            />
+            <View style={styles.previewColumn}>
+              <View style={styles.previewFrame}>
+                {previewUri ? (
+                  <Image
+                    source={{ uri: previewUri }}
+                    style={styles.previewImage}
+                    resizeMode="contain"
+                  />
+                ) : null}
+              </View>
+              <TouchableOpacity
+                style={[styles.restoreButton, (!selected || busy) && styles.restoreButtonDisabled]}
+                onPress={() => selected && onRestore(selected)}
+                disabled={!selected || busy}
+              >
+                <Text style={styles.restoreButtonText}>Restore This Version</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  panel: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    height: '70%',
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 32,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: -2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 10,
+    elevation: 5,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  closeButtonText: {
+    fontSize: 28,
+    color: '#666',
+    fontWeight: '300',
+  },
+  loading: {
+    marginVertical: 24,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#666',
+    textAlign: 'center',
+    marginVertical: 24,
+  },
+  body: {
+    flex: 1,
+    flexDirection: 'row',
+  },
+  list: {
+    flex: 1,
+    marginRight: 16,
+  },
+  snapshotItem: {
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    marginBottom: 4,
+  },
+  snapshotItemSelected: {
+    backgroundColor: '#E5F0FF',
+  },
+  snapshotTime: {
+    fontSize: 16,
+    color: '#333',
+    fontWeight: '500',
+  },
+  snapshotMeta: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 2,
+  },
+  previewColumn: {
+    flex: 1,
+  },
+  previewFrame: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    backgroundColor: '#fafafa',
+    overflow: 'hidden',
+  },
+  previewImage: {
+    flex: 1,
+  },
+  restoreButton: {
+    marginTop: 12,
+    height: 44,
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  restoreButtonDisabled: {
+    opacity: 0.5,
+  },
+  restoreButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default PageHistorySheet;
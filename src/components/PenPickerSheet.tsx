@@ -0,0 +1,347 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import {
+  HIGHLIGHTER_COLORS,
+  HIGHLIGHTER_WIDTHS,
+  PEN_COLORS,
+  PEN_WIDTHS,
+  PenPreset,
+  PenStyle,
+  StrokeTool,
+} from '../types/models';
+import { MAX_PEN_PRESET_NAME_LENGTH } from '../storage/penSettings';
+import { HIGHLIGHTER_OPACITY } from '../utils/highlighter';
+
+interface PenPickerSheetProps {
+  visible: boolean;
+  tool: StrokeTool; // presets are offered for the pen only
+  penStyle: PenStyle;
+  presets: PenPreset[];
+  busy?: boolean;
+  onClose: () => void;
+  onChange: (style: PenStyle) => void;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (preset: PenPreset) => void;
+}
+
+function isSameStyle(a: PenStyle, b: PenStyle): boolean {
+  return a.color.toLowerCase() === b.color.toLowerCase() && a.width === b.width;
+}
+
+const PenPickerSheet = ({
+  visible,
+  tool,
+  penStyle,
+  presets,
+  busy = false,
+  onClose,
+  onChange,
+  onSavePreset,
+  onDeletePreset,
+}: PenPickerSheetProps) => {
+  const [presetName, setPresetName] = useState('');
+  const isHighlighter = tool === 'highlighter';
+  const colors = isHighlighter ? HIGHLIGHTER_COLORS : PEN_COLORS;
+  const widths = isHighlighter ? HIGHLIGHTER_WIDTHS : PEN_WIDTHS;
+
+  useEffect(() => {
+    if (visible) {
+      setPresetName('');
+    }
+  }, [visible]);
+
+  const handleSavePreset = () => {
+    if (!presetName.trim()) {
+      Alert.alert('Name Required', 'Enter a name for the preset, e.g. "Forces".');
+      return;
+    }
+    onSavePreset(presetName);
+    setPresetName('');
+  };
+
+  const confirmDeletePreset = (preset: PenPreset) => {
+    Alert.alert('Delete Preset?', `"${preset.name}" will be removed from your presets.`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => onDeletePreset(preset) },
+    ]);
+  };
+
+  return (
+    <Modal
+      transparent
+      visible={visible}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        style={styles.backdrop}
+        activeOpacity={1}
+        onPress={onClose}
+      />
+      <View style={styles.panel}>
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>{isHighlighter ? 'Highlighter' : 'Pen'}</Text>
+          {busy ? (
+            <ActivityIndicator size="small" color="#666" />
+          ) : (
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Text style={styles.closeButtonText}>✕</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {isHighlighter ? null : (
+          <>
+            <Text style={styles.label}>Presets</Text>
+            {presets.length === 0 ? (
+              <Text style={styles.emptyText}>No presets yet.</Text>
+            ) : (
+              <View style={styles.optionRow}>
+                {presets.map(preset => (
+                  <TouchableOpacity
+                    key={preset.id}
+                    style={[
+                      styles.presetChip,
+                      isSameStyle(preset, penStyle) && styles.presetChipSelected,
+                    ]}
+                    onPress={() => onChange({ color: preset.color, width: preset.width })}
+                    onLongPress={() => confirmDeletePreset(preset)}
+                    disabled={busy}
+                  >
+                    <View style={[styles.presetDot, { backgroundColor: preset.color }]} />
+                    <Text style={styles.presetChipText}>{preset.name}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+            <Text style={styles.hintText}>Long-press a preset to delete it.</Text>
+          </>
+        )}
+
+        <Text style={styles.label}>Color</Text>
+        <View style={styles.optionRow}>
+          {colors.map(color => (
+            <TouchableOpacity
+              key={color}
+              style={[
+                styles.colorSwatch,
+                { backgroundColor: color },
+                color.toLowerCase() === penStyle.color.toLowerCase() && styles.swatchSelected,
+              ]}
+              onPress={() => onChange({ ...penStyle, color })}
+              disabled={busy}
+            />
+          ))}
+        </View>
+
+        <Text style={styles.label}>Width</Text>
+        <View style={styles.optionRow}>
+          {widths.map(width => (
+            <TouchableOpacity
+              key={width}
+              style={[styles.widthOption, width === penStyle.width && styles.swatchSelected]}
+              onPress={() => onChange({ ...penStyle, width })}
+              disabled={busy}
+            >
+              <View
+                style={[
+                  styles.widthPreview,
+                  { height: width, backgroundColor: penStyle.color },
+                  isHighlighter && styles.highlighterPreview,
+                ]}
+              />
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {isHighlighter ? null : (
+          <View style={styles.inputRow}>
+            <TextInput
+              style={styles.input}
+              placeholder="Save this pen as…"
+              value={presetName}
+              onChangeText={setPresetName}
+              onSubmitEditing={handleSavePreset}
+              returnKeyType="done"
+              maxLength={MAX_PEN_PRESET_NAME_LENGTH}
+              editable={!busy}
+            />
+            <TouchableOpacity
+              style={[styles.saveButton, busy && styles.buttonDisabled]}
+              onPress={handleSavePreset}
+              disabled={busy}
+            >
+              <Text style={styles.saveButtonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  panel: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 32,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: -2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 10,
+    elevation: 5,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  closeButtonText: {
+    fontSize: 28,
+    color: '#666',
+    fontWeight: '300',
+  },
+  label: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+  },
+  presetChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  presetChipSelected: {
+    borderColor: '#007AFF',
+    borderWidth: 2,
+  },
+  presetDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginRight: 6,
+  },
+  presetChipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  colorSwatch: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    marginRight: 10,
+    marginBottom: 8,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  swatchSelected: {
+    borderColor: '#007AFF',
+    borderWidth: 3,
+  },
+  widthOption: {
+    width: 56,
+    height: 40,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    justifyContent: 'center',
+    paddingHorizontal: 10,
+    marginRight: 10,
+    marginBottom: 8,
+  },
+  widthPreview: {
+    borderRadius: 4,
+  },
+  highlighterPreview: {
+    borderRadius: 0,
+    opacity: HIGHLIGHTER_OPACITY,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    marginTop: 16,
+  },
+  input: {
+    flex: 1,
+    height: 44,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    fontSize: 16,
+    backgroundColor: '#fff',
+  },
+  saveButton: {
+    marginLeft: 12,
+    paddingHorizontal: 20,
+    height: 44,
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
+
+export default PenPickerSheet;
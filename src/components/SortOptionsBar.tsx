@@ -0,0 +1,65 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { LIST_SORT_OPTIONS, ListSort } from '../utils/listSort';
+
+interface SortOptionsBarProps {
+  value: ListSort;
+  onChange: (sort: ListSort) => void;
+}
+
+const SortOptionsBar = ({ value, onChange }: SortOptionsBarProps) => (
+  <View style={styles.container}>
+    <Text style={styles.label}>Sort by</Text>
+    {LIST_SORT_OPTIONS.map(option => (
+      <TouchableOpacity
+        key={option.value}
+        style={[styles.option, option.value === value && styles.optionSelected]}
+        onPress={() => onChange(option.value)}
+      >
+        <Text style={[styles.optionText, option.value === value && styles.optionTextSelected]}>
+          {option.label}
+        </Text>
+      </TouchableOpacity>
+    ))}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  label: {
+    fontSize: 14,
+    color: '#666',
+    marginRight: 12,
+  },
+  option: {
+    paddingHorizontal: 12,
+    height: 32,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    justifyContent: 'center',
+    marginRight: 8,
+  },
+  optionSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  optionTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
+
+export default SortOptionsBar;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { ScrollView, Text, TouchableOpacity, StyleSheet } from 'react-native';
+
+interface TagFilterBarProps {
+  label: string;
+  tags: string[];
+  selectedTag: string | null; // null = no filter
+  disabled?: boolean;
+  onSelect: (tag: string | null) => void;
+}
+
+const TagFilterBar = ({ label, tags, selectedTag, disabled = false, onSelect }: TagFilterBarProps) => (
+  <ScrollView
+    horizontal
+    showsHorizontalScrollIndicator={false}
+    contentContainerStyle={styles.container}
+    keyboardShouldPersistTaps="handled"
+  >
+    <Text style={styles.label}>{label}</Text>
+    {[null, ...tags].map(tag => (
+      <TouchableOpacity
+        key={tag ?? ''}
+        style={[styles.chip, tag === selectedTag && styles.chipSelected]}
+        onPress={() => onSelect(tag)}
+        disabled={disabled}
+      >
+        <Text style={[styles.chipText, tag === selectedTag && styles.chipTextSelected]}>
+          {tag === null ? 'All' : `#${tag}`}
+        </Text>
+      </TouchableOpacity>
+    ))}
+  </ScrollView>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  label: {
+    fontSize: 14,
+    color: '#666',
+    marginRight: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    height: 30,
+    borderRadius: 15,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    justifyContent: 'center',
+    marginRight: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
+
+export default TagFilterBar;
@@ -4,6 +4,8 @@ import { RootStackParamList } from '../types/navigation';
 import FolderListScreen from '../screens/FolderListScreen';
 import NoteListScreen from '../screens/NoteListScreen';
 import PageEditorScreen from '../screens/PageEditorScreen';
+import PageOverviewScreen from '../screens/PageOverviewScreen';
+import TrashScreen from '../screens/TrashScreen';
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 
@@ -33,6 +35,16 @@ const AppNavigator = () => {
           gestureEnabled: false, // Disable swipe-back to prevent interference with drawing
         }}
       />
+      <Stack.Screen
+        name="PageOverview"
+        component={PageOverviewScreen}
+        options={{ title: 'All Pages' }}
+      />
+      <Stack.Screen
+        name="Trash"
+        component={TrashScreen}
+        options={{ title: 'Trash' }}
+      />
     </Stack.Navigator>
   );
 };
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -9,49 +9,99 @@ import {
   Alert,
   ActivityIndicator,
 } from 'react-native';
+import RNFS from 'react-native-fs';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../types/navigation';
 import { Folder } from '../types/models';
 import {
   loadFolders,
   createFolder,
-  deleteFolder,
+  moveFolder,
+  trashFolder,
+  updateFolder,
 } from '../storage/folders';
+import { loadListSort, saveListSort } from '../storage/listSort';
+import { flushPendingChunkSync } from '../ai/chunkSyncService';
+import { BackupArchive, restoreBackup, RestoreMode } from '../storage/backup';
+import { BACKUP_DIR, BACKUP_EXTENSION, readBackupFile, writeBackupFile } from '../utils/backupFiles';
+import FilePickerSheet from '../components/FilePickerSheet';
+import FolderPickerSheet from '../components/FolderPickerSheet';
+import ItemDetailsSheet, { ItemDetails } from '../components/ItemDetailsSheet';
+import SortOptionsBar from '../components/SortOptionsBar';
+import { flattenFolderTree, FolderTreeRow, getDescendantFolderIds } from '../utils/folderTree';
+import { DEFAULT_LIST_SORT, ListSort, sortItems } from '../utils/listSort';
 
 type Props = NativeStackScreenProps<RootStackParamList, 'FolderList'>;
 
+const INDENT_PER_LEVEL = 24;
+const MAX_FOLDER_NAME_LENGTH = 100;
+
 const CreateFolderHeader = ({
   newFolderName,
   setNewFolderName,
   handleCreateFolder,
+  handleBackup,
+  handleOpenTrash,
+  parentFolder,
+  clearParentFolder,
   creating,
 }: {
   newFolderName: string;
   setNewFolderName: (text: string) => void;
   handleCreateFolder: () => void;
+  handleBackup: () => void;
+  handleOpenTrash: () => void;
+  parentFolder: Folder | null;
+  clearParentFolder: () => void;
   creating: boolean;
 }) => (
   <View style={styles.createSection}>
-    <TextInput
-      style={styles.input}
-      placeholder="New folder name..."
-      value={newFolderName}
-      onChangeText={setNewFolderName}
-      onSubmitEditing={handleCreateFolder}
-      returnKeyType="done"
-      editable={!creating}
-    />
-    <TouchableOpacity
-      style={[styles.addButton, creating && styles.addButtonDisabled]}
-      onPress={handleCreateFolder}
-      disabled={creating}
-    >
-      {creating ? (
-        <ActivityIndicator size="small" color="#fff" />
-      ) : (
-        <Text style={styles.addButtonText}>Add</Text>
-      )}
-    </TouchableOpacity>
+    {parentFolder ? (
+      <View style={styles.parentRow}>
+        <Text style={styles.parentText} numberOfLines={1}>
+          New subfolder in "{parentFolder.name}"
+        </Text>
+        <TouchableOpacity onPress={clearParentFolder} disabled={creating}>
+          <Text style={styles.parentClearText}>Top Level Instead</Text>
+        </TouchableOpacity>
+      </View>
+    ) : null}
+    <View style={styles.createRow}>
+      <TextInput
+        style={styles.input}
+        placeholder={parentFolder ? 'New subfolder name...' : 'New folder name...'}
+        value={newFolderName}
+        onChangeText={setNewFolderName}
+        onSubmitEditing={handleCreateFolder}
+        returnKeyType="done"
+        editable={!creating}
+      />
+      <TouchableOpacity
+        style={[styles.addButton, creating && styles.addButtonDisabled]}
+        onPress={handleCreateFolder}
+        disabled={creating}
+      >
+        {creating ? (
+          <ActivityIndicator size="small" color="#fff" />
+        ) : (
+          <Text style={styles.addButtonText}>Add</Text>
+        )}
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={[styles.secondaryButton, creating && styles.addButtonDisabled]}
+        onPress={handleBackup}
+        disabled={creating}
+      >
+        <Text style={styles.secondaryButtonText}>Backup</Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={[styles.secondaryButton, creating && styles.addButtonDisabled]}
+        onPress={handleOpenTrash}
+        disabled={creating}
+      >
+        <Text style={styles.secondaryButtonText}>Trash</Text>
+      </TouchableOpacity>
+    </View>
   </View>
 );
 
@@ -60,13 +110,43 @@ const FolderListScreen = ({ navigation }: Props) => {
   const [loading, setLoading] = useState(true);
   const [newFolderName, setNewFolderName] = useState('');
   const [creating, setCreating] = useState(false);
+  const [restorePickerVisible, setRestorePickerVisible] = useState(false);
+  const [backupBusy, setBackupBusy] = useState(false);
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const [createParentId, setCreateParentId] = useState<string | null>(null);
+  const [movingFolder, setMovingFolder] = useState<Folder | null>(null);
+  const [moveBusy, setMoveBusy] = useState(false);
+  const [editingFolder, setEditingFolder] = useState<Folder | null>(null);
+  const [editBusy, setEditBusy] = useState(false);
+  const [sort, setSort] = useState<ListSort>(DEFAULT_LIST_SORT);
+
+  // Sorting applies within each level; the tree keeps subfolders under their parent
+  const rows = useMemo(
+    () => flattenFolderTree(sortItems(folders, sort, folder => folder.name), expandedIds),
+    [folders, sort, expandedIds],
+  );
+  const parentFolder = folders.find(folder => folder.id === createParentId) ?? null;
+
+  // Reload on focus so folders restored from the Trash show up
+  useEffect(
+    () =>
+      navigation.addListener('focus', () => {
+        loadFolders()
+          .then(setFolders)
+          .finally(() => setLoading(false));
+      }),
+    [navigation],
+  );
 
   useEffect(() => {
-    loadFolders()
-      .then(setFolders)
-      .finally(() => setLoading(false));
+    loadListSort(null).then(setSort);
   }, []);
 
+  const handleSortChange = (nextSort: ListSort) => {
+    setSort(nextSort);
+    saveListSort(null, nextSort).catch(error => console.error('Failed to remember sort:', error));
+  };
+
   const handleCreateFolder = async () => {
     const trimmedName = newFolderName.trim();
 
@@ -75,16 +155,21 @@ const FolderListScreen = ({ navigation }: Props) => {
       return;
     }
 
-    if (trimmedName.length > 100) {
-      Alert.alert('Name Too Long', 'Folder name must be 100 characters or less.');
+    if (trimmedName.length > MAX_FOLDER_NAME_LENGTH) {
+      Alert.alert('Name Too Long', `Folder name must be ${MAX_FOLDER_NAME_LENGTH} characters or less.`);
       return;
     }
 
     setCreating(true);
     try {
-      const updated = await createFolder(trimmedName);
+      const updated = await createFolder(trimmedName, parentFolder?.id ?? null);
       setFolders(updated);
       setNewFolderName('');
+      if (parentFolder) {
+        // Show the new subfolder
+        setExpandedIds(previous => new Set(previous).add(parentFolder.id));
+        setCreateParentId(null);
+      }
     } catch (error) {
       Alert.alert('Error', 'Failed to create folder. Please try again.');
     } finally {
@@ -95,7 +180,7 @@ const FolderListScreen = ({ navigation }: Props) => {
   const handleDeleteFolder = (folder: Folder) => {
     Alert.alert(
       'Delete Folder',
-      `Are you sure you want to delete "${folder.name}"?`,
+      `"${folder.name}" and all of its subfolders and notes will be moved to the Trash.`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -103,8 +188,10 @@ const FolderListScreen = ({ navigation }: Props) => {
           style: 'destructive',
           onPress: async () => {
             try {
-              const updated = await deleteFolder(folder.id);
+              const updated = await trashFolder(folder.id);
               setFolders(updated);
+              // Remove the folder from AI context (retried if offline)
+              void flushPendingChunkSync();
             } catch (error) {
               Alert.alert('Error', 'Failed to delete folder. Please try again.');
             }
@@ -114,10 +201,150 @@ const FolderListScreen = ({ navigation }: Props) => {
     );
   };
 
+  const handleCreateBackup = async () => {
+    setBackupBusy(true);
+    try {
+      const filePath = await writeBackupFile();
+      Alert.alert('Backup Created', `Saved to:\n${filePath}`);
+    } catch (error) {
+      console.error('Failed to create backup:', error);
+      Alert.alert('Error', 'Failed to create backup. Please try again.');
+    } finally {
+      setBackupBusy(false);
+    }
+  };
+
+  const runRestore = async (archive: BackupArchive, mode: RestoreMode) => {
+    setBackupBusy(true);
+    try {
+      const result = await restoreBackup(archive, mode);
+      setFolders(await loadFolders());
+      setRestorePickerVisible(false);
+      // Purge replaced pages from AI context (retried if offline)
+      void flushPendingChunkSync();
+      Alert.alert(
+        'Backup Restored',
+        `Restored ${result.folders} folders, ${result.notes} notes and ${result.pages} pages.` +
+          (result.remappedIds > 0
+            ? `\n${result.remappedIds} items got new IDs because they already existed.`
+            : ''),
+      );
+    } catch (error) {
+      Alert.alert('Restore Failed', error instanceof Error ? error.message : 'Unable to restore this backup.');
+    } finally {
+      setBackupBusy(false);
+    }
+  };
+
+  const handleSelectBackupFile = async (filePath: string) => {
+    let archive: BackupArchive;
+    try {
+      archive = await readBackupFile(filePath);
+    } catch (error) {
+      console.error('Failed to read backup:', error);
+      Alert.alert('Invalid Backup', error instanceof Error ? error.message : 'Unable to read this backup.');
+      return;
+    }
+
+    const { counts, createdAt } = archive.manifest;
+    Alert.alert(
+      'Restore Backup',
+      `Backup from ${new Date(createdAt).toLocaleString()} with ${counts.folders} folders, ` +
+        `${counts.notes} notes and ${counts.pages} pages.\n\n` +
+        'Merge adds it to your current data. Replace deletes your current data first.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Merge', onPress: () => runRestore(archive, 'merge') },
+        {
+          text: 'Replace',
+          style: 'destructive',
+          onPress: () =>
+            Alert.alert(
+              'Replace All Data',
+              'All current folders, notes and drawings will be deleted and replaced with the backup.',
+              [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                  text: 'Replace',
+                  style: 'destructive',
+                  onPress: () => runRestore(archive, 'replace'),
+                },
+              ],
+            ),
+        },
+      ],
+    );
+  };
+
+  const handleBackup = () => {
+    Alert.alert('Backup', 'Back up or restore all folders, notes and drawings.', [
+      { text: 'Create Backup', onPress: handleCreateBackup },
+      { text: 'Restore from Backup…', onPress: () => setRestorePickerVisible(true) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
   const handleFolderPress = (folder: Folder) => {
     navigation.navigate('NoteList', { folderId: folder.id });
   };
 
+  const toggleExpanded = (folderId: string) => {
+    setExpandedIds(previous => {
+      const next = new Set(previous);
+      if (next.has(folderId)) {
+        next.delete(folderId);
+      } else {
+        next.add(folderId);
+      }
+      return next;
+    });
+  };
+
+  const handleMoveToFolder = async (parentId: string | null) => {
+    if (!movingFolder) {
+      return;
+    }
+    setMoveBusy(true);
+    try {
+      const updated = await moveFolder(movingFolder.id, parentId);
+      setFolders(updated);
+      if (parentId) {
+        setExpandedIds(previous => new Set(previous).add(parentId));
+      }
+      setMovingFolder(null);
+    } catch (error) {
+      Alert.alert('Move Failed', error instanceof Error ? error.message : 'Unable to move this folder.');
+    } finally {
+      setMoveBusy(false);
+    }
+  };
+
+  const handleSaveDetails = async (details: ItemDetails) => {
+    if (!editingFolder) {
+      return;
+    }
+    setEditBusy(true);
+    try {
+      const updated = await updateFolder(editingFolder.id, details);
+      setFolders(updated);
+      setEditingFolder(null);
+    } catch (error) {
+      console.error('Failed to save folder details:', error);
+      Alert.alert('Error', 'Failed to save folder details. Please try again.');
+    } finally {
+      setEditBusy(false);
+    }
+  };
+
+  const handleFolderActions = (folder: Folder) => {
+    Alert.alert(folder.name, undefined, [
+      { text: 'Edit Details…', onPress: () => setEditingFolder(folder) },
+      { text: 'New Subfolder', onPress: () => setCreateParentId(folder.id) },
+      { text: 'Move…', onPress: () => setMovingFolder(folder) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
   const formatDate = (timestamp: number) => {
     const date = new Date(timestamp);
     return date.toLocaleDateString('en-US', {
@@ -127,19 +354,59 @@ const FolderListScreen = ({ navigation }: Props) => {
     });
   };
 
-  const renderFolder = ({ item }: { item: Folder }) => (
+  const renderFolder = ({ item }: { item: FolderTreeRow }) => (
     <TouchableOpacity
-      style={styles.folderItem}
-      onPress={() => handleFolderPress(item)}
+      style={[styles.folderItem, { marginLeft: item.depth * INDENT_PER_LEVEL }]}
+      onPress={() => handleFolderPress(item.folder)}
       activeOpacity={0.7}
     >
+      {item.childCount > 0 ? (
+        <TouchableOpacity
+          style={styles.expandButton}
+          onPress={() => toggleExpanded(item.folder.id)}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        >
+          <Text style={styles.expandButtonText}>
+            {expandedIds.has(item.folder.id) ? '▾' : '▸'}
+          </Text>
+        </TouchableOpacity>
+      ) : (
+        <View style={styles.expandButton} />
+      )}
+      {item.folder.color ? (
+        <View style={[styles.colorStripe, { backgroundColor: item.folder.color }]} />
+      ) : null}
       <View style={styles.folderContent}>
-        <Text style={styles.folderName}>{item.name}</Text>
-        <Text style={styles.folderDate}>Created {formatDate(item.createdAt)}</Text>
+        <View style={styles.folderTitleRow}>
+          <Text style={styles.folderName} numberOfLines={1}>
+            {item.folder.name}
+          </Text>
+          {item.folder.courseCode ? (
+            <Text style={styles.courseCode}>{item.folder.courseCode}</Text>
+          ) : null}
+        </View>
+        {item.folder.description ? (
+          <Text style={styles.folderDescription} numberOfLines={2}>
+            {item.folder.description}
+          </Text>
+        ) : null}
+        <Text style={styles.folderDate}>
+          Created {formatDate(item.folder.createdAt)}
+          {item.childCount > 0
+            ? ` · ${item.childCount} ${item.childCount === 1 ? 'subfolder' : 'subfolders'}`
+            : ''}
+        </Text>
       </View>
+      <TouchableOpacity
+        style={styles.moreButton}
+        onPress={() => handleFolderActions(item.folder)}
+        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+      >
+        <Text style={styles.moreButtonText}>•••</Text>
+      </TouchableOpacity>
       <TouchableOpacity
         style={styles.deleteButton}
-        onPress={() => handleDeleteFolder(item)}
+        onPress={() => handleDeleteFolder(item.folder)}
         hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
       >
         <Text style={styles.deleteButtonText}>Delete</Text>
@@ -166,22 +433,62 @@ const FolderListScreen = ({ navigation }: Props) => {
   return (
     <View style={styles.container}>
       <FlatList
-        data={folders}
+        data={rows}
         renderItem={renderFolder}
-        keyExtractor={item => item.id}
+        keyExtractor={item => item.folder.id}
         contentContainerStyle={folders.length === 0 ? styles.emptyListContainer : styles.listContainer}
         ListEmptyComponent={renderEmptyState}
         keyboardShouldPersistTaps="handled"
         contentInsetAdjustmentBehavior="automatic"
         ListHeaderComponent={
-          <CreateFolderHeader
-            newFolderName={newFolderName}
-            setNewFolderName={setNewFolderName}
-            handleCreateFolder={handleCreateFolder}
-            creating={creating}
-          />
+          <>
+            <CreateFolderHeader
+              newFolderName={newFolderName}
+              setNewFolderName={setNewFolderName}
+              handleCreateFolder={handleCreateFolder}
+              handleBackup={handleBackup}
+              handleOpenTrash={() => navigation.navigate('Trash')}
+              parentFolder={parentFolder}
+              clearParentFolder={() => setCreateParentId(null)}
+              creating={creating || backupBusy}
+            />
+            <SortOptionsBar value={sort} onChange={handleSortChange} />
+          </>
         }
       />
+      <ItemDetailsSheet
+        visible={editingFolder !== null}
+        title="Folder Details"
+        nameLabel="Name"
+        maxNameLength={MAX_FOLDER_NAME_LENGTH}
+        initialDetails={editingFolder}
+        busy={editBusy}
+        onClose={() => setEditingFolder(null)}
+        onSave={handleSaveDetails}
+      />
+      <FolderPickerSheet
+        visible={movingFolder !== null}
+        title={movingFolder ? `Move "${movingFolder.name}" to` : 'Move to'}
+        folders={folders}
+        disabledIds={
+          movingFolder
+            ? [movingFolder.id, ...getDescendantFolderIds(folders, movingFolder.id)]
+            : []
+        }
+        allowTopLevel
+        busy={moveBusy}
+        onClose={() => setMovingFolder(null)}
+        onSelect={handleMoveToFolder}
+      />
+      <FilePickerSheet
+        visible={restorePickerVisible}
+        title="Restore from Backup"
+        extensions={[BACKUP_EXTENSION]}
+        directories={[BACKUP_DIR, `${RNFS.DocumentDirectoryPath}/imports`]}
+        busy={backupBusy}
+        onClose={() => setRestorePickerVisible(false)}
+        onSelect={handleSelectBackupFile}
+      />
     </View>
   );
 };
@@ -203,12 +510,31 @@ const styles = StyleSheet.create({
     color: '#666',
   },
   createSection: {
-    flexDirection: 'row',
     padding: 16,
     backgroundColor: '#fff',
     borderBottomWidth: 1,
     borderBottomColor: '#e0e0e0',
   },
+  createRow: {
+    flexDirection: 'row',
+  },
+  parentRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  parentText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#666',
+    marginRight: 12,
+  },
+  parentClearText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
   input: {
     flex: 1,
     height: 44,
@@ -237,6 +563,20 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  secondaryButton: {
+    marginLeft: 12,
+    paddingHorizontal: 16,
+    height: 44,
+    backgroundColor: '#8E8E93',
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   listContainer: {
     padding: 16,
   },
@@ -272,19 +612,67 @@ const styles = StyleSheet.create({
     shadowRadius: 2,
     elevation: 2,
   },
+  expandButton: {
+    width: 24,
+    marginRight: 8,
+    alignItems: 'center',
+  },
+  expandButtonText: {
+    fontSize: 18,
+    color: '#666',
+  },
   folderContent: {
     flex: 1,
   },
+  colorStripe: {
+    width: 6,
+    alignSelf: 'stretch',
+    borderRadius: 3,
+    marginRight: 12,
+  },
+  folderTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
   folderName: {
+    flexShrink: 1,
     fontSize: 18,
     fontWeight: '600',
     color: '#000',
+  },
+  courseCode: {
+    marginLeft: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    backgroundColor: '#E5E5EA',
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#333',
+    overflow: 'hidden',
+  },
+  folderDescription: {
+    fontSize: 14,
+    color: '#333',
     marginBottom: 4,
   },
   folderDate: {
     fontSize: 14,
     color: '#666',
   },
+  moreButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    backgroundColor: '#8E8E93',
+    borderRadius: 6,
+    marginRight: 8,
+  },
+  moreButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   deleteButton: {
     paddingHorizontal: 16,
     paddingVertical: 8,
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -8,27 +8,53 @@ import {
   TouchableOpacity,
   Alert,
   ActivityIndicator,
+  Switch,
 } from 'react-native';
+import RNFS from 'react-native-fs';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../types/navigation';
-import { Note } from '../types/models';
+import { DEFAULT_PAGE_SIZE, Folder, Note } from '../types/models';
 import {
   loadNotesByFolder,
   createNote,
-  deleteNote,
+  createNoteWithPages,
+  copyNote,
+  loadAllTags,
+  loadNotesByTag,
+  moveNote,
+  trashNote,
+  updateNote,
 } from '../storage/notes';
+import { loadFolders, markFolderOpened } from '../storage/folders';
+import { loadListSort, saveListSort } from '../storage/listSort';
+import { loadTagsForNotes, setNoteTags } from '../storage/tags';
+import { flushPendingChunkSync } from '../ai/chunkSyncService';
+import { parseInkml } from '../utils/inkml';
+import FilePickerSheet from '../components/FilePickerSheet';
+import FolderPickerSheet from '../components/FolderPickerSheet';
+import ItemDetailsSheet, { ItemDetails } from '../components/ItemDetailsSheet';
+import SortOptionsBar from '../components/SortOptionsBar';
+import TagFilterBar from '../components/TagFilterBar';
+import NoteTagsSheet from '../components/NoteTagsSheet';
+import { DEFAULT_LIST_SORT, ListSort, sortItems } from '../utils/listSort';
 
 type Props = NativeStackScreenProps<RootStackParamList, 'NoteList'>;
 
+type NoteTransfer = { note: Note; mode: 'move' | 'copy' };
+
+const MAX_NOTE_TITLE_LENGTH = 200;
+
 const CreateNoteHeader = ({
   newNoteTitle,
   setNewNoteTitle,
   handleCreateNote,
+  handleImport,
   creating,
 }: {
   newNoteTitle: string;
   setNewNoteTitle: (text: string) => void;
   handleCreateNote: () => void;
+  handleImport: () => void;
   creating: boolean;
 }) => (
   <View style={styles.createSection}>
@@ -52,6 +78,13 @@ const CreateNoteHeader = ({
         <Text style={styles.addButtonText}>Add</Text>
       )}
     </TouchableOpacity>
+    <TouchableOpacity
+      style={[styles.importButton, creating && styles.addButtonDisabled]}
+      onPress={handleImport}
+      disabled={creating}
+    >
+      <Text style={styles.importButtonText}>Import InkML</Text>
+    </TouchableOpacity>
   </View>
 );
 
@@ -61,13 +94,105 @@ const NoteListScreen = ({ route, navigation }: Props) => {
   const [loading, setLoading] = useState(true);
   const [newNoteTitle, setNewNoteTitle] = useState('');
   const [creating, setCreating] = useState(false);
+  const [importPickerVisible, setImportPickerVisible] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [transfer, setTransfer] = useState<NoteTransfer | null>(null);
+  const [transferBusy, setTransferBusy] = useState(false);
+  const [editingNote, setEditingNote] = useState<Note | null>(null);
+  const [editBusy, setEditBusy] = useState(false);
+  const [sort, setSort] = useState<ListSort>(DEFAULT_LIST_SORT);
+  const [noteTags, setNoteTagsState] = useState<Record<string, string[]>>({});
+  const [allTags, setAllTags] = useState<string[]>([]);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [allFolders, setAllFolders] = useState(false);
+  const [taggedNotes, setTaggedNotes] = useState<Note[]>([]);
+  const [taggingNote, setTaggingNote] = useState<Note | null>(null);
+  const [tagsBusy, setTagsBusy] = useState(false);
+
+  // With a tag filter, show this folder's notes with the tag, or every
+  // note with the tag when "All folders" is on
+  const sortedNotes = useMemo(() => {
+    const visibleNotes = !tagFilter
+      ? notes
+      : allFolders
+        ? taggedNotes
+        : notes.filter(note => noteTags[note.id]?.includes(tagFilter));
+    return sortItems(visibleNotes, sort, note => note.title);
+  }, [notes, taggedNotes, noteTags, tagFilter, allFolders, sort]);
+
+  // Stable inputs for the sheets, which reset their fields when these change
+  const editingDetails = useMemo<ItemDetails | null>(
+    () =>
+      editingNote
+        ? {
+            name: editingNote.title,
+            description: editingNote.description,
+            color: editingNote.color,
+            courseCode: editingNote.courseCode,
+          }
+        : null,
+    [editingNote],
+  );
+  const taggingTags = useMemo(
+    () => (taggingNote ? noteTags[taggingNote.id] ?? [] : []),
+    [taggingNote, noteTags],
+  );
+
+  // Reload on focus so edits and opens from the editor are reflected in the sort
+  useEffect(
+    () =>
+      navigation.addListener('focus', () => {
+        loadNotesByFolder(folderId)
+          .then(setNotes)
+          .finally(() => setLoading(false));
+      }),
+    [navigation, folderId],
+  );
 
   useEffect(() => {
-    loadNotesByFolder(folderId)
-      .then(setNotes)
-      .finally(() => setLoading(false));
+    markFolderOpened(folderId);
+    loadListSort(folderId).then(setSort);
   }, [folderId]);
 
+  // Reload tags whenever the notes change (tag edits reload the notes too)
+  useEffect(() => {
+    let isActive = true;
+    const refreshTags = async () => {
+      const crossFolderNotes = tagFilter && allFolders ? await loadNotesByTag(tagFilter) : [];
+      const [tagsByNote, tags] = await Promise.all([
+        loadTagsForNotes([...notes, ...crossFolderNotes].map(note => note.id)),
+        loadAllTags(),
+      ]);
+      if (isActive) {
+        setTaggedNotes(crossFolderNotes);
+        setNoteTagsState(tagsByNote);
+        setAllTags(tags);
+        if (tagFilter && !tags.includes(tagFilter)) {
+          setTagFilter(null);
+        }
+      }
+    };
+    refreshTags();
+    return () => {
+      isActive = false;
+    };
+  }, [notes, tagFilter, allFolders]);
+
+  // Folder names for notes shown from other folders
+  useEffect(() => {
+    if (allFolders) {
+      loadFolders().then(setFolders);
+    }
+  }, [allFolders]);
+
+  const handleSortChange = (nextSort: ListSort) => {
+    setSort(nextSort);
+    saveListSort(folderId, nextSort).catch(error =>
+      console.error('Failed to remember sort:', error),
+    );
+  };
+
   const handleCreateNote = async () => {
     const trimmedTitle = newNoteTitle.trim();
 
@@ -76,8 +201,8 @@ const NoteListScreen = ({ route, navigation }: Props) => {
       return;
     }
 
-    if (trimmedTitle.length > 200) {
-      Alert.alert('Title Too Long', 'Note title must be 200 characters or less.');
+    if (trimmedTitle.length > MAX_NOTE_TITLE_LENGTH) {
+      Alert.alert('Title Too Long', `Note title must be ${MAX_NOTE_TITLE_LENGTH} characters or less.`);
       return;
     }
 
@@ -93,10 +218,39 @@ const NoteListScreen = ({ route, navigation }: Props) => {
     }
   };
 
+  // Create a new note from an InkML file, one page per page group in the file
+  const handleImportInkml = async (filePath: string) => {
+    if (importing) {
+      return;
+    }
+    setImporting(true);
+    try {
+      const xml = await RNFS.readFile(filePath, 'utf8');
+      // Imported pages get the default page size, so fit the ink to it
+      const document = parseInkml(xml, DEFAULT_PAGE_SIZE);
+      const fileTitle = (filePath.split('/').pop() ?? 'Imported ink').replace(/\.[^.]+$/, '');
+      const title = (document.title?.trim() || fileTitle).slice(0, MAX_NOTE_TITLE_LENGTH);
+
+      const note = await createNoteWithPages(folderId, title, document.pages);
+      setNotes(await loadNotesByFolder(folderId));
+      setImportPickerVisible(false);
+      navigation.navigate('PageEditor', {
+        folderId,
+        noteId: note.id,
+        pageIndex: 0,
+      });
+    } catch (error) {
+      console.error('Failed to import InkML:', error);
+      Alert.alert('Import failed', 'Unable to read this InkML file.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
   const handleDeleteNote = (note: Note) => {
     Alert.alert(
       'Delete Note',
-      `Are you sure you want to delete "${note.title}"?`,
+      `"${note.title}" and all of its pages will be moved to the Trash.`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -104,8 +258,10 @@ const NoteListScreen = ({ route, navigation }: Props) => {
           style: 'destructive',
           onPress: async () => {
             try {
-              const updated = await deleteNote(folderId, note.id);
+              const updated = await trashNote(folderId, note.id);
               setNotes(updated);
+              // Remove the note's pages from AI context (retried if offline)
+              void flushPendingChunkSync();
             } catch (error) {
               Alert.alert('Error', 'Failed to delete note. Please try again.');
             }
@@ -115,6 +271,89 @@ const NoteListScreen = ({ route, navigation }: Props) => {
     );
   };
 
+  const openTransfer = async (note: Note, mode: NoteTransfer['mode']) => {
+    setFolders(await loadFolders());
+    setTransfer({ note, mode });
+  };
+
+  const handleTransfer = async (targetFolderId: string | null) => {
+    if (!transfer || !targetFolderId) {
+      return;
+    }
+    const targetName = folders.find(folder => folder.id === targetFolderId)?.name ?? 'folder';
+    setTransferBusy(true);
+    try {
+      if (transfer.mode === 'move') {
+        // The note may be from another folder when filtering by tag across folders
+        await moveNote(transfer.note.folderId, transfer.note.id, targetFolderId);
+        setNotes(await loadNotesByFolder(folderId));
+        // Point the note's AI context at its new folder (retried if offline)
+        void flushPendingChunkSync();
+      } else {
+        await copyNote(transfer.note.id, targetFolderId);
+        setNotes(await loadNotesByFolder(folderId));
+        if (targetFolderId !== folderId) {
+          Alert.alert('Note Copied', `"${transfer.note.title}" was copied to "${targetName}".`);
+        }
+      }
+      setTransfer(null);
+    } catch (error) {
+      console.error('Failed to transfer note:', error);
+      Alert.alert(
+        'Error',
+        `Failed to ${transfer.mode === 'move' ? 'move' : 'copy'} note. Please try again.`,
+      );
+    } finally {
+      setTransferBusy(false);
+    }
+  };
+
+  const handleSaveDetails = async (details: ItemDetails) => {
+    if (!editingNote) {
+      return;
+    }
+    setEditBusy(true);
+    try {
+      const { name, ...rest } = details;
+      setNotes(await updateNote(folderId, editingNote.id, { title: name, ...rest }));
+      setEditingNote(null);
+    } catch (error) {
+      console.error('Failed to save note details:', error);
+      Alert.alert('Error', 'Failed to save note details. Please try again.');
+    } finally {
+      setEditBusy(false);
+    }
+  };
+
+  const handleSaveTags = async (tags: string[]) => {
+    if (!taggingNote) {
+      return;
+    }
+    setTagsBusy(true);
+    try {
+      await setNoteTags(taggingNote.id, tags);
+      setNotes(await loadNotesByFolder(folderId));
+      setTaggingNote(null);
+      // Update the tags in the note's AI context (retried if offline)
+      void flushPendingChunkSync();
+    } catch (error) {
+      console.error('Failed to save note tags:', error);
+      Alert.alert('Error', 'Failed to save tags. Please try again.');
+    } finally {
+      setTagsBusy(false);
+    }
+  };
+
+  const handleNoteActions = (note: Note) => {
+    Alert.alert(note.title, undefined, [
+      { text: 'Edit Details…', onPress: () => setEditingNote(note) },
+      { text: 'Tags…', onPress: () => setTaggingNote(note) },
+      { text: 'Move to Folder…', onPress: () => openTransfer(note, 'move') },
+      { text: 'Copy to Folder…', onPress: () => openTransfer(note, 'copy') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
   const handleNotePress = (note: Note) => {
     navigation.navigate('PageEditor', {
       folderId: note.folderId,
@@ -138,10 +377,46 @@ const NoteListScreen = ({ route, navigation }: Props) => {
       onPress={() => handleNotePress(item)}
       activeOpacity={0.7}
     >
+      {item.color ? (
+        <View style={[styles.colorStripe, { backgroundColor: item.color }]} />
+      ) : null}
       <View style={styles.noteContent}>
-        <Text style={styles.noteTitle}>{item.title}</Text>
-        <Text style={styles.noteDate}>Created {formatDate(item.createdAt)}</Text>
+        <View style={styles.noteTitleRow}>
+          <Text style={styles.noteTitle} numberOfLines={1}>
+            {item.title}
+          </Text>
+          {item.courseCode ? <Text style={styles.courseCode}>{item.courseCode}</Text> : null}
+        </View>
+        {item.description ? (
+          <Text style={styles.noteDescription} numberOfLines={2}>
+            {item.description}
+          </Text>
+        ) : null}
+        <Text style={styles.noteDate}>
+          {sort === 'modified'
+            ? `Modified ${formatDate(item.updatedAt)}`
+            : sort === 'opened'
+              ? item.lastOpenedAt
+                ? `Opened ${formatDate(item.lastOpenedAt)}`
+                : 'Never opened'
+              : `Created ${formatDate(item.createdAt)}`}
+          {item.folderId !== folderId
+            ? ` · in ${folders.find(folder => folder.id === item.folderId)?.name ?? 'another folder'}`
+            : ''}
+        </Text>
+        {noteTags[item.id]?.length ? (
+          <Text style={styles.noteTags} numberOfLines={1}>
+            {noteTags[item.id].map(tag => `#${tag}`).join('  ')}
+          </Text>
+        ) : null}
       </View>
+      <TouchableOpacity
+        style={styles.moreButton}
+        onPress={() => handleNoteActions(item)}
+        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+      >
+        <Text style={styles.moreButtonText}>•••</Text>
+      </TouchableOpacity>
       <TouchableOpacity
         style={styles.deleteButton}
         onPress={() => handleDeleteNote(item)}
@@ -152,12 +427,20 @@ const NoteListScreen = ({ route, navigation }: Props) => {
     </TouchableOpacity>
   );
 
-  const renderEmptyState = () => (
-    <View style={styles.emptyState}>
-      <Text style={styles.emptyStateText}>No notes yet.</Text>
-      <Text style={styles.emptyStateSubtext}>Create one to get started.</Text>
-    </View>
-  );
+  const renderEmptyState = () =>
+    tagFilter ? (
+      <View style={styles.emptyState}>
+        <Text style={styles.emptyStateText}>No notes tagged #{tagFilter}.</Text>
+        <Text style={styles.emptyStateSubtext}>
+          {allFolders ? 'Tag a note to see it here.' : 'Turn on All folders to search everywhere.'}
+        </Text>
+      </View>
+    ) : (
+      <View style={styles.emptyState}>
+        <Text style={styles.emptyStateText}>No notes yet.</Text>
+        <Text style={styles.emptyStateSubtext}>Create one to get started.</Text>
+      </View>
+    );
 
   if (loading) {
     return (
@@ -171,21 +454,83 @@ const NoteListScreen = ({ route, navigation }: Props) => {
   return (
     <View style={styles.container}>
       <FlatList
-        data={notes}
+        data={sortedNotes}
         renderItem={renderNote}
         keyExtractor={item => item.id}
-        contentContainerStyle={notes.length === 0 ? styles.emptyListContainer : styles.listContainer}
+        contentContainerStyle={
+          sortedNotes.length === 0 ? styles.emptyListContainer : styles.listContainer
+        }
         ListEmptyComponent={renderEmptyState}
         keyboardShouldPersistTaps="handled"
         contentInsetAdjustmentBehavior="automatic"
         ListHeaderComponent={
-          <CreateNoteHeader
-            newNoteTitle={newNoteTitle}
-            setNewNoteTitle={setNewNoteTitle}
-            handleCreateNote={handleCreateNote}
-            creating={creating}
-          />
+          <>
+            <CreateNoteHeader
+              newNoteTitle={newNoteTitle}
+              setNewNoteTitle={setNewNoteTitle}
+              handleCreateNote={handleCreateNote}
+              handleImport={() => setImportPickerVisible(true)}
+              creating={creating}
+            />
+            <SortOptionsBar value={sort} onChange={handleSortChange} />
+            {allTags.length > 0 ? (
+              <View style={styles.tagFilterSection}>
+                <TagFilterBar
+                  label="Tag"
+                  tags={allTags}
+                  selectedTag={tagFilter}
+                  onSelect={setTagFilter}
+                />
+                {tagFilter ? (
+                  <View style={styles.allFoldersRow}>
+                    <Text style={styles.allFoldersLabel}>All folders</Text>
+                    <Switch value={allFolders} onValueChange={setAllFolders} />
+                  </View>
+                ) : null}
+              </View>
+            ) : null}
+          </>
+        }
+      />
+      <ItemDetailsSheet
+        visible={editingNote !== null}
+        title="Note Details"
+        nameLabel="Title"
+        maxNameLength={MAX_NOTE_TITLE_LENGTH}
+        initialDetails={editingDetails}
+        busy={editBusy}
+        onClose={() => setEditingNote(null)}
+        onSave={handleSaveDetails}
+      />
+      <NoteTagsSheet
+        visible={taggingNote !== null}
+        noteTitle={taggingNote?.title ?? ''}
+        initialTags={taggingTags}
+        suggestions={allTags}
+        busy={tagsBusy}
+        onClose={() => setTaggingNote(null)}
+        onSave={handleSaveTags}
+      />
+      <FilePickerSheet
+        visible={importPickerVisible}
+        title="Import InkML as Note"
+        extensions={['inkml']}
+        busy={importing}
+        onClose={() => setImportPickerVisible(false)}
+        onSelect={handleImportInkml}
+      />
+      <FolderPickerSheet
+        visible={transfer !== null}
+        title={
+          transfer
+            ? `${transfer.mode === 'move' ? 'Move' : 'Copy'} "${transfer.note.title}" to`
+            : 'Choose Folder'
         }
+        folders={folders}
+        disabledIds={transfer?.mode === 'move' ? [transfer.note.folderId] : []}
+        busy={transferBusy}
+        onClose={() => setTransfer(null)}
+        onSelect={handleTransfer}
       />
     </View>
   );
@@ -242,6 +587,20 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  importButton: {
+    marginLeft: 12,
+    paddingHorizontal: 16,
+    height: 44,
+    backgroundColor: '#8E8E93',
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  importButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   listContainer: {
     padding: 16,
   },
@@ -280,16 +639,77 @@ const styles = StyleSheet.create({
   noteContent: {
     flex: 1,
   },
+  colorStripe: {
+    width: 6,
+    alignSelf: 'stretch',
+    borderRadius: 3,
+    marginRight: 12,
+  },
+  noteTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
   noteTitle: {
+    flexShrink: 1,
     fontSize: 18,
     fontWeight: '600',
     color: '#000',
+  },
+  courseCode: {
+    marginLeft: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    backgroundColor: '#E5E5EA',
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#333',
+    overflow: 'hidden',
+  },
+  noteTags: {
+    fontSize: 13,
+    color: '#007AFF',
+    marginTop: 4,
+  },
+  tagFilterSection: {
+    paddingHorizontal: 16,
+    paddingVertical: 2,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  allFoldersRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingBottom: 8,
+  },
+  allFoldersLabel: {
+    fontSize: 15,
+    color: '#333',
+  },
+  noteDescription: {
+    fontSize: 14,
+    color: '#333',
     marginBottom: 4,
   },
   noteDate: {
     fontSize: 14,
     color: '#666',
   },
+  moreButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    backgroundColor: '#8E8E93',
+    borderRadius: 6,
+    marginRight: 8,
+  },
+  moreButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   deleteButton: {
     paddingHorizontal: 16,
     paddingVertical: 8,
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import {
   View,
   Text,
@@ -15,34 +15,83 @@ import { useHeaderHeight } from '@react-navigation/elements';
 import RNFS from 'react-native-fs';
 import { RootStackParamList } from '../types/navigation';
 import {
+  DEFAULT_HIGHLIGHTER_STYLE,
+  DEFAULT_PAGE_VIEW,
+  DEFAULT_PEN_STYLE,
   DrawingData,
   DrawingTool,
+  EraserMode,
   LineSpacing,
   Page,
+  PageSizePreset,
+  PageView,
+  PAGE_SIZE_PRESETS,
   PaperSettings,
-  SelectionRect,
+  PenPreset,
+  PenStyle,
+  SelectionLasso,
+  Stroke,
+  StrokeTool,
 } from '../types/models';
 import {
   loadPagesByNote,
   createPage,
   ensurePageExists,
+  insertPage,
+  trashPage,
+  movePage,
+  duplicatePage,
+  assignLegacyPageSize,
+  updatePageSize,
 } from '../storage/pages';
 import { loadDrawingData, saveDrawingData } from '../storage/drawings';
 import { loadPaperSettings, savePaperSettings } from '../storage/paperSettings';
+import { loadPageView, savePageView } from '../storage/pageViews';
+import {
+  addPenPreset,
+  deletePenPreset,
+  loadPenPresets,
+  loadPenStyle,
+  savePenStyle,
+} from '../storage/penSettings';
+import {
+  PageSnapshot,
+  savePageSnapshot,
+  SnapshotReason,
+} from '../storage/pageSnapshots';
 import DrawingCanvas, { DrawingCanvasHandle } from '../components/DrawingCanvas';
 import DrawingToolbar from '../components/DrawingToolbar';
 import AskSheet from '../components/AskSheet';
+import PageActionsSheet, { PageAction } from '../components/PageActionsSheet';
+import ExportPdfSheet from '../components/ExportPdfSheet';
+import FilePickerSheet from '../components/FilePickerSheet';
+import PageHistorySheet from '../components/PageHistorySheet';
+import PenPickerSheet from '../components/PenPickerSheet';
 import {
   getExportSizeForLogicalSize,
   renderDrawingToPngBase64,
   renderRegionToPngBase64,
 } from '../utils/exportDrawing';
+import { exportNoteToPdf, PdfExportOptions } from '../utils/exportPdf';
+import { parseSvgStrokes, renderDrawingToSvg } from '../utils/svg';
+import { renderPagesToInkml } from '../utils/inkml';
+import { getRectLasso } from '../utils/lasso';
+import { cloneStrokes, getStrokesBounds } from '../utils/strokeTransform';
+import {
+  copyStrokesToClipboard,
+  getClipboardStrokes,
+  hasClipboardStrokes,
+} from '../utils/strokeClipboard';
+import { getNoteById, markNoteOpened } from '../storage/notes';
 import {checkHealth} from '../ai/apiClient';
 import {indexNote, IndexNoteResult} from '../ai/indexingService';
+import { flushPendingChunkSync } from '../ai/chunkSyncService';
 
 type Props = NativeStackScreenProps<RootStackParamList, 'PageEditor'>;
 
 const DRAWING_SAVE_DEBOUNCE_MS = 500;
+const SNAPSHOT_INTERVAL_MS = 5 * 60 * 1000; // unchanged pages are not snapshotted again
+const PASTE_OFFSET = 20; // copies on the same page are offset so they don't hide the originals
 const EMPTY_DRAWING: DrawingData = { version: 1, strokes: [] };
 
 const PageEditorScreen = ({ route, navigation }: Props) => {
@@ -54,15 +103,25 @@ const PageEditorScreen = ({ route, navigation }: Props) => {
   const [creating, setCreating] = useState(false);
   const [drawingData, setDrawingData] = useState<DrawingData | null>(null);
   const [activeTool, setActiveTool] = useState<DrawingTool>('pen');
+  const [eraserMode, setEraserMode] = useState<EraserMode>('stroke');
+  const [shapeAssist, setShapeAssist] = useState(false);
   const [savingDrawing, setSavingDrawing] = useState(false);
   const [loadingDrawing, setLoadingDrawing] = useState(false);
   const [canUndo, setCanUndo] = useState(false);
   const [canRedo, setCanRedo] = useState(false);
   const [exporting, setExporting] = useState(false);
   const [canvasSize, setCanvasSize] = useState<{ width: number; height: number } | null>(null);
-  const [selectionRect, setSelectionRect] = useState<SelectionRect | null>(null);
+  const [selection, setSelection] = useState<SelectionLasso | null>(null);
+  const [canPaste, setCanPaste] = useState(hasClipboardStrokes);
   const [askSheetVisible, setAskSheetVisible] = useState(false);
   const [askSheetImageBase64, setAskSheetImageBase64] = useState<string | null>(null);
+  const [pageActionsVisible, setPageActionsVisible] = useState(false);
+  const [pageActionBusy, setPageActionBusy] = useState(false);
+  const [exportPdfVisible, setExportPdfVisible] = useState(false);
+  const [importSvgVisible, setImportSvgVisible] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [historyVisible, setHistoryVisible] = useState(false);
+  const [restoringSnapshot, setRestoringSnapshot] = useState(false);
   const [testingBackend, setTestingBackend] = useState(false);
   const [indexingNote, setIndexingNote] = useState(false);
   const [indexProgress, setIndexProgress] = useState<{current: number; total: number} | null>(null);
@@ -71,6 +130,12 @@ const PageEditorScreen = ({ route, navigation }: Props) => {
     lineSpacing: 'medium',
   });
   const [showLineSpacingOptions, setShowLineSpacingOptions] = useState(false);
+  const [pageView, setPageView] = useState<PageView>(DEFAULT_PAGE_VIEW);
+  const [penStyle, setPenStyle] = useState<PenStyle>(DEFAULT_PEN_STYLE);
+  const [highlighterStyle, setHighlighterStyle] = useState<PenStyle>(DEFAULT_HIGHLIGHTER_STYLE);
+  const [penPresets, setPenPresets] = useState<PenPreset[]>([]);
+  const [penPickerTool, setPenPickerTool] = useState<StrokeTool | null>(null);
+  const [penPresetBusy, setPenPresetBusy] = useState(false);
 
   // Track last processed pageIndex to avoid setParams loops
   const lastProcessedIndex = useRef<number | null>(null);
@@ -80,10 +145,25 @@ const PageEditorScreen = ({ route, navigation }: Props) => {
   const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const currentPageIdRef = useRef<string | null>(null);
   const previousPageIdRef = useRef<string | null>(null);
+  const loadingDrawingRef = useRef(false);
   const canvasRef = useRef<DrawingCanvasHandle | null>(null);
   const canvasSizeRef = useRef<{ width: number; height: number } | null>(null);
   const headerHeight = useHeaderHeight();
 
+  // Strokes are in the page's declared size. Pages from before page sizes
+  // use the canvas size until they are given one below.
+  const pageWidth = currentPage?.size?.width ?? canvasSize?.width;
+  const pageHeight = currentPage?.size?.height ?? canvasSize?.height;
+  const pageSize = useMemo(
+    () => (pageWidth && pageHeight ? { width: pageWidth, height: pageHeight } : null),
+    [pageWidth, pageHeight],
+  );
+  const pageSizeRef = useRef(pageSize);
+
+  useEffect(() => {
+    pageSizeRef.current = pageSize;
+  }, [pageSize]);
+
   // Load and initialize pages
   useEffect(() => {
     const initializePages = async () => {
@@ -146,6 +226,11 @@ const PageEditorScreen = ({ route, navigation }: Props) => {
     initializePages();
   }, [noteId, pageIndex, navigation]);
 
+  // For sorting notes by last opened
+  useEffect(() => {
+    markNoteOpened(noteId);
+  }, [noteId]);
+
   const persistDrawing = useCallback(async (pageId: string, data: DrawingData) => {
     setSavingDrawing(true);
     try {
@@ -189,16 +274,30 @@ const PageEditorScreen = ({ route, navigation }: Props) => {
     [persistDrawing],
   );
 
+  // Keep a version of the current page for the history browser
+  const snapshotCurrentPage = useCallback((reason: SnapshotReason) => {
+    const pageId = currentPageIdRef.current;
+    const data = drawingDataRef.current;
+    // While a page loads, drawingDataRef still holds the previous page
+    if (!pageId || !data || loadingDrawingRef.current) {
+      return Promise.resolve(false);
+    }
+    return savePageSnapshot(pageId, data, reason);
+  }, []);
+
   const handleHistoryChange = useCallback((undoAvailable: boolean, redoAvailable: boolean) => {
     setCanUndo(undoAvailable);
     setCanRedo(redoAvailable);
   }, []);
 
+  // The selection may not match the strokes after undo or redo, so it is dropped
   const handleUndo = useCallback(() => {
+    setSelection(null);
     canvasRef.current?.undo();
   }, []);
 
   const handleRedo = useCallback(() => {
+    setSelection(null);
     canvasRef.current?.redo();
   }, []);
 
@@ -219,20 +318,64 @@ const PageEditorScreen = ({ route, navigation }: Props) => {
     }
   }, []);
 
-  const handleSelectionChange = useCallback((rect: SelectionRect | null) => {
-    setSelectionRect(rect);
+  const handleSelectionChange = useCallback((lasso: SelectionLasso | null) => {
+    setSelection(lasso);
   }, []);
 
   const handleClearSelection = useCallback(() => {
-    setSelectionRect(null);
+    setSelection(null);
+  }, []);
+
+  const getSelectedStrokes = useCallback((): Stroke[] => {
+    if (!selection) {
+      return [];
+    }
+    const ids = new Set(selection.strokeIds);
+    const strokes = canvasRef.current?.getDrawingData().strokes ?? [];
+    return strokes.filter(stroke => ids.has(stroke.id));
+  }, [selection]);
+
+  // Add copies of strokes to the page (undoable) and select the copies
+  const placeStrokeCopies = useCallback((strokes: Stroke[], offset: number) => {
+    const copies = cloneStrokes(strokes, offset, offset);
+    const bounds = getStrokesBounds(copies);
+    if (!bounds) {
+      return;
+    }
+    canvasRef.current?.addStrokes(copies);
+    setSelection(getRectLasso(bounds, copies.map(stroke => stroke.id)));
   }, []);
 
+  const handleCopySelection = useCallback(() => {
+    const strokes = getSelectedStrokes();
+    if (strokes.length === 0) {
+      Alert.alert('Nothing to copy', 'The selection has no strokes in it.');
+      return;
+    }
+    copyStrokesToClipboard(strokes);
+    setCanPaste(true);
+  }, [getSelectedStrokes]);
+
+  const handleDuplicateSelection = useCallback(() => {
+    placeStrokeCopies(getSelectedStrokes(), PASTE_OFFSET);
+  }, [getSelectedStrokes, placeStrokeCopies]);
+
+  const handlePaste = useCallback(() => {
+    const strokes = getClipboardStrokes();
+    const onPage = new Set(
+      (canvasRef.current?.getDrawingData().strokes ?? []).map(stroke => stroke.id),
+    );
+    // Pasting where the strokes were copied from would hide the originals
+    const offset = strokes.some(stroke => onPage.has(stroke.id)) ? PASTE_OFFSET : 0;
+    placeStrokeCopies(strokes, offset);
+  }, [placeStrokeCopies]);
+
   const handleExportPng = useCallback(async () => {
     if (exporting) {
       return;
     }
     const pageId = currentPageIdRef.current;
-    const logicalSize = canvasSizeRef.current;
+    const logicalSize = pageSizeRef.current;
     if (!pageId || !logicalSize) {
       Alert.alert('Export unavailable', 'Canvas is not ready yet.');
       return;
@@ -265,8 +408,8 @@ const PageEditorScreen = ({ route, navigation }: Props) => {
     }
   }, [exporting, flushSave, noteId, pageIndex]);
 
-  const handleExportSelection = useCallback(async () => {
-    if (exporting || !selectionRect) {
+  const handleExportPdf = useCallback(async (options: PdfExportOptions) => {
+    if (exporting) {
       return;
     }
     const pageId = currentPageIdRef.current;
@@ -276,6 +419,154 @@ const PageEditorScreen = ({ route, navigation }: Props) => {
       return;
     }
 
+    setExporting(true);
+    try {
+      // Save the current page first - the exporter reads every page from storage
+      const latestData =
+        canvasRef.current?.getDrawingData() ??
+        drawingDataRef.current ??
+        EMPTY_DRAWING;
+      drawingDataRef.current = latestData;
+      await flushSave(pageId);
+
+      const filePath = await exportNoteToPdf(noteId, logicalSize, options);
+
+      setExportPdfVisible(false);
+      Alert.alert('Exported PDF', `Saved to:\n${filePath}`);
+    } catch (error) {
+      console.error('Failed to export PDF:', error);
+      Alert.alert('Export failed', 'Unable to export PDF. Please try again.');
+    } finally {
+      setExporting(false);
+    }
+  }, [exporting, flushSave, noteId]);
+
+  const handleExportSvg = useCallback(async () => {
+    if (exporting) {
+      return;
+    }
+    const pageId = currentPageIdRef.current;
+    const logicalSize = pageSizeRef.current;
+    if (!pageId || !logicalSize) {
+      Alert.alert('Export unavailable', 'Canvas is not ready yet.');
+      return;
+    }
+
+    setExporting(true);
+    try {
+      const latestData =
+        canvasRef.current?.getDrawingData() ??
+        drawingDataRef.current ??
+        EMPTY_DRAWING;
+      drawingDataRef.current = latestData;
+      await flushSave(pageId);
+
+      const svg = renderDrawingToSvg(latestData, logicalSize, paperSettings);
+
+      const exportDir = `${RNFS.DocumentDirectoryPath}/exports`;
+      await RNFS.mkdir(exportDir);
+      const filename = `note_${noteId}_page_${pageIndex + 1}_${Date.now()}.svg`;
+      const filePath = `${exportDir}/${filename}`;
+      await RNFS.writeFile(filePath, svg, 'utf8');
+
+      Alert.alert('Exported SVG', `Saved to:\n${filePath}`);
+    } catch (error) {
+      console.error('Failed to export SVG:', error);
+      Alert.alert('Export failed', 'Unable to export SVG. Please try again.');
+    } finally {
+      setExporting(false);
+    }
+  }, [exporting, flushSave, noteId, pageIndex, paperSettings]);
+
+  const handleExportInkml = useCallback(async (scope: 'page' | 'note') => {
+    if (exporting) {
+      return;
+    }
+    const pageId = currentPageIdRef.current;
+    if (!pageId) {
+      Alert.alert('Export unavailable', 'Canvas is not ready yet.');
+      return;
+    }
+
+    setExporting(true);
+    try {
+      const latestData =
+        canvasRef.current?.getDrawingData() ??
+        drawingDataRef.current ??
+        EMPTY_DRAWING;
+      drawingDataRef.current = latestData;
+      await flushSave(pageId);
+
+      let drawings: DrawingData[] = [latestData];
+      if (scope === 'note') {
+        const notePages = await loadPagesByNote(noteId);
+        drawings = await Promise.all(
+          notePages.map(async page => (await loadDrawingData(page.id)) ?? EMPTY_DRAWING),
+        );
+      }
+      const note = await getNoteById(noteId);
+      const inkml = renderPagesToInkml(drawings, note?.title);
+
+      const exportDir = `${RNFS.DocumentDirectoryPath}/exports`;
+      await RNFS.mkdir(exportDir);
+      const suffix = scope === 'page' ? `page_${pageIndex + 1}` : 'all_pages';
+      const filename = `note_${noteId}_${suffix}_${Date.now()}.inkml`;
+      const filePath = `${exportDir}/${filename}`;
+      await RNFS.writeFile(filePath, inkml, 'utf8');
+
+      Alert.alert('Exported InkML', `Saved to:\n${filePath}`);
+    } catch (error) {
+      console.error('Failed to export InkML:', error);
+      Alert.alert('Export failed', 'Unable to export InkML. Please try again.');
+    } finally {
+      setExporting(false);
+    }
+  }, [exporting, flushSave, noteId, pageIndex]);
+
+  const handleOpenExportOptions = () => {
+    Alert.alert('Export', 'Choose a format', [
+      { text: 'PDF (whole note)…', onPress: () => setExportPdfVisible(true) },
+      { text: 'SVG (this page)', onPress: handleExportSvg },
+      { text: 'InkML (this page)', onPress: () => handleExportInkml('page') },
+      { text: 'InkML (whole note)', onPress: () => handleExportInkml('note') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  // Add the strokes of an SVG file to the current page (undoable)
+  const handleImportSvg = async (filePath: string) => {
+    if (importing) {
+      return;
+    }
+    setImporting(true);
+    try {
+      const svg = await RNFS.readFile(filePath, 'utf8');
+      const strokes = parseSvgStrokes(svg, pageSizeRef.current ?? undefined);
+      if (strokes.length === 0) {
+        Alert.alert('Nothing to import', 'No paths were found in this SVG file.');
+        return;
+      }
+      canvasRef.current?.addStrokes(strokes);
+      setImportSvgVisible(false);
+    } catch (error) {
+      console.error('Failed to import SVG:', error);
+      Alert.alert('Import failed', 'Unable to read this SVG file.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleExportSelection = useCallback(async () => {
+    if (exporting || !selection) {
+      return;
+    }
+    const pageId = currentPageIdRef.current;
+    const logicalSize = pageSizeRef.current;
+    if (!pageId || !logicalSize) {
+      Alert.alert('Export unavailable', 'Canvas is not ready yet.');
+      return;
+    }
+
     setExporting(true);
     try {
       const latestData =
@@ -285,7 +576,7 @@ const PageEditorScreen = ({ route, navigation }: Props) => {
       drawingDataRef.current = latestData;
       await flushSave(pageId);
 
-      const base64 = renderRegionToPngBase64(latestData, logicalSize, selectionRect);
+      const base64 = renderRegionToPngBase64(latestData, logicalSize, selection);
 
       const exportDir = `${RNFS.DocumentDirectoryPath}/exports`;
       await RNFS.mkdir(exportDir);
@@ -294,17 +585,17 @@ const PageEditorScreen = ({ route, navigation }: Props) => {
       await RNFS.writeFile(filePath, base64, 'base64');
 
       Alert.alert('Exported Selection', `Saved to:\n${filePath}`);
-      setSelectionRect(null); // Clear selection after successful export
+      setSelection(null); // Clear selection after successful export
     } catch (error) {
       console.error('Failed to export selection:', error);
       Alert.alert('Export failed', 'Unable to export selection. Please try again.');
     } finally {
       setExporting(false);
     }
-  }, [exporting, selectionRect, flushSave, noteId, pageIndex]);
+  }, [exporting, selection, flushSave, noteId, pageIndex]);
 
   const handleOpenAskSheet = useCallback(() => {
-    const logicalSize = canvasSizeRef.current;
+    const logicalSize = pageSizeRef.current;
     const latestData =
       canvasRef.current?.getDrawingData() ??
       drawingDataRef.current ??
@@ -312,10 +603,10 @@ const PageEditorScreen = ({ route, navigation }: Props) => {
 
     let imageBase64: string | null = null;
 
-    if (selectionRect && logicalSize) {
+    if (selection && logicalSize) {
       // Capture selected region
       try {
-        imageBase64 = renderRegionToPngBase64(latestData, logicalSize, selectionRect);
+        imageBase64 = renderRegionToPngBase64(latestData, logicalSize, selection);
         console.log('[PageEditorScreen] Captured region image for Ask');
       } catch (error) {
         console.error('[PageEditorScreen] Failed to capture region:', error);
@@ -333,12 +624,16 @@ const PageEditorScreen = ({ route, navigation }: Props) => {
 
     setAskSheetImageBase64(imageBase64);
     setAskSheetVisible(true);
-  }, [selectionRect]);
+  }, [selection]);
 
   useEffect(() => {
     const previousPageId = previousPageIdRef.current;
     if (previousPageId && previousPageId !== currentPage?.id) {
+      const previousData = loadingDrawingRef.current ? null : drawingDataRef.current;
       void flushSave(previousPageId);
+      if (previousData) {
+        void savePageSnapshot(previousPageId, previousData, 'pageLeave');
+      }
     }
     previousPageIdRef.current = currentPage?.id ?? null;
   }, [currentPage?.id, flushSave]);
@@ -352,6 +647,7 @@ const PageEditorScreen = ({ route, navigation }: Props) => {
     }
 
     currentPageIdRef.current = pageId;
+    loadingDrawingRef.current = true;
     setLoadingDrawing(true);
     setCanUndo(false);
     setCanRedo(false);
@@ -374,6 +670,7 @@ const PageEditorScreen = ({ route, navigation }: Props) => {
         }
       } finally {
         if (isActive) {
+          loadingDrawingRef.current = false;
           setLoadingDrawing(false);
         }
       }
@@ -391,27 +688,40 @@ const PageEditorScreen = ({ route, navigation }: Props) => {
       if (nextState === 'inactive' || nextState === 'background') {
         void flushSave(currentPageIdRef.current);
       }
+      if (nextState === 'background') {
+        void snapshotCurrentPage('background');
+      }
     });
     return () => {
       subscription.remove();
     };
-  }, [flushSave]);
+  }, [flushSave, snapshotCurrentPage]);
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      void snapshotCurrentPage('interval');
+    }, SNAPSHOT_INTERVAL_MS);
+    return () => {
+      clearInterval(interval);
+    };
+  }, [snapshotCurrentPage]);
 
   useEffect(() => {
     return () => {
       void flushSave(currentPageIdRef.current);
+      void snapshotCurrentPage('pageLeave');
     };
-  }, [flushSave]);
+  }, [flushSave, snapshotCurrentPage]);
 
   // Clear selection when switching tools away from select, or when page changes
   useEffect(() => {
     if (activeTool !== 'select') {
-      setSelectionRect(null);
+      setSelection(null);
     }
   }, [activeTool]);
 
   useEffect(() => {
-    setSelectionRect(null);
+    setSelection(null);
   }, [currentPage?.id]);
 
   // Load paper settings when page changes
@@ -441,6 +751,139 @@ const PageEditorScreen = ({ route, navigation }: Props) => {
     };
   }, [currentPage?.id]);
 
+  // A page from before page sizes has ink in the layout coordinates of the
+  // canvas it was drawn on, so the first canvas it is opened on becomes its size
+  const legacyPageId = currentPage && !currentPage.size ? currentPage.id : null;
+  useEffect(() => {
+    if (!legacyPageId || !canvasSize) {
+      return;
+    }
+    assignLegacyPageSize(legacyPageId, canvasSize)
+      .then(page => {
+        if (!page) {
+          return;
+        }
+        setPages(prev => prev.map(p => (p.id === page.id ? page : p)));
+        setCurrentPage(prev => (prev?.id === page.id ? page : prev));
+      })
+      .catch(error => {
+        console.error('Failed to assign page size:', error);
+      });
+  }, [legacyPageId, canvasSize]);
+
+  const handlePageSizeChange = useCallback(
+    async (preset: Exclude<PageSizePreset, 'custom'>) => {
+      const pageId = currentPage?.id;
+      if (!pageId || pageActionBusy) {
+        return;
+      }
+      setPageActionBusy(true);
+      try {
+        const page = await updatePageSize(pageId, { preset, ...PAGE_SIZE_PRESETS[preset] });
+        if (page) {
+          setPages(prev => prev.map(p => (p.id === page.id ? page : p)));
+          setCurrentPage(prev => (prev?.id === page.id ? page : prev));
+        }
+      } catch (error) {
+        console.error('Failed to change page size:', error);
+        Alert.alert('Page update failed', 'Unable to change the page size. Please try again.');
+      } finally {
+        setPageActionBusy(false);
+      }
+    },
+    [currentPage?.id, pageActionBusy],
+  );
+
+  // Each page opens at the zoom and pan it was left at
+  useEffect(() => {
+    const pageId = currentPage?.id;
+    if (!pageId) {
+      return;
+    }
+
+    let isActive = true;
+    loadPageView(pageId).then(view => {
+      if (isActive) {
+        setPageView(view);
+      }
+    });
+
+    return () => {
+      isActive = false;
+    };
+  }, [currentPage?.id]);
+
+  const handlePageViewChange = useCallback((view: PageView) => {
+    const pageId = currentPage?.id;
+    setPageView(view);
+    if (pageId) {
+      savePageView(pageId, view).catch(error => {
+        console.error('Failed to save page view:', error);
+      });
+    }
+  }, [currentPage?.id]);
+
+  // Pen style and presets are app-wide, not per page
+  useEffect(() => {
+    let isActive = true;
+    const loadPen = async () => {
+      const [style, highlighter, presets] = await Promise.all([
+        loadPenStyle('pen'),
+        loadPenStyle('highlighter'),
+        loadPenPresets(),
+      ]);
+      if (isActive) {
+        setPenStyle(style);
+        setHighlighterStyle(highlighter);
+        setPenPresets(presets);
+      }
+    };
+
+    loadPen();
+
+    return () => {
+      isActive = false;
+    };
+  }, []);
+
+  const handlePenStyleChange = useCallback((tool: StrokeTool, style: PenStyle) => {
+    if (tool === 'highlighter') {
+      setHighlighterStyle(style);
+    } else {
+      setPenStyle(style);
+    }
+    setActiveTool(tool);
+    savePenStyle(style, tool).catch(error => {
+      console.error('Failed to save pen style:', error);
+    });
+  }, []);
+
+  const handleSavePenPreset = async (name: string) => {
+    setPenPresetBusy(true);
+    try {
+      setPenPresets(await addPenPreset(name, penStyle));
+    } catch (error) {
+      Alert.alert(
+        'Save failed',
+        error instanceof Error ? error.message : 'Unable to save preset. Please try again.',
+      );
+    } finally {
+      setPenPresetBusy(false);
+    }
+  };
+
+  const handleDeletePenPreset = async (preset: PenPreset) => {
+    setPenPresetBusy(true);
+    try {
+      setPenPresets(await deletePenPreset(preset.id));
+    } catch (error) {
+      console.error('Failed to delete pen preset:', error);
+      Alert.alert('Delete failed', 'Unable to delete preset. Please try again.');
+    } finally {
+      setPenPresetBusy(false);
+    }
+  };
+
   const handlePreviousPage = () => {
     if (pageIndex > 0) {
       const newIndex = pageIndex - 1;
@@ -475,6 +918,100 @@ const PageEditorScreen = ({ route, navigation }: Props) => {
     }
   };
 
+  const handleOpenOverview = async () => {
+    // Save pending edits so the current page's thumbnail is up to date
+    await flushSave(currentPageIdRef.current);
+    navigation.navigate('PageOverview', {
+      folderId,
+      noteId,
+      currentPageIndex: pageIndex,
+      canvasWidth: canvasSize?.width,
+      canvasHeight: canvasSize?.height,
+    });
+  };
+
+  // Replace the page with an older version. The current content is kept as a
+  // version first, and the restore itself can be undone like any edit.
+  const handleRestoreSnapshot = async (snapshot: PageSnapshot) => {
+    if (restoringSnapshot || snapshot.pageId !== currentPageIdRef.current) {
+      return;
+    }
+    setRestoringSnapshot(true);
+    try {
+      await snapshotCurrentPage('restore');
+      canvasRef.current?.replaceStrokes(snapshot.drawingData.strokes);
+      setHistoryVisible(false);
+    } finally {
+      setRestoringSnapshot(false);
+    }
+  };
+
+  // Insert, duplicate, move or delete the current page
+  const handlePageAction = async (action: PageAction) => {
+    const page = currentPage;
+    if (!page || pageActionBusy) {
+      return;
+    }
+    setPageActionBusy(true);
+    try {
+      // Deleted pages go to the trash, so their latest edits are kept too
+      await flushSave(page.id);
+
+      const currentIndex = page.pageIndex;
+      let updatedPages: Page[];
+      let targetIndex: number;
+      switch (action) {
+        case 'insertBefore':
+          updatedPages = await insertPage(noteId, currentIndex);
+          targetIndex = currentIndex;
+          break;
+        case 'insertAfter':
+          updatedPages = await insertPage(noteId, currentIndex + 1);
+          targetIndex = currentIndex + 1;
+          break;
+        case 'duplicate':
+          updatedPages = await duplicatePage(noteId, page.id);
+          targetIndex = currentIndex + 1;
+          break;
+        case 'moveFirst':
+          updatedPages = await movePage(noteId, page.id, 0);
+          targetIndex = 0;
+          break;
+        case 'moveEarlier':
+          updatedPages = await movePage(noteId, page.id, currentIndex - 1);
+          targetIndex = currentIndex - 1;
+          break;
+        case 'moveLater':
+          updatedPages = await movePage(noteId, page.id, currentIndex + 1);
+          targetIndex = currentIndex + 1;
+          break;
+        case 'moveLast':
+          updatedPages = await movePage(noteId, page.id, pages.length - 1);
+          targetIndex = pages.length - 1;
+          break;
+        case 'delete':
+          updatedPages = await trashPage(noteId, page.id);
+          targetIndex = Math.min(currentIndex, updatedPages.length - 1);
+          break;
+      }
+
+      // Set the page directly: the route param may not change (e.g. after a delete)
+      setPages(updatedPages);
+      setCurrentPage(updatedPages.find(p => p.pageIndex === targetIndex) ?? null);
+      lastProcessedIndex.current = targetIndex;
+      navigation.setParams({ pageIndex: targetIndex });
+      setPageActionsVisible(false);
+
+      // Send chunk purges / page index updates for the changed pages
+      void flushPendingChunkSync();
+    } catch (error) {
+      console.error('Failed to update pages:', error);
+      Alert.alert('Page update failed', 'Unable to update pages. Please try again.');
+    } finally {
+      setPageActionBusy(false);
+    }
+  };
+
   // Index all pages in the current note
   const handleIndexNote = useCallback(async () => {
     if (!canvasSize || pages.length === 0 || indexingNote) {
@@ -596,6 +1133,19 @@ const PageEditorScreen = ({ route, navigation }: Props) => {
           <Text style={styles.pageInfoText}>
             Page {displayPageNumber} of {totalPages}
           </Text>
+          <TouchableOpacity
+            style={styles.overviewButton}
+            onPress={handleOpenOverview}
+          >
+            <Text style={styles.overviewButtonText}>All Pages</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.overviewButton, !currentPage && styles.navButtonDisabled]}
+            onPress={() => setHistoryVisible(true)}
+            disabled={!currentPage}
+          >
+            <Text style={styles.overviewButtonText}>History</Text>
+          </TouchableOpacity>
           {/* Index Note Button */}
           <TouchableOpacity
             style={[
@@ -636,6 +1186,28 @@ const PageEditorScreen = ({ route, navigation }: Props) => {
               <Text style={styles.exportButtonText}>Export PNG</Text>
             )}
           </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.exportButton,
+              styles.exportSecondaryButton,
+              isExportDisabled && styles.exportButtonDisabled,
+            ]}
+            onPress={handleOpenExportOptions}
+            disabled={isExportDisabled}
+          >
+            <Text style={styles.exportButtonText}>Export…</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.exportButton,
+              styles.exportSecondaryButton,
+              isExportDisabled && styles.exportButtonDisabled,
+            ]}
+            onPress={() => setImportSvgVisible(true)}
+            disabled={isExportDisabled}
+          >
+            <Text style={styles.exportButtonText}>Import SVG</Text>
+          </TouchableOpacity>
           {__DEV__ && (
             <TouchableOpacity
               style={[
@@ -745,6 +1317,12 @@ const PageEditorScreen = ({ route, navigation }: Props) => {
       <DrawingToolbar
         activeTool={activeTool}
         onToolChange={setActiveTool}
+        penStyle={activeTool === 'highlighter' ? highlighterStyle : penStyle}
+        onPenStylePress={() => setPenPickerTool(activeTool === 'highlighter' ? 'highlighter' : 'pen')}
+        eraserMode={eraserMode}
+        onEraserModeChange={setEraserMode}
+        shapeAssist={shapeAssist}
+        onShapeAssistChange={setShapeAssist}
         onUndo={handleUndo}
         onRedo={handleRedo}
         onClear={handleClear}
@@ -752,9 +1330,13 @@ const PageEditorScreen = ({ route, navigation }: Props) => {
         canRedo={canRedo}
         saving={savingDrawing}
         loading={loadingDrawing}
-        hasSelection={selectionRect !== null}
+        hasSelection={selection !== null}
         onClearSelection={handleClearSelection}
         onExportSelection={handleExportSelection}
+        onCopySelection={handleCopySelection}
+        onDuplicateSelection={handleDuplicateSelection}
+        canPaste={canPaste}
+        onPaste={handlePaste}
       />
 
       <View style={styles.canvasContainer} onLayout={handleCanvasLayout}>
@@ -766,9 +1348,16 @@ const PageEditorScreen = ({ route, navigation }: Props) => {
           onDrawingChange={handleDrawingChange}
           onHistoryChange={handleHistoryChange}
           isInteractive={!loadingDrawing}
-          selectionRect={selectionRect}
+          selection={selection}
           onSelectionChange={handleSelectionChange}
           paperSettings={paperSettings}
+          penStyle={penStyle}
+          highlighterStyle={highlighterStyle}
+          eraserMode={eraserMode}
+          shapeAssist={shapeAssist}
+          pageView={pageView}
+          onPageViewChange={handlePageViewChange}
+          pageSize={pageSize}
         />
       </View>
 
@@ -784,17 +1373,27 @@ const PageEditorScreen = ({ route, navigation }: Props) => {
           </Text>
         </TouchableOpacity>
 
-        <TouchableOpacity
-          style={[styles.createButton, creating && styles.createButtonDisabled]}
-          onPress={handleCreateNewPage}
-          disabled={creating}
-        >
-          {creating ? (
-            <ActivityIndicator size="small" color="#fff" />
-          ) : (
-            <Text style={styles.createButtonText}>+ New Page</Text>
-          )}
-        </TouchableOpacity>
+        <View style={styles.navCenterGroup}>
+          <TouchableOpacity
+            style={[styles.createButton, creating && styles.createButtonDisabled]}
+            onPress={handleCreateNewPage}
+            disabled={creating}
+          >
+            {creating ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Text style={styles.createButtonText}>+ New Page</Text>
+            )}
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.pagesButton, !currentPage && styles.navButtonDisabled]}
+            onPress={() => setPageActionsVisible(true)}
+            disabled={!currentPage}
+          >
+            <Text style={styles.pagesButtonText}>Pages</Text>
+          </TouchableOpacity>
+        </View>
 
         <TouchableOpacity
           style={[styles.navButton, isNextDisabled && styles.navButtonDisabled]}
@@ -808,6 +1407,56 @@ const PageEditorScreen = ({ route, navigation }: Props) => {
       </View>
       </View>
 
+      <PageActionsSheet
+        visible={pageActionsVisible}
+        onClose={() => setPageActionsVisible(false)}
+        pageNumber={(currentPage?.pageIndex ?? 0) + 1}
+        totalPages={pages.length}
+        busy={pageActionBusy}
+        onAction={handlePageAction}
+        pageSize={currentPage?.size}
+        onPageSizeChange={handlePageSizeChange}
+      />
+
+      <ExportPdfSheet
+        visible={exportPdfVisible}
+        onClose={() => setExportPdfVisible(false)}
+        currentPageNumber={displayPageNumber}
+        totalPages={totalPages}
+        exporting={exporting}
+        onExport={handleExportPdf}
+      />
+
+      <PenPickerSheet
+        visible={penPickerTool !== null}
+        tool={penPickerTool ?? 'pen'}
+        penStyle={penPickerTool === 'highlighter' ? highlighterStyle : penStyle}
+        presets={penPresets}
+        busy={penPresetBusy}
+        onClose={() => setPenPickerTool(null)}
+        onChange={style => handlePenStyleChange(penPickerTool ?? 'pen', style)}
+        onSavePreset={handleSavePenPreset}
+        onDeletePreset={handleDeletePenPreset}
+      />
+
+      <PageHistorySheet
+        visible={historyVisible}
+        pageId={currentPage?.id ?? null}
+        logicalSize={pageSize}
+        busy={restoringSnapshot}
+        onClose={() => setHistoryVisible(false)}
+        onRestore={handleRestoreSnapshot}
+      />
+
+      <FilePickerSheet
+        visible={importSvgVisible}
+        title="Import SVG into Page"
+        extensions={['svg']}
+        busy={importing}
+        onClose={() => setImportSvgVisible(false)}
+        onSelect={handleImportSvg}
+      />
+
       <AskSheet
         visible={askSheetVisible}
         onClose={() => {
@@ -817,7 +1466,7 @@ const PageEditorScreen = ({ route, navigation }: Props) => {
         folderId={folderId}
         pageId={currentPage?.id ?? ''}
         regionImageBase64={askSheetImageBase64}
-        onNavigateToPage={(targetNoteId, targetPageIndex) => {
+        onNavigateToPage={async (targetNoteId, targetPageIndex) => {
           // Close the ask sheet first
           setAskSheetVisible(false);
           setAskSheetImageBase64(null);
@@ -827,9 +1476,11 @@ const PageEditorScreen = ({ route, navigation }: Props) => {
             lastProcessedIndex.current = targetPageIndex;
             navigation.setParams({ pageIndex: targetPageIndex });
           } else {
-            // Different note - navigate to it
+            // Different note - navigate to it. Answers can cite subfolders,
+            // so look up the folder that holds the note.
+            const targetNote = await getNoteById(targetNoteId);
             navigation.push('PageEditor', {
-              folderId,
+              folderId: targetNote?.folderId ?? folderId,
               noteId: targetNoteId,
               pageIndex: targetPageIndex,
             });
@@ -878,6 +1529,20 @@ const styles = StyleSheet.create({
     flex: 1,
     marginRight: 12,
   },
+  overviewButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    backgroundColor: '#8E8E93',
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 8,
+  },
+  overviewButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   askButton: {
     paddingHorizontal: 12,
     paddingVertical: 6,
@@ -902,6 +1567,9 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  exportSecondaryButton: {
+    marginLeft: 8,
+  },
   exportButtonDisabled: {
     backgroundColor: '#c7c7cc',
   },
@@ -959,6 +1627,23 @@ const styles = StyleSheet.create({
   navButtonTextDisabled: {
     color: '#999',
   },
+  navCenterGroup: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  pagesButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#8E8E93',
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  pagesButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   createButton: {
     paddingHorizontal: 24,
     paddingVertical: 12,
@@ -0,0 +1,262 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  useWindowDimensions,
+} from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../types/navigation';
+import { IndexStatus, Page } from '../types/models';
+import { loadPagesByNote } from '../storage/pages';
+import { loadDrawingData } from '../storage/drawings';
+import { ExportSize } from '../utils/exportDrawing';
+import { getPageThumbnailUri } from '../utils/thumbnails';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'PageOverview'>;
+
+const GRID_PADDING = 16;
+const GRID_GAP = 16;
+const MIN_TILE_WIDTH = 180;
+
+const INDEX_STATUS_BADGES: Record<IndexStatus, { label: string; color: string }> = {
+  none: { label: 'Not indexed', color: '#8E8E93' },
+  queued: { label: 'Queued', color: '#FF9500' },
+  running: { label: 'Indexing', color: '#007AFF' },
+  done: { label: 'Indexed', color: '#34C759' },
+  error: { label: 'Index failed', color: '#FF3B30' },
+};
+
+const PageThumbnail = ({
+  page,
+  logicalSize,
+  tileWidth,
+  isCurrent,
+  onPress,
+}: {
+  page: Page;
+  logicalSize: ExportSize; // for pages without a declared size
+  tileWidth: number;
+  isCurrent: boolean;
+  onPress: () => void;
+}) => {
+  const [uri, setUri] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+  const pageWidth = page.size?.width ?? logicalSize.width;
+  const pageHeight = page.size?.height ?? logicalSize.height;
+
+  useEffect(() => {
+    let isActive = true;
+    const loadThumbnail = async () => {
+      try {
+        const drawing = await loadDrawingData(page.id);
+        const thumbnailUri = await getPageThumbnailUri(page.id, drawing, {
+          width: pageWidth,
+          height: pageHeight,
+        });
+        if (isActive) {
+          setUri(thumbnailUri);
+        }
+      } catch (error) {
+        console.error('Failed to load page thumbnail:', page.id, error);
+        if (isActive) {
+          setFailed(true);
+        }
+      }
+    };
+
+    loadThumbnail();
+
+    return () => {
+      isActive = false;
+    };
+  }, [page.id, pageWidth, pageHeight]);
+
+  const badge = INDEX_STATUS_BADGES[page.indexStatus];
+  const tileHeight = (tileWidth * pageHeight) / pageWidth;
+
+  return (
+    <TouchableOpacity
+      style={[styles.tile, { width: tileWidth }]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      <View
+        style={[
+          styles.thumbnailFrame,
+          { height: tileHeight },
+          isCurrent && styles.thumbnailFrameCurrent,
+        ]}
+      >
+        {uri ? (
+          <Image source={{ uri }} style={styles.thumbnailImage} resizeMode="contain" />
+        ) : failed ? (
+          <Text style={styles.thumbnailErrorText}>Preview unavailable</Text>
+        ) : (
+          <ActivityIndicator size="small" />
+        )}
+      </View>
+      <View style={styles.tileFooter}>
+        <Text style={[styles.pageNumber, isCurrent && styles.pageNumberCurrent]}>
+          Page {page.pageIndex + 1}
+        </Text>
+        <View style={[styles.statusBadge, { backgroundColor: badge.color }]}>
+          <Text style={styles.statusBadgeText}>{badge.label}</Text>
+        </View>
+      </View>
+    </TouchableOpacity>
+  );
+};
+
+const PageOverviewScreen = ({ route, navigation }: Props) => {
+  const { folderId, noteId, currentPageIndex, canvasWidth, canvasHeight } = route.params;
+  const window = useWindowDimensions();
+  const [pages, setPages] = useState<Page[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadPagesByNote(noteId)
+      .then(setPages)
+      .finally(() => setLoading(false));
+  }, [noteId]);
+
+  // Fall back to the window size if the editor canvas was not laid out yet
+  const logicalSize = useMemo<ExportSize>(
+    () =>
+      canvasWidth && canvasHeight
+        ? { width: canvasWidth, height: canvasHeight }
+        : { width: window.width, height: window.height },
+    [canvasWidth, canvasHeight, window.width, window.height],
+  );
+
+  const numColumns = Math.max(
+    2,
+    Math.floor((window.width - GRID_PADDING * 2 + GRID_GAP) / (MIN_TILE_WIDTH + GRID_GAP)),
+  );
+  const tileWidth =
+    (window.width - GRID_PADDING * 2 - GRID_GAP * (numColumns - 1)) / numColumns;
+
+  const handlePagePress = (page: Page) => {
+    navigation.popTo('PageEditor', {
+      folderId,
+      noteId,
+      pageIndex: page.pageIndex,
+    });
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" />
+        <Text style={styles.loadingText}>Loading pages...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        key={`grid-${numColumns}`}
+        data={pages}
+        numColumns={numColumns}
+        keyExtractor={item => item.id}
+        renderItem={({ item }) => (
+          <PageThumbnail
+            page={item}
+            logicalSize={logicalSize}
+            tileWidth={tileWidth}
+            isCurrent={item.pageIndex === currentPageIndex}
+            onPress={() => handlePagePress(item)}
+          />
+        )}
+        columnWrapperStyle={styles.gridRow}
+        contentContainerStyle={styles.gridContainer}
+        contentInsetAdjustmentBehavior="automatic"
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666',
+  },
+  gridContainer: {
+    padding: GRID_PADDING,
+  },
+  gridRow: {
+    gap: GRID_GAP,
+    marginBottom: GRID_GAP,
+  },
+  tile: {
+    alignItems: 'stretch',
+  },
+  thumbnailFrame: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    overflow: 'hidden',
+    justifyContent: 'center',
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  thumbnailFrameCurrent: {
+    borderWidth: 3,
+    borderColor: '#007AFF',
+  },
+  thumbnailImage: {
+    width: '100%',
+    height: '100%',
+  },
+  thumbnailErrorText: {
+    fontSize: 12,
+    color: '#999',
+  },
+  tileFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  pageNumber: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  pageNumberCurrent: {
+    color: '#007AFF',
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  statusBadgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#fff',
+  },
+});
+
+export default PageOverviewScreen;
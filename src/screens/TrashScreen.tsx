@@ -0,0 +1,405 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../types/navigation';
+import {
+  loadTrashItems,
+  loadTrashRetentionDays,
+  purgeTrashItem,
+  restoreTrashItem,
+  saveTrashRetentionDays,
+  TRASH_RETENTION_OPTIONS,
+  TrashItem,
+  TrashItemKind,
+} from '../storage/trash';
+import { flushPendingChunkSync } from '../ai/chunkSyncService';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'Trash'>;
+
+const KIND_LABELS: Record<TrashItemKind, string> = {
+  folder: 'Folder',
+  note: 'Note',
+  page: 'Page',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RetentionHeader = ({
+  retentionDays,
+  onChange,
+  onEmptyTrash,
+  canEmpty,
+}: {
+  retentionDays: number;
+  onChange: (days: number) => void;
+  onEmptyTrash: () => void;
+  canEmpty: boolean;
+}) => (
+  <View style={styles.headerSection}>
+    <Text style={styles.headerLabel}>Delete permanently after</Text>
+    <View style={styles.retentionRow}>
+      {TRASH_RETENTION_OPTIONS.map(days => (
+        <TouchableOpacity
+          key={days}
+          style={[
+            styles.retentionOption,
+            days === retentionDays && styles.retentionOptionSelected,
+          ]}
+          onPress={() => onChange(days)}
+        >
+          <Text
+            style={[
+              styles.retentionOptionText,
+              days === retentionDays && styles.retentionOptionTextSelected,
+            ]}
+          >
+            {days} days
+          </Text>
+        </TouchableOpacity>
+      ))}
+      <TouchableOpacity
+        style={[styles.emptyButton, !canEmpty && styles.buttonDisabled]}
+        onPress={onEmptyTrash}
+        disabled={!canEmpty}
+      >
+        <Text style={styles.emptyButtonText}>Empty Trash</Text>
+      </TouchableOpacity>
+    </View>
+  </View>
+);
+
+const TrashScreen = (_props: Props) => {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    Promise.all([loadTrashItems(), loadTrashRetentionDays()])
+      .then(([loadedItems, days]) => {
+        setItems(loadedItems);
+        setRetentionDays(days);
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleRetentionChange = async (days: number) => {
+    const previous = retentionDays;
+    setRetentionDays(days);
+    try {
+      await saveTrashRetentionDays(days);
+    } catch (error) {
+      console.error('Failed to save trash retention:', error);
+      setRetentionDays(previous);
+      Alert.alert('Error', 'Failed to save the trash setting. Please try again.');
+    }
+  };
+
+  const handleRestore = async (item: TrashItem) => {
+    setBusy(true);
+    try {
+      await restoreTrashItem(item);
+      setItems(await loadTrashItems());
+    } catch (error) {
+      console.error('Failed to restore from trash:', error);
+      Alert.alert('Error', 'Failed to restore. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const purgeItems = async (toPurge: TrashItem[]) => {
+    setBusy(true);
+    try {
+      for (const item of toPurge) {
+        await purgeTrashItem(item);
+      }
+      // Send any chunk purges still queued from moving these to the trash
+      void flushPendingChunkSync();
+    } catch (error) {
+      console.error('Failed to purge trash:', error);
+      Alert.alert('Error', 'Failed to delete permanently. Please try again.');
+    } finally {
+      setItems(await loadTrashItems());
+      setBusy(false);
+    }
+  };
+
+  const handlePurge = (item: TrashItem) => {
+    Alert.alert(
+      'Delete Permanently',
+      `"${item.title}" will be deleted permanently. This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => purgeItems([item]) },
+      ],
+    );
+  };
+
+  const handleEmptyTrash = () => {
+    Alert.alert(
+      'Empty Trash',
+      `All ${items.length} items in the Trash will be deleted permanently. This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Empty Trash', style: 'destructive', onPress: () => purgeItems(items) },
+      ],
+    );
+  };
+
+  const formatDate = (timestamp: number) => {
+    const date = new Date(timestamp);
+    return date.toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const formatRemaining = (deletedAt: number) => {
+    if (retentionDays === null) {
+      return '';
+    }
+    const daysLeft = Math.ceil((deletedAt + retentionDays * DAY_MS - Date.now()) / DAY_MS);
+    return daysLeft <= 1 ? ' · deleted permanently within a day' : ` · ${daysLeft} days left`;
+  };
+
+  const renderItem = ({ item }: { item: TrashItem }) => (
+    <View style={styles.trashItem}>
+      <View style={styles.itemContent}>
+        <Text style={styles.itemKind}>{KIND_LABELS[item.kind]}</Text>
+        <Text style={styles.itemTitle} numberOfLines={1}>
+          {item.title}
+        </Text>
+        {item.location ? (
+          <Text style={styles.itemLocation} numberOfLines={1}>
+            in {item.location}
+          </Text>
+        ) : null}
+        <Text style={styles.itemDate}>
+          Deleted {formatDate(item.deletedAt)}
+          {formatRemaining(item.deletedAt)}
+        </Text>
+      </View>
+      <TouchableOpacity
+        style={[styles.restoreButton, busy && styles.buttonDisabled]}
+        onPress={() => handleRestore(item)}
+        disabled={busy}
+      >
+        <Text style={styles.restoreButtonText}>Restore</Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={[styles.deleteButton, busy && styles.buttonDisabled]}
+        onPress={() => handlePurge(item)}
+        disabled={busy}
+      >
+        <Text style={styles.deleteButtonText}>Delete</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyState}>
+      <Text style={styles.emptyStateText}>Trash is empty.</Text>
+      <Text style={styles.emptyStateSubtext}>
+        Deleted folders, notes and pages appear here.
+      </Text>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" />
+        <Text style={styles.loadingText}>Loading trash...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={items}
+        renderItem={renderItem}
+        keyExtractor={item => `${item.kind}:${item.id}`}
+        contentContainerStyle={items.length === 0 ? styles.emptyListContainer : styles.listContainer}
+        ListEmptyComponent={renderEmptyState}
+        contentInsetAdjustmentBehavior="automatic"
+        ListHeaderComponent={
+          retentionDays !== null ? (
+            <RetentionHeader
+              retentionDays={retentionDays}
+              onChange={handleRetentionChange}
+              onEmptyTrash={handleEmptyTrash}
+              canEmpty={items.length > 0 && !busy}
+            />
+          ) : null
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666',
+  },
+  headerSection: {
+    padding: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  headerLabel: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 8,
+  },
+  retentionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  retentionOption: {
+    paddingHorizontal: 14,
+    height: 36,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    justifyContent: 'center',
+    marginRight: 8,
+  },
+  retentionOptionSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  retentionOptionText: {
+    fontSize: 15,
+    color: '#333',
+  },
+  retentionOptionTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  emptyButton: {
+    marginLeft: 'auto',
+    paddingHorizontal: 16,
+    height: 36,
+    backgroundColor: '#FF3B30',
+    borderRadius: 8,
+    justifyContent: 'center',
+  },
+  emptyButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  listContainer: {
+    padding: 16,
+  },
+  emptyListContainer: {
+    flexGrow: 1,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyStateText: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#666',
+    marginBottom: 8,
+  },
+  emptyStateSubtext: {
+    fontSize: 16,
+    color: '#999',
+  },
+  trashItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  itemContent: {
+    flex: 1,
+    marginRight: 12,
+  },
+  itemKind: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#8E8E93',
+    textTransform: 'uppercase',
+    marginBottom: 2,
+  },
+  itemTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000',
+    marginBottom: 2,
+  },
+  itemLocation: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 2,
+  },
+  itemDate: {
+    fontSize: 14,
+    color: '#999',
+  },
+  restoreButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#007AFF',
+    borderRadius: 6,
+    marginRight: 8,
+  },
+  restoreButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  deleteButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#FF3B30',
+    borderRadius: 6,
+  },
+  deleteButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default TrashScreen;
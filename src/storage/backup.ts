@@ -0,0 +1,548 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  DrawingData,
+  Folder,
+  IndexStatus,
+  LINE_SPACING_VALUES,
+  Note,
+  Page,
+  PAGE_SIZE_PRESETS,
+  PaperSettings,
+} from '../types/models';
+import { queryAll, transaction, Transaction } from './db';
+import { rowToFolder } from './folders';
+import { rowToNote } from './notes';
+import { insertExistingPageRecord, rowToPage } from './pages';
+import { saveDrawingDataInTransaction } from './drawings';
+import { savePaperSettingsInTransaction } from './paperSettings';
+import { enqueueChunkPurge } from './chunkPurges';
+import { enqueueChunkPageIndexUpdate } from './chunkPageIndexes';
+import { waitForPendingWrites } from './writeQueue';
+import { normalizeTags } from '../utils/tags';
+
+export const BACKUP_FORMAT = 'contextnotes-backup';
+// Bump when the archive layout changes; restore rejects newer versions.
+// 2: folders, notes and pages carry deletedAt (trash)
+// 3: folders carry parentId (subfolders)
+// 4: folders and notes carry description, color, courseCode and lastOpenedAt
+// 5: noteTags
+// 6: pages carry size
+export const BACKUP_VERSION = 6;
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: number;
+  counts: {
+    folders: number;
+    notes: number;
+    pages: number;
+    drawings: number;
+    paperSettings: number;
+  };
+}
+
+export interface BackupArchive {
+  manifest: BackupManifest;
+  folders: Folder[];
+  notes: Note[];
+  pages: Page[];
+  drawings: Record<string, DrawingData>; // by pageId
+  paperSettings: Record<string, PaperSettings>; // by pageId
+  noteTags: Record<string, string[]>; // by noteId
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreResult {
+  folders: number;
+  notes: number;
+  pages: number;
+  remappedIds: number;
+}
+
+const INDEX_STATUSES: IndexStatus[] = ['none', 'queued', 'running', 'done', 'error'];
+
+/**
+ * Read every folder, note, page, drawing, paper setting and tag into an archive
+ */
+export async function createBackupArchive(): Promise<BackupArchive> {
+  // Include saves that are still queued
+  await waitForPendingWrites();
+
+  const [folderRows, noteRows, pageRows, drawingRows, paperRows, tagRows] = await Promise.all([
+    queryAll('SELECT * FROM folders ORDER BY created_at ASC, rowid ASC'),
+    queryAll('SELECT * FROM notes ORDER BY created_at ASC, rowid ASC'),
+    queryAll('SELECT * FROM pages ORDER BY note_id ASC, page_index ASC'),
+    queryAll('SELECT page_id, drawing_json FROM page_drawings'),
+    queryAll('SELECT page_id, background, line_spacing FROM paper_settings'),
+    queryAll('SELECT note_id, tag FROM note_tags ORDER BY tag ASC'),
+  ]);
+
+  const drawings: Record<string, DrawingData> = {};
+  drawingRows.forEach(row => {
+    drawings[row.page_id as string] = JSON.parse(row.drawing_json as string);
+  });
+  const paperSettings: Record<string, PaperSettings> = {};
+  paperRows.forEach(row => {
+    paperSettings[row.page_id as string] = {
+      background: row.background,
+      lineSpacing: row.line_spacing,
+    } as PaperSettings;
+  });
+  const noteTags: Record<string, string[]> = {};
+  tagRows.forEach(row => {
+    const noteId = row.note_id as string;
+    noteTags[noteId] = [...(noteTags[noteId] ?? []), row.tag as string];
+  });
+
+  const folders = folderRows.map(rowToFolder);
+  const notes = noteRows.map(rowToNote);
+  const pages = pageRows.map(rowToPage);
+
+  return {
+    manifest: {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: Date.now(),
+      counts: {
+        folders: folders.length,
+        notes: notes.length,
+        pages: pages.length,
+        drawings: drawingRows.length,
+        paperSettings: paperRows.length,
+      },
+    },
+    folders,
+    notes,
+    pages,
+    drawings,
+    paperSettings,
+    noteTags,
+  };
+}
+
+/**
+ * Internal helper: Type guards for untrusted archive data
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isOptionalTimestamp(value: unknown): boolean {
+  return value === undefined || value === null || isNumber(value);
+}
+
+function isOptionalText(value: unknown): boolean {
+  return value === undefined || value === null || typeof value === 'string';
+}
+
+/**
+ * Internal helper: Whether a folder or note has valid optional details
+ */
+function hasValidDetails(item: Record<string, unknown>): boolean {
+  return (
+    isOptionalText(item.description) &&
+    isOptionalText(item.color) &&
+    isOptionalText(item.courseCode) &&
+    isOptionalTimestamp(item.lastOpenedAt)
+  );
+}
+
+/**
+ * Internal helper: Whether a page's size is missing (older archives, unsized
+ * pages) or a valid declared size
+ */
+function isOptionalPageSize(value: unknown): boolean {
+  if (value === undefined || value === null) {
+    return true;
+  }
+  return (
+    isObject(value) &&
+    (value.preset === 'custom' ||
+      Object.keys(PAGE_SIZE_PRESETS).includes(value.preset as string)) &&
+    isNumber(value.width) &&
+    isNumber(value.height) &&
+    value.width > 0 &&
+    value.height > 0
+  );
+}
+
+/**
+ * Internal helper: Throw if any record in the list has a duplicate id
+ */
+function assertUniqueIds(kind: string, records: { id: string }[]): void {
+  const seen = new Set<string>();
+  records.forEach(record => {
+    if (seen.has(record.id)) {
+      throw new Error(`Backup contains duplicate ${kind} id ${record.id}.`);
+    }
+    seen.add(record.id);
+  });
+}
+
+/**
+ * Internal helper: Throw if a folder's parent is missing or the parents form
+ * a cycle
+ */
+function assertFolderTree(folders: Folder[], folderIds: Set<string>): void {
+  const parents = new Map(folders.map(folder => [folder.id, folder.parentId]));
+  folders.forEach(folder => {
+    if (folder.parentId !== null && !folderIds.has(folder.parentId)) {
+      throw new Error('Backup contains a folder whose parent folder is missing.');
+    }
+    const visited = new Set<string>([folder.id]);
+    let parentId = folder.parentId;
+    while (parentId !== null) {
+      if (visited.has(parentId)) {
+        throw new Error('Backup contains folders nested inside themselves.');
+      }
+      visited.add(parentId);
+      parentId = parents.get(parentId) ?? null;
+    }
+  });
+}
+
+/**
+ * Check that untrusted data is a backup this app can restore.
+ * The manifest is checked first, so archives from newer app versions are
+ * rejected before anything else is read. Throws with a readable message.
+ */
+export function validateBackupArchive(data: unknown): BackupArchive {
+  if (!isObject(data) || !isObject(data.manifest)) {
+    throw new Error('This file is not a Context Notes backup.');
+  }
+  const manifest = data.manifest;
+  if (manifest.format !== BACKUP_FORMAT) {
+    throw new Error('This file is not a Context Notes backup.');
+  }
+  if (!Number.isInteger(manifest.version) || (manifest.version as number) < 1) {
+    throw new Error('Backup manifest has an invalid version.');
+  }
+  if ((manifest.version as number) > BACKUP_VERSION) {
+    throw new Error(
+      `This backup was made by a newer version of the app (format ${manifest.version}). ` +
+        'Update the app to restore it.',
+    );
+  }
+  if (!isNumber(manifest.createdAt)) {
+    throw new Error('Backup manifest is missing its creation date.');
+  }
+
+  // Versions 1-4 predate tags
+  const { folders, notes, pages, drawings, paperSettings, noteTags = {} } = data;
+  if (
+    !Array.isArray(folders) ||
+    !Array.isArray(notes) ||
+    !Array.isArray(pages) ||
+    !isObject(drawings) ||
+    !isObject(paperSettings) ||
+    !isObject(noteTags)
+  ) {
+    throw new Error('Backup is incomplete.');
+  }
+
+  folders.forEach(folder => {
+    if (
+      !isObject(folder) ||
+      !isString(folder.id) ||
+      typeof folder.name !== 'string' ||
+      !isNumber(folder.createdAt) ||
+      !isNumber(folder.updatedAt) ||
+      !isOptionalTimestamp(folder.deletedAt) ||
+      !(folder.parentId === undefined || folder.parentId === null || isString(folder.parentId)) ||
+      !hasValidDetails(folder)
+    ) {
+      throw new Error('Backup contains an invalid folder.');
+    }
+  });
+  notes.forEach(note => {
+    if (
+      !isObject(note) ||
+      !isString(note.id) ||
+      !isString(note.folderId) ||
+      typeof note.title !== 'string' ||
+      !isNumber(note.createdAt) ||
+      !isNumber(note.updatedAt) ||
+      !isOptionalTimestamp(note.deletedAt) ||
+      !hasValidDetails(note)
+    ) {
+      throw new Error('Backup contains an invalid note.');
+    }
+  });
+  pages.forEach(page => {
+    if (
+      !isObject(page) ||
+      !isString(page.id) ||
+      !isString(page.noteId) ||
+      !Number.isInteger(page.pageIndex) ||
+      !isNumber(page.createdAt) ||
+      !isNumber(page.updatedAt) ||
+      !isOptionalTimestamp(page.deletedAt) ||
+      !INDEX_STATUSES.includes(page.indexStatus as IndexStatus) ||
+      !isOptionalPageSize(page.size)
+    ) {
+      throw new Error('Backup contains an invalid page.');
+    }
+  });
+
+  // Version 1 archives predate the trash, versions 1-2 predate subfolders,
+  // versions 1-3 predate folder and note details, versions 1-5 predate page sizes
+  const typedFolders = (folders as Folder[]).map(folder => ({
+    ...folder,
+    parentId: folder.parentId ?? null,
+    description: folder.description ?? null,
+    color: folder.color ?? null,
+    courseCode: folder.courseCode ?? null,
+    lastOpenedAt: folder.lastOpenedAt ?? null,
+    deletedAt: folder.deletedAt ?? null,
+  }));
+  const typedNotes = (notes as Note[]).map(note => ({
+    ...note,
+    description: note.description ?? null,
+    color: note.color ?? null,
+    courseCode: note.courseCode ?? null,
+    lastOpenedAt: note.lastOpenedAt ?? null,
+    deletedAt: note.deletedAt ?? null,
+  }));
+  const typedPages = (pages as Page[]).map(page => ({
+    ...page,
+    deletedAt: page.deletedAt ?? null,
+    size: page.size ?? null,
+  }));
+  assertUniqueIds('folder', typedFolders);
+  assertUniqueIds('note', typedNotes);
+  assertUniqueIds('page', typedPages);
+
+  const folderIds = new Set(typedFolders.map(folder => folder.id));
+  const noteIds = new Set(typedNotes.map(note => note.id));
+  const pageIds = new Set(typedPages.map(page => page.id));
+  assertFolderTree(typedFolders, folderIds);
+  if (typedNotes.some(note => !folderIds.has(note.folderId))) {
+    throw new Error('Backup contains a note whose folder is missing.');
+  }
+  if (typedPages.some(page => !noteIds.has(page.noteId))) {
+    throw new Error('Backup contains a page whose note is missing.');
+  }
+
+  Object.entries(drawings).forEach(([pageId, drawing]) => {
+    if (
+      !pageIds.has(pageId) ||
+      !isObject(drawing) ||
+      !isNumber(drawing.version) ||
+      !Array.isArray(drawing.strokes)
+    ) {
+      throw new Error('Backup contains an invalid drawing.');
+    }
+  });
+  Object.entries(paperSettings).forEach(([pageId, settings]) => {
+    if (
+      !pageIds.has(pageId) ||
+      !isObject(settings) ||
+      (settings.background !== 'blank' && settings.background !== 'lined') ||
+      !(typeof settings.lineSpacing === 'string' && settings.lineSpacing in LINE_SPACING_VALUES)
+    ) {
+      throw new Error('Backup contains invalid paper settings.');
+    }
+  });
+  const typedNoteTags: Record<string, string[]> = {};
+  Object.entries(noteTags).forEach(([noteId, tags]) => {
+    if (!noteIds.has(noteId) || !Array.isArray(tags) || !tags.every(isString)) {
+      throw new Error('Backup contains invalid tags.');
+    }
+    typedNoteTags[noteId] = normalizeTags(tags);
+  });
+
+  return {
+    manifest: manifest as unknown as BackupManifest,
+    folders: typedFolders,
+    notes: typedNotes,
+    pages: typedPages,
+    drawings: drawings as Record<string, DrawingData>,
+    paperSettings: paperSettings as Record<string, PaperSettings>,
+    noteTags: typedNoteTags,
+  };
+}
+
+/**
+ * Internal helper: Load the ids already used in a table
+ */
+async function loadIds(tx: Transaction, table: 'folders' | 'notes' | 'pages'): Promise<Set<string>> {
+  const result = await tx.execute(`SELECT id FROM ${table}`);
+  return new Set(result.rows.map(row => row.id as string));
+}
+
+/**
+ * Restore a backup archive.
+ * - replace: delete all local folders, notes and pages first, and queue a
+ *   server chunk purge for local pages that are not in the backup
+ * - merge: keep local data; records whose id already exists locally get a
+ *   new id (references are updated) and remapped pages must be re-indexed
+ * Indexed pages that land at a new page number get a chunk page_index update.
+ * The archive is validated before anything is written.
+ */
+export async function restoreBackup(
+  data: unknown,
+  mode: RestoreMode,
+): Promise<RestoreResult> {
+  try {
+    const archive = validateBackupArchive(data);
+    await waitForPendingWrites();
+
+    let remappedIds = 0;
+    await transaction(async tx => {
+      const folderMap = new Map<string, string>();
+      const noteMap = new Map<string, string>();
+      const pageMap = new Map<string, string>();
+
+      if (mode === 'replace') {
+        const archivePageIds = new Set(archive.pages.map(page => page.id));
+        const previousPageIds = await loadIds(tx, 'pages');
+        await tx.execute('DELETE FROM page_drawings');
+        await tx.execute('DELETE FROM paper_settings');
+        await tx.execute('DELETE FROM page_views');
+        await tx.execute('DELETE FROM pages');
+        await tx.execute('DELETE FROM page_snapshots');
+        await tx.execute('DELETE FROM note_tags');
+        await tx.execute('DELETE FROM notes');
+        await tx.execute('DELETE FROM folders');
+        await tx.execute('DELETE FROM pending_chunk_page_indexes');
+        await tx.execute('DELETE FROM pending_chunk_folder_moves');
+        await tx.execute('DELETE FROM pending_chunk_tag_updates');
+        await enqueueChunkPurge(tx, {
+          sourceIds: [...previousPageIds].filter(id => !archivePageIds.has(id)),
+        });
+      }
+
+      const localFolderIds = await loadIds(tx, 'folders');
+      const localNoteIds = await loadIds(tx, 'notes');
+      const localPageIds = await loadIds(tx, 'pages');
+      const remap = (id: string, used: Set<string>, map: Map<string, string>) => {
+        const newId = used.has(id) ? uuidv4() : id;
+        if (newId !== id) {
+          remappedIds += 1;
+        }
+        map.set(id, newId);
+        return newId;
+      };
+
+      // Map every folder first: a subfolder may come before its parent
+      archive.folders.forEach(folder => remap(folder.id, localFolderIds, folderMap));
+      for (const folder of archive.folders) {
+        await tx.execute(
+          `INSERT INTO folders (id, name, parent_id, description, color, course_code,
+             created_at, updated_at, last_opened_at, deleted_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            folderMap.get(folder.id) ?? folder.id,
+            folder.name,
+            folder.parentId === null ? null : folderMap.get(folder.parentId) ?? folder.parentId,
+            folder.description,
+            folder.color,
+            folder.courseCode,
+            folder.createdAt,
+            folder.updatedAt,
+            folder.lastOpenedAt,
+            folder.deletedAt,
+          ],
+        );
+      }
+
+      const noteFolders = new Map<string, string>();
+      for (const note of archive.notes) {
+        await tx.execute(
+          `INSERT INTO notes (id, folder_id, title, description, color, course_code,
+             created_at, updated_at, last_opened_at, deleted_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            remap(note.id, localNoteIds, noteMap),
+            folderMap.get(note.folderId) ?? note.folderId,
+            note.title,
+            note.description,
+            note.color,
+            note.courseCode,
+            note.createdAt,
+            note.updatedAt,
+            note.lastOpenedAt,
+            note.deletedAt,
+          ],
+        );
+        noteFolders.set(note.id, note.folderId);
+        for (const tag of archive.noteTags[note.id] ?? []) {
+          await tx.execute('INSERT INTO note_tags (note_id, tag) VALUES (?, ?)', [
+            noteMap.get(note.id) ?? note.id,
+            tag,
+          ]);
+        }
+      }
+
+      // Restore pages note by note, keeping pageIndex contiguous. Pages in
+      // the trash keep their old pageIndex (used to put them back on restore).
+      const pagesByNote = new Map<string, Page[]>();
+      archive.pages.forEach(page => {
+        pagesByNote.set(page.noteId, [...(pagesByNote.get(page.noteId) ?? []), page]);
+      });
+      for (const [noteId, notePages] of pagesByNote) {
+        const sorted = [...notePages].sort((a, b) => a.pageIndex - b.pageIndex);
+        let nextIndex = 0;
+        for (const page of sorted) {
+          const folderId = noteFolders.get(noteId) ?? '';
+          const pageId = remap(page.id, localPageIds, pageMap);
+          // Server chunks are keyed by page and folder id and cite the note id
+          const movedIds =
+            pageId !== page.id ||
+            noteMap.get(noteId) !== noteId ||
+            folderMap.get(folderId) !== folderId;
+          const staleStatus = page.indexStatus === 'queued' || page.indexStatus === 'running';
+          const resetIndex = movedIds || staleStatus;
+          const pageIndex = page.deletedAt === null ? nextIndex : page.pageIndex;
+          if (page.deletedAt === null) {
+            nextIndex += 1;
+          }
+          await insertExistingPageRecord(tx, {
+            ...page,
+            id: pageId,
+            noteId: noteMap.get(noteId) ?? noteId,
+            pageIndex,
+            indexStatus: resetIndex ? 'none' : page.indexStatus,
+            indexedAt: resetIndex ? null : page.indexedAt ?? null,
+            indexError: resetIndex ? null : page.indexError ?? null,
+            lastIndexedHash: resetIndex ? null : page.lastIndexedHash ?? null,
+          });
+          // Chunks of pages that keep their index status still cite the old page number
+          if (!resetIndex && pageIndex !== page.pageIndex) {
+            await enqueueChunkPageIndexUpdate(tx, pageId, pageIndex);
+          }
+
+          const drawing = archive.drawings[page.id];
+          if (drawing) {
+            await saveDrawingDataInTransaction(tx, pageId, drawing);
+          }
+          const settings = archive.paperSettings[page.id];
+          if (settings) {
+            await savePaperSettingsInTransaction(tx, pageId, settings);
+          }
+        }
+      }
+    });
+
+    return {
+      folders: archive.folders.length,
+      notes: archive.notes.length,
+      pages: archive.pages.length,
+      remappedIds,
+    };
+  } catch (error) {
+    console.error('Failed to restore backup:', error);
+    throw error;
+  }
+}
+
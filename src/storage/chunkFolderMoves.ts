@@ -0,0 +1,92 @@
+import { execute, placeholders, queryAll, Row, Transaction } from './db';
+
+/**
+ * A page whose note moved to another folder while its server chunks still
+ * carry the old folder_id. Only the latest folder per page is kept.
+ */
+export interface PendingChunkFolderMove {
+  pageId: string;
+  folderId: string;
+  createdAt: number;
+  attempts: number;
+  lastError: string | null;
+}
+
+/**
+ * Internal helper: Map a pending_chunk_folder_moves row
+ */
+function rowToPendingFolderMove(row: Row): PendingChunkFolderMove {
+  return {
+    pageId: row.page_id as string,
+    folderId: row.folder_id as string,
+    createdAt: row.created_at as number,
+    attempts: row.attempts as number,
+    lastError: (row.last_error as string | null) ?? null,
+  };
+}
+
+/**
+ * Queue a chunk folder_id update inside an existing transaction.
+ * Replaces any update still queued for the same page.
+ */
+export async function enqueueChunkFolderMove(
+  tx: Transaction,
+  pageId: string,
+  folderId: string,
+): Promise<void> {
+  await tx.execute(
+    `INSERT INTO pending_chunk_folder_moves (page_id, folder_id, created_at) VALUES (?, ?, ?)
+     ON CONFLICT(page_id) DO UPDATE SET
+       folder_id = excluded.folder_id,
+       created_at = excluded.created_at,
+       attempts = 0,
+       last_error = NULL`,
+    [pageId, folderId, Date.now()],
+  );
+}
+
+/**
+ * Load all queued folder_id updates, oldest first
+ */
+export async function loadPendingChunkFolderMoves(): Promise<PendingChunkFolderMove[]> {
+  try {
+    const rows = await queryAll(
+      'SELECT * FROM pending_chunk_folder_moves ORDER BY created_at ASC',
+    );
+    return rows.map(rowToPendingFolderMove);
+  } catch (error) {
+    console.error('Failed to load pending chunk folder moves:', error);
+    return [];
+  }
+}
+
+/**
+ * Remove a queued update once the backend has applied it. The folder is
+ * matched too, so a move queued while the request was in flight survives.
+ */
+export async function removePendingChunkFolderMove(
+  pageId: string,
+  folderId: string,
+): Promise<void> {
+  await execute(
+    'DELETE FROM pending_chunk_folder_moves WHERE page_id = ? AND folder_id = ?',
+    [pageId, folderId],
+  );
+}
+
+/**
+ * Record a failed attempt for queued updates so they can be retried later
+ */
+export async function recordChunkFolderMoveFailure(
+  pageIds: string[],
+  errorMessage: string,
+): Promise<void> {
+  if (pageIds.length === 0) {
+    return;
+  }
+  await execute(
+    `UPDATE pending_chunk_folder_moves SET attempts = attempts + 1, last_error = ?
+     WHERE page_id IN (${placeholders(pageIds.length)})`,
+    [errorMessage, ...pageIds],
+  );
+}
@@ -0,0 +1,108 @@
+import { execute, placeholders, queryAll, Row, Transaction } from './db';
+
+/**
+ * A page whose position changed locally and whose server chunks still carry
+ * the old page_index. Only the latest index per page is kept.
+ */
+export interface PendingChunkPageIndex {
+  pageId: string;
+  pageIndex: number;
+  createdAt: number;
+  attempts: number;
+  lastError: string | null;
+}
+
+/**
+ * Internal helper: Map a pending_chunk_page_indexes row
+ */
+function rowToPendingPageIndex(row: Row): PendingChunkPageIndex {
+  return {
+    pageId: row.page_id as string,
+    pageIndex: row.page_index as number,
+    createdAt: row.created_at as number,
+    attempts: row.attempts as number,
+    lastError: (row.last_error as string | null) ?? null,
+  };
+}
+
+/**
+ * Queue a chunk page_index update inside an existing transaction.
+ * Replaces any update still queued for the same page.
+ */
+export async function enqueueChunkPageIndexUpdate(
+  tx: Transaction,
+  pageId: string,
+  pageIndex: number,
+): Promise<void> {
+  await tx.execute(
+    `INSERT INTO pending_chunk_page_indexes (page_id, page_index, created_at) VALUES (?, ?, ?)
+     ON CONFLICT(page_id) DO UPDATE SET
+       page_index = excluded.page_index,
+       created_at = excluded.created_at,
+       attempts = 0,
+       last_error = NULL`,
+    [pageId, pageIndex, Date.now()],
+  );
+}
+
+/**
+ * Drop queued page_index updates for pages that no longer exist
+ */
+export async function discardChunkPageIndexUpdates(
+  tx: Transaction,
+  pageIds: string[],
+): Promise<void> {
+  if (pageIds.length === 0) {
+    return;
+  }
+  await tx.execute(
+    `DELETE FROM pending_chunk_page_indexes WHERE page_id IN (${placeholders(pageIds.length)})`,
+    pageIds,
+  );
+}
+
+/**
+ * Load all queued page_index updates, oldest first
+ */
+export async function loadPendingChunkPageIndexes(): Promise<PendingChunkPageIndex[]> {
+  try {
+    const rows = await queryAll(
+      'SELECT * FROM pending_chunk_page_indexes ORDER BY created_at ASC',
+    );
+    return rows.map(rowToPendingPageIndex);
+  } catch (error) {
+    console.error('Failed to load pending chunk page indexes:', error);
+    return [];
+  }
+}
+
+/**
+ * Remove a queued update once the backend has applied it. The index is
+ * matched too, so an update queued while the request was in flight survives.
+ */
+export async function removePendingChunkPageIndex(
+  pageId: string,
+  pageIndex: number,
+): Promise<void> {
+  await execute(
+    'DELETE FROM pending_chunk_page_indexes WHERE page_id = ? AND page_index = ?',
+    [pageId, pageIndex],
+  );
+}
+
+/**
+ * Record a failed attempt for queued updates so they can be retried later
+ */
+export async function recordChunkPageIndexFailure(
+  pageIds: string[],
+  errorMessage: string,
+): Promise<void> {
+  if (pageIds.length === 0) {
+    return;
+  }
+  await execute(
+    `UPDATE pending_chunk_page_indexes SET attempts = attempts + 1, last_error = ?
+     WHERE page_id IN (${placeholders(pageIds.length)})`,
+    [errorMessage, ...pageIds],
+  );
+}
@@ -0,0 +1,96 @@
+import { v4 as uuidv4 } from 'uuid';
+import { execute, queryAll, Row, Transaction } from './db';
+
+/**
+ * A server-side chunk purge that has not been confirmed by the backend yet.
+ * Exactly one of folderId / sourceIds is set.
+ */
+export interface PendingChunkPurge {
+  id: string;
+  folderId: string | null;
+  sourceIds: string[] | null;
+  createdAt: number;
+  attempts: number;
+  lastError: string | null;
+}
+
+export type ChunkPurgeTarget = { folderId: string } | { sourceIds: string[] };
+
+// Maximum sourceIds per purge request (matches the purgeChunks edge function)
+const MAX_SOURCE_IDS_PER_PURGE = 500;
+
+/**
+ * Internal helper: Map a pending_chunk_purges row to a PendingChunkPurge
+ */
+function rowToPendingPurge(row: Row): PendingChunkPurge {
+  const sourceIdsJson = row.source_ids as string | null;
+  return {
+    id: row.id as string,
+    folderId: (row.folder_id as string | null) ?? null,
+    sourceIds: sourceIdsJson ? (JSON.parse(sourceIdsJson) as string[]) : null,
+    createdAt: row.created_at as number,
+    attempts: row.attempts as number,
+    lastError: (row.last_error as string | null) ?? null,
+  };
+}
+
+/**
+ * Queue a chunk purge inside an existing transaction, so the purge is recorded
+ * atomically with the local delete that made it necessary.
+ * Large sourceIds lists are split into several purges.
+ */
+export async function enqueueChunkPurge(
+  tx: Transaction,
+  target: ChunkPurgeTarget,
+): Promise<void> {
+  const now = Date.now();
+  if ('folderId' in target) {
+    await tx.execute(
+      'INSERT INTO pending_chunk_purges (id, folder_id, source_ids, created_at) VALUES (?, ?, ?, ?)',
+      [uuidv4(), target.folderId, null, now],
+    );
+    return;
+  }
+  for (let start = 0; start < target.sourceIds.length; start += MAX_SOURCE_IDS_PER_PURGE) {
+    const batch = target.sourceIds.slice(start, start + MAX_SOURCE_IDS_PER_PURGE);
+    await tx.execute(
+      'INSERT INTO pending_chunk_purges (id, folder_id, source_ids, created_at) VALUES (?, ?, ?, ?)',
+      [uuidv4(), null, JSON.stringify(batch), now],
+    );
+  }
+}
+
+/**
+ * Load all queued chunk purges, oldest first
+ */
+export async function loadPendingChunkPurges(): Promise<PendingChunkPurge[]> {
+  try {
+    const rows = await queryAll(
+      'SELECT * FROM pending_chunk_purges ORDER BY created_at ASC, rowid ASC',
+    );
+    return rows.map(rowToPendingPurge);
+  } catch (error) {
+    console.error('Failed to load pending chunk purges:', error);
+    return [];
+  }
+}
+
+/**
+ * Remove a queued chunk purge once the backend has confirmed it
+ */
+export async function removePendingChunkPurge(id: string): Promise<void> {
+  await execute('DELETE FROM pending_chunk_purges WHERE id = ?', [id]);
+}
+
+/**
+ * Record a failed purge attempt so it can be retried later
+ */
+export async function recordChunkPurgeFailure(
+  id: string,
+  errorMessage: string,
+): Promise<void> {
+  await execute(
+    'UPDATE pending_chunk_purges SET attempts = attempts + 1, last_error = ? WHERE id = ?',
+    [errorMessage, id],
+  );
+}
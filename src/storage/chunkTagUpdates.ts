@@ -0,0 +1,92 @@
+import { execute, placeholders, queryAll, Row, Transaction } from './db';
+
+/**
+ * A note whose tags changed while its server chunks still carry the old
+ * tags in their metadata. Only the latest tags per note are kept.
+ */
+export interface PendingChunkTagUpdate {
+  noteId: string;
+  tags: string[];
+  createdAt: number;
+  attempts: number;
+  lastError: string | null;
+}
+
+/**
+ * Internal helper: Map a pending_chunk_tag_updates row
+ */
+function rowToPendingTagUpdate(row: Row): PendingChunkTagUpdate {
+  return {
+    noteId: row.note_id as string,
+    tags: JSON.parse(row.tags as string) as string[],
+    createdAt: row.created_at as number,
+    attempts: row.attempts as number,
+    lastError: (row.last_error as string | null) ?? null,
+  };
+}
+
+/**
+ * Queue a chunk tags update inside an existing transaction.
+ * Replaces any update still queued for the same note.
+ */
+export async function enqueueChunkTagUpdate(
+  tx: Transaction,
+  noteId: string,
+  tags: string[],
+): Promise<void> {
+  await tx.execute(
+    `INSERT INTO pending_chunk_tag_updates (note_id, tags, created_at) VALUES (?, ?, ?)
+     ON CONFLICT(note_id) DO UPDATE SET
+       tags = excluded.tags,
+       created_at = excluded.created_at,
+       attempts = 0,
+       last_error = NULL`,
+    [noteId, JSON.stringify(tags), Date.now()],
+  );
+}
+
+/**
+ * Load all queued tags updates, oldest first
+ */
+export async function loadPendingChunkTagUpdates(): Promise<PendingChunkTagUpdate[]> {
+  try {
+    const rows = await queryAll(
+      'SELECT * FROM pending_chunk_tag_updates ORDER BY created_at ASC',
+    );
+    return rows.map(rowToPendingTagUpdate);
+  } catch (error) {
+    console.error('Failed to load pending chunk tag updates:', error);
+    return [];
+  }
+}
+
+/**
+ * Remove a queued update once the backend has applied it. The tags are
+ * matched too, so an edit queued while the request was in flight survives.
+ */
+export async function removePendingChunkTagUpdate(
+  noteId: string,
+  tags: string[],
+): Promise<void> {
+  await execute('DELETE FROM pending_chunk_tag_updates WHERE note_id = ? AND tags = ?', [
+    noteId,
+    JSON.stringify(tags),
+  ]);
+}
+
+/**
+ * Record a failed attempt for queued updates so they can be retried later
+ */
+export async function recordChunkTagUpdateFailure(
+  noteIds: string[],
+  errorMessage: string,
+): Promise<void> {
+  if (noteIds.length === 0) {
+    return;
+  }
+  await execute(
+    `UPDATE pending_chunk_tag_updates SET attempts = attempts + 1, last_error = ?
+     WHERE note_id IN (${placeholders(noteIds.length)})`,
+    [errorMessage, ...noteIds],
+  );
+}
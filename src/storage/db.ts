@@ -0,0 +1,109 @@
+/**
+ * SQLite Database
+ *
+ * Owns the single local database connection. On first use it:
+ * - Opens the database file
+ * - Applies pending schema migrations (see migrations.ts)
+ * - Runs the one-time importer for legacy AsyncStorage data
+ *
+ * Repository modules should only talk to SQLite through the helpers below.
+ */
+
+import { open, DB, Scalar, Transaction } from '@op-engineering/op-sqlite';
+import { MIGRATIONS } from './migrations';
+import { importLegacyAsyncStorage } from './legacyImport';
+
+const DATABASE_NAME = 'contextnotes.sqlite';
+
+export type Row = Record<string, Scalar>;
+export type SqlParams = Scalar[];
+export type { Transaction };
+
+let dbPromise: Promise<DB> | null = null;
+
+async function getSchemaVersion(db: DB): Promise<number> {
+  const result = await db.execute('PRAGMA user_version');
+  const version = result.rows[0]?.user_version;
+  return typeof version === 'number' ? version : 0;
+}
+
+async function runMigrations(db: DB): Promise<void> {
+  const currentVersion = await getSchemaVersion(db);
+  const pending = MIGRATIONS
+    .filter(migration => migration.version > currentVersion)
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    console.log(`[db] Applying migration ${migration.version}: ${migration.name}`);
+    await db.transaction(async tx => {
+      for (const statement of migration.statements) {
+        await tx.execute(statement);
+      }
+      // PRAGMA does not accept bound parameters
+      await tx.execute(`PRAGMA user_version = ${migration.version}`);
+    });
+  }
+}
+
+async function initialize(): Promise<DB> {
+  const db = open({ name: DATABASE_NAME });
+  await runMigrations(db);
+  await importLegacyAsyncStorage(db);
+  return db;
+}
+
+/**
+ * Get the initialized database connection.
+ * The first call opens the database and runs migrations; later calls reuse it.
+ */
+export function getDb(): Promise<DB> {
+  if (!dbPromise) {
+    dbPromise = initialize().catch(error => {
+      // Allow a later call to retry initialization
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Build a `?, ?, ?` placeholder list for an IN (...) clause
+ */
+export function placeholders(count: number): string {
+  return new Array(count).fill('?').join(', ');
+}
+
+/**
+ * Run a query and return all result rows
+ */
+export async function queryAll(sql: string, params: SqlParams = []): Promise<Row[]> {
+  const db = await getDb();
+  const result = await db.execute(sql, params);
+  return result.rows;
+}
+
+/**
+ * Run a query and return the first result row (or null)
+ */
+export async function queryFirst(sql: string, params: SqlParams = []): Promise<Row | null> {
+  const rows = await queryAll(sql, params);
+  return rows[0] ?? null;
+}
+
+/**
+ * Run a write statement and return the number of affected rows
+ */
+export async function execute(sql: string, params: SqlParams = []): Promise<number> {
+  const db = await getDb();
+  const result = await db.execute(sql, params);
+  return result.rowsAffected;
+}
+
+/**
+ * Run several statements atomically. Any thrown error rolls back the transaction.
+ */
+export async function transaction(fn: (tx: Transaction) => Promise<void>): Promise<void> {
+  const db = await getDb();
+  await db.transaction(fn);
+}
@@ -1,53 +1,76 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { DrawingData } from '../types/models';
+import { queryFirst, transaction, Transaction } from './db';
+import { enqueueCoalescedWrite, writeKeys } from './writeQueue';
 
-const PAGE_DRAWINGS_KEY = '@pageDrawings';
-
-type PageDrawingsMap = Record<string, string>;
-
-async function loadAllDrawings(): Promise<PageDrawingsMap> {
-  try {
-    const json = await AsyncStorage.getItem(PAGE_DRAWINGS_KEY);
-    if (!json) {
-      return {};
-    }
-    return JSON.parse(json) as PageDrawingsMap;
-  } catch (error) {
-    console.error('Failed to load page drawings:', error);
-    return {};
-  }
-}
-
-async function saveAllDrawings(drawings: PageDrawingsMap): Promise<void> {
-  await AsyncStorage.setItem(PAGE_DRAWINGS_KEY, JSON.stringify(drawings));
-}
+const UPSERT_DRAWING_SQL = `INSERT INTO page_drawings (page_id, drawing_json, updated_at) VALUES (?, ?, ?)
+  ON CONFLICT(page_id) DO UPDATE SET
+    drawing_json = excluded.drawing_json,
+    updated_at = excluded.updated_at`;
 
 export async function loadDrawingData(
   pageId: string,
 ): Promise<DrawingData | null> {
   try {
-    const drawings = await loadAllDrawings();
-    const serialized = drawings[pageId];
-    if (!serialized) {
+    const row = await queryFirst(
+      'SELECT drawing_json FROM page_drawings WHERE page_id = ?',
+      [pageId],
+    );
+    if (!row) {
       return null;
     }
-    return JSON.parse(serialized) as DrawingData;
+    return JSON.parse(row.drawing_json as string) as DrawingData;
   } catch (error) {
     console.error('Failed to load drawing data for page:', pageId, error);
     return null;
   }
 }
 
+/**
+ * Save a page's drawing. When the drawing changed, the note's updated_at is
+ * bumped too, so notes can be sorted by last modified. Saving an unchanged
+ * drawing (e.g. when leaving the page) writes nothing.
+ */
 export async function saveDrawingData(
   pageId: string,
   drawingData: DrawingData,
 ): Promise<void> {
   try {
-    const drawings = await loadAllDrawings();
-    drawings[pageId] = JSON.stringify(drawingData);
-    await saveAllDrawings(drawings);
+    const drawingJson = JSON.stringify(drawingData);
+    // Rapid saves of the same page collapse into one write of the latest data
+    await enqueueCoalescedWrite(writeKeys.drawing(pageId), async () => {
+      const stored = await queryFirst(
+        'SELECT drawing_json FROM page_drawings WHERE page_id = ?',
+        [pageId],
+      );
+      if (stored?.drawing_json === drawingJson) {
+        return;
+      }
+      await transaction(async tx => {
+        const now = Date.now();
+        await tx.execute(UPSERT_DRAWING_SQL, [pageId, drawingJson, now]);
+        await tx.execute(
+          'UPDATE notes SET updated_at = ? WHERE id = (SELECT note_id FROM pages WHERE id = ?)',
+          [now, pageId],
+        );
+      });
+    });
   } catch (error) {
     console.error('Failed to save drawing data for page:', pageId, error);
     throw error;
   }
 }
+
+/**
+ * Write drawing data inside an existing transaction (for pages created in it)
+ */
+export async function saveDrawingDataInTransaction(
+  tx: Transaction,
+  pageId: string,
+  drawingData: DrawingData,
+): Promise<void> {
+  await tx.execute(UPSERT_DRAWING_SQL, [
+    pageId,
+    JSON.stringify(drawingData),
+    Date.now(),
+  ]);
+}
@@ -1,20 +1,62 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { v4 as uuidv4 } from 'uuid';
 import { Folder } from '../types/models';
+import {
+  execute,
+  placeholders,
+  queryAll,
+  Row,
+  SqlParams,
+  transaction,
+  Transaction,
+} from './db';
+import { deletePageRecords, markPagesUnindexed } from './pages';
+import { enqueueChunkPurge } from './chunkPurges';
+import { deleteListSorts } from './listSort';
+import { deleteNoteTags } from './tags';
+import { waitForPendingWrites } from './writeQueue';
 
-const FOLDERS_KEY = '@folders';
+/**
+ * CTE selecting the ids of folders that are reachable in the folder tree:
+ * not in the trash themselves and not inside a trashed folder.
+ * Prefix a query with it and filter on `IN (SELECT id FROM live_folders)`.
+ */
+export const LIVE_FOLDERS_CTE = `WITH RECURSIVE live_folders(id) AS (
+  SELECT id FROM folders WHERE parent_id IS NULL AND deleted_at IS NULL
+  UNION ALL
+  SELECT folders.id FROM folders JOIN live_folders ON folders.parent_id = live_folders.id
+  WHERE folders.deleted_at IS NULL
+)`;
 
 /**
- * Load all folders from AsyncStorage
+ * Map a folders row to a Folder
+ */
+export function rowToFolder(row: Row): Folder {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    parentId: (row.parent_id as string | null) ?? null,
+    description: (row.description as string | null) ?? null,
+    color: (row.color as string | null) ?? null,
+    courseCode: (row.course_code as string | null) ?? null,
+    createdAt: row.created_at as number,
+    updatedAt: row.updated_at as number,
+    lastOpenedAt: (row.last_opened_at as number | null) ?? null,
+    deletedAt: (row.deleted_at as number | null) ?? null,
+  };
+}
+
+/**
+ * Load all folders of the folder tree from SQLite, at every level.
+ * Folders in the trash and the subfolders inside them are skipped.
  */
 export async function loadFolders(): Promise<Folder[]> {
   try {
-    const json = await AsyncStorage.getItem(FOLDERS_KEY);
-    if (!json) {
-      return [];
-    }
-    const folders = JSON.parse(json) as Folder[];
-    return folders;
+    const rows = await queryAll(
+      `${LIVE_FOLDERS_CTE}
+       SELECT * FROM folders WHERE id IN (SELECT id FROM live_folders)
+       ORDER BY created_at ASC, rowid ASC`,
+    );
+    return rows.map(rowToFolder);
   } catch (error) {
     console.error('Failed to load folders:', error);
     return [];
@@ -22,21 +64,37 @@ export async function loadFolders(): Promise<Folder[]> {
 }
 
 /**
- * Save a new folder and return the updated folder list
+ * Internal helper: Load the ids of a folder and all folders nested inside it,
+ * including ones in the trash
+ */
+async function loadFolderSubtreeIds(tx: Transaction, id: string): Promise<string[]> {
+  const result = await tx.execute(
+    `WITH RECURSIVE subtree(id) AS (
+       SELECT id FROM folders WHERE id = ?
+       UNION ALL
+       SELECT folders.id FROM folders JOIN subtree ON folders.parent_id = subtree.id
+     )
+     SELECT id FROM subtree`,
+    [id],
+  );
+  return result.rows.map(row => row.id as string);
+}
+
+/**
+ * Save a new folder (top-level, or inside parentId) and return the updated
+ * folder list
  */
-export async function createFolder(name: string): Promise<Folder[]> {
+export async function createFolder(
+  name: string,
+  parentId: string | null = null,
+): Promise<Folder[]> {
   try {
-    const folders = await loadFolders();
     const now = Date.now();
-    const newFolder: Folder = {
-      id: uuidv4(),
-      name: name.trim(),
-      createdAt: now,
-      updatedAt: now,
-    };
-    const updated = [...folders, newFolder];
-    await AsyncStorage.setItem(FOLDERS_KEY, JSON.stringify(updated));
-    return updated;
+    await execute(
+      'INSERT INTO folders (id, name, parent_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?)',
+      [uuidv4(), name.trim(), parentId, now, now],
+    );
+    return loadFolders();
   } catch (error) {
     console.error('Failed to create folder:', error);
     throw error;
@@ -44,21 +102,38 @@ export async function createFolder(name: string): Promise<Folder[]> {
 }
 
 /**
- * Update an existing folder and return the updated folder list
+ * Update an existing folder's name or details and return the updated folder list
  */
 export async function updateFolder(
   id: string,
-  updates: Partial<Pick<Folder, 'name'>>,
+  updates: Partial<Pick<Folder, 'name' | 'description' | 'color' | 'courseCode'>>,
 ): Promise<Folder[]> {
   try {
-    const folders = await loadFolders();
-    const updated = folders.map(folder =>
-      folder.id === id
-        ? { ...folder, ...updates, updatedAt: Date.now() }
-        : folder,
-    );
-    await AsyncStorage.setItem(FOLDERS_KEY, JSON.stringify(updated));
-    return updated;
+    const assignments: string[] = [];
+    const params: SqlParams = [];
+    if (updates.name !== undefined) {
+      assignments.push('name = ?');
+      params.push(updates.name.trim());
+    }
+    if (updates.description !== undefined) {
+      assignments.push('description = ?');
+      params.push(updates.description);
+    }
+    if (updates.color !== undefined) {
+      assignments.push('color = ?');
+      params.push(updates.color);
+    }
+    if (updates.courseCode !== undefined) {
+      assignments.push('course_code = ?');
+      params.push(updates.courseCode);
+    }
+    if (assignments.length > 0) {
+      await execute(
+        `UPDATE folders SET ${assignments.join(', ')}, updated_at = ? WHERE id = ?`,
+        [...params, Date.now(), id],
+      );
+    }
+    return loadFolders();
   } catch (error) {
     console.error('Failed to update folder:', error);
     throw error;
@@ -66,16 +141,145 @@ export async function updateFolder(
 }
 
 /**
- * Delete a folder and return the updated folder list
+ * Record that a folder was opened, for sorting by last opened.
+ * This function does not throw - a missed timestamp is not worth an error.
+ */
+export async function markFolderOpened(id: string): Promise<void> {
+  try {
+    await execute('UPDATE folders SET last_opened_at = ? WHERE id = ?', [Date.now(), id]);
+  } catch (error) {
+    console.error('Failed to mark folder opened:', id, error);
+  }
+}
+
+/**
+ * Delete a folder and return the updated folder list.
+ * Also deletes its subfolders and every note in them with their pages,
+ * drawings and paper settings, and queues a purge of the folders' server
+ * chunks (see ai/chunkSyncService.ts).
  */
 export async function deleteFolder(id: string): Promise<Folder[]> {
   try {
-    const folders = await loadFolders();
-    const updated = folders.filter(folder => folder.id !== id);
-    await AsyncStorage.setItem(FOLDERS_KEY, JSON.stringify(updated));
-    return updated;
+    // Let queued saves of the folder's pages land first, or they would
+    // re-create rows for deleted pages
+    await waitForPendingWrites();
+
+    await transaction(async tx => {
+      const folderIds = await loadFolderSubtreeIds(tx, id);
+      if (folderIds.length === 0) {
+        return;
+      }
+      const folderList = placeholders(folderIds.length);
+      const noteRows = await tx.execute(
+        `SELECT id FROM notes WHERE folder_id IN (${folderList})`,
+        folderIds,
+      );
+      const noteIds = noteRows.rows.map(row => row.id as string);
+      if (noteIds.length > 0) {
+        const pageRows = await tx.execute(
+          `SELECT id FROM pages WHERE note_id IN (${placeholders(noteIds.length)})`,
+          noteIds,
+        );
+        await deletePageRecords(tx, pageRows.rows.map(row => row.id as string));
+        await tx.execute(`DELETE FROM notes WHERE folder_id IN (${folderList})`, folderIds);
+        await deleteNoteTags(tx, noteIds);
+      }
+      await tx.execute(`DELETE FROM folders WHERE id IN (${folderList})`, folderIds);
+      await deleteListSorts(tx, folderIds);
+      for (const folderId of folderIds) {
+        await enqueueChunkPurge(tx, { folderId });
+      }
+    });
+    return loadFolders();
   } catch (error) {
     console.error('Failed to delete folder:', error);
     throw error;
   }
 }
+
+/**
+ * Move a folder to the trash and return the updated folder list.
+ * Its subfolders go with it. The server chunks of the folder and its
+ * subfolders are purged right away so they drop out of AI context; their
+ * pages are re-indexed after a restore.
+ */
+export async function trashFolder(id: string): Promise<Folder[]> {
+  try {
+    await transaction(async tx => {
+      const now = Date.now();
+      await tx.execute('UPDATE folders SET deleted_at = ?, updated_at = ? WHERE id = ?', [
+        now,
+        now,
+        id,
+      ]);
+      const folderIds = await loadFolderSubtreeIds(tx, id);
+      if (folderIds.length === 0) {
+        return;
+      }
+      const pageRows = await tx.execute(
+        `SELECT pages.id FROM pages JOIN notes ON notes.id = pages.note_id
+         WHERE notes.folder_id IN (${placeholders(folderIds.length)})`,
+        folderIds,
+      );
+      await markPagesUnindexed(tx, pageRows.rows.map(row => row.id as string));
+      for (const folderId of folderIds) {
+        await enqueueChunkPurge(tx, { folderId });
+      }
+    });
+    return loadFolders();
+  } catch (error) {
+    console.error('Failed to move folder to trash:', error);
+    throw error;
+  }
+}
+
+/**
+ * Move a folder into another folder (or to the top level when parentId is
+ * null) and return the updated folder list. Throws if the target is the
+ * folder itself or one of its subfolders. Server chunks are keyed by the
+ * folder that holds each note, so nothing has to be re-indexed.
+ */
+export async function moveFolder(id: string, parentId: string | null): Promise<Folder[]> {
+  try {
+    await transaction(async tx => {
+      if (parentId !== null) {
+        const subtreeIds = await loadFolderSubtreeIds(tx, id);
+        if (subtreeIds.includes(parentId)) {
+          throw new Error('A folder cannot be moved into itself or one of its subfolders.');
+        }
+        const parent = await tx.execute(
+          'SELECT id FROM folders WHERE id = ? AND deleted_at IS NULL',
+          [parentId],
+        );
+        if (parent.rows.length === 0) {
+          throw new Error('The target folder no longer exists.');
+        }
+      }
+      await tx.execute('UPDATE folders SET parent_id = ?, updated_at = ? WHERE id = ?', [
+        parentId,
+        Date.now(),
+        id,
+      ]);
+    });
+    return loadFolders();
+  } catch (error) {
+    console.error('Failed to move folder:', error);
+    throw error;
+  }
+}
+
+/**
+ * Restore a folder from the trash with the subfolders and notes it held when
+ * it was trashed
+ */
+export async function restoreFolder(id: string): Promise<void> {
+  try {
+    await execute('UPDATE folders SET deleted_at = NULL, updated_at = ? WHERE id = ?', [
+      Date.now(),
+      id,
+    ]);
+  } catch (error) {
+    console.error('Failed to restore folder:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Legacy AsyncStorage Importer
+ *
+ * Before the SQLite data layer, every repository stored one JSON blob in
+ * AsyncStorage. This module moves those blobs into SQLite exactly once and
+ * then removes them. It runs during database initialization (see db.ts).
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { DB } from '@op-engineering/op-sqlite';
+import { Folder, Note, Page, PaperSettings } from '../types/models';
+
+const LEGACY_FOLDERS_KEY = '@folders';
+const LEGACY_NOTES_KEY = '@notes';
+const LEGACY_PAGES_KEY = '@pages';
+const LEGACY_DRAWINGS_KEY = '@pageDrawings';
+const LEGACY_PAPER_SETTINGS_KEY = '@paperSettings';
+
+const LEGACY_KEYS = [
+  LEGACY_FOLDERS_KEY,
+  LEGACY_NOTES_KEY,
+  LEGACY_PAGES_KEY,
+  LEGACY_DRAWINGS_KEY,
+  LEGACY_PAPER_SETTINGS_KEY,
+];
+
+const IMPORT_COMPLETE_META_KEY = 'legacy_async_storage_imported';
+
+function parseBlob<T>(json: string | null | undefined, fallback: T): T {
+  if (!json) {
+    return fallback;
+  }
+  try {
+    return JSON.parse(json) as T;
+  } catch (error) {
+    console.error('[legacyImport] Failed to parse legacy blob:', error);
+    return fallback;
+  }
+}
+
+async function isImportComplete(db: DB): Promise<boolean> {
+  const result = await db.execute('SELECT value FROM app_meta WHERE key = ?', [
+    IMPORT_COMPLETE_META_KEY,
+  ]);
+  return result.rows.length > 0;
+}
+
+/**
+ * Import legacy AsyncStorage data into SQLite if it has not been done yet.
+ * Existing SQLite rows win over legacy rows with the same ID.
+ */
+export async function importLegacyAsyncStorage(db: DB): Promise<void> {
+  if (await isImportComplete(db)) {
+    return;
+  }
+
+  const entries = await AsyncStorage.multiGet(LEGACY_KEYS);
+  const blobs = Object.fromEntries(entries);
+
+  const folders = parseBlob<Folder[]>(blobs[LEGACY_FOLDERS_KEY], []);
+  const notes = parseBlob<Note[]>(blobs[LEGACY_NOTES_KEY], []);
+  const pages = parseBlob<Page[]>(blobs[LEGACY_PAGES_KEY], []);
+  const drawings = parseBlob<Record<string, string>>(blobs[LEGACY_DRAWINGS_KEY], {});
+  const paperSettings = parseBlob<Record<string, PaperSettings>>(
+    blobs[LEGACY_PAPER_SETTINGS_KEY],
+    {},
+  );
+
+  const now = Date.now();
+
+  await db.transaction(async tx => {
+    for (const folder of folders) {
+      await tx.execute(
+        'INSERT OR IGNORE INTO folders (id, name, created_at, updated_at) VALUES (?, ?, ?, ?)',
+        [folder.id, folder.name, folder.createdAt, folder.updatedAt],
+      );
+    }
+
+    for (const note of notes) {
+      await tx.execute(
+        'INSERT OR IGNORE INTO notes (id, folder_id, title, created_at, updated_at) VALUES (?, ?, ?, ?, ?)',
+        [note.id, note.folderId, note.title, note.createdAt, note.updatedAt],
+      );
+    }
+
+    for (const page of pages) {
+      await tx.execute(
+        `INSERT OR IGNORE INTO pages (
+          id, note_id, page_index, created_at, updated_at,
+          index_status, indexed_at, index_error, last_indexed_hash
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          page.id,
+          page.noteId,
+          page.pageIndex,
+          page.createdAt,
+          page.updatedAt,
+          page.indexStatus ?? 'none',
+          page.indexedAt ?? null,
+          page.indexError ?? null,
+          page.lastIndexedHash ?? null,
+        ],
+      );
+    }
+
+    for (const [pageId, drawingJson] of Object.entries(drawings)) {
+      await tx.execute(
+        'INSERT OR IGNORE INTO page_drawings (page_id, drawing_json, updated_at) VALUES (?, ?, ?)',
+        [pageId, drawingJson, now],
+      );
+    }
+
+    for (const [pageId, settings] of Object.entries(paperSettings)) {
+      await tx.execute(
+        'INSERT OR IGNORE INTO paper_settings (page_id, background, line_spacing) VALUES (?, ?, ?)',
+        [pageId, settings.background, settings.lineSpacing],
+      );
+    }
+
+    await tx.execute('INSERT OR REPLACE INTO app_meta (key, value) VALUES (?, ?)', [
+      IMPORT_COMPLETE_META_KEY,
+      String(now),
+    ]);
+  });
+
+  console.log(
+    `[legacyImport] Imported ${folders.length} folders, ${notes.length} notes, ${pages.length} pages`,
+  );
+
+  try {
+    await AsyncStorage.multiRemove(LEGACY_KEYS);
+  } catch (error) {
+    // Not fatal - the import flag prevents the data from being imported twice
+    console.error('[legacyImport] Failed to remove legacy keys:', error);
+  }
+}
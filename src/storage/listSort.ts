@@ -0,0 +1,56 @@
+import { DEFAULT_LIST_SORT, isListSort, ListSort } from '../utils/listSort';
+import { execute, placeholders, queryFirst, Transaction } from './db';
+
+// app_meta key per list: the top-level folder list, or one folder's notes
+const ROOT_SCOPE = 'root';
+
+/**
+ * Internal helper: app_meta key for a list's sort choice
+ */
+function listSortKey(folderId: string | null): string {
+  return `list_sort:${folderId ?? ROOT_SCOPE}`;
+}
+
+/**
+ * Load the sort chosen for the folder list (folderId null) or a folder's notes
+ */
+export async function loadListSort(folderId: string | null): Promise<ListSort> {
+  try {
+    const row = await queryFirst('SELECT value FROM app_meta WHERE key = ?', [
+      listSortKey(folderId),
+    ]);
+    return isListSort(row?.value) ? row.value : DEFAULT_LIST_SORT;
+  } catch (error) {
+    console.error('Failed to load list sort:', error);
+    return DEFAULT_LIST_SORT;
+  }
+}
+
+/**
+ * Remember the sort chosen for the folder list (folderId null) or a folder's notes
+ */
+export async function saveListSort(folderId: string | null, sort: ListSort): Promise<void> {
+  try {
+    await execute('INSERT OR REPLACE INTO app_meta (key, value) VALUES (?, ?)', [
+      listSortKey(folderId),
+      sort,
+    ]);
+  } catch (error) {
+    console.error('Failed to save list sort:', error);
+    throw error;
+  }
+}
+
+/**
+ * Forget the sort choices of folders that are being deleted.
+ * Runs inside the caller's transaction.
+ */
+export async function deleteListSorts(tx: Transaction, folderIds: string[]): Promise<void> {
+  if (folderIds.length === 0) {
+    return;
+  }
+  await tx.execute(
+    `DELETE FROM app_meta WHERE key IN (${placeholders(folderIds.length)})`,
+    folderIds.map(listSortKey),
+  );
+}
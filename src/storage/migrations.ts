@@ -0,0 +1,189 @@
+/**
+ * SQLite schema migrations
+ *
+ * Migrations are applied in ascending version order and tracked with
+ * `PRAGMA user_version`. Never edit a migration that has shipped - append a
+ * new one instead.
+ */
+
+export interface Migration {
+  version: number;
+  name: string;
+  statements: string[];
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS folders (
+        id TEXT PRIMARY KEY NOT NULL,
+        name TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS notes (
+        id TEXT PRIMARY KEY NOT NULL,
+        folder_id TEXT NOT NULL,
+        title TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS notes_folder_id_idx ON notes(folder_id)',
+      `CREATE TABLE IF NOT EXISTS pages (
+        id TEXT PRIMARY KEY NOT NULL,
+        note_id TEXT NOT NULL,
+        page_index INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        index_status TEXT NOT NULL DEFAULT 'none',
+        indexed_at INTEGER,
+        index_error TEXT,
+        last_indexed_hash TEXT
+      )`,
+      'CREATE INDEX IF NOT EXISTS pages_note_id_idx ON pages(note_id, page_index)',
+      `CREATE TABLE IF NOT EXISTS page_drawings (
+        page_id TEXT PRIMARY KEY NOT NULL,
+        drawing_json TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS paper_settings (
+        page_id TEXT PRIMARY KEY NOT NULL,
+        background TEXT NOT NULL,
+        line_spacing TEXT NOT NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS app_meta (
+        key TEXT PRIMARY KEY NOT NULL,
+        value TEXT
+      )`,
+    ],
+  },
+  {
+    version: 2,
+    name: 'pending_chunk_purges',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS pending_chunk_purges (
+        id TEXT PRIMARY KEY NOT NULL,
+        folder_id TEXT,
+        source_ids TEXT,
+        created_at INTEGER NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT
+      )`,
+    ],
+  },
+  {
+    version: 3,
+    name: 'pending_chunk_page_indexes',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS pending_chunk_page_indexes (
+        page_id TEXT PRIMARY KEY NOT NULL,
+        page_index INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT
+      )`,
+    ],
+  },
+  {
+    version: 4,
+    name: 'soft_delete',
+    statements: [
+      'ALTER TABLE folders ADD COLUMN deleted_at INTEGER',
+      'ALTER TABLE notes ADD COLUMN deleted_at INTEGER',
+      'ALTER TABLE pages ADD COLUMN deleted_at INTEGER',
+    ],
+  },
+  {
+    version: 5,
+    name: 'page_snapshots',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS page_snapshots (
+        id TEXT PRIMARY KEY NOT NULL,
+        page_id TEXT NOT NULL,
+        drawing_json TEXT NOT NULL,
+        stroke_count INTEGER NOT NULL,
+        reason TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS page_snapshots_page_id_idx ON page_snapshots(page_id, created_at)',
+    ],
+  },
+  {
+    version: 6,
+    name: 'folder_hierarchy',
+    statements: [
+      'ALTER TABLE folders ADD COLUMN parent_id TEXT',
+      'CREATE INDEX IF NOT EXISTS folders_parent_id_idx ON folders(parent_id)',
+    ],
+  },
+  {
+    version: 7,
+    name: 'pending_chunk_folder_moves',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS pending_chunk_folder_moves (
+        page_id TEXT PRIMARY KEY NOT NULL,
+        folder_id TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT
+      )`,
+    ],
+  },
+  {
+    version: 8,
+    name: 'item_metadata',
+    statements: [
+      'ALTER TABLE folders ADD COLUMN description TEXT',
+      'ALTER TABLE folders ADD COLUMN color TEXT',
+      'ALTER TABLE folders ADD COLUMN course_code TEXT',
+      'ALTER TABLE folders ADD COLUMN last_opened_at INTEGER',
+      'ALTER TABLE notes ADD COLUMN description TEXT',
+      'ALTER TABLE notes ADD COLUMN color TEXT',
+      'ALTER TABLE notes ADD COLUMN course_code TEXT',
+      'ALTER TABLE notes ADD COLUMN last_opened_at INTEGER',
+    ],
+  },
+  {
+    version: 9,
+    name: 'note_tags',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS note_tags (
+        note_id TEXT NOT NULL,
+        tag TEXT NOT NULL,
+        PRIMARY KEY (note_id, tag)
+      )`,
+      'CREATE INDEX IF NOT EXISTS note_tags_tag_idx ON note_tags(tag)',
+      `CREATE TABLE IF NOT EXISTS pending_chunk_tag_updates (
+        note_id TEXT PRIMARY KEY NOT NULL,
+        tags TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT
+      )`,
+    ],
+  },
+  {
+    version: 10,
+    name: 'page_views',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS page_views (
+        page_id TEXT PRIMARY KEY NOT NULL,
+        zoom REAL NOT NULL,
+        offset_x REAL NOT NULL,
+        offset_y REAL NOT NULL
+      )`,
+    ],
+  },
+  {
+    version: 11,
+    name: 'page_sizes',
+    // Existing pages keep NULL until the editor records their layout size
+    statements: [
+      'ALTER TABLE pages ADD COLUMN page_size TEXT',
+      'ALTER TABLE pages ADD COLUMN page_width REAL',
+      'ALTER TABLE pages ADD COLUMN page_height REAL',
+    ],
+  },
+];
@@ -1,42 +1,86 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { v4 as uuidv4 } from 'uuid';
-import { Note } from '../types/models';
+import { DrawingData, Note, PaperSettings } from '../types/models';
+import { execute, queryAll, queryFirst, Row, SqlParams, transaction } from './db';
+import { deletePageRecords, insertPageRecord, markPagesUnindexed, rowToPage } from './pages';
+import { saveDrawingDataInTransaction } from './drawings';
+import { savePaperSettingsInTransaction } from './paperSettings';
+import { enqueueChunkPurge } from './chunkPurges';
+import { enqueueChunkFolderMove } from './chunkFolderMoves';
+import { copyNoteTags, deleteNoteTags } from './tags';
+import { LIVE_FOLDERS_CTE } from './folders';
+import { waitForPendingWrites } from './writeQueue';
 
-const NOTES_KEY = '@notes';
+/**
+ * Map a notes row to a Note
+ */
+export function rowToNote(row: Row): Note {
+  return {
+    id: row.id as string,
+    folderId: row.folder_id as string,
+    title: row.title as string,
+    description: (row.description as string | null) ?? null,
+    color: (row.color as string | null) ?? null,
+    courseCode: (row.course_code as string | null) ?? null,
+    createdAt: row.created_at as number,
+    updatedAt: row.updated_at as number,
+    lastOpenedAt: (row.last_opened_at as number | null) ?? null,
+    deletedAt: (row.deleted_at as number | null) ?? null,
+  };
+}
 
 /**
- * Internal helper: Load all notes from AsyncStorage
+ * Load notes for a specific folder (notes in the trash are skipped)
  */
-async function loadAll(): Promise<Note[]> {
+export async function loadNotesByFolder(folderId: string): Promise<Note[]> {
   try {
-    const json = await AsyncStorage.getItem(NOTES_KEY);
-    if (!json) {
-      return [];
-    }
-    const notes = JSON.parse(json) as Note[];
-    return notes;
+    const rows = await queryAll(
+      'SELECT * FROM notes WHERE folder_id = ? AND deleted_at IS NULL ORDER BY created_at ASC, rowid ASC',
+      [folderId],
+    );
+    return rows.map(rowToNote);
   } catch (error) {
-    console.error('Failed to load notes:', error);
+    console.error('Failed to load notes for folder:', folderId, error);
     return [];
   }
 }
 
 /**
- * Internal helper: Save all notes to AsyncStorage
+ * Load the notes with a tag across all folders (notes in the trash or in a
+ * trashed folder are skipped)
  */
-async function saveAll(notes: Note[]): Promise<void> {
-  await AsyncStorage.setItem(NOTES_KEY, JSON.stringify(notes));
+export async function loadNotesByTag(tag: string): Promise<Note[]> {
+  try {
+    const rows = await queryAll(
+      `${LIVE_FOLDERS_CTE}
+       SELECT notes.* FROM notes
+       JOIN note_tags ON note_tags.note_id = notes.id
+       WHERE note_tags.tag = ? AND notes.deleted_at IS NULL
+         AND notes.folder_id IN (SELECT id FROM live_folders)
+       ORDER BY notes.created_at ASC, notes.rowid ASC`,
+      [tag],
+    );
+    return rows.map(rowToNote);
+  } catch (error) {
+    console.error('Failed to load notes for tag:', tag, error);
+    return [];
+  }
 }
 
 /**
- * Load notes for a specific folder
+ * Load every tag used by notes outside the trash, sorted A-Z
  */
-export async function loadNotesByFolder(folderId: string): Promise<Note[]> {
+export async function loadAllTags(): Promise<string[]> {
   try {
-    const allNotes = await loadAll();
-    return allNotes.filter(note => note.folderId === folderId);
+    const rows = await queryAll(
+      `${LIVE_FOLDERS_CTE}
+       SELECT DISTINCT note_tags.tag FROM note_tags
+       JOIN notes ON notes.id = note_tags.note_id
+       WHERE notes.deleted_at IS NULL AND notes.folder_id IN (SELECT id FROM live_folders)
+       ORDER BY note_tags.tag ASC`,
+    );
+    return rows.map(row => row.tag as string);
   } catch (error) {
-    console.error('Failed to load notes for folder:', folderId, error);
+    console.error('Failed to load tags:', error);
     return [];
   }
 }
@@ -49,40 +93,320 @@ export async function createNote(
   title: string,
 ): Promise<Note[]> {
   try {
-    const allNotes = await loadAll();
     const now = Date.now();
-    const newNote: Note = {
+    await execute(
+      'INSERT INTO notes (id, folder_id, title, created_at, updated_at) VALUES (?, ?, ?, ?, ?)',
+      [uuidv4(), folderId, title.trim(), now, now],
+    );
+    // Return only notes for this folder
+    return loadNotesByFolder(folderId);
+  } catch (error) {
+    console.error('Failed to create note:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get a single note by its ID
+ */
+export async function getNoteById(noteId: string): Promise<Note | null> {
+  try {
+    const row = await queryFirst('SELECT * FROM notes WHERE id = ?', [noteId]);
+    return row ? rowToNote(row) : null;
+  } catch (error) {
+    console.error('Failed to get note:', noteId, error);
+    return null;
+  }
+}
+
+/**
+ * Create a note whose pages are filled with the given drawings, one page per
+ * drawing (at least one page is always created). Used by importers.
+ * Returns the new note.
+ */
+export async function createNoteWithPages(
+  folderId: string,
+  title: string,
+  drawings: DrawingData[],
+): Promise<Note> {
+  try {
+    const now = Date.now();
+    const note: Note = {
       id: uuidv4(),
       folderId,
       title: title.trim(),
+      description: null,
+      color: null,
+      courseCode: null,
       createdAt: now,
       updatedAt: now,
+      lastOpenedAt: null,
+      deletedAt: null,
     };
-    const updated = [...allNotes, newNote];
-    await saveAll(updated);
-    // Return only notes for this folder
-    return updated.filter(note => note.folderId === folderId);
+    await transaction(async tx => {
+      await tx.execute(
+        'INSERT INTO notes (id, folder_id, title, created_at, updated_at) VALUES (?, ?, ?, ?, ?)',
+        [note.id, note.folderId, note.title, note.createdAt, note.updatedAt],
+      );
+      const pageDrawings = drawings.length > 0 ? drawings : [null];
+      for (let i = 0; i < pageDrawings.length; i += 1) {
+        const page = await insertPageRecord(tx, note.id, i);
+        const drawing = pageDrawings[i];
+        if (drawing) {
+          await saveDrawingDataInTransaction(tx, page.id, drawing);
+        }
+      }
+    });
+    return note;
   } catch (error) {
-    console.error('Failed to create note:', error);
+    console.error('Failed to create note with pages:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update a note's title or details and return the notes for its folder
+ */
+export async function updateNote(
+  folderId: string,
+  noteId: string,
+  updates: Partial<Pick<Note, 'title' | 'description' | 'color' | 'courseCode'>>,
+): Promise<Note[]> {
+  try {
+    const assignments: string[] = [];
+    const params: SqlParams = [];
+    if (updates.title !== undefined) {
+      assignments.push('title = ?');
+      params.push(updates.title.trim());
+    }
+    if (updates.description !== undefined) {
+      assignments.push('description = ?');
+      params.push(updates.description);
+    }
+    if (updates.color !== undefined) {
+      assignments.push('color = ?');
+      params.push(updates.color);
+    }
+    if (updates.courseCode !== undefined) {
+      assignments.push('course_code = ?');
+      params.push(updates.courseCode);
+    }
+    if (assignments.length > 0) {
+      await execute(
+        `UPDATE notes SET ${assignments.join(', ')}, updated_at = ? WHERE id = ?`,
+        [...params, Date.now(), noteId],
+      );
+    }
+    return loadNotesByFolder(folderId);
+  } catch (error) {
+    console.error('Failed to update note:', error);
     throw error;
   }
 }
 
 /**
- * Delete a note and return remaining notes for that folder
+ * Record that a note was opened, for sorting by last opened.
+ * This function does not throw - a missed timestamp is not worth an error.
+ */
+export async function markNoteOpened(noteId: string): Promise<void> {
+  try {
+    await execute('UPDATE notes SET last_opened_at = ? WHERE id = ?', [Date.now(), noteId]);
+  } catch (error) {
+    console.error('Failed to mark note opened:', noteId, error);
+  }
+}
+
+/**
+ * Delete a note and return remaining notes for that folder.
+ * Also deletes the note's pages, drawings and paper settings, and queues a
+ * purge of the pages' server chunks (see ai/chunkSyncService.ts).
  */
 export async function deleteNote(
   folderId: string,
   noteId: string,
 ): Promise<Note[]> {
   try {
-    const allNotes = await loadAll();
-    const updated = allNotes.filter(note => note.id !== noteId);
-    await saveAll(updated);
+    // Let queued saves of the note's pages land first, or they would
+    // re-create rows for deleted pages
+    await waitForPendingWrites();
+
+    await transaction(async tx => {
+      const pageRows = await tx.execute('SELECT id FROM pages WHERE note_id = ?', [
+        noteId,
+      ]);
+      const pageIds = pageRows.rows.map(row => row.id as string);
+      await deletePageRecords(tx, pageIds);
+      await tx.execute('DELETE FROM notes WHERE id = ?', [noteId]);
+      await deleteNoteTags(tx, [noteId]);
+      await enqueueChunkPurge(tx, { sourceIds: pageIds });
+    });
     // Return only notes for this folder
-    return updated.filter(note => note.folderId === folderId);
+    return loadNotesByFolder(folderId);
   } catch (error) {
     console.error('Failed to delete note:', error);
     throw error;
   }
 }
+
+/**
+ * Move a note to the trash and return the remaining notes for that folder.
+ * The note's server chunks are purged right away so it drops out of AI
+ * context; its pages are re-indexed after a restore.
+ */
+export async function trashNote(
+  folderId: string,
+  noteId: string,
+): Promise<Note[]> {
+  try {
+    await transaction(async tx => {
+      const now = Date.now();
+      await tx.execute('UPDATE notes SET deleted_at = ?, updated_at = ? WHERE id = ?', [
+        now,
+        now,
+        noteId,
+      ]);
+      const pageRows = await tx.execute(
+        'SELECT id FROM pages WHERE note_id = ? AND deleted_at IS NULL',
+        [noteId],
+      );
+      const pageIds = pageRows.rows.map(row => row.id as string);
+      await markPagesUnindexed(tx, pageIds);
+      await enqueueChunkPurge(tx, { sourceIds: pageIds });
+    });
+    return loadNotesByFolder(folderId);
+  } catch (error) {
+    console.error('Failed to move note to trash:', error);
+    throw error;
+  }
+}
+
+/**
+ * Restore a note from the trash
+ */
+export async function restoreNote(noteId: string): Promise<void> {
+  try {
+    await execute('UPDATE notes SET deleted_at = NULL, updated_at = ? WHERE id = ?', [
+      Date.now(),
+      noteId,
+    ]);
+  } catch (error) {
+    console.error('Failed to restore note:', error);
+    throw error;
+  }
+}
+
+/**
+ * Move a note to another folder and return the remaining notes for the
+ * folder it left. Queues a folder_id update for the server chunks of its
+ * pages (see ai/chunkSyncService.ts), so retrieval context follows the note
+ * without re-indexing.
+ */
+export async function moveNote(
+  folderId: string,
+  noteId: string,
+  targetFolderId: string,
+): Promise<Note[]> {
+  try {
+    if (targetFolderId !== folderId) {
+      await transaction(async tx => {
+        await tx.execute('UPDATE notes SET folder_id = ?, updated_at = ? WHERE id = ?', [
+          targetFolderId,
+          Date.now(),
+          noteId,
+        ]);
+        // Trashed pages have no chunks
+        const pageRows = await tx.execute(
+          'SELECT id FROM pages WHERE note_id = ? AND deleted_at IS NULL',
+          [noteId],
+        );
+        for (const row of pageRows.rows) {
+          await enqueueChunkFolderMove(tx, row.id as string, targetFolderId);
+        }
+      });
+    }
+    return loadNotesByFolder(folderId);
+  } catch (error) {
+    console.error('Failed to move note:', error);
+    throw error;
+  }
+}
+
+/**
+ * Copy a note with its pages, drawings, paper settings and tags into a folder
+ * and return the new note. Pages in the trash and page history are not copied.
+ * The copied pages start unindexed, so they get their own server chunks.
+ */
+export async function copyNote(noteId: string, targetFolderId: string): Promise<Note> {
+  try {
+    // Copy the latest drawings, including saves that are still queued
+    await waitForPendingWrites();
+
+    const sourceRow = await queryFirst('SELECT * FROM notes WHERE id = ?', [noteId]);
+    if (!sourceRow) {
+      throw new Error('Note not found.');
+    }
+    const source = rowToNote(sourceRow);
+    const now = Date.now();
+    const note: Note = {
+      id: uuidv4(),
+      folderId: targetFolderId,
+      title: source.folderId === targetFolderId ? `${source.title} (Copy)` : source.title,
+      description: source.description,
+      color: source.color,
+      courseCode: source.courseCode,
+      createdAt: now,
+      updatedAt: now,
+      lastOpenedAt: null,
+      deletedAt: null,
+    };
+    await transaction(async tx => {
+      await tx.execute(
+        `INSERT INTO notes (id, folder_id, title, description, color, course_code, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          note.id,
+          note.folderId,
+          note.title,
+          note.description,
+          note.color,
+          note.courseCode,
+          note.createdAt,
+          note.updatedAt,
+        ],
+      );
+      await copyNoteTags(tx, noteId, note.id);
+
+      const pageRows = await tx.execute(
+        'SELECT * FROM pages WHERE note_id = ? AND deleted_at IS NULL ORDER BY page_index ASC',
+        [noteId],
+      );
+      for (let i = 0; i < pageRows.rows.length; i += 1) {
+        const sourcePage = rowToPage(pageRows.rows[i]);
+        const sourcePageId = sourcePage.id;
+        const page = await insertPageRecord(tx, note.id, i, sourcePage.size);
+        const drawingRows = await tx.execute(
+          'SELECT drawing_json FROM page_drawings WHERE page_id = ?',
+          [sourcePageId],
+        );
+        if (drawingRows.rows.length > 0) {
+          const drawing = JSON.parse(drawingRows.rows[0].drawing_json as string) as DrawingData;
+          await saveDrawingDataInTransaction(tx, page.id, drawing);
+        }
+        const paperRows = await tx.execute(
+          'SELECT background, line_spacing FROM paper_settings WHERE page_id = ?',
+          [sourcePageId],
+        );
+        if (paperRows.rows.length > 0) {
+          await savePaperSettingsInTransaction(tx, page.id, {
+            background: paperRows.rows[0].background,
+            lineSpacing: paperRows.rows[0].line_spacing,
+          } as PaperSettings);
+        }
+      }
+    });
+    return note;
+  } catch (error) {
+    console.error('Failed to copy note:', error);
+    throw error;
+  }
+}
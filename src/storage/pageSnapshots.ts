@@ -0,0 +1,123 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DrawingData } from '../types/models';
+import { placeholders, queryAll, Row, transaction, Transaction } from './db';
+import { enqueueWrite, writeKeys } from './writeQueue';
+
+/**
+ * Why a snapshot was taken:
+ * - pageLeave: the editor switched to another page or closed
+ * - background: the app went to the background
+ * - interval: periodic snapshot while the page is open
+ * - restore: the page content right before an older version was restored
+ */
+export type SnapshotReason = 'pageLeave' | 'background' | 'interval' | 'restore';
+
+export interface PageSnapshot {
+  id: string;
+  pageId: string;
+  drawingData: DrawingData;
+  strokeCount: number;
+  reason: SnapshotReason;
+  createdAt: number;
+}
+
+// Oldest snapshots beyond this are dropped, so history per page stays bounded
+export const MAX_SNAPSHOTS_PER_PAGE = 30;
+
+/**
+ * Internal helper: Map a page_snapshots row to a PageSnapshot
+ */
+function rowToSnapshot(row: Row): PageSnapshot {
+  return {
+    id: row.id as string,
+    pageId: row.page_id as string,
+    drawingData: JSON.parse(row.drawing_json as string) as DrawingData,
+    strokeCount: row.stroke_count as number,
+    reason: row.reason as SnapshotReason,
+    createdAt: row.created_at as number,
+  };
+}
+
+/**
+ * Load a page's snapshots, newest first
+ */
+export async function loadPageSnapshots(pageId: string): Promise<PageSnapshot[]> {
+  try {
+    const rows = await queryAll(
+      'SELECT * FROM page_snapshots WHERE page_id = ? ORDER BY created_at DESC, rowid DESC',
+      [pageId],
+    );
+    return rows.map(rowToSnapshot);
+  } catch (error) {
+    console.error('Failed to load snapshots for page:', pageId, error);
+    return [];
+  }
+}
+
+/**
+ * Store a snapshot of a page's drawing unless it matches the page's latest
+ * snapshot (or the page has never had content), then drop snapshots beyond
+ * MAX_SNAPSHOTS_PER_PAGE. Returns whether a snapshot was stored.
+ * This function does not throw - a missed snapshot is not worth an error.
+ */
+export async function savePageSnapshot(
+  pageId: string,
+  drawingData: DrawingData,
+  reason: SnapshotReason,
+): Promise<boolean> {
+  try {
+    const drawingJson = JSON.stringify(drawingData);
+    return await enqueueWrite(writeKeys.pageSnapshots(pageId), async () => {
+      let saved = false;
+      await transaction(async tx => {
+        const latest = await tx.execute(
+          `SELECT drawing_json FROM page_snapshots WHERE page_id = ?
+           ORDER BY created_at DESC, rowid DESC LIMIT 1`,
+          [pageId],
+        );
+        const latestJson = latest.rows[0]?.drawing_json;
+        if (latestJson === drawingJson) {
+          return;
+        }
+        if (latestJson === undefined && drawingData.strokes.length === 0) {
+          return;
+        }
+
+        await tx.execute(
+          `INSERT INTO page_snapshots (id, page_id, drawing_json, stroke_count, reason, created_at)
+           VALUES (?, ?, ?, ?, ?, ?)`,
+          [uuidv4(), pageId, drawingJson, drawingData.strokes.length, reason, Date.now()],
+        );
+        await tx.execute(
+          `DELETE FROM page_snapshots WHERE page_id = ? AND id NOT IN (
+             SELECT id FROM page_snapshots WHERE page_id = ?
+             ORDER BY created_at DESC, rowid DESC LIMIT ?
+           )`,
+          [pageId, pageId, MAX_SNAPSHOTS_PER_PAGE],
+        );
+        saved = true;
+      });
+      return saved;
+    });
+  } catch (error) {
+    console.error('Failed to save snapshot for page:', pageId, error);
+    return false;
+  }
+}
+
+/**
+ * Delete the snapshots of pages that are being deleted.
+ * Runs inside the caller's transaction.
+ */
+export async function deletePageSnapshots(
+  tx: Transaction,
+  pageIds: string[],
+): Promise<void> {
+  if (pageIds.length === 0) {
+    return;
+  }
+  await tx.execute(
+    `DELETE FROM page_snapshots WHERE page_id IN (${placeholders(pageIds.length)})`,
+    pageIds,
+  );
+}
@@ -0,0 +1,43 @@
+import { DEFAULT_PAGE_VIEW, PageView } from '../types/models';
+import { execute, queryFirst } from './db';
+import { enqueueCoalescedWrite, writeKeys } from './writeQueue';
+
+const UPSERT_PAGE_VIEW_SQL = `INSERT INTO page_views (page_id, zoom, offset_x, offset_y) VALUES (?, ?, ?, ?)
+  ON CONFLICT(page_id) DO UPDATE SET
+    zoom = excluded.zoom,
+    offset_x = excluded.offset_x,
+    offset_y = excluded.offset_y`;
+
+/**
+ * Last zoom and pan of a page, or the unzoomed view if it was never zoomed
+ */
+export async function loadPageView(pageId: string): Promise<PageView> {
+  try {
+    const row = await queryFirst(
+      'SELECT zoom, offset_x, offset_y FROM page_views WHERE page_id = ?',
+      [pageId],
+    );
+    if (!row) {
+      return DEFAULT_PAGE_VIEW;
+    }
+    return {
+      zoom: Number(row.zoom),
+      offsetX: Number(row.offset_x),
+      offsetY: Number(row.offset_y),
+    };
+  } catch (error) {
+    console.error('Failed to load page view for page:', pageId, error);
+    return DEFAULT_PAGE_VIEW;
+  }
+}
+
+export async function savePageView(pageId: string, view: PageView): Promise<void> {
+  try {
+    await enqueueCoalescedWrite(writeKeys.pageView(pageId), async () => {
+      await execute(UPSERT_PAGE_VIEW_SQL, [pageId, view.zoom, view.offsetX, view.offsetY]);
+    });
+  } catch (error) {
+    console.error('Failed to save page view for page:', pageId, error);
+    throw error;
+  }
+}
@@ -1,42 +1,156 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { v4 as uuidv4 } from 'uuid';
-import { Page, IndexStatus } from '../types/models';
+import {
+  DEFAULT_PAGE_SIZE,
+  IndexStatus,
+  Page,
+  PageSize,
+  PageSizePreset,
+} from '../types/models';
+import {
+  execute,
+  placeholders,
+  queryAll,
+  queryFirst,
+  Row,
+  SqlParams,
+  transaction,
+  Transaction,
+} from './db';
+import { enqueueWrite, writeKeys } from './writeQueue';
+import { enqueueChunkPurge } from './chunkPurges';
+import { deletePageSnapshots } from './pageSnapshots';
+import {
+  discardChunkPageIndexUpdates,
+  enqueueChunkPageIndexUpdate,
+} from './chunkPageIndexes';
 
-const PAGES_KEY = '@pages';
+/**
+ * Map a pages row to a Page
+ */
+export function rowToPage(row: Row): Page {
+  return {
+    id: row.id as string,
+    noteId: row.note_id as string,
+    pageIndex: row.page_index as number,
+    createdAt: row.created_at as number,
+    updatedAt: row.updated_at as number,
+    indexStatus: row.index_status as IndexStatus,
+    indexedAt: (row.indexed_at as number | null) ?? null,
+    indexError: (row.index_error as string | null) ?? null,
+    lastIndexedHash: (row.last_indexed_hash as string | null) ?? null,
+    deletedAt: (row.deleted_at as number | null) ?? null,
+    size: row.page_size
+      ? {
+          preset: row.page_size as PageSizePreset,
+          width: row.page_width as number,
+          height: row.page_height as number,
+        }
+      : null,
+  };
+}
 
 /**
- * Internal helper: Load all pages from AsyncStorage
+ * Internal helper: Build a new, unindexed page record
  */
-async function loadAll(): Promise<Page[]> {
-  try {
-    const json = await AsyncStorage.getItem(PAGES_KEY);
-    if (!json) {
-      return [];
-    }
-    const pages = JSON.parse(json) as Page[];
-    return pages;
-  } catch (error) {
-    console.error('Failed to load pages:', error);
-    return [];
+function buildNewPage(
+  noteId: string,
+  pageIndex: number,
+  size: PageSize | null = DEFAULT_PAGE_SIZE,
+): Page {
+  const now = Date.now();
+  return {
+    id: uuidv4(),
+    noteId,
+    pageIndex,
+    createdAt: now,
+    updatedAt: now,
+    indexStatus: 'none',
+    indexedAt: null,
+    indexError: null,
+    lastIndexedHash: null,
+    deletedAt: null,
+    size,
+  };
+}
+
+const INSERT_PAGE_SQL = `INSERT INTO pages (
+  id, note_id, page_index, created_at, updated_at,
+  index_status, indexed_at, index_error, last_indexed_hash, deleted_at,
+  page_size, page_width, page_height
+) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+
+/**
+ * Internal helper: Positional params for INSERT_PAGE_SQL
+ */
+function pageInsertParams(page: Page): SqlParams {
+  return [
+    page.id,
+    page.noteId,
+    page.pageIndex,
+    page.createdAt,
+    page.updatedAt,
+    page.indexStatus,
+    page.indexedAt,
+    page.indexError,
+    page.lastIndexedHash,
+    page.deletedAt,
+    page.size?.preset ?? null,
+    page.size?.width ?? null,
+    page.size?.height ?? null,
+  ];
+}
+
+/**
+ * Internal helper: Stored size of a page (null if it is missing or unsized).
+ * New pages take the size of a neighbouring page so a note's pages match.
+ */
+async function loadStoredPageSize(
+  tx: Transaction,
+  pageId: string | undefined,
+): Promise<PageSize | null> {
+  if (!pageId) {
+    return null;
   }
+  const result = await tx.execute('SELECT * FROM pages WHERE id = ?', [pageId]);
+  const row = result.rows[0];
+  return row ? rowToPage(row).size : null;
 }
 
 /**
- * Internal helper: Save all pages to AsyncStorage
+ * Insert a new, unindexed page inside an existing transaction.
+ * The caller is responsible for keeping pageIndex contiguous.
  */
-async function saveAll(pages: Page[]): Promise<void> {
-  await AsyncStorage.setItem(PAGES_KEY, JSON.stringify(pages));
+export async function insertPageRecord(
+  tx: Transaction,
+  noteId: string,
+  pageIndex: number,
+  size: PageSize | null = DEFAULT_PAGE_SIZE,
+): Promise<Page> {
+  const page = buildNewPage(noteId, pageIndex, size);
+  await tx.execute(INSERT_PAGE_SQL, pageInsertParams(page));
+  return page;
 }
 
 /**
- * Load pages for a specific note, sorted by pageIndex
+ * Insert a complete page record (e.g. from a backup) inside an existing transaction
+ */
+export async function insertExistingPageRecord(
+  tx: Transaction,
+  page: Page,
+): Promise<void> {
+  await tx.execute(INSERT_PAGE_SQL, pageInsertParams(page));
+}
+
+/**
+ * Load pages for a specific note, sorted by pageIndex (pages in the trash are skipped)
  */
 export async function loadPagesByNote(noteId: string): Promise<Page[]> {
   try {
-    const allPages = await loadAll();
-    const notesPages = allPages.filter(page => page.noteId === noteId);
-    // Sort by pageIndex ascending
-    return notesPages.sort((a, b) => a.pageIndex - b.pageIndex);
+    const rows = await queryAll(
+      'SELECT * FROM pages WHERE note_id = ? AND deleted_at IS NULL ORDER BY page_index ASC',
+      [noteId],
+    );
+    return rows.map(rowToPage);
   } catch (error) {
     console.error('Failed to load pages for note:', noteId, error);
     return [];
@@ -49,34 +163,31 @@ export async function loadPagesByNote(noteId: string): Promise<Page[]> {
  */
 export async function createPage(noteId: string): Promise<Page[]> {
   try {
-    const allPages = await loadAll();
-    const notePages = allPages.filter(page => page.noteId === noteId);
-
-    // Find max pageIndex for this note
-    const maxIndex = notePages.length > 0
-      ? Math.max(...notePages.map(p => p.pageIndex))
-      : -1;
-
-    const now = Date.now();
-    const newPage: Page = {
-      id: uuidv4(),
-      noteId,
-      pageIndex: maxIndex + 1,
-      createdAt: now,
-      updatedAt: now,
-      indexStatus: 'none',
-      indexedAt: null,
-      indexError: null,
-      lastIndexedHash: null,
-    };
-
-    const updated = [...allPages, newPage];
-    await saveAll(updated);
+    await enqueueWrite(writeKeys.notePages(noteId), () =>
+      transaction(async tx => {
+        // Find max pageIndex for this note
+        const result = await tx.execute(
+          'SELECT MAX(page_index) AS max_index FROM pages WHERE note_id = ? AND deleted_at IS NULL',
+          [noteId],
+        );
+        const maxIndex = result.rows[0]?.max_index;
+        const nextIndex = typeof maxIndex === 'number' ? maxIndex + 1 : 0;
+        const lastPage = await tx.execute(
+          'SELECT id FROM pages WHERE note_id = ? AND page_index = ? AND deleted_at IS NULL',
+          [noteId, nextIndex - 1],
+        );
+        const size =
+          (await loadStoredPageSize(tx, lastPage.rows[0]?.id as string | undefined)) ??
+          DEFAULT_PAGE_SIZE;
+        await tx.execute(
+          INSERT_PAGE_SQL,
+          pageInsertParams(buildNewPage(noteId, nextIndex, size)),
+        );
+      }),
+    );
 
     // Return only pages for this note, sorted
-    return updated
-      .filter(page => page.noteId === noteId)
-      .sort((a, b) => a.pageIndex - b.pageIndex);
+    return loadPagesByNote(noteId);
   } catch (error) {
     console.error('Failed to create page:', error);
     throw error;
@@ -93,36 +204,23 @@ export async function ensurePageExists(
   pageIndex: number,
 ): Promise<Page[]> {
   try {
-    const pages = await loadPagesByNote(noteId);
-
-    // Check if page already exists at this index
-    const existingPage = pages.find(p => p.pageIndex === pageIndex);
-    if (existingPage) {
-      return pages;
-    }
-
-    // Page doesn't exist, create it
-    const allPages = await loadAll();
-    const now = Date.now();
-    const newPage: Page = {
-      id: uuidv4(),
-      noteId,
-      pageIndex,
-      createdAt: now,
-      updatedAt: now,
-      indexStatus: 'none',
-      indexedAt: null,
-      indexError: null,
-      lastIndexedHash: null,
-    };
-
-    const updated = [...allPages, newPage];
-    await saveAll(updated);
+    await enqueueWrite(writeKeys.notePages(noteId), () =>
+      transaction(async tx => {
+        // Check if page already exists at this index
+        const existing = await tx.execute(
+          'SELECT id FROM pages WHERE note_id = ? AND page_index = ? AND deleted_at IS NULL',
+          [noteId, pageIndex],
+        );
+        if (existing.rows.length > 0) {
+          return;
+        }
+        // Page doesn't exist, create it
+        await tx.execute(INSERT_PAGE_SQL, pageInsertParams(buildNewPage(noteId, pageIndex)));
+      }),
+    );
 
     // Return pages for this note, sorted
-    return updated
-      .filter(page => page.noteId === noteId)
-      .sort((a, b) => a.pageIndex - b.pageIndex);
+    return loadPagesByNote(noteId);
   } catch (error) {
     console.error('Failed to ensure page exists:', error);
     throw error;
@@ -134,8 +232,8 @@ export async function ensurePageExists(
  */
 export async function getPageById(pageId: string): Promise<Page | null> {
   try {
-    const allPages = await loadAll();
-    return allPages.find(p => p.id === pageId) ?? null;
+    const row = await queryFirst('SELECT * FROM pages WHERE id = ?', [pageId]);
+    return row ? rowToPage(row) : null;
   } catch (error) {
     console.error('Failed to get page by id:', pageId, error);
     return null;
@@ -153,23 +251,378 @@ export async function updatePageIndexStatus(
   lastIndexedHash?: string | null,
 ): Promise<void> {
   try {
-    const allPages = await loadAll();
-    const pageIndex = allPages.findIndex(p => p.id === pageId);
-    if (pageIndex === -1) {
-      console.warn('Page not found for index status update:', pageId);
-      return;
+    // indexedAt and lastIndexedHash keep their stored value when omitted;
+    // indexError is cleared when omitted.
+    const assignments = ['index_status = ?', 'index_error = ?', 'updated_at = ?'];
+    const params: SqlParams = [indexStatus, indexError ?? null, Date.now()];
+    if (indexedAt !== undefined) {
+      assignments.push('indexed_at = ?');
+      params.push(indexedAt);
+    }
+    if (lastIndexedHash !== undefined) {
+      assignments.push('last_indexed_hash = ?');
+      params.push(lastIndexedHash);
     }
 
-    allPages[pageIndex] = {
-      ...allPages[pageIndex],
-      indexStatus,
-      indexedAt: indexedAt !== undefined ? indexedAt : allPages[pageIndex].indexedAt,
-      indexError: indexError !== undefined ? indexError : null,
-      lastIndexedHash: lastIndexedHash !== undefined ? lastIndexedHash : allPages[pageIndex].lastIndexedHash,
-      updatedAt: Date.now(),
-    };
-    await saveAll(allPages);
+    const rowsAffected = await enqueueWrite(writeKeys.page(pageId), () =>
+      execute(`UPDATE pages SET ${assignments.join(', ')} WHERE id = ?`, [
+        ...params,
+        pageId,
+      ]),
+    );
+    if (rowsAffected === 0) {
+      console.warn('Page not found for index status update:', pageId);
+    }
   } catch (error) {
     console.error('Failed to update page index status:', pageId, error);
   }
 }
+
+/**
+ * Change a page's declared size. Ink keeps its page coordinates, so it stays
+ * anchored to the top-left corner. Returns the updated page.
+ */
+export async function updatePageSize(pageId: string, size: PageSize): Promise<Page | null> {
+  try {
+    await enqueueWrite(writeKeys.page(pageId), () =>
+      execute(
+        'UPDATE pages SET page_size = ?, page_width = ?, page_height = ?, updated_at = ? WHERE id = ?',
+        [size.preset, size.width, size.height, Date.now(), pageId],
+      ),
+    );
+    return getPageById(pageId);
+  } catch (error) {
+    console.error('Failed to update page size:', pageId, error);
+    throw error;
+  }
+}
+
+/**
+ * Give a page from before page sizes its layout size as a custom size.
+ * Its strokes are in the layout coordinates of the canvas they were drawn
+ * on, and the editor's canvas is the best record of that. Pages that
+ * already have a size are left alone. Returns the page.
+ */
+export async function assignLegacyPageSize(
+  pageId: string,
+  layoutSize: { width: number; height: number },
+): Promise<Page | null> {
+  try {
+    await enqueueWrite(writeKeys.page(pageId), () =>
+      execute(
+        `UPDATE pages SET page_size = 'custom', page_width = ?, page_height = ?
+         WHERE id = ? AND page_size IS NULL`,
+        [layoutSize.width, layoutSize.height, pageId],
+      ),
+    );
+    return getPageById(pageId);
+  } catch (error) {
+    console.error('Failed to assign legacy page size:', pageId, error);
+    throw error;
+  }
+}
+
+/**
+ * Delete page rows together with their drawings, paper settings, views and snapshots.
+ * Runs inside the caller's transaction so cascades stay atomic.
+ */
+export async function deletePageRecords(
+  tx: Transaction,
+  pageIds: string[],
+): Promise<void> {
+  if (pageIds.length === 0) {
+    return;
+  }
+  const inList = placeholders(pageIds.length);
+  await tx.execute(`DELETE FROM page_drawings WHERE page_id IN (${inList})`, pageIds);
+  await tx.execute(`DELETE FROM paper_settings WHERE page_id IN (${inList})`, pageIds);
+  await tx.execute(`DELETE FROM page_views WHERE page_id IN (${inList})`, pageIds);
+  await tx.execute(`DELETE FROM pages WHERE id IN (${inList})`, pageIds);
+  await deletePageSnapshots(tx, pageIds);
+  await discardChunkPageIndexUpdates(tx, pageIds);
+}
+
+/**
+ * Mark pages as unindexed and drop their queued page_index updates.
+ * Used when the pages' server chunks are purged but the pages are kept
+ * (moved to the trash), so they are re-indexed after a restore.
+ */
+export async function markPagesUnindexed(
+  tx: Transaction,
+  pageIds: string[],
+): Promise<void> {
+  if (pageIds.length === 0) {
+    return;
+  }
+  await tx.execute(
+    `UPDATE pages SET index_status = 'none', indexed_at = NULL, index_error = NULL,
+       last_indexed_hash = NULL WHERE id IN (${placeholders(pageIds.length)})`,
+    pageIds,
+  );
+  await discardChunkPageIndexUpdates(tx, pageIds);
+}
+
+/**
+ * Internal helper: Load the note's page IDs (trash excluded) in pageIndex order
+ */
+async function loadOrderedPageIds(tx: Transaction, noteId: string): Promise<string[]> {
+  const result = await tx.execute(
+    'SELECT id FROM pages WHERE note_id = ? AND deleted_at IS NULL ORDER BY page_index ASC',
+    [noteId],
+  );
+  return result.rows.map(row => row.id as string);
+}
+
+/**
+ * Internal helper: Rewrite page indexes so they match `orderedIds` (0..n-1).
+ * Pages whose stored index changed get a queued chunk page_index update so
+ * server citations keep pointing at the right page. Pages in `newPageIds`
+ * were just inserted at their final index and have no chunks yet.
+ */
+async function applyPageOrder(
+  tx: Transaction,
+  noteId: string,
+  orderedIds: string[],
+  newPageIds: string[] = [],
+): Promise<void> {
+  const result = await tx.execute(
+    'SELECT id, page_index FROM pages WHERE note_id = ? AND deleted_at IS NULL',
+    [noteId],
+  );
+  const storedIndexes = new Map(
+    result.rows.map(row => [row.id as string, row.page_index as number]),
+  );
+
+  const now = Date.now();
+  for (let index = 0; index < orderedIds.length; index += 1) {
+    const pageId = orderedIds[index];
+    if (newPageIds.includes(pageId) || storedIndexes.get(pageId) === index) {
+      continue;
+    }
+    await tx.execute('UPDATE pages SET page_index = ?, updated_at = ? WHERE id = ?', [
+      index,
+      now,
+      pageId,
+    ]);
+    await enqueueChunkPageIndexUpdate(tx, pageId, index);
+  }
+}
+
+/**
+ * Internal helper: Clamp a target position into [0, max]
+ */
+function clampIndex(index: number, max: number): number {
+  return Math.max(0, Math.min(index, max));
+}
+
+/**
+ * Insert a blank page at `atIndex`, shifting later pages down.
+ * Returns all pages for the note.
+ */
+export async function insertPage(noteId: string, atIndex: number): Promise<Page[]> {
+  try {
+    await enqueueWrite(writeKeys.notePages(noteId), () =>
+      transaction(async tx => {
+        const previousIds = await loadOrderedPageIds(tx, noteId);
+        const targetIndex = clampIndex(atIndex, previousIds.length);
+        const size =
+          (await loadStoredPageSize(
+            tx,
+            previousIds[targetIndex - 1] ?? previousIds[targetIndex],
+          )) ?? DEFAULT_PAGE_SIZE;
+        const newPage = buildNewPage(noteId, targetIndex, size);
+        await tx.execute(INSERT_PAGE_SQL, pageInsertParams(newPage));
+
+        const orderedIds = [...previousIds];
+        orderedIds.splice(targetIndex, 0, newPage.id);
+        await applyPageOrder(tx, noteId, orderedIds, [newPage.id]);
+      }),
+    );
+    return loadPagesByNote(noteId);
+  } catch (error) {
+    console.error('Failed to insert page:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a page with its drawing and paper settings, close the gap in
+ * pageIndex, and queue a purge of its server chunks.
+ * Returns the remaining pages for the note.
+ */
+export async function deletePage(noteId: string, pageId: string): Promise<Page[]> {
+  try {
+    // Let queued saves of the page land first so they cannot recreate its rows
+    await enqueueWrite(writeKeys.drawing(pageId), async () => undefined);
+    await enqueueWrite(writeKeys.paperSettings(pageId), async () => undefined);
+    await enqueueWrite(writeKeys.pageView(pageId), async () => undefined);
+
+    await enqueueWrite(writeKeys.notePages(noteId), () =>
+      transaction(async tx => {
+        const previousIds = await loadOrderedPageIds(tx, noteId);
+        if (!previousIds.includes(pageId)) {
+          return;
+        }
+        await deletePageRecords(tx, [pageId]);
+        await enqueueChunkPurge(tx, { sourceIds: [pageId] });
+
+        await applyPageOrder(
+          tx,
+          noteId,
+          previousIds.filter(id => id !== pageId),
+        );
+      }),
+    );
+    return loadPagesByNote(noteId);
+  } catch (error) {
+    console.error('Failed to delete page:', error);
+    throw error;
+  }
+}
+
+/**
+ * Move a page to the trash: it leaves the note's page order, its server
+ * chunks are purged right away and it keeps its old pageIndex so a restore
+ * can put it back in place. Returns the remaining pages for the note.
+ */
+export async function trashPage(noteId: string, pageId: string): Promise<Page[]> {
+  try {
+    await enqueueWrite(writeKeys.notePages(noteId), () =>
+      transaction(async tx => {
+        const previousIds = await loadOrderedPageIds(tx, noteId);
+        if (!previousIds.includes(pageId)) {
+          return;
+        }
+        const now = Date.now();
+        await tx.execute('UPDATE pages SET deleted_at = ?, updated_at = ? WHERE id = ?', [
+          now,
+          now,
+          pageId,
+        ]);
+        await markPagesUnindexed(tx, [pageId]);
+        await enqueueChunkPurge(tx, { sourceIds: [pageId] });
+
+        await applyPageOrder(
+          tx,
+          noteId,
+          previousIds.filter(id => id !== pageId),
+        );
+      }),
+    );
+    return loadPagesByNote(noteId);
+  } catch (error) {
+    console.error('Failed to move page to trash:', error);
+    throw error;
+  }
+}
+
+/**
+ * Restore a page from the trash at its old position (clamped to the end of
+ * the note). The page comes back unindexed.
+ */
+export async function restorePage(noteId: string, pageId: string): Promise<void> {
+  try {
+    await enqueueWrite(writeKeys.notePages(noteId), () =>
+      transaction(async tx => {
+        const result = await tx.execute(
+          'SELECT page_index FROM pages WHERE id = ? AND deleted_at IS NOT NULL',
+          [pageId],
+        );
+        const previousIndex = result.rows[0]?.page_index;
+        if (typeof previousIndex !== 'number') {
+          return;
+        }
+        const orderedIds = await loadOrderedPageIds(tx, noteId);
+        const targetIndex = clampIndex(previousIndex, orderedIds.length);
+        await tx.execute(
+          'UPDATE pages SET deleted_at = NULL, page_index = ?, updated_at = ? WHERE id = ?',
+          [targetIndex, Date.now(), pageId],
+        );
+        orderedIds.splice(targetIndex, 0, pageId);
+        // The restored page has no server chunks, so it needs no index update
+        await applyPageOrder(tx, noteId, orderedIds, [pageId]);
+      }),
+    );
+  } catch (error) {
+    console.error('Failed to restore page:', error);
+    throw error;
+  }
+}
+
+/**
+ * Move a page to `toIndex`, shifting the pages in between.
+ * Drawings and paper settings are keyed by page ID, so they move with it.
+ * Returns all pages for the note.
+ */
+export async function movePage(
+  noteId: string,
+  pageId: string,
+  toIndex: number,
+): Promise<Page[]> {
+  try {
+    await enqueueWrite(writeKeys.notePages(noteId), () =>
+      transaction(async tx => {
+        const previousIds = await loadOrderedPageIds(tx, noteId);
+        const fromIndex = previousIds.indexOf(pageId);
+        if (fromIndex === -1) {
+          return;
+        }
+        const targetIndex = clampIndex(toIndex, previousIds.length - 1);
+        if (targetIndex === fromIndex) {
+          return;
+        }
+        const orderedIds = previousIds.filter(id => id !== pageId);
+        orderedIds.splice(targetIndex, 0, pageId);
+        await applyPageOrder(tx, noteId, orderedIds);
+      }),
+    );
+    return loadPagesByNote(noteId);
+  } catch (error) {
+    console.error('Failed to move page:', error);
+    throw error;
+  }
+}
+
+/**
+ * Duplicate a page (drawing and paper settings included) directly after the
+ * original. The copy starts unindexed. Returns all pages for the note.
+ */
+export async function duplicatePage(noteId: string, pageId: string): Promise<Page[]> {
+  try {
+    // Let any queued saves of the source page land before copying it
+    await enqueueWrite(writeKeys.drawing(pageId), async () => undefined);
+    await enqueueWrite(writeKeys.paperSettings(pageId), async () => undefined);
+
+    await enqueueWrite(writeKeys.notePages(noteId), () =>
+      transaction(async tx => {
+        const previousIds = await loadOrderedPageIds(tx, noteId);
+        const sourceIndex = previousIds.indexOf(pageId);
+        if (sourceIndex === -1) {
+          return;
+        }
+        // The copy's ink is in the source's units, so it keeps its size (even none)
+        const size = await loadStoredPageSize(tx, pageId);
+        const copy = buildNewPage(noteId, sourceIndex + 1, size);
+        await tx.execute(INSERT_PAGE_SQL, pageInsertParams(copy));
+        await tx.execute(
+          `INSERT INTO page_drawings (page_id, drawing_json, updated_at)
+           SELECT ?, drawing_json, ? FROM page_drawings WHERE page_id = ?`,
+          [copy.id, copy.createdAt, pageId],
+        );
+        await tx.execute(
+          `INSERT INTO paper_settings (page_id, background, line_spacing)
+           SELECT ?, background, line_spacing FROM paper_settings WHERE page_id = ?`,
+          [copy.id, pageId],
+        );
+
+        const orderedIds = [...previousIds];
+        orderedIds.splice(sourceIndex + 1, 0, copy.id);
+        await applyPageOrder(tx, noteId, orderedIds, [copy.id]);
+      }),
+    );
+    return loadPagesByNote(noteId);
+  } catch (error) {
+    console.error('Failed to duplicate page:', error);
+    throw error;
+  }
+}
@@ -1,38 +1,32 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { PaperSettings } from '../types/models';
+import { LineSpacing, PaperBackground, PaperSettings } from '../types/models';
+import { execute, queryFirst, Transaction } from './db';
+import { enqueueCoalescedWrite, writeKeys } from './writeQueue';
 
-const PAPER_SETTINGS_KEY = '@paperSettings';
-
-type PaperSettingsMap = Record<string, PaperSettings>;
+const UPSERT_PAPER_SETTINGS_SQL = `INSERT INTO paper_settings (page_id, background, line_spacing) VALUES (?, ?, ?)
+  ON CONFLICT(page_id) DO UPDATE SET
+    background = excluded.background,
+    line_spacing = excluded.line_spacing`;
 
 const DEFAULT_PAPER_SETTINGS: PaperSettings = {
   background: 'blank',
   lineSpacing: 'medium',
 };
 
-async function loadAllPaperSettings(): Promise<PaperSettingsMap> {
-  try {
-    const json = await AsyncStorage.getItem(PAPER_SETTINGS_KEY);
-    if (!json) {
-      return {};
-    }
-    return JSON.parse(json) as PaperSettingsMap;
-  } catch (error) {
-    console.error('Failed to load paper settings:', error);
-    return {};
-  }
-}
-
-async function saveAllPaperSettings(settings: PaperSettingsMap): Promise<void> {
-  await AsyncStorage.setItem(PAPER_SETTINGS_KEY, JSON.stringify(settings));
-}
-
 export async function loadPaperSettings(
   pageId: string,
 ): Promise<PaperSettings> {
   try {
-    const allSettings = await loadAllPaperSettings();
-    return allSettings[pageId] ?? DEFAULT_PAPER_SETTINGS;
+    const row = await queryFirst(
+      'SELECT background, line_spacing FROM paper_settings WHERE page_id = ?',
+      [pageId],
+    );
+    if (!row) {
+      return DEFAULT_PAPER_SETTINGS;
+    }
+    return {
+      background: row.background as PaperBackground,
+      lineSpacing: row.line_spacing as LineSpacing,
+    };
   } catch (error) {
     console.error('Failed to load paper settings for page:', pageId, error);
     return DEFAULT_PAPER_SETTINGS;
@@ -44,11 +38,30 @@ export async function savePaperSettings(
   settings: PaperSettings,
 ): Promise<void> {
   try {
-    const allSettings = await loadAllPaperSettings();
-    allSettings[pageId] = settings;
-    await saveAllPaperSettings(allSettings);
+    await enqueueCoalescedWrite(writeKeys.paperSettings(pageId), async () => {
+      await execute(UPSERT_PAPER_SETTINGS_SQL, [
+        pageId,
+        settings.background,
+        settings.lineSpacing,
+      ]);
+    });
   } catch (error) {
     console.error('Failed to save paper settings for page:', pageId, error);
     throw error;
   }
 }
+
+/**
+ * Write paper settings inside an existing transaction (for pages created in it)
+ */
+export async function savePaperSettingsInTransaction(
+  tx: Transaction,
+  pageId: string,
+  settings: PaperSettings,
+): Promise<void> {
+  await tx.execute(UPSERT_PAPER_SETTINGS_SQL, [
+    pageId,
+    settings.background,
+    settings.lineSpacing,
+  ]);
+}
@@ -0,0 +1,174 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  DEFAULT_HIGHLIGHTER_STYLE,
+  DEFAULT_PEN_STYLE,
+  PenPreset,
+  PenStyle,
+  StrokeTool,
+} from '../types/models';
+import { execute, queryFirst } from './db';
+
+// app_meta key per stroke tool
+const STYLE_META_KEYS: Record<StrokeTool, string> = {
+  pen: 'pen_style',
+  highlighter: 'highlighter_style',
+};
+const DEFAULT_STYLES: Record<StrokeTool, PenStyle> = {
+  pen: DEFAULT_PEN_STYLE,
+  highlighter: DEFAULT_HIGHLIGHTER_STYLE,
+};
+const PEN_PRESETS_META_KEY = 'pen_presets';
+
+export const MAX_PEN_PRESETS = 12;
+export const MAX_PEN_PRESET_NAME_LENGTH = 30;
+const MAX_PEN_WIDTH = 50;
+
+// Offered until the user saves or deletes a preset
+const DEFAULT_PEN_PRESETS: PenPreset[] = [
+  { id: 'default-pen', name: 'Pen', color: '#111111', width: 3 },
+  { id: 'default-forces', name: 'Forces', color: '#FF3B30', width: 3 },
+  { id: 'default-velocities', name: 'Velocities', color: '#007AFF', width: 3 },
+];
+
+/**
+ * Internal helper: Whether a parsed value is a usable pen style
+ */
+function isPenStyle(value: unknown): value is PenStyle {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const { color, width } = value as Record<string, unknown>;
+  return (
+    typeof color === 'string' &&
+    /^#[0-9a-fA-F]{6}$/.test(color) &&
+    typeof width === 'number' &&
+    width > 0 &&
+    width <= MAX_PEN_WIDTH
+  );
+}
+
+/**
+ * Internal helper: Whether a parsed value is a usable pen preset
+ */
+function isPenPreset(value: unknown): value is PenPreset {
+  if (!isPenStyle(value)) {
+    return false;
+  }
+  const { id, name } = value as unknown as Record<string, unknown>;
+  return typeof id === 'string' && id.length > 0 && typeof name === 'string' && name.length > 0;
+}
+
+/**
+ * Internal helper: Parse an app_meta JSON value, or undefined if it is missing
+ * or malformed
+ */
+function parseMetaJson(value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Internal helper: Store the preset list
+ */
+async function savePenPresets(presets: PenPreset[]): Promise<void> {
+  await execute('INSERT OR REPLACE INTO app_meta (key, value) VALUES (?, ?)', [
+    PEN_PRESETS_META_KEY,
+    JSON.stringify(presets),
+  ]);
+}
+
+/**
+ * Load the color and width new pen (or highlighter) strokes are drawn with
+ */
+export async function loadPenStyle(tool: StrokeTool = 'pen'): Promise<PenStyle> {
+  try {
+    const row = await queryFirst('SELECT value FROM app_meta WHERE key = ?', [
+      STYLE_META_KEYS[tool],
+    ]);
+    const style = parseMetaJson(row?.value);
+    return isPenStyle(style) ? { color: style.color, width: style.width } : DEFAULT_STYLES[tool];
+  } catch (error) {
+    console.error('Failed to load pen style:', error);
+    return DEFAULT_STYLES[tool];
+  }
+}
+
+/**
+ * Remember the color and width new pen (or highlighter) strokes are drawn with
+ */
+export async function savePenStyle(style: PenStyle, tool: StrokeTool = 'pen'): Promise<void> {
+  try {
+    await execute('INSERT OR REPLACE INTO app_meta (key, value) VALUES (?, ?)', [
+      STYLE_META_KEYS[tool],
+      JSON.stringify({ color: style.color, width: style.width }),
+    ]);
+  } catch (error) {
+    console.error('Failed to save pen style:', error);
+    throw error;
+  }
+}
+
+/**
+ * Load the saved pen presets, or the built-in ones if none were saved yet
+ */
+export async function loadPenPresets(): Promise<PenPreset[]> {
+  try {
+    const row = await queryFirst('SELECT value FROM app_meta WHERE key = ?', [
+      PEN_PRESETS_META_KEY,
+    ]);
+    const presets = parseMetaJson(row?.value);
+    if (!Array.isArray(presets)) {
+      return DEFAULT_PEN_PRESETS;
+    }
+    return presets.filter(isPenPreset).slice(0, MAX_PEN_PRESETS);
+  } catch (error) {
+    console.error('Failed to load pen presets:', error);
+    return DEFAULT_PEN_PRESETS;
+  }
+}
+
+/**
+ * Save a pen style as a named preset and return the updated presets
+ */
+export async function addPenPreset(name: string, style: PenStyle): Promise<PenPreset[]> {
+  const trimmed = name.trim().slice(0, MAX_PEN_PRESET_NAME_LENGTH);
+  if (!trimmed) {
+    throw new Error('Preset name is required.');
+  }
+  try {
+    const presets = await loadPenPresets();
+    if (presets.length >= MAX_PEN_PRESETS) {
+      throw new Error(`You can save up to ${MAX_PEN_PRESETS} pen presets.`);
+    }
+    const updated = [
+      ...presets,
+      { id: uuidv4(), name: trimmed, color: style.color, width: style.width },
+    ];
+    await savePenPresets(updated);
+    return updated;
+  } catch (error) {
+    console.error('Failed to add pen preset:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a pen preset and return the remaining presets
+ */
+export async function deletePenPreset(presetId: string): Promise<PenPreset[]> {
+  try {
+    const presets = await loadPenPresets();
+    const updated = presets.filter(preset => preset.id !== presetId);
+    await savePenPresets(updated);
+    return updated;
+  } catch (error) {
+    console.error('Failed to delete pen preset:', presetId, error);
+    throw error;
+  }
+}
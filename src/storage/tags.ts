@@ -0,0 +1,79 @@
+import { normalizeTags } from '../utils/tags';
+import { placeholders, queryAll, transaction, Transaction } from './db';
+import { enqueueChunkTagUpdate } from './chunkTagUpdates';
+
+/**
+ * Load the tags of several notes, keyed by note id. Notes without tags are
+ * left out of the result.
+ */
+export async function loadTagsForNotes(noteIds: string[]): Promise<Record<string, string[]>> {
+  const tagsByNote: Record<string, string[]> = {};
+  if (noteIds.length === 0) {
+    return tagsByNote;
+  }
+  try {
+    const rows = await queryAll(
+      `SELECT note_id, tag FROM note_tags WHERE note_id IN (${placeholders(noteIds.length)})
+       ORDER BY tag ASC`,
+      noteIds,
+    );
+    rows.forEach(row => {
+      const noteId = row.note_id as string;
+      tagsByNote[noteId] = [...(tagsByNote[noteId] ?? []), row.tag as string];
+    });
+    return tagsByNote;
+  } catch (error) {
+    console.error('Failed to load note tags:', error);
+    return tagsByNote;
+  }
+}
+
+/**
+ * Replace a note's tags and return them normalized.
+ * The note's server chunks get the new tags on the next chunk sync flush.
+ */
+export async function setNoteTags(noteId: string, tags: string[]): Promise<string[]> {
+  const normalized = normalizeTags(tags);
+  try {
+    await transaction(async tx => {
+      await tx.execute('DELETE FROM note_tags WHERE note_id = ?', [noteId]);
+      for (const tag of normalized) {
+        await tx.execute('INSERT INTO note_tags (note_id, tag) VALUES (?, ?)', [noteId, tag]);
+      }
+      await enqueueChunkTagUpdate(tx, noteId, normalized);
+    });
+    return normalized;
+  } catch (error) {
+    console.error('Failed to save note tags:', noteId, error);
+    throw error;
+  }
+}
+
+/**
+ * Give a copied note the tags of its original.
+ * Runs inside the caller's transaction.
+ */
+export async function copyNoteTags(
+  tx: Transaction,
+  sourceNoteId: string,
+  targetNoteId: string,
+): Promise<void> {
+  await tx.execute(
+    'INSERT INTO note_tags (note_id, tag) SELECT ?, tag FROM note_tags WHERE note_id = ?',
+    [targetNoteId, sourceNoteId],
+  );
+}
+
+/**
+ * Delete the tags of notes that are being deleted.
+ * Runs inside the caller's transaction.
+ */
+export async function deleteNoteTags(tx: Transaction, noteIds: string[]): Promise<void> {
+  if (noteIds.length === 0) {
+    return;
+  }
+  await tx.execute(
+    `DELETE FROM note_tags WHERE note_id IN (${placeholders(noteIds.length)})`,
+    noteIds,
+  );
+}
@@ -0,0 +1,240 @@
+import { execute, queryAll, queryFirst, Row, transaction } from './db';
+import { deleteFolder, LIVE_FOLDERS_CTE, restoreFolder } from './folders';
+import { deleteNote, restoreNote } from './notes';
+import { deletePageRecords, restorePage } from './pages';
+import { enqueueChunkPurge } from './chunkPurges';
+import { enqueueWrite, writeKeys } from './writeQueue';
+
+export type TrashItemKind = 'folder' | 'note' | 'page';
+
+export interface TrashItem {
+  kind: TrashItemKind;
+  id: string;
+  title: string;
+  location: string | null; // "Folder" or "Folder › Note" the item was in
+  folderId: string;
+  noteId: string | null; // set for pages
+  deletedAt: number;
+}
+
+const TRASH_RETENTION_META_KEY = 'trash_retention_days';
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Internal helper: Map trash query rows to TrashItems
+ */
+function rowToTrashItem(kind: TrashItemKind, row: Row): TrashItem {
+  if (kind === 'folder') {
+    return {
+      kind,
+      id: row.id as string,
+      title: row.name as string,
+      location: null,
+      folderId: row.id as string,
+      noteId: null,
+      deletedAt: row.deleted_at as number,
+    };
+  }
+  if (kind === 'note') {
+    return {
+      kind,
+      id: row.id as string,
+      title: row.title as string,
+      location: row.folder_name as string,
+      folderId: row.folder_id as string,
+      noteId: null,
+      deletedAt: row.deleted_at as number,
+    };
+  }
+  return {
+    kind,
+    id: row.id as string,
+    title: `Page ${(row.page_index as number) + 1}`,
+    location: `${row.folder_name} › ${row.note_title}`,
+    folderId: row.folder_id as string,
+    noteId: row.note_id as string,
+    deletedAt: row.deleted_at as number,
+  };
+}
+
+/**
+ * Load items in the trash, most recently deleted first.
+ * Items inside a trashed folder or note (including subfolders of a trashed
+ * folder) are not listed separately - they are restored or purged together
+ * with it.
+ */
+export async function loadTrashItems(): Promise<TrashItem[]> {
+  try {
+    const [folderRows, noteRows, pageRows] = await Promise.all([
+      queryAll(
+        `${LIVE_FOLDERS_CTE}
+         SELECT * FROM folders WHERE deleted_at IS NOT NULL
+           AND (parent_id IS NULL OR parent_id IN (SELECT id FROM live_folders))`,
+      ),
+      queryAll(
+        `${LIVE_FOLDERS_CTE}
+         SELECT notes.*, folders.name AS folder_name FROM notes
+         JOIN folders ON folders.id = notes.folder_id
+         WHERE notes.deleted_at IS NOT NULL
+           AND notes.folder_id IN (SELECT id FROM live_folders)`,
+      ),
+      queryAll(
+        `${LIVE_FOLDERS_CTE}
+         SELECT pages.*, notes.title AS note_title, notes.folder_id,
+           folders.name AS folder_name FROM pages
+         JOIN notes ON notes.id = pages.note_id
+         JOIN folders ON folders.id = notes.folder_id
+         WHERE pages.deleted_at IS NOT NULL AND notes.deleted_at IS NULL
+           AND notes.folder_id IN (SELECT id FROM live_folders)`,
+      ),
+    ]);
+    return [
+      ...folderRows.map(row => rowToTrashItem('folder', row)),
+      ...noteRows.map(row => rowToTrashItem('note', row)),
+      ...pageRows.map(row => rowToTrashItem('page', row)),
+    ].sort((a, b) => b.deletedAt - a.deletedAt);
+  } catch (error) {
+    console.error('Failed to load trash:', error);
+    return [];
+  }
+}
+
+/**
+ * Restore an item from the trash. Its pages come back unindexed.
+ */
+export async function restoreTrashItem(item: TrashItem): Promise<void> {
+  if (item.kind === 'folder') {
+    await restoreFolder(item.id);
+  } else if (item.kind === 'note') {
+    await restoreNote(item.id);
+  } else {
+    await restorePage(item.noteId ?? '', item.id);
+  }
+}
+
+/**
+ * Internal helper: Permanently delete a trashed page
+ */
+async function purgeTrashedPage(pageId: string): Promise<void> {
+  // Let queued saves of the page land first so they cannot recreate its rows
+  await enqueueWrite(writeKeys.drawing(pageId), async () => undefined);
+  await enqueueWrite(writeKeys.paperSettings(pageId), async () => undefined);
+  await enqueueWrite(writeKeys.pageView(pageId), async () => undefined);
+
+  await transaction(async tx => {
+    await deletePageRecords(tx, [pageId]);
+    await enqueueChunkPurge(tx, { sourceIds: [pageId] });
+  });
+}
+
+/**
+ * Permanently delete an item from the trash with everything inside it
+ */
+export async function purgeTrashItem(item: TrashItem): Promise<void> {
+  try {
+    if (item.kind === 'folder') {
+      await deleteFolder(item.id);
+    } else if (item.kind === 'note') {
+      await deleteNote(item.folderId, item.id);
+    } else {
+      await purgeTrashedPage(item.id);
+    }
+  } catch (error) {
+    console.error('Failed to purge trash item:', item.kind, item.id, error);
+    throw error;
+  }
+}
+
+/**
+ * Load how many days items stay in the trash before they are purged
+ */
+export async function loadTrashRetentionDays(): Promise<number> {
+  try {
+    const row = await queryFirst('SELECT value FROM app_meta WHERE key = ?', [
+      TRASH_RETENTION_META_KEY,
+    ]);
+    const days = Number(row?.value);
+    return Number.isInteger(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+  } catch (error) {
+    console.error('Failed to load trash retention:', error);
+    return DEFAULT_TRASH_RETENTION_DAYS;
+  }
+}
+
+/**
+ * Save how many days items stay in the trash before they are purged
+ */
+export async function saveTrashRetentionDays(days: number): Promise<void> {
+  try {
+    await execute('INSERT OR REPLACE INTO app_meta (key, value) VALUES (?, ?)', [
+      TRASH_RETENTION_META_KEY,
+      String(days),
+    ]);
+  } catch (error) {
+    console.error('Failed to save trash retention:', error);
+    throw error;
+  }
+}
+
+/**
+ * Permanently delete everything that has been in the trash longer than the
+ * retention period. Returns the number of purged items.
+ * This function does not throw - anything left over is retried next time.
+ */
+export async function purgeExpiredTrash(now: number = Date.now()): Promise<number> {
+  try {
+    const retentionDays = await loadTrashRetentionDays();
+    const cutoff = now - retentionDays * DAY_MS;
+
+    // Folders first: purging a folder also removes its subfolders, notes and pages.
+    // Parents come before their subfolders, so an expired subfolder that went
+    // with its parent is skipped rather than counted twice.
+    let purged = 0;
+    const folderRows = await queryAll(
+      `WITH RECURSIVE folder_depths(id, depth) AS (
+         SELECT id, 0 FROM folders WHERE parent_id IS NULL
+         UNION ALL
+         SELECT folders.id, folder_depths.depth + 1 FROM folders
+         JOIN folder_depths ON folders.parent_id = folder_depths.id
+       )
+       SELECT folders.id FROM folders JOIN folder_depths ON folder_depths.id = folders.id
+       WHERE folders.deleted_at IS NOT NULL AND folders.deleted_at < ?
+       ORDER BY folder_depths.depth`,
+      [cutoff],
+    );
+    for (const row of folderRows) {
+      if (!(await queryFirst('SELECT id FROM folders WHERE id = ?', [row.id]))) {
+        continue;
+      }
+      await deleteFolder(row.id as string);
+      purged += 1;
+    }
+    const noteRows = await queryAll(
+      'SELECT id, folder_id FROM notes WHERE deleted_at IS NOT NULL AND deleted_at < ?',
+      [cutoff],
+    );
+    for (const row of noteRows) {
+      await deleteNote(row.folder_id as string, row.id as string);
+      purged += 1;
+    }
+    const pageRows = await queryAll(
+      'SELECT id FROM pages WHERE deleted_at IS NOT NULL AND deleted_at < ?',
+      [cutoff],
+    );
+    for (const row of pageRows) {
+      await purgeTrashedPage(row.id as string);
+      purged += 1;
+    }
+
+    if (purged > 0) {
+      console.log(`[trash] Purged ${purged} expired items`);
+    }
+    return purged;
+  } catch (error) {
+    console.error('Failed to purge expired trash:', error);
+    return 0;
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Storage Write Queue
+ *
+ * Serializes storage writes per key so concurrent mutators (e.g. indexing
+ * status updates racing the editor's debounced drawing save) always apply in
+ * call order and never interleave.
+ *
+ * - Writes for the same key run one at a time, in the order they were queued.
+ * - Writes for different keys run independently.
+ * - Coalesced writes replace a queued-but-not-started write for the same key,
+ *   so a burst of full-state saves (like drawings) becomes a single write.
+ *   Every caller in the batch resolves when that write completes.
+ */
+
+interface QueuedWrite {
+  run: () => Promise<unknown>;
+  coalesce: boolean;
+  resolvers: Array<(value: unknown) => void>;
+  rejecters: Array<(error: unknown) => void>;
+}
+
+interface KeyQueue {
+  running: boolean;
+  pending: QueuedWrite[];
+}
+
+const queues = new Map<string, KeyQueue>();
+
+/**
+ * Internal helper: Run queued writes for a key until none are left
+ */
+async function drain(key: string, queue: KeyQueue): Promise<void> {
+  queue.running = true;
+  while (queue.pending.length > 0) {
+    const write = queue.pending.shift()!;
+    try {
+      const result = await write.run();
+      write.resolvers.forEach(resolve => resolve(result));
+    } catch (error) {
+      write.rejecters.forEach(reject => reject(error));
+    }
+  }
+  queue.running = false;
+  queues.delete(key);
+}
+
+function schedule<T>(key: string, task: () => Promise<T>, coalesce: boolean): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    let queue = queues.get(key);
+    if (!queue) {
+      queue = { running: false, pending: [] };
+      queues.set(key, queue);
+    }
+
+    const last = queue.pending[queue.pending.length - 1];
+    if (coalesce && last?.coalesce) {
+      // Newer full-state write supersedes the queued one
+      last.run = task;
+      last.resolvers.push(resolve as (value: unknown) => void);
+      last.rejecters.push(reject);
+    } else {
+      queue.pending.push({
+        run: task,
+        coalesce,
+        resolvers: [resolve as (value: unknown) => void],
+        rejecters: [reject],
+      });
+    }
+
+    if (!queue.running) {
+      void drain(key, queue);
+    }
+  });
+}
+
+/**
+ * Queue a write for a key. Runs after every previously queued write for
+ * that key has finished.
+ */
+export function enqueueWrite<T>(key: string, task: () => Promise<T>): Promise<T> {
+  return schedule(key, task, false);
+}
+
+/**
+ * Queue a full-state write for a key. If another coalesced write for the key
+ * is still waiting to run, it is replaced by this one.
+ */
+export function enqueueCoalescedWrite(
+  key: string,
+  task: () => Promise<void>,
+): Promise<void> {
+  return schedule(key, task, true);
+}
+
+/**
+ * Resolve once every write queued before this call has settled
+ */
+export async function waitForPendingWrites(): Promise<void> {
+  const keys = Array.from(queues.keys());
+  await Promise.all(
+    keys.map(key => enqueueWrite(key, async () => undefined)),
+  );
+}
+
+/**
+ * Write queue keys, one per storage record
+ */
+export const writeKeys = {
+  page: (pageId: string) => `page:${pageId}`,
+  notePages: (noteId: string) => `notePages:${noteId}`,
+  drawing: (pageId: string) => `drawing:${pageId}`,
+  paperSettings: (pageId: string) => `paperSettings:${pageId}`,
+  pageView: (pageId: string) => `pageView:${pageId}`,
+  pageSnapshots: (pageId: string) => `pageSnapshots:${pageId}`,
+};
@@ -1,18 +1,41 @@
 export interface Folder {
   id: string;
   name: string;
+  parentId: string | null; // null for top-level folders
+  description: string | null;
+  color: string | null; // hex color from ITEM_COLORS
+  courseCode: string | null; // e.g. "PHYS 101"
   createdAt: number;
   updatedAt: number;
+  lastOpenedAt: number | null;
+  deletedAt: number | null; // set while the folder is in the trash
 }
 
 export interface Note {
   id: string;
   folderId: string;
   title: string;
+  description: string | null;
+  color: string | null; // hex color from ITEM_COLORS
+  courseCode: string | null; // e.g. "PHYS 101"
   createdAt: number;
-  updatedAt: number;
+  updatedAt: number; // also bumped when a page's drawing changes
+  lastOpenedAt: number | null;
+  deletedAt: number | null; // set while the note is in the trash
 }
 
+// Colors offered for folders and notes
+export const ITEM_COLORS = [
+  '#FF3B30',
+  '#FF9500',
+  '#FFCC00',
+  '#34C759',
+  '#007AFF',
+  '#5856D6',
+  '#AF52DE',
+  '#8E8E93',
+];
+
 export type IndexStatus = 'none' | 'queued' | 'running' | 'done' | 'error';
 
 export interface Page {
@@ -25,9 +48,73 @@ export interface Page {
   indexedAt: number | null;
   indexError: string | null;
   lastIndexedHash: string | null;
+  deletedAt: number | null; // set while the page is in the trash
+  // Null for pages drawn before pages had sizes, until the editor records one
+  size: PageSize | null;
 }
 
-export type DrawingTool = 'pen' | 'eraser' | 'select';
+export type PageSizePreset = 'a4' | 'letter' | 'square' | 'custom';
+
+// Declared page size. Stroke points are in these units, whatever the screen.
+export interface PageSize {
+  preset: PageSizePreset;
+  width: number;
+  height: number;
+}
+
+// Portrait paper sizes in logical px (96 per inch)
+export const PAGE_SIZE_PRESETS: Record<
+  Exclude<PageSizePreset, 'custom'>,
+  { width: number; height: number }
+> = {
+  a4: { width: 794, height: 1123 },
+  letter: { width: 816, height: 1056 },
+  square: { width: 800, height: 800 },
+};
+
+export const DEFAULT_PAGE_SIZE: PageSize = { preset: 'a4', ...PAGE_SIZE_PRESETS.a4 };
+
+export type DrawingTool = 'pen' | 'highlighter' | 'eraser' | 'select';
+
+// Tools that leave strokes on the page
+export type StrokeTool = 'pen' | 'highlighter';
+
+// 'stroke' erases whole strokes; 'precision' cuts out only the touched part
+export type EraserMode = 'stroke' | 'precision';
+
+// Color and width given to new pen strokes
+export interface PenStyle {
+  color: string;
+  width: number;
+}
+
+// A named pen style the user saved, e.g. "Forces" in red
+export interface PenPreset extends PenStyle {
+  id: string;
+  name: string;
+}
+
+// Colors and widths offered by the pen picker
+export const PEN_COLORS = [
+  '#111111',
+  '#FF3B30',
+  '#007AFF',
+  '#34C759',
+  '#FF9500',
+  '#AF52DE',
+  '#8E8E93',
+];
+
+export const PEN_WIDTHS = [1.5, 3, 5, 8];
+
+export const DEFAULT_PEN_STYLE: PenStyle = { color: '#111111', width: 3 };
+
+// Highlighter colors are stored opaque and drawn translucent
+export const HIGHLIGHTER_COLORS = ['#FFCC00', '#34C759', '#FF2D55', '#5AC8FA', '#FF9500'];
+
+export const HIGHLIGHTER_WIDTHS = [12, 18, 28];
+
+export const DEFAULT_HIGHLIGHTER_STYLE: PenStyle = { color: '#FFCC00', width: 18 };
 
 export interface SelectionRect {
   x: number;
@@ -36,6 +123,12 @@ export interface SelectionRect {
   height: number;
 }
 
+// Freeform selection drawn with the select tool: a closed polygon in logical canvas coordinates
+export interface SelectionLasso {
+  points: Point[];
+  strokeIds: string[]; // strokes captured when the lasso was drawn
+}
+
 export interface DrawingData {
   version: number;
   strokes: Stroke[];
@@ -46,13 +139,15 @@ export interface Stroke {
   points: Point[];
   color: string;
   width: number;
-  tool: 'pen';
+  tool: StrokeTool;
   timestamp: number;
 }
 
 export interface Point {
   x: number;
   y: number;
+  pressure?: number; // 0..1 from the touch, when the device reports it
+  t?: number; // ms since the stroke started, for speed-based width
 }
 
 export type LineSpacing = 'narrow' | 'medium' | 'wide';
@@ -64,6 +159,19 @@ export interface PaperSettings {
   lineSpacing: LineSpacing;
 }
 
+// Zoom and pan of a page in the editor. Screen = page point * zoom + offset.
+export interface PageView {
+  zoom: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+export const DEFAULT_PAGE_VIEW: PageView = {
+  zoom: 1,
+  offsetX: 0,
+  offsetY: 0,
+};
+
 export const LINE_SPACING_VALUES: Record<LineSpacing, number> = {
   narrow: 24,
   medium: 32,
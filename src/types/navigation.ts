@@ -1,5 +1,14 @@
 export type RootStackParamList = {
   FolderList: undefined;
+  Trash: undefined;
   NoteList: { folderId: string };
   PageEditor: { folderId: string; noteId: string; pageIndex: number };
+  PageOverview: {
+    folderId: string;
+    noteId: string;
+    currentPageIndex: number;
+    // Editor canvas size, for pages without a declared size
+    canvasWidth?: number;
+    canvasHeight?: number;
+  };
 };
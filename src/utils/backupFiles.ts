@@ -0,0 +1,39 @@
+import RNFS from 'react-native-fs';
+import {
+  BackupArchive,
+  createBackupArchive,
+  validateBackupArchive,
+} from '../storage/backup';
+
+export const BACKUP_EXTENSION = 'cnbackup';
+export const BACKUP_DIR = `${RNFS.DocumentDirectoryPath}/backups`;
+
+/**
+ * Write a backup of all app data to Documents/backups.
+ * Returns the written file path.
+ */
+export async function writeBackupFile(): Promise<string> {
+  const archive = await createBackupArchive();
+  await RNFS.mkdir(BACKUP_DIR);
+  const stamp = new Date(archive.manifest.createdAt)
+    .toISOString()
+    .replace(/[:.]/g, '-');
+  const filePath = `${BACKUP_DIR}/contextnotes-backup-${stamp}.${BACKUP_EXTENSION}`;
+  await RNFS.writeFile(filePath, JSON.stringify(archive), 'utf8');
+  return filePath;
+}
+
+/**
+ * Read and validate a backup file. Throws if the file is not a backup this
+ * app version can restore.
+ */
+export async function readBackupFile(filePath: string): Promise<BackupArchive> {
+  const contents = await RNFS.readFile(filePath, 'utf8');
+  let data: unknown;
+  try {
+    data = JSON.parse(contents);
+  } catch {
+    throw new Error('This file is not a Context Notes backup.');
+  }
+  return validateBackupArchive(data);
+}
@@ -0,0 +1,26 @@
+import { DrawingData } from '../types/models';
+
+/**
+ * Compute a simple hash of drawing data to detect content changes.
+ * Hashes the full serialized drawing, so recoloring a stroke or moving any
+ * of its points gives a new hash.
+ * Used to skip re-indexing unchanged pages and to key cached thumbnails.
+ */
+export function computeDrawingHash(drawingData: DrawingData | null): string {
+  if (!drawingData || drawingData.strokes.length === 0) {
+    return 'empty';
+  }
+
+  // Serialize everything that affects how the page looks - ids, colors,
+  // widths, tools and every point - so any visible edit changes the hash
+  const hashInput = JSON.stringify(drawingData);
+
+  // Simple hash function (djb2)
+  let hash = 5381;
+  for (let i = 0; i < hashInput.length; i++) {
+    hash = ((hash << 5) + hash) + hashInput.charCodeAt(i);
+    hash = hash & hash; // Convert to 32-bit integer
+  }
+
+  return hash.toString(16);
+}
@@ -5,46 +5,86 @@ import {
   StrokeCap,
   StrokeJoin,
 } from '@shopify/react-native-skia';
-import { DrawingData, Point, SelectionRect, Stroke } from '../types/models';
+import { DrawingData, Point, SelectionLasso, Stroke } from '../types/models';
+import { getStrokeOutline } from './strokeOutline';
+import { HIGHLIGHTER_OPACITY, strokesInPaintOrder } from './highlighter';
+import { getLassoBounds } from './lasso';
+import { getSmoothPathSegments } from './strokeGeometry';
 
 export type ExportSize = { width: number; height: number };
 
-export const EXPORT_SIZE_PORTRAIT: ExportSize = { width: 2048, height: 2732 };
-export const EXPORT_SIZE_LANDSCAPE: ExportSize = { width: 2732, height: 2048 };
+// Longest side of a full-page PNG export
+const EXPORT_MAX_DIM = 2732;
 
 const BACKGROUND_COLOR = '#ffffff';
 
-function buildPath(points: Point[]) {
+/**
+ * Skia path for the smooth curve through stroke points. Used by the canvas
+ * and the PNG export alike.
+ */
+export function buildPath(points: Point[], closed = false) {
   const path = Skia.Path.Make();
-  if (points.length === 0) {
-    return path;
-  }
-  path.moveTo(points[0].x, points[0].y);
-  for (let i = 1; i < points.length; i += 1) {
-    path.lineTo(points[i].x, points[i].y);
-  }
+  getSmoothPathSegments(points, closed).forEach(segment => {
+    switch (segment.type) {
+      case 'move':
+        path.moveTo(segment.to.x, segment.to.y);
+        break;
+      case 'line':
+        path.lineTo(segment.to.x, segment.to.y);
+        break;
+      case 'quad':
+        path.quadTo(segment.control.x, segment.control.y, segment.to.x, segment.to.y);
+        break;
+      case 'close':
+        path.close();
+        break;
+    }
+  });
   return path;
 }
 
 function drawStroke(stroke: Stroke) {
-  const path = buildPath(stroke.points);
   const paint = Skia.Paint();
   paint.setAntiAlias(true);
+  paint.setColor(Skia.Color(stroke.color));
+
+  // Highlighters are translucent with a flat cap
+  if (stroke.tool === 'highlighter') {
+    paint.setAlphaf(HIGHLIGHTER_OPACITY);
+    paint.setStyle(PaintStyle.Stroke);
+    paint.setStrokeCap(StrokeCap.Butt);
+    paint.setStrokeJoin(StrokeJoin.Round);
+    paint.setStrokeWidth(stroke.width);
+    return { path: buildPath(stroke.points), paint };
+  }
+
+  // Pressure- or speed-sensitive strokes are filled outlines
+  const outline = getStrokeOutline(stroke);
+  if (outline) {
+    const path = buildPath(outline, true);
+    paint.setStyle(PaintStyle.Fill);
+    return { path, paint };
+  }
+
+  const path = buildPath(stroke.points);
   paint.setStyle(PaintStyle.Stroke);
   paint.setStrokeCap(StrokeCap.Round);
   paint.setStrokeJoin(StrokeJoin.Round);
   paint.setStrokeWidth(stroke.width);
-  paint.setColor(Skia.Color(stroke.color));
   return { path, paint };
 }
 
+/**
+ * PNG output size for a page, with the page's own aspect ratio
+ */
 export function getExportSizeForLogicalSize(
   logicalSize: ExportSize,
 ): ExportSize {
-  if (logicalSize.width > logicalSize.height) {
-    return EXPORT_SIZE_LANDSCAPE;
-  }
-  return EXPORT_SIZE_PORTRAIT;
+  const scale = EXPORT_MAX_DIM / Math.max(logicalSize.width, logicalSize.height);
+  return {
+    width: Math.max(1, Math.round(logicalSize.width * scale)),
+    height: Math.max(1, Math.round(logicalSize.height * scale)),
+  };
 }
 
 export function renderDrawingToPngBase64(
@@ -75,7 +115,7 @@ export function renderDrawingToPngBase64(
   canvas.translate(offsetX, offsetY);
   canvas.scale(scale, scale);
 
-  drawingData.strokes.forEach(stroke => {
+  strokesInPaintOrder(drawingData.strokes).forEach(stroke => {
     if (stroke.points.length === 0) {
       return;
     }
@@ -96,13 +136,28 @@ export function renderDrawingToPngBase64(
 
 const MAX_REGION_OUTPUT_DIM = 2048;
 
+/**
+ * Render only the strokes captured by a lasso selection, cropped to the
+ * lasso's bounding box within the page. Other strokes are left out even where
+ * they cross the box, so the image shows exactly what was selected.
+ */
 export function renderRegionToPngBase64(
   drawingData: DrawingData,
   logicalSize: ExportSize,
-  selection: SelectionRect,
+  lasso: SelectionLasso,
 ): string {
-  if (selection.width <= 0 || selection.height <= 0) {
-    throw new Error('Invalid selection rectangle.');
+  // A lasso drawn past the page edge only crops to the page
+  const bounds = getLassoBounds(lasso.points);
+  const left = Math.max(0, bounds.x);
+  const top = Math.max(0, bounds.y);
+  const selection = {
+    x: left,
+    y: top,
+    width: Math.min(logicalSize.width, bounds.x + bounds.width) - left,
+    height: Math.min(logicalSize.height, bounds.y + bounds.height) - top,
+  };
+  if (lasso.points.length < 3 || selection.width <= 0 || selection.height <= 0) {
+    throw new Error('Invalid selection.');
   }
 
   // Calculate output dimensions preserving aspect ratio, capped at MAX_REGION_OUTPUT_DIM
@@ -145,11 +200,10 @@ export function renderRegionToPngBase64(
   // Translate to make selection.x, selection.y the origin
   canvas.translate(-selection.x, -selection.y);
 
-  // Draw all strokes
-  drawingData.strokes.forEach(stroke => {
-    if (stroke.points.length === 0) {
-      return;
-    }
+  // Draw the selected strokes, highlighters beneath ink
+  const selectedIds = new Set(lasso.strokeIds);
+  const selected = drawingData.strokes.filter(stroke => selectedIds.has(stroke.id));
+  strokesInPaintOrder(selected).forEach(stroke => {
     const { path, paint } = drawStroke(stroke);
     canvas.drawPath(path, paint);
   });
@@ -0,0 +1,278 @@
+import RNFS from 'react-native-fs';
+import {
+  DrawingData,
+  LINE_SPACING_VALUES,
+  PaperSettings,
+  Point,
+  Stroke,
+} from '../types/models';
+import { loadPagesByNote } from '../storage/pages';
+import { loadDrawingData } from '../storage/drawings';
+import { loadPaperSettings } from '../storage/paperSettings';
+import { ExportSize } from './exportDrawing';
+import { buildPdfDocument, pdfColor, pdfNumber, PdfPage } from './pdfDocument';
+import { hasHighlighterStrokes, HIGHLIGHTER_OPACITY, strokesInPaintOrder } from './highlighter';
+import { getSmoothPathSegments } from './strokeGeometry';
+import { getStrokeOutline } from './strokeOutline';
+
+export type PdfPageSize = 'a4' | 'letter' | 'canvas';
+
+// Portrait sizes in points; pages are turned landscape for landscape canvases
+const PDF_PAGE_SIZES: Record<Exclude<PdfPageSize, 'canvas'>, ExportSize> = {
+  a4: { width: 595.28, height: 841.89 },
+  letter: { width: 612, height: 792 },
+};
+
+// Longest side of a 'canvas' sized page, in points
+const CANVAS_PAGE_MAX_DIM = 842;
+
+const LINE_COLOR = '#d0d0d0';
+const LINE_WIDTH = 1;
+
+// Graphics state resource that makes highlighter strokes translucent
+const HIGHLIGHTER_GRAPHICS_STATE = 'GSHighlighter';
+
+export interface PdfExportOptions {
+  // 1-based, inclusive. Omitted ends default to the first/last page.
+  pageRange?: { from?: number; to?: number };
+  pageSize: PdfPageSize;
+  includeBackground: boolean;
+}
+
+export interface PdfPageSource {
+  drawingData: DrawingData | null;
+  paperSettings: PaperSettings;
+  logicalSize?: ExportSize; // the page's own size, if it differs from the note-wide one
+}
+
+/**
+ * Resolve the PDF page size for a canvas of the given logical size
+ */
+export function getPdfPageSize(pageSize: PdfPageSize, logicalSize: ExportSize): ExportSize {
+  const isLandscape = logicalSize.width > logicalSize.height;
+  if (pageSize === 'canvas') {
+    const scale = CANVAS_PAGE_MAX_DIM / Math.max(logicalSize.width, logicalSize.height);
+    return { width: logicalSize.width * scale, height: logicalSize.height * scale };
+  }
+  const size = PDF_PAGE_SIZES[pageSize];
+  return isLandscape ? { width: size.height, height: size.width } : size;
+}
+
+/**
+ * Clamp a requested 1-based page range to the pages that exist.
+ * Returns 0-based [start, end) indexes.
+ */
+export function resolvePageRange(
+  pageCount: number,
+  range?: PdfExportOptions['pageRange'],
+): { start: number; end: number } {
+  const from = Math.max(1, Math.floor(range?.from ?? 1));
+  const to = Math.min(pageCount, Math.floor(range?.to ?? pageCount));
+  return { start: from - 1, end: Math.max(from - 1, to) };
+}
+
+/**
+ * Internal helper: Path construction operators for the smooth curve the
+ * canvas draws through stroke points or around a stroke outline
+ */
+function pathOperators(points: Point[], closed = false): string[] {
+  let current = points[0];
+  const xy = (point: Point) => `${pdfNumber(point.x)} ${pdfNumber(point.y)}`;
+  return getSmoothPathSegments(points, closed).map(segment => {
+    switch (segment.type) {
+      case 'move':
+        current = segment.to;
+        return `${xy(segment.to)} m`;
+      case 'line':
+        current = segment.to;
+        return `${xy(segment.to)} l`;
+      case 'quad': {
+        // PDF has no quadratic curves; this is the same curve as a cubic
+        const { control, to } = segment;
+        const c1 = {
+          x: current.x + ((control.x - current.x) * 2) / 3,
+          y: current.y + ((control.y - current.y) * 2) / 3,
+        };
+        const c2 = {
+          x: to.x + ((control.x - to.x) * 2) / 3,
+          y: to.y + ((control.y - to.y) * 2) / 3,
+        };
+        current = to;
+        return `${xy(c1)} ${xy(c2)} ${xy(to)} c`;
+      }
+      case 'close':
+        return 'h';
+    }
+  });
+}
+
+/**
+ * Internal helper: Content stream operators for one stroke
+ */
+function strokeOperators(stroke: Stroke): string {
+  const [r, g, b] = pdfColor(stroke.color);
+  const color = `${pdfNumber(r)} ${pdfNumber(g)} ${pdfNumber(b)}`;
+  // A lone point gets a zero-length segment so the round cap draws a dot
+  const path = pathOperators(stroke.points);
+  if (stroke.tool === 'highlighter') {
+    // Translucent with a flat cap, in its own graphics state
+    return [
+      'q',
+      `/${HIGHLIGHTER_GRAPHICS_STATE} gs`,
+      '0 J',
+      `${color} RG`,
+      `${pdfNumber(stroke.width)} w`,
+      ...path,
+      'S',
+      'Q',
+    ].join('\n');
+  }
+  // Pressure- or speed-sensitive strokes are filled outlines, as on the canvas
+  const outline = getStrokeOutline(stroke);
+  if (outline) {
+    return [`${color} rg`, ...pathOperators(outline, true), 'f'].join('\n');
+  }
+  return [`${color} RG`, `${pdfNumber(stroke.width)} w`, ...path, 'S'].join('\n');
+}
+
+/**
+ * Internal helper: Content stream operators for lined paper
+ */
+function backgroundOperators(paperSettings: PaperSettings, logicalSize: ExportSize): string {
+  if (paperSettings.background !== 'lined') {
+    return '';
+  }
+  const spacing = LINE_SPACING_VALUES[paperSettings.lineSpacing];
+  const [r, g, b] = pdfColor(LINE_COLOR);
+  const lines: string[] = [];
+  // Same positions as the canvas: first line one spacing below the top
+  for (let y = spacing; y < logicalSize.height; y += spacing) {
+    lines.push(`0 ${pdfNumber(y)} m ${pdfNumber(logicalSize.width)} ${pdfNumber(y)} l`);
+  }
+  if (lines.length === 0) {
+    return '';
+  }
+  return [
+    `${pdfNumber(r)} ${pdfNumber(g)} ${pdfNumber(b)} RG`,
+    `${pdfNumber(LINE_WIDTH)} w`,
+    ...lines,
+    'S',
+  ].join('\n');
+}
+
+/**
+ * Render one page as vector PDF content, fitted and centered on the PDF page
+ */
+export function renderPageToPdf(
+  source: PdfPageSource,
+  logicalSize: ExportSize,
+  pdfPageSize: ExportSize,
+  includeBackground: boolean,
+): PdfPage {
+  if (logicalSize.width <= 0 || logicalSize.height <= 0) {
+    throw new Error('Invalid logical canvas size for export.');
+  }
+
+  const scale = Math.min(
+    pdfPageSize.width / logicalSize.width,
+    pdfPageSize.height / logicalSize.height,
+  );
+  const offsetX = (pdfPageSize.width - logicalSize.width * scale) / 2;
+  const offsetY = (pdfPageSize.height - logicalSize.height * scale) / 2;
+
+  const operators = [
+    'q',
+    // Flip to the canvas's top-left origin and scale logical units to points
+    `${pdfNumber(scale)} 0 0 ${pdfNumber(-scale)} ${pdfNumber(offsetX)} ${pdfNumber(pdfPageSize.height - offsetY)} cm`,
+    // Clip to the canvas area like the on-screen page
+    `0 0 ${pdfNumber(logicalSize.width)} ${pdfNumber(logicalSize.height)} re W n`,
+    '1 J 1 j',
+  ];
+
+  if (includeBackground) {
+    const background = backgroundOperators(source.paperSettings, logicalSize);
+    if (background) {
+      operators.push(background);
+    }
+  }
+
+  // Highlighters first so they sit beneath pen ink
+  const strokes = source.drawingData?.strokes ?? [];
+  strokesInPaintOrder(strokes).forEach(stroke => {
+    if (stroke.points.length === 0) {
+      return;
+    }
+    operators.push(strokeOperators(stroke));
+  });
+
+  operators.push('Q');
+
+  return {
+    width: pdfPageSize.width,
+    height: pdfPageSize.height,
+    content: operators.join('\n'),
+    resources: hasHighlighterStrokes(strokes)
+      ? `/ExtGState << /${HIGHLIGHTER_GRAPHICS_STATE} << /CA ${HIGHLIGHTER_OPACITY} >> >>`
+      : undefined,
+  };
+}
+
+/**
+ * Render a list of pages into a PDF file body. Each page is fitted to a PDF
+ * page chosen for its own size.
+ */
+export function renderPagesToPdf(
+  sources: PdfPageSource[],
+  logicalSize: ExportSize,
+  options: Omit<PdfExportOptions, 'pageRange'>,
+  title?: string,
+): string {
+  const pages = sources.map(source => {
+    const pageSize = source.logicalSize ?? logicalSize;
+    const pdfPageSize = getPdfPageSize(options.pageSize, pageSize);
+    return renderPageToPdf(source, pageSize, pdfPageSize, options.includeBackground);
+  });
+  return buildPdfDocument(pages, { title });
+}
+
+/**
+ * Export a note's pages to a PDF in Documents/exports. `logicalSize` is the
+ * editor's canvas size, used for pages without a declared size.
+ * Returns the written file path.
+ */
+export async function exportNoteToPdf(
+  noteId: string,
+  logicalSize: ExportSize,
+  options: PdfExportOptions,
+  title?: string,
+): Promise<string> {
+  const pages = await loadPagesByNote(noteId);
+  const { start, end } = resolvePageRange(pages.length, options.pageRange);
+  const selectedPages = pages.slice(start, end);
+  if (selectedPages.length === 0) {
+    throw new Error('No pages in the selected range.');
+  }
+
+  const sources: PdfPageSource[] = [];
+  for (const page of selectedPages) {
+    const [drawingData, paperSettings] = await Promise.all([
+      loadDrawingData(page.id),
+      loadPaperSettings(page.id),
+    ]);
+    sources.push({
+      drawingData,
+      paperSettings,
+      logicalSize: page.size ?? logicalSize,
+    });
+  }
+
+  const pdf = renderPagesToPdf(sources, logicalSize, options, title);
+
+  const exportDir = `${RNFS.DocumentDirectoryPath}/exports`;
+  await RNFS.mkdir(exportDir);
+  const filename = `note_${noteId}_pages_${start + 1}-${end}_${Date.now()}.pdf`;
+  const filePath = `${exportDir}/${filename}`;
+  await RNFS.writeFile(filePath, pdf, 'ascii');
+
+  return filePath;
+}
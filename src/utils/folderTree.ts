@@ -0,0 +1,80 @@
+import { Folder } from '../types/models';
+
+export interface FolderTreeRow {
+  folder: Folder;
+  depth: number; // 0 for top-level folders
+  childCount: number;
+}
+
+/**
+ * Internal helper: Group folders by parent id, keeping the input order.
+ * Folders whose parent is not in the list are treated as top-level, so
+ * nothing disappears from the tree.
+ */
+function groupByParent(folders: Folder[]): Map<string | null, Folder[]> {
+  const ids = new Set(folders.map(folder => folder.id));
+  const children = new Map<string | null, Folder[]>();
+  folders.forEach(folder => {
+    const parentId = folder.parentId !== null && ids.has(folder.parentId) ? folder.parentId : null;
+    const siblings = children.get(parentId) ?? [];
+    siblings.push(folder);
+    children.set(parentId, siblings);
+  });
+  return children;
+}
+
+/**
+ * Flatten the folder tree into display rows, depth first. Children are only
+ * included for folders in `expandedIds`; pass `null` to expand everything.
+ */
+export function flattenFolderTree(
+  folders: Folder[],
+  expandedIds: Set<string> | null,
+): FolderTreeRow[] {
+  const children = groupByParent(folders);
+  const rows: FolderTreeRow[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    (children.get(parentId) ?? []).forEach(folder => {
+      const childCount = children.get(folder.id)?.length ?? 0;
+      rows.push({ folder, depth, childCount });
+      if (childCount > 0 && (expandedIds === null || expandedIds.has(folder.id))) {
+        visit(folder.id, depth + 1);
+      }
+    });
+  };
+  visit(null, 0);
+  return rows;
+}
+
+/**
+ * Ids of every folder nested inside a folder, at any depth (not including
+ * the folder itself)
+ */
+export function getDescendantFolderIds(folders: Folder[], folderId: string): string[] {
+  const children = groupByParent(folders);
+  const descendants: string[] = [];
+  const pending = [folderId];
+  while (pending.length > 0) {
+    const parentId = pending.pop()!;
+    (children.get(parentId) ?? []).forEach(child => {
+      descendants.push(child.id);
+      pending.push(child.id);
+    });
+  }
+  return descendants;
+}
+
+/**
+ * The folders from the top level down to and including `folderId`, or an
+ * empty list if the folder is not in the list
+ */
+export function getFolderPath(folders: Folder[], folderId: string): Folder[] {
+  const byId = new Map(folders.map(folder => [folder.id, folder]));
+  const path: Folder[] = [];
+  let current = byId.get(folderId);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parentId !== null ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+}
@@ -0,0 +1,22 @@
+import { Stroke } from '../types/models';
+
+// Alpha highlighter strokes are drawn with, on screen and in every export
+export const HIGHLIGHTER_OPACITY = 0.35;
+
+/**
+ * Strokes in the order they are painted: highlighter strokes first so they
+ * sit beneath pen ink, each group keeping its drawing order
+ */
+export function strokesInPaintOrder(strokes: Stroke[]): Stroke[] {
+  return [
+    ...strokes.filter(stroke => stroke.tool === 'highlighter'),
+    ...strokes.filter(stroke => stroke.tool !== 'highlighter'),
+  ];
+}
+
+/**
+ * Whether a drawing has highlighted passages
+ */
+export function hasHighlighterStrokes(strokes: Stroke[]): boolean {
+  return strokes.some(stroke => stroke.tool === 'highlighter');
+}
@@ -0,0 +1,466 @@
+/**
+ * W3C InkML export and import
+ *
+ * Export writes one <traceGroup> per page and one <trace> per stroke. Stroke
+ * color, width and tool become shared <brush> definitions (highlighters use
+ * the maskPen raster op), and stroke timestamps become trace time offsets
+ * from a single document <timestamp>. Each trace point has X and Y, plus the
+ * intermittent F (pressure) and T (ms since the stroke started) channels when
+ * the point recorded them.
+ * Import reads traces (plain, or with ' and " difference encoding) back into
+ * strokes, split into pages by the page groups written on export.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { DrawingData, Point, Stroke, StrokeTool } from '../types/models';
+import { ExportSize } from './exportDrawing';
+
+const INKML_NAMESPACE = 'http://www.w3.org/2003/InkML';
+// 2: points may carry pressure and time, as in DrawingCanvas
+const DRAWING_VERSION = 2;
+const DEFAULT_IMPORT_COLOR = '#111111';
+const DEFAULT_IMPORT_WIDTH = 3;
+
+// Margin kept around imported ink that has to be moved onto the page
+const IMPORT_FIT_MARGIN = 20;
+
+// Most pages an import may create. Page numbers come from page group ids in
+// the file, so a bad id must not allocate millions of pages.
+export const MAX_IMPORT_PAGES = 500;
+
+// Raster op InkML writers use for highlighter brushes
+const HIGHLIGHTER_RASTER_OP = 'maskPen';
+
+// Where each value of a trace point goes, by position in the trace format
+export interface TraceChannels {
+  x: number;
+  y: number;
+  pressure: number; // -1 if the format has no F channel
+  time: number; // -1 if the format has no T channel
+  pressureMax: number; // F values are scaled from 0..pressureMax to 0..1
+}
+
+// InkML's default trace format: X and Y only
+const DEFAULT_TRACE_CHANNELS: TraceChannels = {
+  x: 0,
+  y: 1,
+  pressure: -1,
+  time: -1,
+  pressureMax: 1,
+};
+
+export interface InkmlDocument {
+  title?: string;
+  pages: DrawingData[];
+}
+
+/**
+ * Internal helper: Format a coordinate with at most 2 decimals
+ */
+function inkmlNumber(value: number): string {
+  const trimmed = value.toFixed(2).replace(/\.?0+$/, '');
+  return trimmed === '-0' ? '0' : trimmed;
+}
+
+/**
+ * Internal helper: Escape text for XML content and double-quoted attributes
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Internal helper: Undo escapeXml (plus numeric character references)
+ */
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Internal helper: Key shared by strokes drawn with the same brush
+ */
+function brushKey(stroke: Stroke): string {
+  return `${stroke.tool}|${stroke.color}|${stroke.width}`;
+}
+
+/**
+ * Internal helper: Format one trace point. Missing pressure or time is
+ * written as '?' (unknown), or left out at the end of the point.
+ */
+function tracePoint(point: Point): string {
+  const values = [
+    inkmlNumber(point.x),
+    inkmlNumber(point.y),
+    point.pressure !== undefined ? inkmlNumber(point.pressure) : '?',
+    point.t !== undefined ? inkmlNumber(point.t) : '?',
+  ];
+  while (values[values.length - 1] === '?') {
+    values.pop();
+  }
+  return values.join(' ');
+}
+
+/**
+ * Render pages as an InkML document
+ */
+export function renderPagesToInkml(pages: DrawingData[], title?: string): string {
+  const strokes = pages.flatMap(page => page.strokes);
+  // A loop, not Math.min(...), which overflows the stack for many strokes
+  const baseTime = strokes.reduce(
+    (earliest, stroke) => Math.min(earliest, stroke.timestamp),
+    strokes[0]?.timestamp ?? 0,
+  );
+
+  // One brush per distinct tool/color/width
+  const brushIds = new Map<string, string>();
+  const brushes: string[] = [];
+  strokes.forEach(stroke => {
+    const key = brushKey(stroke);
+    if (brushIds.has(key)) {
+      return;
+    }
+    const id = `br${brushIds.size}`;
+    brushIds.set(key, id);
+    brushes.push(
+      [
+        `    <brush xml:id="${id}">`,
+        `      <brushProperty name="color" value="${escapeXml(stroke.color)}"/>`,
+        `      <brushProperty name="width" value="${inkmlNumber(stroke.width)}" units="dev"/>`,
+        `      <brushProperty name="height" value="${inkmlNumber(stroke.width)}" units="dev"/>`,
+        ...(stroke.tool === 'highlighter'
+          ? [
+              '      <brushProperty name="tip" value="rectangle"/>',
+              `      <brushProperty name="rasterOp" value="${HIGHLIGHTER_RASTER_OP}"/>`,
+            ]
+          : ['      <brushProperty name="tip" value="ellipse"/>']),
+        '    </brush>',
+      ].join('\n'),
+    );
+  });
+
+  const pageGroups = pages.map((page, pageIndex) => {
+    const traces = page.strokes
+      .filter(stroke => stroke.points.length > 0)
+      .map(stroke => {
+        const brushId = brushIds.get(brushKey(stroke));
+        const points = stroke.points.map(tracePoint).join(', ');
+        return `    <trace contextRef="#ctx0" brushRef="#${brushId}" timeOffset="${stroke.timestamp - baseTime}">${points}</trace>`;
+      });
+    return [
+      `  <traceGroup xml:id="page-${pageIndex + 1}">`,
+      `    <annotation type="pageIndex">${pageIndex}</annotation>`,
+      ...traces,
+      '  </traceGroup>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<ink xmlns="${INKML_NAMESPACE}">`,
+    ...(title ? [`  <annotation type="title">${escapeXml(title)}</annotation>`] : []),
+    '  <definitions>',
+    '    <context xml:id="ctx0">',
+    '      <inkSource xml:id="inkSrc0">',
+    '        <traceFormat>',
+    '          <channel name="X" type="decimal"/>',
+    '          <channel name="Y" type="decimal"/>',
+    '          <intermittentChannels>',
+    '            <channel name="F" type="decimal" min="0" max="1"/>',
+    '            <channel name="T" type="decimal" units="ms"/>',
+    '          </intermittentChannels>',
+    '        </traceFormat>',
+    '      </inkSource>',
+    `      <timestamp xml:id="ts0" time="${baseTime}"/>`,
+    '    </context>',
+    ...brushes,
+    '  </definitions>',
+    ...pageGroups,
+    '</ink>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Internal helper: Read the attributes of one element's start tag
+ */
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    attributes[match[1]] = unescapeXml(match[2] ?? match[3]);
+  }
+  return attributes;
+}
+
+/**
+ * Read the channel order from a document's first <traceFormat>. Documents
+ * without one (or without X and Y channels) are read as X Y.
+ */
+export function parseTraceChannels(xml: string): TraceChannels {
+  const formatMatch = xml.match(/<traceFormat\b[^>]*>([\s\S]*?)<\/traceFormat>/);
+  if (!formatMatch) {
+    return DEFAULT_TRACE_CHANNELS;
+  }
+
+  const channels = [...formatMatch[1].matchAll(/<channel\b([^>]*?)\/?>/g)].map(match =>
+    parseAttributes(match[1]),
+  );
+  const indexOf = (name: string) => channels.findIndex(channel => channel.name === name);
+  const x = indexOf('X');
+  const y = indexOf('Y');
+  if (x < 0 || y < 0) {
+    return DEFAULT_TRACE_CHANNELS;
+  }
+
+  const pressure = indexOf('F');
+  const pressureMax = pressure >= 0 ? parseFloat(channels[pressure].max ?? '') : NaN;
+  return {
+    x,
+    y,
+    pressure,
+    time: indexOf('T'),
+    pressureMax: pressureMax > 0 ? pressureMax : 1,
+  };
+}
+
+/**
+ * Parse the text of a <trace> into points. Supports explicit values, the
+ * InkML difference encodings (' = first difference, " = second difference,
+ * ! = explicit again), unknown values (?) and repeated values (*).
+ * X and Y make the point; F and T, if the format has them, become its
+ * pressure and time.
+ */
+export function parseTracePoints(
+  text: string,
+  channels: TraceChannels = DEFAULT_TRACE_CHANNELS,
+): Point[] {
+  const points: Point[] = [];
+  const previous: number[] = [];
+  const velocity: number[] = [];
+  const modes: string[] = [];
+
+  text
+    .split(',')
+    .map(sample => sample.trim())
+    .filter(Boolean)
+    .forEach(sample => {
+      const tokens = sample.match(/[!'"]|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?|[TF*?]/g) ?? [];
+      const values: number[] = [];
+      let channel = 0;
+      tokens.forEach(token => {
+        if (token === '!' || token === "'" || token === '"') {
+          modes[channel] = token;
+          return;
+        }
+        if (token === '*') {
+          values.push(previous[channel] ?? NaN);
+          channel += 1;
+          return;
+        }
+        // Unknown values and booleans leave the channel's running value as is
+        if (token === '?' || token === 'T' || token === 'F') {
+          values.push(NaN);
+          channel += 1;
+          return;
+        }
+        const raw = Number(token);
+        const mode = modes[channel] ?? '!';
+        let value: number;
+        if (mode === "'" && previous[channel] !== undefined) {
+          velocity[channel] = raw;
+          value = previous[channel] + raw;
+        } else if (mode === '"' && previous[channel] !== undefined) {
+          velocity[channel] = (velocity[channel] ?? 0) + raw;
+          value = previous[channel] + velocity[channel];
+        } else {
+          velocity[channel] =
+            previous[channel] !== undefined ? raw - previous[channel] : 0;
+          value = raw;
+        }
+        previous[channel] = value;
+        values.push(value);
+        channel += 1;
+      });
+
+      const x = values[channels.x];
+      const y = values[channels.y];
+      if (!Number.isFinite(x) || !Number.isFinite(y)) {
+        return;
+      }
+      const point: Point = { x, y };
+      const pressure = channels.pressure >= 0 ? values[channels.pressure] : NaN;
+      if (Number.isFinite(pressure)) {
+        point.pressure = Math.min(1, Math.max(0, pressure / channels.pressureMax));
+      }
+      const time = channels.time >= 0 ? values[channels.time] : NaN;
+      if (Number.isFinite(time)) {
+        point.t = time;
+      }
+      points.push(point);
+    });
+
+  return points;
+}
+
+/**
+ * Internal helper: Move and scale every page by one shared transform so the
+ * ink fits `targetSize`. Ink that already fits is left untouched, so files
+ * exported by this app come back unchanged.
+ */
+function fitPagesToSize(pages: DrawingData[], targetSize: ExportSize): DrawingData[] {
+  const points = pages.flatMap(page => page.strokes.flatMap(stroke => stroke.points));
+  if (points.length === 0) {
+    return pages;
+  }
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  points.forEach(point => {
+    minX = Math.min(minX, point.x);
+    minY = Math.min(minY, point.y);
+    maxX = Math.max(maxX, point.x);
+    maxY = Math.max(maxY, point.y);
+  });
+  if (minX >= 0 && minY >= 0 && maxX <= targetSize.width && maxY <= targetSize.height) {
+    return pages;
+  }
+
+  const availableWidth = Math.max(1, targetSize.width - IMPORT_FIT_MARGIN * 2);
+  const availableHeight = Math.max(1, targetSize.height - IMPORT_FIT_MARGIN * 2);
+  const scale = Math.min(
+    1,
+    availableWidth / Math.max(maxX - minX, 1e-6),
+    availableHeight / Math.max(maxY - minY, 1e-6),
+  );
+
+  return pages.map(page => ({
+    ...page,
+    strokes: page.strokes.map(stroke => ({
+      ...stroke,
+      width: stroke.width * scale,
+      points: stroke.points.map(point => ({
+        ...point,
+        x: (point.x - minX) * scale + IMPORT_FIT_MARGIN,
+        y: (point.y - minY) * scale + IMPORT_FIT_MARGIN,
+      })),
+    })),
+  }));
+}
+
+/**
+ * Parse an InkML document into pages of strokes. Traces inside a page group
+ * written by renderPagesToInkml go to that page; all other traces go to the
+ * first page. If `targetSize` is given, ink outside it is fitted onto the page.
+ */
+export function parseInkml(xml: string, targetSize?: ExportSize): InkmlDocument {
+  if (!/<ink\b/.test(xml)) {
+    throw new Error('Not an InkML document.');
+  }
+
+  const titleMatch = xml.match(/<annotation\b[^>]*type\s*=\s*["']title["'][^>]*>([\s\S]*?)<\/annotation>/);
+  const title = titleMatch ? unescapeXml(titleMatch[1].trim()) : undefined;
+
+  // Brushes: xml:id -> color / width / tool
+  const brushes = new Map<string, { color?: string; width?: number; tool?: StrokeTool }>();
+  const brushPattern = /<brush\b([^>]*?)(?:\/>|>([\s\S]*?)<\/brush>)/g;
+  let brushMatch: RegExpExecArray | null;
+  while ((brushMatch = brushPattern.exec(xml)) !== null) {
+    const id = parseAttributes(brushMatch[1])['xml:id'];
+    if (!id) {
+      continue;
+    }
+    const brush: { color?: string; width?: number; tool?: StrokeTool } = {};
+    const propertyPattern = /<brushProperty\b([^>]*)\/?>/g;
+    let propertyMatch: RegExpExecArray | null;
+    while ((propertyMatch = propertyPattern.exec(brushMatch[2] ?? '')) !== null) {
+      const property = parseAttributes(propertyMatch[1]);
+      if (property.name === 'color' && /^#[0-9a-fA-F]{6}$/.test(property.value ?? '')) {
+        brush.color = property.value.toLowerCase();
+      } else if (property.name === 'width') {
+        const width = parseFloat(property.value ?? '');
+        if (width > 0) {
+          brush.width = width;
+        }
+      } else if (property.name === 'rasterOp' && property.value === HIGHLIGHTER_RASTER_OP) {
+        brush.tool = 'highlighter';
+      }
+    }
+    brushes.set(id, brush);
+  }
+
+  const timestampMatch = xml.match(/<timestamp\b[^>]*\btime\s*=\s*["']([\d.]+)["']/);
+  const baseTime = timestampMatch ? Number(timestampMatch[1]) : Date.now();
+
+  // Page group start offsets, in document order
+  const pageStarts: { offset: number; pageIndex: number }[] = [];
+  const pageGroupPattern = /<traceGroup\b[^>]*xml:id\s*=\s*["']page-(\d+)["'][^>]*>/g;
+  let pageMatch: RegExpExecArray | null;
+  while ((pageMatch = pageGroupPattern.exec(xml)) !== null) {
+    const pageIndex = Number(pageMatch[1]) - 1;
+    if (pageIndex >= MAX_IMPORT_PAGES) {
+      throw new Error(`InkML document has more than ${MAX_IMPORT_PAGES} pages.`);
+    }
+    pageStarts.push({ offset: pageMatch.index, pageIndex });
+  }
+
+  const channels = parseTraceChannels(xml);
+  const pageStrokes: Stroke[][] = [];
+  const tracePattern = /<trace\b([^>]*?)(?:\/>|>([\s\S]*?)<\/trace>)/g;
+  let traceMatch: RegExpExecArray | null;
+  while ((traceMatch = tracePattern.exec(xml)) !== null) {
+    const points = parseTracePoints(traceMatch[2] ?? '', channels);
+    if (points.length === 0) {
+      continue;
+    }
+    const attributes = parseAttributes(traceMatch[1]);
+    const brush = brushes.get((attributes.brushRef ?? '').replace(/^#/, '')) ?? {};
+    const timeOffset = Number(attributes.timeOffset ?? 0);
+
+    const traceOffset = traceMatch.index;
+    const page = pageStarts.filter(start => start.offset < traceOffset).pop();
+    const pageIndex = Math.max(0, page?.pageIndex ?? 0);
+    while (pageStrokes.length <= pageIndex) {
+      pageStrokes.push([]);
+    }
+
+    pageStrokes[pageIndex].push({
+      id: uuidv4(),
+      points,
+      color: brush.color ?? DEFAULT_IMPORT_COLOR,
+      width: brush.width ?? DEFAULT_IMPORT_WIDTH,
+      tool: brush.tool ?? 'pen',
+      timestamp: baseTime + (Number.isFinite(timeOffset) ? timeOffset : 0),
+    });
+  }
+
+  // Keep empty page groups written on export as blank pages
+  const pageCount = pageStarts.reduce(
+    (count, start) => Math.max(count, start.pageIndex + 1),
+    pageStrokes.length,
+  );
+  if (pageCount === 0) {
+    throw new Error('No traces found in InkML document.');
+  }
+  let pages: DrawingData[] = Array.from({ length: pageCount }, (_, i) => ({
+    version: DRAWING_VERSION,
+    strokes: pageStrokes[i] ?? [],
+  }));
+  if (targetSize) {
+    pages = fitPagesToSize(pages, targetSize);
+  }
+
+  return { title, pages };
+}
@@ -0,0 +1,97 @@
+/**
+ * Lasso selection geometry
+ *
+ * The select tool draws a freeform loop. The loop is treated as a closed
+ * polygon (the last point joins back to the first), and a stroke belongs to
+ * the selection when most of its points fall inside that polygon.
+ */
+
+import { Point, SelectionLasso, SelectionRect, Stroke } from '../types/models';
+
+// Share of a stroke's points that must be inside the lasso for it to be selected
+const STROKE_MEMBERSHIP_RATIO = 0.5;
+
+/**
+ * Whether a point lies inside a polygon (even-odd ray casting)
+ */
+export function pointInPolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i, i += 1) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (
+      a.y > point.y !== b.y > point.y &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Bounding box of a lasso polygon
+ */
+export function getLassoBounds(polygon: Point[]): SelectionRect {
+  if (polygon.length === 0) {
+    return { x: 0, y: 0, width: 0, height: 0 };
+  }
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  polygon.forEach(point => {
+    minX = Math.min(minX, point.x);
+    minY = Math.min(minY, point.y);
+    maxX = Math.max(maxX, point.x);
+    maxY = Math.max(maxY, point.y);
+  });
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * Whether the lasso encloses an area, rather than being a tap or a straight line
+ */
+export function isLassoClosedArea(polygon: Point[], minSize: number): boolean {
+  if (polygon.length < 3) {
+    return false;
+  }
+  const bounds = getLassoBounds(polygon);
+  return bounds.width >= minSize && bounds.height >= minSize;
+}
+
+/**
+ * Whether a stroke belongs to the lasso selection
+ */
+export function isStrokeInLasso(stroke: Stroke, polygon: Point[]): boolean {
+  if (stroke.points.length === 0 || polygon.length < 3) {
+    return false;
+  }
+  const inside = stroke.points.filter(point => pointInPolygon(point, polygon)).length;
+  return inside / stroke.points.length > STROKE_MEMBERSHIP_RATIO;
+}
+
+/**
+ * The strokes inside the lasso, in their original drawing order
+ */
+export function getStrokesInLasso(strokes: Stroke[], polygon: Point[]): Stroke[] {
+  return strokes.filter(stroke => isStrokeInLasso(stroke, polygon));
+}
+
+/**
+ * A rectangular lasso around a rect, selecting the given strokes
+ * (e.g. strokes that were just pasted)
+ */
+export function getRectLasso(rect: SelectionRect, strokeIds: string[]): SelectionLasso {
+  const right = rect.x + rect.width;
+  const bottom = rect.y + rect.height;
+  return {
+    points: [
+      { x: rect.x, y: rect.y },
+      { x: right, y: rect.y },
+      { x: right, y: bottom },
+      { x: rect.x, y: bottom },
+    ],
+    strokeIds,
+  };
+}
@@ -0,0 +1,51 @@
+export type ListSort = 'name' | 'created' | 'modified' | 'opened';
+
+export const LIST_SORT_OPTIONS: { value: ListSort; label: string }[] = [
+  { value: 'name', label: 'Name' },
+  { value: 'created', label: 'Created' },
+  { value: 'modified', label: 'Modified' },
+  { value: 'opened', label: 'Opened' },
+];
+
+// Creation order, which is how lists were shown before sorting existed
+export const DEFAULT_LIST_SORT: ListSort = 'created';
+
+interface SortableItem {
+  createdAt: number;
+  updatedAt: number;
+  lastOpenedAt: number | null;
+}
+
+/**
+ * Sort folders or notes for display without changing the input list.
+ * - name: A-Z, ignoring case and comparing numbers naturally ("Week 2" before "Week 10")
+ * - created: oldest first
+ * - modified / opened: most recent first; never-opened items go last
+ * Ties keep their input order.
+ */
+export function sortItems<T extends SortableItem>(
+  items: T[],
+  sort: ListSort,
+  getName: (item: T) => string,
+): T[] {
+  const compare = (a: T, b: T): number => {
+    switch (sort) {
+      case 'name':
+        return getName(a).localeCompare(getName(b), undefined, {
+          sensitivity: 'base',
+          numeric: true,
+        });
+      case 'created':
+        return a.createdAt - b.createdAt;
+      case 'modified':
+        return b.updatedAt - a.updatedAt;
+      case 'opened':
+        return (b.lastOpenedAt ?? 0) - (a.lastOpenedAt ?? 0);
+    }
+  };
+  return [...items].sort(compare);
+}
+
+export function isListSort(value: unknown): value is ListSort {
+  return LIST_SORT_OPTIONS.some(option => option.value === value);
+}
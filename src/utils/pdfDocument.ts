@@ -0,0 +1,115 @@
+/**
+ * Minimal PDF writer
+ *
+ * Builds an uncompressed PDF 1.4 document from per-page content streams.
+ * Everything written is 7-bit ASCII, so string length equals byte length
+ * and the file can be written with a plain 'utf8' or 'ascii' encoding.
+ */
+
+export interface PdfPage {
+  width: number; // points (1/72 inch)
+  height: number;
+  content: string; // PDF content stream operators
+  resources?: string; // resource dictionary entries, e.g. "/ExtGState << ... >>"
+}
+
+export interface PdfDocumentOptions {
+  title?: string;
+}
+
+/**
+ * Format a number for a content stream: at most 2 decimals, no exponent
+ */
+export function pdfNumber(value: number): string {
+  if (!Number.isFinite(value)) {
+    return '0';
+  }
+  const fixed = value.toFixed(2);
+  const trimmed = fixed.replace(/\.?0+$/, '');
+  return trimmed === '-0' ? '0' : trimmed;
+}
+
+/**
+ * Convert '#rgb' / '#rrggbb' to PDF color components in the 0..1 range.
+ * Unknown formats fall back to black.
+ */
+export function pdfColor(hex: string): [number, number, number] {
+  let value = hex.trim().replace(/^#/, '');
+  if (value.length === 3) {
+    value = value
+      .split('')
+      .map(char => char + char)
+      .join('');
+  }
+  if (!/^[0-9a-fA-F]{6}/.test(value)) {
+    return [0, 0, 0];
+  }
+  return [0, 2, 4].map(offset => parseInt(value.slice(offset, offset + 2), 16) / 255) as [
+    number,
+    number,
+    number,
+  ];
+}
+
+/**
+ * Internal helper: Encode text as a UTF-16BE hex string so any title stays ASCII
+ */
+function pdfTextString(text: string): string {
+  let hex = 'FEFF';
+  for (let i = 0; i < text.length; i += 1) {
+    hex += text.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+  }
+  return `<${hex}>`;
+}
+
+/**
+ * Build a complete PDF file from the given pages
+ */
+export function buildPdfDocument(
+  pages: PdfPage[],
+  options: PdfDocumentOptions = {},
+): string {
+  if (pages.length === 0) {
+    throw new Error('Cannot build a PDF without pages.');
+  }
+
+  // Object numbers: 1 catalog, 2 page tree, 3 info, then a page + content pair per page
+  const objects: string[] = [];
+  const pageObjectNumbers = pages.map((_, i) => 4 + i * 2);
+
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(
+    `<< /Type /Pages /Kids [${pageObjectNumbers.map(n => `${n} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+  );
+  objects.push(
+    options.title
+      ? `<< /Title ${pdfTextString(options.title)} /Producer (Context Notes) >>`
+      : '<< /Producer (Context Notes) >>',
+  );
+
+  pages.forEach((page, i) => {
+    const contentNumber = pageObjectNumbers[i] + 1;
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pdfNumber(page.width)} ${pdfNumber(page.height)}] /Resources << ${page.resources ? `${page.resources} ` : ''}>> /Contents ${contentNumber} 0 R >>`,
+    );
+    objects.push(`<< /Length ${page.content.length} >>\nstream\n${page.content}\nendstream`);
+  });
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(output.length);
+    output += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n`;
+  output += '0000000000 65535 f \n';
+  offsets.forEach(offset => {
+    output += `${offset.toString().padStart(10, '0')} 00000 n \n`;
+  });
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 3 0 R >>\n`;
+  output += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+  return output;
+}
@@ -0,0 +1,321 @@
+/**
+ * Shape recognition for shape-assist drawing
+ *
+ * Classifies a finished hand-drawn stroke as a line, polyline, rectangle,
+ * ellipse, triangle or arrow and returns clean geometric points for it.
+ * Strokes that don't look like any of these are left alone (null).
+ *
+ * Corners are found by simplifying the stroke (Ramer-Douglas-Peucker) with a
+ * tolerance relative to the stroke's size, so the same rules apply to small
+ * and large drawings.
+ */
+
+import { Point } from '../types/models';
+import {
+  distance,
+  distanceToSegment,
+  pathLength,
+  simplifyIndices,
+  turnAngle,
+} from './strokeGeometry';
+
+export type ShapeKind = 'line' | 'polyline' | 'rectangle' | 'ellipse' | 'triangle' | 'arrow';
+
+export interface RecognizedShape {
+  kind: ShapeKind;
+  points: Point[]; // closed shapes end where they start
+}
+
+// Strokes with a smaller bounding box diagonal (in logical px) are never snapped
+const MIN_SHAPE_SIZE = 16;
+// Simplification tolerance, as a share of the bounding box diagonal
+const SIMPLIFY_TOLERANCE_RATIO = 0.05;
+const MIN_SIMPLIFY_TOLERANCE = 3;
+// Start-to-end distance over path length at or above which a stroke is a line
+const LINE_STRAIGHTNESS = 0.95;
+// Gap between the ends, as a share of the diagonal, under which a stroke is closed
+const CLOSED_GAP_RATIO = 0.2;
+// Most vertices an open stroke can have and still be a polyline
+const MAX_POLYLINE_VERTICES = 6;
+// How far raw ink may bow away from a polyline segment, as a share of its length
+const MAX_SEGMENT_BOW = 0.08;
+// Corners turning less than this are treated as part of a straight edge
+const MIN_CORNER_TURN = (25 * Math.PI) / 180;
+// Rectangle corners must be this close to square
+const RIGHT_ANGLE_TOLERANCE = (20 * Math.PI) / 180;
+// Lines and rectangles this close to horizontal or vertical are straightened
+const AXIS_SNAP_ANGLE = (6 * Math.PI) / 180;
+// Mean distance from the fitted ellipse, as a share of its radius
+const ELLIPSE_TOLERANCE = 0.12;
+// Ellipses with axes this close in length become circles
+const CIRCLE_AXIS_RATIO = 0.9;
+const ELLIPSE_SEGMENTS = 48;
+const ARROW_HEAD_ANGLE = Math.PI / 6;
+// Arrowhead barbs may be at most this long relative to the shaft
+const MAX_ARROW_HEAD_RATIO = 0.5;
+
+/**
+ * Internal helper: Angle snapped to the nearest axis when it is close to one
+ */
+function snapAngleToAxis(angle: number): number {
+  const quarter = Math.PI / 2;
+  const nearestAxis = Math.round(angle / quarter) * quarter;
+  return Math.abs(angle - nearestAxis) <= AXIS_SNAP_ANGLE ? nearestAxis : angle;
+}
+
+/**
+ * Internal helper: A straight line from the first point, straightened onto an
+ * axis when it is nearly horizontal or vertical
+ */
+function cleanLine(start: Point, end: Point): Point[] {
+  const length = distance(start, end);
+  const angle = snapAngleToAxis(Math.atan2(end.y - start.y, end.x - start.x));
+  return [
+    { x: start.x, y: start.y },
+    { x: start.x + Math.cos(angle) * length, y: start.y + Math.sin(angle) * length },
+  ];
+}
+
+/**
+ * Internal helper: Whether the raw ink between simplified vertices is straight
+ * enough to be drawn as segments (rather than being a curve)
+ */
+function hasStraightSegments(points: Point[], indices: number[]): boolean {
+  for (let k = 1; k < indices.length; k += 1) {
+    const a = points[indices[k - 1]];
+    const b = points[indices[k]];
+    // Short segments are allowed the same wobble as the simplification
+    const maxBow = Math.max(MIN_SIMPLIFY_TOLERANCE, distance(a, b) * MAX_SEGMENT_BOW);
+    for (let i = indices[k - 1] + 1; i < indices[k]; i += 1) {
+      if (distanceToSegment(points[i], a, b) > maxBow) {
+        return false;
+      }
+    }
+  }
+  return true;
+}
+
+/**
+ * Internal helper: A single-stroke arrow is a shaft to the tip, one barb,
+ * back to the tip and the other barb. Returns a symmetrical arrow, or null.
+ */
+function recognizeArrow(vertices: Point[]): Point[] | null {
+  if (vertices.length !== 5) {
+    return null;
+  }
+  const [tail, tip, barb1, tipAgain, barb2] = vertices;
+  const shaft = distance(tail, tip);
+  const barbLength = (distance(tip, barb1) + distance(tipAgain, barb2)) / 2;
+  if (
+    barbLength > shaft * MAX_ARROW_HEAD_RATIO ||
+    distance(tip, tipAgain) > barbLength * 0.5
+  ) {
+    return null;
+  }
+  // Barbs point back along the shaft, one on each side of it
+  const back = { x: (tail.x - tip.x) / shaft, y: (tail.y - tip.y) / shaft };
+  const side = (barb: Point) => back.x * (barb.y - tip.y) - back.y * (barb.x - tip.x);
+  const along = (barb: Point) => back.x * (barb.x - tip.x) + back.y * (barb.y - tip.y);
+  if (along(barb1) <= 0 || along(barb2) <= 0 || side(barb1) * side(barb2) >= 0) {
+    return null;
+  }
+  const barbAt = (angle: number): Point => ({
+    x: tip.x + (back.x * Math.cos(angle) - back.y * Math.sin(angle)) * barbLength,
+    y: tip.y + (back.x * Math.sin(angle) + back.y * Math.cos(angle)) * barbLength,
+  });
+  const cleanTip = { x: tip.x, y: tip.y };
+  return [
+    { x: tail.x, y: tail.y },
+    cleanTip,
+    barbAt(ARROW_HEAD_ANGLE),
+    { ...cleanTip },
+    barbAt(-ARROW_HEAD_ANGLE),
+  ];
+}
+
+/**
+ * Internal helper: Corners of a closed loop, dropping points on straight
+ * edges and merging corners that are close together (e.g. where the loop
+ * overshoots its start)
+ */
+function findLoopCorners(points: Point[], tolerance: number): Point[] {
+  let corners = simplifyIndices(points, tolerance).map(index => points[index]);
+  // The end meets the start
+  corners = corners.slice(0, -1);
+
+  let changed = true;
+  while (changed && corners.length > 2) {
+    changed = false;
+    for (let i = 0; i < corners.length; i += 1) {
+      const previous = corners[(i - 1 + corners.length) % corners.length];
+      const corner = corners[i];
+      const nextIndex = (i + 1) % corners.length;
+      const next = corners[nextIndex];
+      if (distance(corner, next) < tolerance * 2) {
+        const merged = { x: (corner.x + next.x) / 2, y: (corner.y + next.y) / 2 };
+        if (nextIndex === 0) {
+          // The last corner merges with the first
+          corners.splice(i, 1, merged);
+          corners.shift();
+        } else {
+          corners.splice(i, 2, merged);
+        }
+        changed = true;
+        break;
+      }
+      if (turnAngle(previous, corner, next) < MIN_CORNER_TURN) {
+        corners.splice(i, 1);
+        changed = true;
+        break;
+      }
+    }
+  }
+  return corners;
+}
+
+/**
+ * Internal helper: A clean rectangle from four roughly square corners, or
+ * null if the corners are not close to right angles
+ */
+function recognizeRectangle(corners: Point[]): Point[] | null {
+  for (let i = 0; i < 4; i += 1) {
+    const turn = turnAngle(corners[(i + 3) % 4], corners[i], corners[(i + 1) % 4]);
+    if (Math.abs(turn - Math.PI / 2) > RIGHT_ANGLE_TOLERANCE) {
+      return null;
+    }
+  }
+  // Orient the rectangle along its first edge, within ±45° of horizontal
+  const quarter = Math.PI / 2;
+  let angle = Math.atan2(corners[1].y - corners[0].y, corners[1].x - corners[0].x);
+  angle = snapAngleToAxis(angle - Math.round(angle / quarter) * quarter);
+  const u = { x: Math.cos(angle), y: Math.sin(angle) };
+  const v = { x: -u.y, y: u.x };
+  const alongU = corners.map(corner => corner.x * u.x + corner.y * u.y);
+  const alongV = corners.map(corner => corner.x * v.x + corner.y * v.y);
+  const minU = Math.min(...alongU);
+  const maxU = Math.max(...alongU);
+  const minV = Math.min(...alongV);
+  const maxV = Math.max(...alongV);
+  const at = (a: number, b: number): Point => ({ x: u.x * a + v.x * b, y: u.y * a + v.y * b });
+  return [at(minU, minV), at(maxU, minV), at(maxU, maxV), at(minU, maxV), at(minU, minV)];
+}
+
+/**
+ * Internal helper: The ellipse that best fits a closed loop (oriented along
+ * the loop's principal axes), or null if the loop is not elliptical
+ */
+function recognizeEllipse(points: Point[]): Point[] | null {
+  const count = points.length;
+  const cx = points.reduce((sum, point) => sum + point.x, 0) / count;
+  const cy = points.reduce((sum, point) => sum + point.y, 0) / count;
+  let sxx = 0;
+  let syy = 0;
+  let sxy = 0;
+  points.forEach(point => {
+    sxx += (point.x - cx) * (point.x - cx);
+    syy += (point.y - cy) * (point.y - cy);
+    sxy += (point.x - cx) * (point.y - cy);
+  });
+  const angle = snapAngleToAxis(0.5 * Math.atan2(2 * sxy, sxx - syy));
+  const u = { x: Math.cos(angle), y: Math.sin(angle) };
+  const v = { x: -u.y, y: u.x };
+
+  const alongU = points.map(point => (point.x - cx) * u.x + (point.y - cy) * u.y);
+  const alongV = points.map(point => (point.x - cx) * v.x + (point.y - cy) * v.y);
+  const minU = Math.min(...alongU);
+  const maxU = Math.max(...alongU);
+  const minV = Math.min(...alongV);
+  const maxV = Math.max(...alongV);
+  let rx = (maxU - minU) / 2;
+  let ry = (maxV - minV) / 2;
+  if (rx === 0 || ry === 0) {
+    return null;
+  }
+  const centerU = (maxU + minU) / 2;
+  const centerV = (maxV + minV) / 2;
+
+  let totalError = 0;
+  for (let i = 0; i < count; i += 1) {
+    const du = (alongU[i] - centerU) / rx;
+    const dv = (alongV[i] - centerV) / ry;
+    totalError += Math.abs(Math.sqrt(du * du + dv * dv) - 1);
+  }
+  if (totalError / count > ELLIPSE_TOLERANCE) {
+    return null;
+  }
+
+  if (Math.min(rx, ry) / Math.max(rx, ry) >= CIRCLE_AXIS_RATIO) {
+    rx = (rx + ry) / 2;
+    ry = rx;
+  }
+  const center = {
+    x: cx + u.x * centerU + v.x * centerV,
+    y: cy + u.y * centerU + v.y * centerV,
+  };
+  const ellipse: Point[] = [];
+  for (let i = 0; i <= ELLIPSE_SEGMENTS; i += 1) {
+    const t = (2 * Math.PI * (i % ELLIPSE_SEGMENTS)) / ELLIPSE_SEGMENTS;
+    const a = Math.cos(t) * rx;
+    const b = Math.sin(t) * ry;
+    ellipse.push({ x: center.x + u.x * a + v.x * b, y: center.y + u.y * a + v.y * b });
+  }
+  return ellipse;
+}
+
+/**
+ * Recognize a hand-drawn stroke as a clean shape, or null if it doesn't
+ * look like one. The shape's points carry no pressure or time, so it is
+ * drawn at an even width.
+ */
+export function recognizeShape(points: Point[]): RecognizedShape | null {
+  if (points.length < 2) {
+    return null;
+  }
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const diagonal = Math.hypot(
+    Math.max(...xs) - Math.min(...xs),
+    Math.max(...ys) - Math.min(...ys),
+  );
+  if (diagonal < MIN_SHAPE_SIZE) {
+    return null;
+  }
+  const tolerance = Math.max(MIN_SIMPLIFY_TOLERANCE, diagonal * SIMPLIFY_TOLERANCE_RATIO);
+  const first = points[0];
+  const last = points[points.length - 1];
+  const length = pathLength(points);
+
+  if (distance(first, last) >= length * LINE_STRAIGHTNESS) {
+    return { kind: 'line', points: cleanLine(first, last) };
+  }
+
+  if (distance(first, last) > diagonal * CLOSED_GAP_RATIO) {
+    const indices = simplifyIndices(points, tolerance);
+    const vertices = indices.map(index => ({ x: points[index].x, y: points[index].y }));
+    if (vertices.length > MAX_POLYLINE_VERTICES || !hasStraightSegments(points, indices)) {
+      return null;
+    }
+    if (vertices.length === 2) {
+      return { kind: 'line', points: cleanLine(first, last) };
+    }
+    const arrow = recognizeArrow(vertices);
+    if (arrow) {
+      return { kind: 'arrow', points: arrow };
+    }
+    return { kind: 'polyline', points: vertices };
+  }
+
+  const corners = findLoopCorners(points, tolerance);
+  if (corners.length === 3) {
+    const triangle = corners.map(corner => ({ x: corner.x, y: corner.y }));
+    return { kind: 'triangle', points: [...triangle, { ...triangle[0] }] };
+  }
+  if (corners.length === 4) {
+    const rectangle = recognizeRectangle(corners);
+    if (rectangle) {
+      return { kind: 'rectangle', points: rectangle };
+    }
+  }
+  const ellipse = recognizeEllipse(points);
+  return ellipse ? { kind: 'ellipse', points: ellipse } : null;
+}
@@ -0,0 +1,34 @@
+/**
+ * In-memory clipboard for copied strokes
+ *
+ * Lives for the app session, so strokes copied on one page can be pasted on
+ * any page of any note.
+ */
+
+import { Stroke } from '../types/models';
+
+let clipboardStrokes: Stroke[] = [];
+
+/**
+ * Put strokes on the clipboard, replacing what was there
+ */
+export function copyStrokesToClipboard(strokes: Stroke[]): void {
+  clipboardStrokes = strokes.map(stroke => ({
+    ...stroke,
+    points: stroke.points.map(point => ({ ...point })),
+  }));
+}
+
+/**
+ * The strokes on the clipboard (empty if nothing was copied)
+ */
+export function getClipboardStrokes(): Stroke[] {
+  return clipboardStrokes;
+}
+
+/**
+ * Whether there is anything to paste
+ */
+export function hasClipboardStrokes(): boolean {
+  return clipboardStrokes.length > 0;
+}
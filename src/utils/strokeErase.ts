@@ -0,0 +1,116 @@
+/**
+ * Precision eraser geometry
+ *
+ * The precision eraser is a circle. Where it touches a stroke's centerline,
+ * that part of the stroke is cut out exactly at the circle's edge, and the
+ * points left on either side become separate strokes.
+ */
+
+import { Point } from '../types/models';
+import { pathLength } from './strokeGeometry';
+
+// Pieces shorter than this (in logical px) are dropped instead of kept as specks
+const MIN_PIECE_LENGTH = 1;
+
+/**
+ * Internal helper: Point part way from a to b. Pressure and time are
+ * interpolated when both ends have them.
+ */
+function interpolatePoint(a: Point, b: Point, t: number): Point {
+  const point: Point = { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+  if (a.pressure !== undefined && b.pressure !== undefined) {
+    point.pressure = a.pressure + (b.pressure - a.pressure) * t;
+  }
+  if (a.t !== undefined && b.t !== undefined) {
+    point.t = a.t + (b.t - a.t) * t;
+  }
+  return point;
+}
+
+/**
+ * Internal helper: Whether a point lies inside the eraser circle
+ */
+function isInside(point: Point, center: Point, radius: number): boolean {
+  return Math.hypot(point.x - center.x, point.y - center.y) < radius;
+}
+
+/**
+ * The part of segment a→b inside a circle, as [enter, exit] positions along
+ * the segment (0 = a, 1 = b), or null if the segment misses the circle
+ */
+export function segmentCircleOverlap(
+  a: Point,
+  b: Point,
+  center: Point,
+  radius: number,
+): [number, number] | null {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const fx = a.x - center.x;
+  const fy = a.y - center.y;
+  const qa = dx * dx + dy * dy;
+  if (qa === 0) {
+    return isInside(a, center, radius) ? [0, 1] : null;
+  }
+  const qb = dx * fx + dy * fy;
+  const qc = fx * fx + fy * fy - radius * radius;
+  const discriminant = qb * qb - qa * qc;
+  if (discriminant <= 0) {
+    return null;
+  }
+  const root = Math.sqrt(discriminant);
+  const enter = Math.max(0, (-qb - root) / qa);
+  const exit = Math.min(1, (-qb + root) / qa);
+  return enter < exit ? [enter, exit] : null;
+}
+
+/**
+ * Cut the part of a stroke's points inside the eraser circle.
+ * Returns the point runs that are left (possibly none), or null if the
+ * eraser did not touch the stroke.
+ */
+export function cutStrokePoints(
+  points: Point[],
+  center: Point,
+  radius: number,
+): Point[][] | null {
+  if (points.length === 0) {
+    return null;
+  }
+  if (points.length === 1) {
+    return isInside(points[0], center, radius) ? [] : null;
+  }
+
+  const pieces: Point[][] = [];
+  let current: Point[] = isInside(points[0], center, radius) ? [] : [points[0]];
+  let touched = false;
+
+  for (let i = 1; i < points.length; i += 1) {
+    const a = points[i - 1];
+    const b = points[i];
+    const overlap = segmentCircleOverlap(a, b, center, radius);
+    if (!overlap) {
+      current.push(b);
+      continue;
+    }
+    touched = true;
+    const [enter, exit] = overlap;
+    // Close the piece before the eraser at its edge
+    if (enter > 0) {
+      current.push(interpolatePoint(a, b, enter));
+    }
+    if (current.length > 0) {
+      pieces.push(current);
+    }
+    // Start a new piece where the segment leaves the eraser
+    current = exit < 1 ? [interpolatePoint(a, b, exit), b] : [];
+  }
+  if (current.length > 0) {
+    pieces.push(current);
+  }
+
+  if (!touched) {
+    return null;
+  }
+  return pieces.filter(piece => piece.length > 1 && pathLength(piece) >= MIN_PIECE_LENGTH);
+}
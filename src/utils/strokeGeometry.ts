@@ -0,0 +1,174 @@
+/**
+ * Shared stroke geometry
+ *
+ * Point simplification for finished strokes, and the smooth curves every
+ * renderer draws through stroke points. The canvas, PNG, SVG and PDF
+ * exports all turn the same path segments into their own path commands, so
+ * ink looks the same on screen and in every export.
+ *
+ * Curves pass through the midpoints between samples, using each sample as
+ * a quadratic control point. Sharp corners (e.g. the corners of a snapped
+ * rectangle or the tip of an arrow) are kept as corners.
+ */
+
+import { Point } from '../types/models';
+
+// Finished strokes drop samples closer than this (in logical px) to the simplified line
+export const STROKE_SIMPLIFY_TOLERANCE = 0.75;
+// Samples where the path turns more sharply than this stay corners instead of being curved
+const SHARP_CORNER_TURN = Math.PI / 3;
+
+export type PathSegment =
+  | { type: 'move'; to: Point }
+  | { type: 'line'; to: Point }
+  | { type: 'quad'; control: Point; to: Point }
+  | { type: 'close' };
+
+/**
+ * Distance between two points
+ */
+export function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+/**
+ * Distance from a point to segment a→b
+ */
+export function distanceToSegment(point: Point, a: Point, b: Point): number {
+  const vx = b.x - a.x;
+  const vy = b.y - a.y;
+  const lengthSq = vx * vx + vy * vy;
+  if (lengthSq === 0) {
+    return distance(point, a);
+  }
+  const t = Math.max(0, Math.min(1, ((point.x - a.x) * vx + (point.y - a.y) * vy) / lengthSq));
+  return distance(point, { x: a.x + t * vx, y: a.y + t * vy });
+}
+
+/**
+ * Length of a polyline
+ */
+export function pathLength(points: Point[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i += 1) {
+    length += distance(points[i - 1], points[i]);
+  }
+  return length;
+}
+
+/**
+ * How sharply a path a→b→c turns at b, from 0 (straight on) to π
+ */
+export function turnAngle(a: Point, b: Point, c: Point): number {
+  const angle1 = Math.atan2(b.y - a.y, b.x - a.x);
+  const angle2 = Math.atan2(c.y - b.y, c.x - b.x);
+  let turn = Math.abs(angle2 - angle1);
+  if (turn > Math.PI) {
+    turn = 2 * Math.PI - turn;
+  }
+  return turn;
+}
+
+/**
+ * Indices of the points kept by Ramer-Douglas-Peucker simplification
+ * (always including the first and last)
+ */
+export function simplifyIndices(points: Point[], tolerance: number): number[] {
+  if (points.length <= 2) {
+    return points.map((_, index) => index);
+  }
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+  const ranges: Array<[number, number]> = [[0, points.length - 1]];
+  while (ranges.length > 0) {
+    const [start, end] = ranges.pop() as [number, number];
+    let farthest = -1;
+    let farthestDistance = tolerance;
+    for (let i = start + 1; i < end; i += 1) {
+      const d = distanceToSegment(points[i], points[start], points[end]);
+      if (d > farthestDistance) {
+        farthest = i;
+        farthestDistance = d;
+      }
+    }
+    if (farthest !== -1) {
+      keep[farthest] = true;
+      ranges.push([start, farthest], [farthest, end]);
+    }
+  }
+  return keep.flatMap((kept, index) => (kept ? [index] : []));
+}
+
+/**
+ * Drop samples that add nothing to a stroke's shape. Kept points are the
+ * original samples, so their pressure and time are unchanged.
+ */
+export function simplifyPoints(
+  points: Point[],
+  tolerance = STROKE_SIMPLIFY_TOLERANCE,
+): Point[] {
+  return simplifyIndices(points, tolerance).map(index => points[index]);
+}
+
+/**
+ * Internal helper: Midpoint of two points
+ */
+function midpoint(a: Point, b: Point): Point {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
+
+/**
+ * Path segments for a smooth curve through stroke points. A single point
+ * gets a zero-length line so a round cap still draws it as a dot. Closed
+ * paths (e.g. variable-width outlines) end with a close segment.
+ */
+export function getSmoothPathSegments(points: Point[], closed = false): PathSegment[] {
+  const count = points.length;
+  if (count === 0) {
+    return [];
+  }
+  if (count < 3) {
+    const segments: PathSegment[] = [
+      { type: 'move', to: points[0] },
+      { type: 'line', to: points[count - 1] },
+    ];
+    return closed ? [...segments, { type: 'close' }] : segments;
+  }
+
+  const at = (index: number) => points[(index + count) % count];
+  const sharp = (index: number) =>
+    turnAngle(at(index - 1), at(index), at(index + 1)) > SHARP_CORNER_TURN;
+  const curveThrough = (index: number): PathSegment =>
+    sharp(index)
+      ? { type: 'line', to: at(index) }
+      : { type: 'quad', control: at(index), to: midpoint(at(index), at(index + 1)) };
+
+  if (!closed) {
+    const segments: PathSegment[] = [{ type: 'move', to: points[0] }];
+    for (let i = 1; i < count - 1; i += 1) {
+      segments.push(curveThrough(i));
+    }
+    segments.push({ type: 'line', to: points[count - 1] });
+    return segments;
+  }
+
+  // Closed paths start on a corner if they have one, else between two samples
+  let start = -1;
+  for (let i = 0; i < count && start === -1; i += 1) {
+    if (sharp(i)) {
+      start = i;
+    }
+  }
+  const segments: PathSegment[] =
+    start === -1
+      ? [{ type: 'move', to: midpoint(at(-1), at(0)) }]
+      : [{ type: 'move', to: at(start) }];
+  const first = start === -1 ? 0 : start + 1;
+  const last = start === -1 ? count - 1 : start + count - 1;
+  for (let i = first; i <= last; i += 1) {
+    segments.push(curveThrough(i));
+  }
+  segments.push({ type: 'close' });
+  return segments;
+}
@@ -0,0 +1,203 @@
+/**
+ * Variable-width stroke outlines
+ *
+ * Strokes drawn with per-point pressure or time data are rendered as a filled
+ * outline instead of a constant-width line. Pressure scales the width
+ * directly; without pressure, the width is simulated from drawing speed
+ * (slow = thicker, fast = thinner). Strokes with neither (drawing version 1,
+ * imported SVG/InkML) keep their constant width.
+ *
+ * Everything here is plain geometry so the canvas, every exporter and tests
+ * share the same shapes.
+ */
+
+import { Point, Stroke } from '../types/models';
+
+// Width factor range for pressure 0..1 (0.5 = the stroke's base width)
+const MIN_PRESSURE_FACTOR = 0.4;
+const MAX_PRESSURE_FACTOR = 1.6;
+
+// Width factor range for simulated speed, in logical px per ms
+const SLOW_SPEED_FACTOR = 1.3;
+const FAST_SPEED_FACTOR = 0.5;
+const SPEED_FOR_MIN_WIDTH = 2.5;
+
+// How quickly widths follow the input (1 = no smoothing)
+const WIDTH_SMOOTHING = 0.35;
+
+// Segments used for each round end cap
+const CAP_SEGMENTS = 8;
+
+/**
+ * Internal helper: Clamp a value to [min, max]
+ */
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Internal helper: Smooth a series so widths don't jump between samples
+ */
+function smoothSeries(values: number[]): number[] {
+  const smoothed: number[] = [];
+  values.forEach((value, index) => {
+    const previous = index === 0 ? value : smoothed[index - 1];
+    smoothed.push(previous + (value - previous) * WIDTH_SMOOTHING);
+  });
+  return smoothed;
+}
+
+/**
+ * Width factors from recorded pressure. Points without pressure reuse the
+ * closest earlier reading.
+ */
+function pressureFactors(points: Point[]): number[] {
+  const first = points.find(point => point.pressure !== undefined)?.pressure ?? 0.5;
+  let last = first;
+  return points.map(point => {
+    if (point.pressure !== undefined) {
+      last = clamp(point.pressure, 0, 1);
+    }
+    return MIN_PRESSURE_FACTOR + (MAX_PRESSURE_FACTOR - MIN_PRESSURE_FACTOR) * last;
+  });
+}
+
+/**
+ * Width factors simulated from drawing speed between timed points
+ */
+function speedFactors(points: Point[]): number[] {
+  const factors = points.map((point, index) => {
+    const previous = points[index - 1];
+    if (!previous || point.t === undefined || previous.t === undefined) {
+      return SLOW_SPEED_FACTOR;
+    }
+    const elapsed = Math.max(1, point.t - previous.t);
+    const speed = Math.hypot(point.x - previous.x, point.y - previous.y) / elapsed;
+    const ratio = clamp(speed / SPEED_FOR_MIN_WIDTH, 0, 1);
+    return SLOW_SPEED_FACTOR + (FAST_SPEED_FACTOR - SLOW_SPEED_FACTOR) * ratio;
+  });
+  // The first point has no speed yet; start at the first measured one
+  if (factors.length > 1) {
+    factors[0] = factors[1];
+  }
+  return factors;
+}
+
+/**
+ * Whether a stroke has the per-point data for variable-width rendering
+ */
+export function hasVariableWidth(stroke: Pick<Stroke, 'points'>): boolean {
+  return stroke.points.some(point => point.pressure !== undefined || point.t !== undefined);
+}
+
+/**
+ * Per-point widths for a stroke: from pressure when any point has it,
+ * otherwise simulated from speed. Returns null for constant-width strokes.
+ */
+export function computePointWidths(points: Point[], baseWidth: number): number[] | null {
+  let factors: number[];
+  if (points.some(point => point.pressure !== undefined)) {
+    factors = pressureFactors(points);
+  } else if (points.some(point => point.t !== undefined)) {
+    factors = speedFactors(points);
+  } else {
+    return null;
+  }
+  return smoothSeries(factors).map(factor => factor * baseWidth);
+}
+
+/**
+ * Internal helper: Points on an arc around center, excluding both ends
+ */
+function arcPoints(center: Point, radius: number, startAngle: number, sweep: number): Point[] {
+  const points: Point[] = [];
+  for (let i = 1; i < CAP_SEGMENTS; i += 1) {
+    const angle = startAngle + (sweep * i) / CAP_SEGMENTS;
+    points.push({ x: center.x + Math.cos(angle) * radius, y: center.y + Math.sin(angle) * radius });
+  }
+  return points;
+}
+
+/**
+ * Internal helper: Unit normal of the direction from a to b, or null if
+ * they coincide
+ */
+function unitNormal(a: Point, b: Point): Point | null {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const length = Math.hypot(dx, dy);
+  if (length === 0) {
+    return null;
+  }
+  return { x: -dy / length, y: dx / length };
+}
+
+/**
+ * Closed outline polygon around a stroke's centerline with the given
+ * per-point widths and round end caps. A single point becomes a dot.
+ */
+export function computeStrokeOutline(points: Point[], widths: number[]): Point[] {
+  // Drop repeated positions, keeping the widest sample
+  const centers: Point[] = [];
+  const radii: number[] = [];
+  points.forEach((point, index) => {
+    const radius = (widths[index] ?? widths[widths.length - 1] ?? 0) / 2;
+    const last = centers[centers.length - 1];
+    if (last && last.x === point.x && last.y === point.y) {
+      radii[radii.length - 1] = Math.max(radii[radii.length - 1], radius);
+      return;
+    }
+    centers.push(point);
+    radii.push(radius);
+  });
+
+  if (centers.length === 0) {
+    return [];
+  }
+  if (centers.length === 1) {
+    const dot = arcPoints(centers[0], radii[0], 0, Math.PI * 2);
+    return [{ x: centers[0].x + radii[0], y: centers[0].y }, ...dot];
+  }
+
+  // Offset each point along the normal of its neighbours' direction
+  const normals = centers.map((center, index) => {
+    const before = centers[Math.max(0, index - 1)];
+    const after = centers[Math.min(centers.length - 1, index + 1)];
+    return (
+      unitNormal(before, after) ??
+      unitNormal(centers[Math.max(0, index - 1)], center) ??
+      unitNormal(center, after) ?? { x: 0, y: -1 }
+    );
+  });
+  const left = centers.map((center, index) => ({
+    x: center.x + normals[index].x * radii[index],
+    y: center.y + normals[index].y * radii[index],
+  }));
+  const right = centers.map((center, index) => ({
+    x: center.x - normals[index].x * radii[index],
+    y: center.y - normals[index].y * radii[index],
+  }));
+
+  const lastIndex = centers.length - 1;
+  const endAngle = Math.atan2(normals[lastIndex].y, normals[lastIndex].x);
+  const startAngle = Math.atan2(normals[0].y, normals[0].x);
+
+  // Left side forward, around the end, right side back, around the start
+  return [
+    ...left,
+    ...arcPoints(centers[lastIndex], radii[lastIndex], endAngle, -Math.PI),
+    ...right.reverse(),
+    ...arcPoints(centers[0], radii[0], startAngle - Math.PI, -Math.PI),
+  ];
+}
+
+/**
+ * Outline polygon for a stroke, or null when it renders at constant width
+ */
+export function getStrokeOutline(stroke: Pick<Stroke, 'points' | 'width'>): Point[] | null {
+  const widths = computePointWidths(stroke.points, stroke.width);
+  if (!widths) {
+    return null;
+  }
+  return computeStrokeOutline(stroke.points, widths);
+}
@@ -0,0 +1,88 @@
+/**
+ * Moving, scaling, rotating and copying strokes
+ *
+ * A transform scales and rotates about an origin, then translates. Stroke
+ * widths scale with the points so transformed ink keeps its proportions.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Point, SelectionRect, Stroke } from '../types/models';
+
+export interface StrokeTransform {
+  origin: Point; // pivot for scale and rotation
+  translateX: number;
+  translateY: number;
+  scale: number;
+  rotation: number; // radians, clockwise on screen
+}
+
+/**
+ * A transform that only moves
+ */
+export function translation(dx: number, dy: number): StrokeTransform {
+  return { origin: { x: 0, y: 0 }, translateX: dx, translateY: dy, scale: 1, rotation: 0 };
+}
+
+/**
+ * Apply a transform to one point, keeping its pressure and time
+ */
+export function transformPoint(point: Point, transform: StrokeTransform): Point {
+  const { origin, scale, rotation } = transform;
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  const dx = (point.x - origin.x) * scale;
+  const dy = (point.y - origin.y) * scale;
+  return {
+    ...point,
+    x: origin.x + dx * cos - dy * sin + transform.translateX,
+    y: origin.y + dx * sin + dy * cos + transform.translateY,
+  };
+}
+
+/**
+ * Apply a transform to a stroke's points and width
+ */
+export function transformStroke(stroke: Stroke, transform: StrokeTransform): Stroke {
+  return {
+    ...stroke,
+    points: stroke.points.map(point => transformPoint(point, transform)),
+    width: stroke.width * transform.scale,
+  };
+}
+
+/**
+ * Bounding box of the ink of some strokes (stroke widths included), or null
+ * if there are no points
+ */
+export function getStrokesBounds(strokes: Stroke[]): SelectionRect | null {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  strokes.forEach(stroke => {
+    const half = stroke.width / 2;
+    stroke.points.forEach(point => {
+      minX = Math.min(minX, point.x - half);
+      minY = Math.min(minY, point.y - half);
+      maxX = Math.max(maxX, point.x + half);
+      maxY = Math.max(maxY, point.y + half);
+    });
+  });
+  if (minX === Infinity) {
+    return null;
+  }
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * Copies of strokes with new ids, moved by an offset (for paste and duplicate)
+ */
+export function cloneStrokes(strokes: Stroke[], dx = 0, dy = 0): Stroke[] {
+  const now = Date.now();
+  const move = translation(dx, dy);
+  return strokes.map(stroke => ({
+    ...transformStroke(stroke, move),
+    id: uuidv4(),
+    timestamp: now,
+  }));
+}
@@ -0,0 +1,467 @@
+/**
+ * SVG export and import
+ *
+ * Export writes one <path> per stroke using the same smooth curves the
+ * canvas draws (see strokeGeometry), plus the paper background as its own
+ * layer. Variable-width strokes are filled outlines, as on the canvas, and
+ * carry their centerline so import can recover the samples. Import reads <path> elements back into strokes, so diagrams can
+ * round-trip through Inkscape or LaTeX tools.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  DrawingData,
+  LINE_SPACING_VALUES,
+  PaperSettings,
+  Point,
+  Stroke,
+} from '../types/models';
+import { ExportSize } from './exportDrawing';
+import { HIGHLIGHTER_OPACITY, strokesInPaintOrder } from './highlighter';
+import { getSmoothPathSegments } from './strokeGeometry';
+import { getStrokeOutline } from './strokeOutline';
+
+const BACKGROUND_COLOR = '#ffffff';
+const LINE_COLOR = '#d0d0d0';
+const DEFAULT_IMPORT_COLOR = '#111111';
+const DEFAULT_IMPORT_WIDTH = 3;
+// Marks stroke paths written by this app, whose samples can be read back exactly
+const SMOOTH_PATH_ATTRIBUTE = 'data-curve';
+const SMOOTH_PATH_VALUE = 'midpoint';
+// Centerline path data of a stroke exported as a filled outline
+const CENTERLINE_ATTRIBUTE = 'data-centerline';
+
+// Segments used to flatten each imported curve command
+const CURVE_SEGMENTS = 8;
+
+/**
+ * Internal helper: Format a coordinate with at most 2 decimals
+ */
+function svgNumber(value: number): string {
+  const trimmed = value.toFixed(2).replace(/\.?0+$/, '');
+  return trimmed === '-0' ? '0' : trimmed;
+}
+
+/**
+ * Internal helper: Escape text for use inside a double-quoted attribute
+ */
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Internal helper: Format a point as "x y"
+ */
+function svgPoint(point: Point): string {
+  return `${svgNumber(point.x)} ${svgNumber(point.y)}`;
+}
+
+/**
+ * Build SVG path data for stroke points, or for a stroke outline when
+ * `closed`. Mirrors buildPath in the canvas: the same smooth curve segments,
+ * as M, Q, L and Z commands. A single point gets a zero-length segment so
+ * its round cap still shows as a dot.
+ */
+export function pointsToSvgPathData(points: Point[], closed = false): string {
+  return getSmoothPathSegments(points, closed)
+    .map(segment => {
+      switch (segment.type) {
+        case 'move':
+          return `M${svgPoint(segment.to)}`;
+        case 'line':
+          return `L${svgPoint(segment.to)}`;
+        case 'quad':
+          return `Q${svgPoint(segment.control)} ${svgPoint(segment.to)}`;
+        case 'close':
+          return 'Z';
+      }
+    })
+    .join(' ');
+}
+
+/**
+ * Internal helper: The stroke samples behind path data written by
+ * pointsToSvgPathData (the first point, each curve's control point and each
+ * line's end point), or null if the path data was edited into other commands
+ */
+function readSmoothPathSamples(d: string): Point[] | null {
+  const tokens = d.match(/[A-Za-z]|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) ?? [];
+  const points: Point[] = [];
+  let index = 0;
+  const readPoint = (): Point => ({ x: Number(tokens[index++]), y: Number(tokens[index++]) });
+  while (index < tokens.length) {
+    const command = tokens[index++];
+    if (command === 'L' || (command === 'M' && index === 1)) {
+      points.push(readPoint());
+    } else if (command === 'Q') {
+      points.push(readPoint());
+      index += 2; // The curve ends halfway to the next sample
+    } else {
+      return null;
+    }
+  }
+  if (points.length === 0 || points.some(point => Number.isNaN(point.x + point.y))) {
+    return null;
+  }
+  // Drop the repeated point of a dot's zero-length segment
+  return points.filter(
+    (point, i) => i === 0 || point.x !== points[i - 1].x || point.y !== points[i - 1].y,
+  );
+}
+
+/**
+ * Internal helper: Paper layer (white sheet plus ruled lines)
+ */
+function renderBackgroundLayer(
+  paperSettings: PaperSettings,
+  logicalSize: ExportSize,
+): string[] {
+  const width = svgNumber(logicalSize.width);
+  const height = svgNumber(logicalSize.height);
+  const elements = [
+    `    <rect x="0" y="0" width="${width}" height="${height}" fill="${BACKGROUND_COLOR}"/>`,
+  ];
+  if (paperSettings.background === 'lined') {
+    const spacing = LINE_SPACING_VALUES[paperSettings.lineSpacing];
+    for (let y = spacing; y < logicalSize.height; y += spacing) {
+      elements.push(
+        `    <line x1="0" y1="${svgNumber(y)}" x2="${width}" y2="${svgNumber(y)}" stroke="${LINE_COLOR}" stroke-width="1"/>`,
+      );
+    }
+  }
+  return [
+    '  <g id="paper" inkscape:groupmode="layer" inkscape:label="Paper">',
+    ...elements,
+    '  </g>',
+  ];
+}
+
+/**
+ * Render a page's drawing as an SVG document in logical canvas units
+ */
+export function renderDrawingToSvg(
+  drawingData: DrawingData,
+  logicalSize: ExportSize,
+  paperSettings: PaperSettings,
+  includeBackground = true,
+): string {
+  if (logicalSize.width <= 0 || logicalSize.height <= 0) {
+    throw new Error('Invalid logical canvas size for export.');
+  }
+
+  const width = svgNumber(logicalSize.width);
+  const height = svgNumber(logicalSize.height);
+  // Highlighters go first so they sit beneath pen ink; data-tool lets
+  // import tell them apart again
+  const paths = strokesInPaintOrder(drawingData.strokes)
+    .filter(stroke => stroke.points.length > 0)
+    .map(stroke => {
+      const id = `stroke-${escapeAttribute(stroke.id)}`;
+      const color = escapeAttribute(stroke.color);
+      const centerline = pointsToSvgPathData(stroke.points);
+      const smooth = `${SMOOTH_PATH_ATTRIBUTE}="${SMOOTH_PATH_VALUE}"`;
+      const strokeWidth = `stroke-width="${svgNumber(stroke.width)}"`;
+      if (stroke.tool === 'highlighter') {
+        return `    <path id="${id}" d="${centerline}" ${smooth} stroke="${color}" ${strokeWidth} stroke-opacity="${HIGHLIGHTER_OPACITY}" stroke-linecap="butt" data-tool="highlighter"/>`;
+      }
+      // Pressure- or speed-sensitive strokes are filled outlines, as on the canvas
+      const outline = getStrokeOutline(stroke);
+      if (outline) {
+        return `    <path id="${id}" d="${pointsToSvgPathData(outline, true)}" ${CENTERLINE_ATTRIBUTE}="${centerline}" ${smooth} fill="${color}" stroke="none" ${strokeWidth}/>`;
+      }
+      return `    <path id="${id}" d="${centerline}" ${smooth} stroke="${color}" ${strokeWidth}/>`;
+    });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    ...(includeBackground ? renderBackgroundLayer(paperSettings, logicalSize) : []),
+    '  <g id="ink" inkscape:groupmode="layer" inkscape:label="Ink" fill="none" stroke-linecap="round" stroke-linejoin="round">',
+    ...paths,
+    '  </g>',
+    '</svg>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Internal helper: Read the attributes of one element's start tag
+ */
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    attributes[match[1]] = (match[2] ?? match[3])
+      .replace(/&quot;/g, '"')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&amp;/g, '&');
+  }
+  // Inline style declarations take precedence over presentation attributes
+  (attributes.style ?? '').split(';').forEach(declaration => {
+    const [name, value] = declaration.split(':').map(part => part?.trim());
+    if (name && value) {
+      attributes[name] = value;
+    }
+  });
+  return attributes;
+}
+
+/**
+ * Internal helper: Normalize an SVG paint value to a hex color, or null for
+ * 'none'. Unsupported color syntaxes fall back to the default ink color.
+ */
+function parsePaint(value: string | undefined): string | null | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const paint = value.trim().toLowerCase();
+  if (paint === 'none' || paint === 'transparent') {
+    return null;
+  }
+  if (/^#[0-9a-f]{3}([0-9a-f]{3})?$/.test(paint)) {
+    return paint;
+  }
+  const rgb = paint.match(/^rgb\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*\)$/);
+  if (rgb) {
+    return `#${rgb
+      .slice(1, 4)
+      .map(channel => Math.min(255, Number(channel)).toString(16).padStart(2, '0'))
+      .join('')}`;
+  }
+  if (paint === 'black') {
+    return '#000000';
+  }
+  return DEFAULT_IMPORT_COLOR;
+}
+
+/**
+ * Internal helper: Sample a quadratic or cubic Bézier (excluding its start)
+ */
+function flattenCurve(controlPoints: Point[]): Point[] {
+  const points: Point[] = [];
+  for (let step = 1; step <= CURVE_SEGMENTS; step += 1) {
+    const t = step / CURVE_SEGMENTS;
+    // De Casteljau: repeatedly interpolate between control points
+    let level = controlPoints;
+    while (level.length > 1) {
+      const next: Point[] = [];
+      for (let i = 1; i < level.length; i += 1) {
+        next.push({
+          x: level[i - 1].x + (level[i].x - level[i - 1].x) * t,
+          y: level[i - 1].y + (level[i].y - level[i - 1].y) * t,
+        });
+      }
+      level = next;
+    }
+    points.push(level[0]);
+  }
+  return points;
+}
+
+/**
+ * Parse SVG path data into polylines, one per subpath. Curves are flattened;
+ * arcs are approximated by a straight segment to their end point.
+ */
+export function parseSvgPathData(d: string): Point[][] {
+  const tokens = d.match(/[MmLlHhVvCcSsQqTtAaZz]|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) ?? [];
+  const subpaths: Point[][] = [];
+  let current: Point[] = [];
+  let position: Point = { x: 0, y: 0 };
+  let subpathStart: Point = { x: 0, y: 0 };
+  let lastControl: Point | null = null;
+  let command = '';
+  let index = 0;
+
+  const isCommand = (token: string | undefined) =>
+    token !== undefined && /^[A-Za-z]$/.test(token);
+  const readNumber = () => Number(tokens[index++]);
+  const readPoint = (relative: boolean): Point => {
+    const x = readNumber();
+    const y = readNumber();
+    return relative ? { x: position.x + x, y: position.y + y } : { x, y };
+  };
+  const finishSubpath = () => {
+    if (current.length > 0) {
+      subpaths.push(current);
+    }
+    current = [];
+  };
+  const lineTo = (point: Point) => {
+    if (current.length === 0) {
+      current.push(position);
+    }
+    current.push(point);
+    position = point;
+  };
+
+  while (index < tokens.length) {
+    if (isCommand(tokens[index])) {
+      command = tokens[index++];
+    } else if (command === '') {
+      break; // Path data must start with a command
+    }
+
+    const relative = command === command.toLowerCase();
+    const previousControl: Point | null = lastControl;
+    lastControl = null;
+
+    switch (command.toUpperCase()) {
+      case 'M': {
+        finishSubpath();
+        position = readPoint(relative);
+        subpathStart = position;
+        current = [position];
+        // Further coordinate pairs after a moveto are implicit linetos
+        command = relative ? 'l' : 'L';
+        break;
+      }
+      case 'L':
+        lineTo(readPoint(relative));
+        break;
+      case 'H': {
+        const x = readNumber();
+        lineTo({ x: relative ? position.x + x : x, y: position.y });
+        break;
+      }
+      case 'V': {
+        const y = readNumber();
+        lineTo({ x: position.x, y: relative ? position.y + y : y });
+        break;
+      }
+      case 'C': {
+        const c1 = readPoint(relative);
+        const c2 = readPoint(relative);
+        const end = readPoint(relative);
+        flattenCurve([position, c1, c2, end]).forEach(lineTo);
+        lastControl = c2;
+        break;
+      }
+      case 'S': {
+        // First control point reflects the previous curve's second one
+        const c1 = previousControl
+          ? { x: 2 * position.x - previousControl.x, y: 2 * position.y - previousControl.y }
+          : position;
+        const c2 = readPoint(relative);
+        const end = readPoint(relative);
+        flattenCurve([position, c1, c2, end]).forEach(lineTo);
+        lastControl = c2;
+        break;
+      }
+      case 'Q': {
+        const control = readPoint(relative);
+        const end = readPoint(relative);
+        flattenCurve([position, control, end]).forEach(lineTo);
+        lastControl = control;
+        break;
+      }
+      case 'T': {
+        const control: Point = previousControl
+          ? { x: 2 * position.x - previousControl.x, y: 2 * position.y - previousControl.y }
+          : position;
+        const end = readPoint(relative);
+        flattenCurve([position, control, end]).forEach(lineTo);
+        lastControl = control;
+        break;
+      }
+      case 'A': {
+        index += 5; // rx ry rotation large-arc sweep
+        lineTo(readPoint(relative));
+        break;
+      }
+      case 'Z':
+        if (current.length > 0) {
+          lineTo(subpathStart);
+        }
+        finishSubpath();
+        position = subpathStart;
+        command = ''; // Z takes no arguments, so it never repeats
+        break;
+      default:
+        index += 1; // Unknown command: skip its argument
+        break;
+    }
+
+    if (Number.isNaN(position.x) || Number.isNaN(position.y)) {
+      break; // Ran out of numbers mid-command
+    }
+  }
+
+  finishSubpath();
+  return subpaths
+    .map(points =>
+      // Drop repeated points (e.g. the zero-length segment written for dots)
+      points.filter(
+        (point, i) =>
+          !Number.isNaN(point.x) &&
+          !Number.isNaN(point.y) &&
+          (i === 0 || point.x !== points[i - 1].x || point.y !== points[i - 1].y),
+      ),
+    )
+    .filter(points => points.length > 0);
+}
+
+/**
+ * Parse the <path> elements of an SVG document into strokes. Each subpath
+ * becomes one stroke with the path's stroke color and width. Coordinates are
+ * moved so the viewBox origin is (0, 0) and, if `targetSize` is given, scaled
+ * down so the drawing fits it. Transforms are not applied.
+ */
+export function parseSvgStrokes(svg: string, targetSize?: ExportSize): Stroke[] {
+  const svgTag = svg.match(/<svg\b([^>]*)>/);
+  const svgAttributes = svgTag ? parseAttributes(svgTag[1]) : {};
+  const viewBox = (svgAttributes.viewBox ?? '')
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(Number);
+  const hasViewBox = viewBox.length === 4 && viewBox.every(Number.isFinite);
+  const origin = hasViewBox ? { x: viewBox[0], y: viewBox[1] } : { x: 0, y: 0 };
+  const sourceWidth = hasViewBox ? viewBox[2] : parseFloat(svgAttributes.width ?? '');
+  const sourceHeight = hasViewBox ? viewBox[3] : parseFloat(svgAttributes.height ?? '');
+
+  let scale = 1;
+  if (targetSize && sourceWidth > 0 && sourceHeight > 0) {
+    scale = Math.min(1, targetSize.width / sourceWidth, targetSize.height / sourceHeight);
+  }
+
+  const strokes: Stroke[] = [];
+  const timestamp = Date.now();
+  const pathPattern = /<path\b([^>]*)>/g;
+  let match: RegExpExecArray | null;
+  while ((match = pathPattern.exec(svg)) !== null) {
+    const attributes = parseAttributes(match[1]);
+    const stroke = parsePaint(attributes.stroke);
+    const fill = parsePaint(attributes.fill);
+    // Stroke-less shapes are imported as outlines in their fill color
+    const color = stroke ?? (fill === null ? null : fill ?? DEFAULT_IMPORT_COLOR);
+    // Our filled outlines are read back from their centerline
+    const d = attributes[CENTERLINE_ATTRIBUTE] ?? attributes.d;
+    if (!d || color === null) {
+      continue;
+    }
+    const width = parseFloat(attributes['stroke-width'] ?? '');
+
+    // Our own strokes come back as their exact samples; other paths are flattened
+    const samples =
+      attributes[SMOOTH_PATH_ATTRIBUTE] === SMOOTH_PATH_VALUE ? readSmoothPathSamples(d) : null;
+    (samples ? [samples] : parseSvgPathData(d)).forEach(points => {
+      strokes.push({
+        id: uuidv4(),
+        points: points.map(point => ({
+          x: (point.x - origin.x) * scale,
+          y: (point.y - origin.y) * scale,
+        })),
+        color,
+        width: (width > 0 ? width : DEFAULT_IMPORT_WIDTH) * scale,
+        tool: attributes['data-tool'] === 'highlighter' ? 'highlighter' : 'pen',
+        timestamp,
+      });
+    });
+  }
+  return strokes;
+}
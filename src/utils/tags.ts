@@ -0,0 +1,33 @@
+// Keep in sync with MAX_TAG_LENGTH in the askRegion and updateChunkTags edge functions
+export const MAX_TAG_LENGTH = 40;
+export const MAX_TAGS_PER_NOTE = 20;
+
+/**
+ * Normalize a tag as typed by the user: lowercase, no leading "#", spaces
+ * become dashes ("Exam 2" -> "exam-2"). Returns null if nothing is left.
+ */
+export function normalizeTag(input: string): string | null {
+  const tag = input
+    .trim()
+    .replace(/^#+/, '')
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .slice(0, MAX_TAG_LENGTH)
+    .replace(/^-+|-+$/g, '');
+  return tag || null;
+}
+
+/**
+ * Normalize a list of tags, dropping empty entries and duplicates and
+ * sorting the result
+ */
+export function normalizeTags(inputs: string[]): string[] {
+  const tags = new Set<string>();
+  inputs.forEach(input => {
+    const tag = normalizeTag(input);
+    if (tag) {
+      tags.add(tag);
+    }
+  });
+  return [...tags].sort().slice(0, MAX_TAGS_PER_NOTE);
+}
@@ -0,0 +1,73 @@
+import RNFS from 'react-native-fs';
+import { DrawingData } from '../types/models';
+import { computeDrawingHash } from './drawingHash';
+import { ExportSize, renderDrawingToPngBase64 } from './exportDrawing';
+
+const THUMBNAIL_DIR = `${RNFS.CachesDirectoryPath}/thumbnails`;
+
+// Longest side of a rendered thumbnail, in pixels
+const THUMBNAIL_MAX_DIM = 320;
+
+/**
+ * Scale the page's logical size down so its longest side is THUMBNAIL_MAX_DIM
+ */
+export function getThumbnailSize(logicalSize: ExportSize): ExportSize {
+  const scale = THUMBNAIL_MAX_DIM / Math.max(logicalSize.width, logicalSize.height);
+  return {
+    width: Math.max(1, Math.round(logicalSize.width * scale)),
+    height: Math.max(1, Math.round(logicalSize.height * scale)),
+  };
+}
+
+/**
+ * Internal helper: Cache file name for a page. The drawing hash and output
+ * size are part of the name, so edited pages never hit a stale thumbnail.
+ */
+function thumbnailFileName(pageId: string, hash: string, size: ExportSize): string {
+  return `${pageId}_${hash}_${size.width}x${size.height}.png`;
+}
+
+/**
+ * Internal helper: Delete cached thumbnails for a page, except `keepName`
+ */
+async function removeStaleThumbnails(pageId: string, keepName: string): Promise<void> {
+  const entries = await RNFS.readDir(THUMBNAIL_DIR);
+  await Promise.all(
+    entries
+      .filter(entry => entry.name.startsWith(`${pageId}_`) && entry.name !== keepName)
+      .map(entry => RNFS.unlink(entry.path)),
+  );
+}
+
+/**
+ * Get a file URI for a low-resolution thumbnail of a page's drawing.
+ * Renders and caches it on disk if no thumbnail exists for the current content.
+ */
+export async function getPageThumbnailUri(
+  pageId: string,
+  drawingData: DrawingData | null,
+  logicalSize: ExportSize,
+): Promise<string> {
+  const size = getThumbnailSize(logicalSize);
+  const fileName = thumbnailFileName(pageId, computeDrawingHash(drawingData), size);
+  const filePath = `${THUMBNAIL_DIR}/${fileName}`;
+
+  if (!(await RNFS.exists(filePath))) {
+    const base64 = renderDrawingToPngBase64(
+      drawingData ?? { version: 1, strokes: [] },
+      logicalSize,
+      size,
+    );
+    await RNFS.mkdir(THUMBNAIL_DIR);
+    await RNFS.writeFile(filePath, base64, 'base64');
+
+    try {
+      await removeStaleThumbnails(pageId, fileName);
+    } catch (error) {
+      // Stale files only cost disk space - the OS may clear the cache anyway
+      console.warn('Failed to remove stale thumbnails:', pageId, error);
+    }
+  }
+
+  return `file://${filePath}`;
+}
@@ -0,0 +1,110 @@
+/**
+ * Zoom and pan of the drawing canvas
+ *
+ * Strokes are stored in page coordinates, in units of the page's declared
+ * size. The editor letterboxes the page into the canvas (the page fit) and
+ * then applies the user's zoom and pan (the page view). Touches are mapped
+ * back to page coordinates before they become ink, lassos or eraser hits,
+ * and exports never see either transform.
+ */
+
+import { PageView, Point } from '../types/models';
+
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 4;
+
+export interface ViewSize {
+  width: number;
+  height: number;
+}
+
+// Two-finger gesture as it was when the second finger landed
+export interface PinchStart {
+  view: PageView;
+  midpoint: Point;
+  distance: number;
+}
+
+/**
+ * Page point under a point on screen
+ */
+export function toPagePoint(point: Point, view: PageView): Point {
+  return {
+    x: (point.x - view.offsetX) / view.zoom,
+    y: (point.y - view.offsetY) / view.zoom,
+  };
+}
+
+/**
+ * Screen position of a page point
+ */
+export function toScreenPoint(point: Point, view: PageView): Point {
+  return {
+    x: point.x * view.zoom + view.offsetX,
+    y: point.y * view.zoom + view.offsetY,
+  };
+}
+
+/**
+ * Transform that letterboxes a page into the canvas: scaled to fit and centered
+ */
+export function getPageFit(pageSize: ViewSize, size: ViewSize): PageView {
+  if (pageSize.width <= 0 || pageSize.height <= 0) {
+    return { zoom: 1, offsetX: 0, offsetY: 0 };
+  }
+  const zoom = Math.min(size.width / pageSize.width, size.height / pageSize.height);
+  return {
+    zoom,
+    offsetX: (size.width - pageSize.width * zoom) / 2,
+    offsetY: (size.height - pageSize.height * zoom) / 2,
+  };
+}
+
+/**
+ * Page to screen transform of a page drawn through its fit and then the view
+ */
+export function composePageViews(view: PageView, fit: PageView): PageView {
+  return {
+    zoom: view.zoom * fit.zoom,
+    offsetX: view.offsetX + fit.offsetX * view.zoom,
+    offsetY: view.offsetY + fit.offsetY * view.zoom,
+  };
+}
+
+/**
+ * Keep the zoom in range and the zoomed canvas covering the whole canvas
+ */
+export function clampPageView(view: PageView, size: ViewSize): PageView {
+  const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, view.zoom));
+  const clampOffset = (offset: number, length: number) =>
+    Math.min(0, Math.max(length - length * zoom, offset));
+  return {
+    zoom,
+    offsetX: clampOffset(view.offsetX, size.width),
+    offsetY: clampOffset(view.offsetY, size.height),
+  };
+}
+
+/**
+ * View for a pinch that has moved from its start to a new midpoint and
+ * finger distance. Zoom follows the change in distance, and the page point
+ * that was under the starting midpoint stays under the fingers.
+ */
+export function getPinchView(
+  start: PinchStart,
+  midpoint: Point,
+  distance: number,
+  size: ViewSize,
+): PageView {
+  const scale = start.distance > 0 ? distance / start.distance : 1;
+  const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, start.view.zoom * scale));
+  const anchor = toPagePoint(start.midpoint, start.view);
+  return clampPageView(
+    {
+      zoom,
+      offsetX: midpoint.x - anchor.x * zoom,
+      offsetY: midpoint.y - anchor.y * zoom,
+    },
+    size,
+  );
+}
@@ -0,0 +1,13 @@
+// Marks the extraction prompt puts around highlighted passages. Brackets
+// that never occur in STEM notes, unlike "==", so equations such as
+// ⟦F = ma⟧ are marked and ordinary comparisons are not.
+export const HIGHLIGHT_MARK_OPEN = "⟦";
+export const HIGHLIGHT_MARK_CLOSE = "⟧";
+
+// A passage wrapped in highlight marks
+const HIGHLIGHT_MARK_PATTERN = /⟦[^⟦⟧]+⟧/;
+
+// Whether text contains a highlighted passage
+export function hasHighlightMark(text: string): boolean {
+  return HIGHLIGHT_MARK_PATTERN.test(text);
+}
@@ -1,5 +1,9 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "jsr:@supabase/supabase-js@2";
+import {
+  HIGHLIGHT_MARK_CLOSE,
+  HIGHLIGHT_MARK_OPEN,
+} from "../_shared/highlightMarks.ts";
 
 // CORS headers (same pattern as health function)
 const corsHeaders = {
@@ -11,6 +15,8 @@ const corsHeaders = {
 // Types
 interface AskRegionRequest {
   folderId: string;
+  folderIds?: string[]; // Retrieve from these folders instead (e.g. a folder and its subfolders)
+  tag?: string; // Only retrieve chunks of notes with this tag (metadata.tags)
   pageId: string;
   regionImageBase64: string;
   question: string;
@@ -43,6 +49,8 @@ interface ChunkRow {
   metadata: {
     noteId?: string;
     noteName?: string;
+    tags?: string[];
+    important?: boolean; // Contains a passage the student highlighted
   } | null;
   similarity: number;
 }
@@ -54,6 +62,8 @@ const AI_TIMEOUT_MS = 55000; // 55s (leave buffer for Supabase's 60s limit)
 const RAG_TOP_K = 12; // Number of chunks to retrieve for similarity search
 const MIN_SIMILARITY = 0.15; // Minimum similarity threshold for similarity search
 const SMALL_FOLDER_THRESHOLD = 30; // If folder has <= this many chunks, include ALL (no similarity filtering)
+const MAX_FOLDER_IDS = 200; // Upper bound for folderIds (a folder plus its subfolders)
+const MAX_TAG_LENGTH = 40; // Keep in sync with src/utils/tags.ts
 
 // System prompt for OpenAI (base)
 const SYSTEM_PROMPT_BASE = `You are an AI assistant for a STEM note-taking application. You help students understand their handwritten notes, diagrams, equations, and mathematical work.
@@ -72,7 +82,9 @@ const RAG_CONTEXT_INSTRUCTION = `
 
 You also have access to relevant content from the user's other notes in this folder. When this context helps answer the question, use it and cite your sources using [Source N] format (e.g., [Source 1], [Source 2]).
 
-Only cite sources when you actually use information from them. If the image alone is sufficient to answer the question, you don't need to cite any sources.`;
+Only cite sources when you actually use information from them. If the image alone is sufficient to answer the question, you don't need to cite any sources.
+
+Text wrapped in ${HIGHLIGHT_MARK_OPEN} and ${HIGHLIGHT_MARK_CLOSE} (e.g. ${HIGHLIGHT_MARK_OPEN}F = ma${HIGHLIGHT_MARK_CLOSE}) was highlighted by the student as important.`;
 
 // Helper: Create error response
 function errorResponse(
@@ -119,15 +131,20 @@ async function getEmbedding(apiKey: string, text: string): Promise<number[]> {
   return result.data[0].embedding;
 }
 
-// Helper: Count chunks in a folder
-async function countChunksInFolder(
+// Helper: Count chunks in a set of folders, optionally only for notes with a tag
+async function countChunksInFolders(
   supabase: ReturnType<typeof createClient>,
-  folderId: string
+  folderIds: string[],
+  tag: string | null
 ): Promise<number> {
-  const { count, error } = await supabase
+  let query = supabase
     .from("chunks")
     .select("*", { count: "exact", head: true })
-    .eq("folder_id", folderId);
+    .in("folder_id", folderIds);
+  if (tag) {
+    query = query.contains("metadata", { tags: [tag] });
+  }
+  const { count, error } = await query;
 
   if (error) {
     console.error("[askRegion] Chunk count error:", error);
@@ -137,16 +154,20 @@ async function countChunksInFolder(
   return count || 0;
 }
 
-// Helper: Retrieve ALL chunks from folder (for small folders)
+// Helper: Retrieve ALL chunks from the folders (for small folders)
 async function retrieveAllChunks(
   supabase: ReturnType<typeof createClient>,
-  folderId: string
+  folderIds: string[],
+  tag: string | null
 ): Promise<ChunkRow[]> {
-  const { data, error } = await supabase
+  let query = supabase
     .from("chunks")
     .select("id, source_id, page_index, chunk_text, metadata")
-    .eq("folder_id", folderId)
-    .order("page_index", { ascending: true });
+    .in("folder_id", folderIds);
+  if (tag) {
+    query = query.contains("metadata", { tags: [tag] });
+  }
+  const { data, error } = await query.order("page_index", { ascending: true });
 
   if (error) {
     console.error("[askRegion] All chunks retrieval error:", error);
@@ -163,16 +184,18 @@ async function retrieveAllChunks(
 // Helper: Retrieve similar chunks from database (for large folders)
 async function retrieveSimilarChunks(
   supabase: ReturnType<typeof createClient>,
-  folderId: string,
+  folderIds: string[],
+  tag: string | null,
   queryEmbedding: number[]
 ): Promise<ChunkRow[]> {
   // Use pgvector similarity search
   // The <=> operator computes cosine distance, so we use 1 - distance for similarity
   const { data, error } = await supabase.rpc("match_chunks", {
     query_embedding: queryEmbedding,
-    match_folder_id: folderId,
+    match_folder_ids: folderIds,
     match_count: RAG_TOP_K,
     min_similarity: MIN_SIMILARITY,
+    match_tag: tag,
   });
 
   if (error) {
@@ -192,7 +215,8 @@ function buildContextString(chunks: ChunkRow[]): string {
     const sourceLabel = chunk.metadata?.noteName
       ? `${chunk.metadata.noteName} - Page ${(chunk.page_index || 0) + 1}`
       : `Page ${(chunk.page_index || 0) + 1}`;
-    return `[Source ${index + 1}: ${sourceLabel}]\n${chunk.chunk_text}`;
+    const emphasis = chunk.metadata?.important ? " (highlighted)" : "";
+    return `[Source ${index + 1}: ${sourceLabel}${emphasis}]\n${chunk.chunk_text}`;
   });
 
   return contextParts.join("\n\n");
@@ -359,7 +383,7 @@ Deno.serve(async (req) => {
       return errorResponse("Invalid JSON body", "INVALID_JSON", 400);
     }
 
-    const { folderId, pageId, regionImageBase64, question } = body;
+    const { folderId, folderIds, tag, pageId, regionImageBase64, question } = body;
 
     // Validate required fields
     if (!pageId || !regionImageBase64 || !question) {
@@ -389,16 +413,50 @@ Deno.serve(async (req) => {
       );
     }
 
-    // RAG retrieval (only if folderId provided)
+    // Validate folder scope
+    if (
+      folderIds !== undefined &&
+      (!Array.isArray(folderIds) ||
+        folderIds.length > MAX_FOLDER_IDS ||
+        folderIds.some(id => typeof id !== "string" || !id))
+    ) {
+      return errorResponse(
+        `folderIds must be a list of at most ${MAX_FOLDER_IDS} folder ids`,
+        "INVALID_PARAMS",
+        400
+      );
+    }
+    if (
+      tag !== undefined &&
+      (typeof tag !== "string" || !tag || tag.length > MAX_TAG_LENGTH)
+    ) {
+      return errorResponse(
+        `tag must be a non-empty string of at most ${MAX_TAG_LENGTH} characters`,
+        "INVALID_PARAMS",
+        400
+      );
+    }
+    const scopeTag = tag ?? null;
+    const scopeFolderIds = folderIds && folderIds.length > 0
+      ? folderIds
+      : folderId
+        ? [folderId]
+        : [];
+
+    // RAG retrieval (only if folderId or folderIds provided)
     let ragContext = "";
     let ragCitations: Citation[] = [];
 
-    if (folderId) {
+    if (scopeFolderIds.length > 0) {
       try {
-        console.log("[askRegion] Retrieving RAG context for folder:", folderId);
+        console.log(
+          "[askRegion] Retrieving RAG context for folders:",
+          scopeFolderIds.length,
+          scopeTag ? `tag: ${scopeTag}` : "all tags"
+        );
 
-        // Count chunks in folder to decide retrieval strategy
-        const chunkCount = await countChunksInFolder(supabase, folderId);
+        // Count chunks in folders to decide retrieval strategy
+        const chunkCount = await countChunksInFolders(supabase, scopeFolderIds, scopeTag);
         console.log("[askRegion] Folder has", chunkCount, "chunks");
 
         let chunks: ChunkRow[] = [];
@@ -408,12 +466,12 @@ Deno.serve(async (req) => {
         } else if (chunkCount <= SMALL_FOLDER_THRESHOLD) {
           // Small folder: include ALL chunks (no similarity filtering)
           console.log("[askRegion] Small folder - including ALL chunks");
-          chunks = await retrieveAllChunks(supabase, folderId);
+          chunks = await retrieveAllChunks(supabase, scopeFolderIds, scopeTag);
         } else {
           // Large folder: use similarity search
           console.log("[askRegion] Large folder - using similarity search");
           const queryEmbedding = await getEmbedding(openaiKey, question);
-          chunks = await retrieveSimilarChunks(supabase, folderId, queryEmbedding);
+          chunks = await retrieveSimilarChunks(supabase, scopeFolderIds, scopeTag, queryEmbedding);
         }
 
         if (chunks.length > 0) {
@@ -1,5 +1,10 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "jsr:@supabase/supabase-js@2";
+import {
+  hasHighlightMark,
+  HIGHLIGHT_MARK_CLOSE,
+  HIGHLIGHT_MARK_OPEN,
+} from "../_shared/highlightMarks.ts";
 
 // CORS headers (same pattern as other functions)
 const corsHeaders = {
@@ -15,6 +20,8 @@ interface IndexPageRequest {
   pageId: string;
   pageIndex: number;
   pageImageBase64: string;
+  tags?: string[]; // The note's tags, stored in chunk metadata for tag-filtered questions
+  hasHighlights?: boolean; // The page has highlighter strokes
 }
 
 interface IndexPageResponse {
@@ -37,6 +44,8 @@ interface ChunkRow {
   embedding: number[];
   metadata: {
     noteId: string;
+    tags: string[];
+    important: boolean; // The chunk contains a highlighted passage
     extractedAt: string;
     chunkIndex: number;
     totalChunks: number;
@@ -48,6 +57,8 @@ const MAX_IMAGE_SIZE_BYTES = 4 * 1024 * 1024; // 4MB
 const AI_TIMEOUT_MS = 55000; // 55s
 const CHUNK_SIZE_CHARS = 1000; // ~250 tokens at 4 chars/token
 const CHUNK_OVERLAP_CHARS = 200; // ~50 tokens overlap
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 40; // Keep in sync with src/utils/tags.ts
 
 // System prompt for text extraction
 const EXTRACTION_PROMPT = `You are a text extraction assistant for a STEM note-taking app.
@@ -66,6 +77,15 @@ Format rules:
 
 Return ONLY the extracted text, no commentary or explanation.`;
 
+// Added to the extraction prompt for pages with highlighter strokes
+const HIGHLIGHT_INSTRUCTION = `
+
+Highlighted passages:
+- Some text on this page is marked with a highlighter: a wide, translucent band of color behind the ink
+- The student highlighted these passages to emphasize them as important (key results, definitions, formulas to remember)
+- Wrap each highlighted passage in ${HIGHLIGHT_MARK_OPEN} and ${HIGHLIGHT_MARK_CLOSE}, e.g. ${HIGHLIGHT_MARK_OPEN}F = ma${HIGHLIGHT_MARK_CLOSE}
+- Do not add the marks to text that is not highlighted`;
+
 // Helper: Create error response
 function errorResponse(
   message: string,
@@ -90,7 +110,8 @@ function successResponse(data: IndexPageResponse): Response {
 // Helper: Extract text from image using GPT-4o-mini
 async function extractTextFromImage(
   apiKey: string,
-  imageBase64: string
+  imageBase64: string,
+  hasHighlights: boolean
 ): Promise<string> {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), AI_TIMEOUT_MS);
@@ -108,7 +129,9 @@ async function extractTextFromImage(
         messages: [
           {
             role: "system",
-            content: EXTRACTION_PROMPT,
+            content: hasHighlights
+              ? EXTRACTION_PROMPT + HIGHLIGHT_INSTRUCTION
+              : EXTRACTION_PROMPT,
           },
           {
             role: "user",
@@ -303,7 +326,15 @@ Deno.serve(async (req) => {
       return errorResponse("Invalid JSON body", "INVALID_JSON", 400);
     }
 
-    const { folderId, noteId, pageId, pageIndex, pageImageBase64 } = body;
+    const {
+      folderId,
+      noteId,
+      pageId,
+      pageIndex,
+      pageImageBase64,
+      tags = [],
+      hasHighlights = false,
+    } = body;
 
     // Validate required fields
     if (
@@ -320,6 +351,29 @@ Deno.serve(async (req) => {
       );
     }
 
+    // Validate tags
+    if (
+      !Array.isArray(tags) ||
+      tags.length > MAX_TAGS ||
+      tags.some(
+        (tag) => typeof tag !== "string" || !tag || tag.length > MAX_TAG_LENGTH
+      )
+    ) {
+      return errorResponse(
+        `tags must be a list of at most ${MAX_TAGS} tags of up to ${MAX_TAG_LENGTH} characters`,
+        "INVALID_PARAMS",
+        400
+      );
+    }
+
+    if (typeof hasHighlights !== "boolean") {
+      return errorResponse(
+        "hasHighlights must be a boolean",
+        "INVALID_PARAMS",
+        400
+      );
+    }
+
     // Validate image size
     const imageSizeBytes = (pageImageBase64.length * 3) / 4;
     if (imageSizeBytes > MAX_IMAGE_SIZE_BYTES) {
@@ -337,7 +391,11 @@ Deno.serve(async (req) => {
     // Step 1: Extract text from image
     let extractedText: string;
     try {
-      extractedText = await extractTextFromImage(openaiKey, pageImageBase64);
+      extractedText = await extractTextFromImage(
+        openaiKey,
+        pageImageBase64,
+        hasHighlights
+      );
       console.log(
         `[indexPage] Extracted ${extractedText.length} chars from page`
       );
@@ -439,6 +497,8 @@ Deno.serve(async (req) => {
       embedding: embeddings[index],
       metadata: {
         noteId,
+        tags,
+        important: hasHighlights && hasHighlightMark(chunkText),
         extractedAt: now,
         chunkIndex: index,
         totalChunks: chunks.length,
@@ -0,0 +1,136 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "jsr:@supabase/supabase-js@2";
+
+// CORS headers (same pattern as other functions)
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// Types
+interface PurgeChunksRequest {
+  folderId?: string;
+  sourceIds?: string[];
+}
+
+interface PurgeChunksResponse {
+  ok: boolean;
+  chunksDeleted: number;
+}
+
+interface ErrorResponse {
+  error: string;
+  code: string;
+}
+
+// Constants
+const MAX_SOURCE_IDS = 500;
+
+// Helper: Create error response
+function errorResponse(
+  message: string,
+  code: string,
+  status: number
+): Response {
+  const body: ErrorResponse = { error: message, code };
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+}
+
+// Helper: Create success response
+function successResponse(data: PurgeChunksResponse): Response {
+  return new Response(JSON.stringify(data), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status: 200,
+  });
+}
+
+// Main handler
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  // Only allow POST
+  if (req.method !== "POST") {
+    return errorResponse("Method not allowed", "METHOD_NOT_ALLOWED", 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error("[purgeChunks] Supabase config not available");
+      return errorResponse(
+        "Database service not configured",
+        "DB_CONFIG_MISSING",
+        500
+      );
+    }
+
+    // Create Supabase client with service role for database operations
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Parse request body
+    let body: PurgeChunksRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return errorResponse("Invalid JSON body", "INVALID_JSON", 400);
+    }
+
+    const { folderId, sourceIds } = body;
+    const hasFolder = typeof folderId === "string" && folderId.length > 0;
+    const hasSources = Array.isArray(sourceIds) && sourceIds.length > 0;
+
+    // Validate: exactly one purge scope
+    if (hasFolder === hasSources) {
+      return errorResponse(
+        "Provide exactly one of: folderId, sourceIds",
+        "MISSING_PARAMS",
+        400
+      );
+    }
+
+    if (hasSources && sourceIds!.length > MAX_SOURCE_IDS) {
+      return errorResponse(
+        `Too many sourceIds. Maximum ${MAX_SOURCE_IDS}.`,
+        "TOO_MANY_SOURCES",
+        400
+      );
+    }
+
+    let query = supabase.from("chunks").delete({ count: "exact" });
+    if (hasFolder) {
+      console.log(`[purgeChunks] Purging chunks for folderId: ${folderId}`);
+      query = query.eq("folder_id", folderId!);
+    } else {
+      console.log(`[purgeChunks] Purging chunks for ${sourceIds!.length} sources`);
+      query = query.in("source_id", sourceIds!);
+    }
+
+    const { error: deleteError, count } = await query;
+
+    if (deleteError) {
+      console.error("[purgeChunks] Delete error:", deleteError);
+      return errorResponse("Failed to delete chunks", "DB_DELETE_ERROR", 500);
+    }
+
+    console.log(`[purgeChunks] Deleted ${count ?? 0} chunks`);
+
+    return successResponse({
+      ok: true,
+      chunksDeleted: count ?? 0,
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error("[purgeChunks] Unexpected error:", errorMessage);
+
+    return errorResponse("An unexpected error occurred", "INTERNAL_ERROR", 500);
+  }
+});
@@ -0,0 +1,162 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "jsr:@supabase/supabase-js@2";
+
+// CORS headers (same pattern as other functions)
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// Types
+interface ChunkFolderUpdate {
+  sourceId: string;
+  folderId: string;
+}
+
+interface UpdateChunkFoldersRequest {
+  updates: ChunkFolderUpdate[];
+}
+
+interface UpdateChunkFoldersResponse {
+  ok: boolean;
+  chunksUpdated: number;
+}
+
+interface ErrorResponse {
+  error: string;
+  code: string;
+}
+
+// Constants
+const MAX_UPDATES = 500;
+
+// Helper: Create error response
+function errorResponse(
+  message: string,
+  code: string,
+  status: number
+): Response {
+  const body: ErrorResponse = { error: message, code };
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+}
+
+// Helper: Create success response
+function successResponse(data: UpdateChunkFoldersResponse): Response {
+  return new Response(JSON.stringify(data), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status: 200,
+  });
+}
+
+// Main handler
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  // Only allow POST
+  if (req.method !== "POST") {
+    return errorResponse("Method not allowed", "METHOD_NOT_ALLOWED", 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error("[updateChunkFolders] Supabase config not available");
+      return errorResponse(
+        "Database service not configured",
+        "DB_CONFIG_MISSING",
+        500
+      );
+    }
+
+    // Create Supabase client with service role for database operations
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Parse request body
+    let body: UpdateChunkFoldersRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return errorResponse("Invalid JSON body", "INVALID_JSON", 400);
+    }
+
+    const { updates } = body;
+
+    // Validate required fields
+    if (!Array.isArray(updates) || updates.length === 0) {
+      return errorResponse(
+        "Missing required field: updates",
+        "MISSING_PARAMS",
+        400
+      );
+    }
+
+    if (updates.length > MAX_UPDATES) {
+      return errorResponse(
+        `Too many updates. Maximum ${MAX_UPDATES}.`,
+        "TOO_MANY_UPDATES",
+        400
+      );
+    }
+
+    const invalid = updates.some(
+      (update) =>
+        typeof update.sourceId !== "string" ||
+        !update.sourceId ||
+        typeof update.folderId !== "string" ||
+        !update.folderId
+    );
+    if (invalid) {
+      return errorResponse(
+        "Each update needs a sourceId and a folderId",
+        "INVALID_PARAMS",
+        400
+      );
+    }
+
+    console.log(`[updateChunkFolders] Applying ${updates.length} updates`);
+
+    // One update per target folder (a moved note's pages share a folder)
+    const sourceIdsByFolder = new Map<string, string[]>();
+    for (const { sourceId, folderId } of updates) {
+      const sourceIds = sourceIdsByFolder.get(folderId) ?? [];
+      sourceIds.push(sourceId);
+      sourceIdsByFolder.set(folderId, sourceIds);
+    }
+
+    let chunksUpdated = 0;
+    for (const [folderId, sourceIds] of sourceIdsByFolder) {
+      const { error: updateError, count } = await supabase
+        .from("chunks")
+        .update({ folder_id: folderId }, { count: "exact" })
+        .eq("source_type", "page")
+        .in("source_id", sourceIds);
+
+      if (updateError) {
+        console.error("[updateChunkFolders] Update error:", updateError);
+        return errorResponse("Failed to update chunks", "DB_UPDATE_ERROR", 500);
+      }
+      chunksUpdated += count ?? 0;
+    }
+
+    console.log(`[updateChunkFolders] Updated ${chunksUpdated} chunks`);
+
+    return successResponse({
+      ok: true,
+      chunksUpdated,
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error("[updateChunkFolders] Unexpected error:", errorMessage);
+
+    return errorResponse("An unexpected error occurred", "INTERNAL_ERROR", 500);
+  }
+});
@@ -0,0 +1,170 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "jsr:@supabase/supabase-js@2";
+
+// CORS headers (same pattern as other functions)
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// Types
+interface ChunkTagUpdate {
+  noteId: string;
+  tags: string[];
+}
+
+interface UpdateChunkTagsRequest {
+  updates: ChunkTagUpdate[];
+}
+
+interface UpdateChunkTagsResponse {
+  ok: boolean;
+  chunksUpdated: number;
+}
+
+interface ErrorResponse {
+  error: string;
+  code: string;
+}
+
+// Constants
+const MAX_UPDATES = 100;
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 40; // Keep in sync with src/utils/tags.ts
+
+// Helper: Create error response
+function errorResponse(
+  message: string,
+  code: string,
+  status: number
+): Response {
+  const body: ErrorResponse = { error: message, code };
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+}
+
+// Helper: Create success response
+function successResponse(data: UpdateChunkTagsResponse): Response {
+  return new Response(JSON.stringify(data), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status: 200,
+  });
+}
+
+// Helper: Whether a value is a valid tag list
+function isValidTagList(tags: unknown): tags is string[] {
+  return (
+    Array.isArray(tags) &&
+    tags.length <= MAX_TAGS &&
+    tags.every(
+      (tag) => typeof tag === "string" && tag.length > 0 && tag.length <= MAX_TAG_LENGTH
+    )
+  );
+}
+
+// Main handler
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  // Only allow POST
+  if (req.method !== "POST") {
+    return errorResponse("Method not allowed", "METHOD_NOT_ALLOWED", 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error("[updateChunkTags] Supabase config not available");
+      return errorResponse(
+        "Database service not configured",
+        "DB_CONFIG_MISSING",
+        500
+      );
+    }
+
+    // Create Supabase client with service role for database operations
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Parse request body
+    let body: UpdateChunkTagsRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return errorResponse("Invalid JSON body", "INVALID_JSON", 400);
+    }
+
+    const { updates } = body;
+
+    // Validate required fields
+    if (!Array.isArray(updates) || updates.length === 0) {
+      return errorResponse(
+        "Missing required field: updates",
+        "MISSING_PARAMS",
+        400
+      );
+    }
+
+    if (updates.length > MAX_UPDATES) {
+      return errorResponse(
+        `Too many updates. Maximum ${MAX_UPDATES}.`,
+        "TOO_MANY_UPDATES",
+        400
+      );
+    }
+
+    const invalid = updates.some(
+      (update) =>
+        typeof update.noteId !== "string" ||
+        !update.noteId ||
+        !isValidTagList(update.tags)
+    );
+    if (invalid) {
+      return errorResponse(
+        `Each update needs a noteId and at most ${MAX_TAGS} tags of up to ${MAX_TAG_LENGTH} characters`,
+        "INVALID_PARAMS",
+        400
+      );
+    }
+
+    console.log(`[updateChunkTags] Applying ${updates.length} updates`);
+
+    // Chunks only know their note through metadata.noteId, so each note
+    // is updated by the set_note_chunk_tags SQL function
+    let chunksUpdated = 0;
+    for (const { noteId, tags } of updates) {
+      const { data, error: updateError } = await supabase.rpc(
+        "set_note_chunk_tags",
+        {
+          match_note_id: noteId,
+          new_tags: tags,
+        }
+      );
+
+      if (updateError) {
+        console.error("[updateChunkTags] Update error:", updateError);
+        return errorResponse("Failed to update chunks", "DB_UPDATE_ERROR", 500);
+      }
+      chunksUpdated += typeof data === "number" ? data : 0;
+    }
+
+    console.log(`[updateChunkTags] Updated ${chunksUpdated} chunks`);
+
+    return successResponse({
+      ok: true,
+      chunksUpdated,
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error("[updateChunkTags] Unexpected error:", errorMessage);
+
+    return errorResponse("An unexpected error occurred", "INTERNAL_ERROR", 500);
+  }
+});
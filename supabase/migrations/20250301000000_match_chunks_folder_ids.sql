@@ -0,0 +1,38 @@
+-- Match chunks across a set of folders instead of a single folder
+-- Lets askRegion search a folder together with its subfolders
+-- (chunks keep the id of the folder that directly holds the note)
+DROP FUNCTION IF EXISTS match_chunks(VECTOR(1536), TEXT, INT, FLOAT);
+
+CREATE OR REPLACE FUNCTION match_chunks(
+  query_embedding VECTOR(1536),
+  match_folder_ids TEXT[],
+  match_count INT DEFAULT 8,
+  min_similarity FLOAT DEFAULT 0.3
+)
+RETURNS TABLE (
+  id UUID,
+  source_id TEXT,
+  page_index INTEGER,
+  chunk_text TEXT,
+  metadata JSONB,
+  similarity FLOAT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.source_id,
+    c.page_index,
+    c.chunk_text,
+    c.metadata,
+    1 - (c.embedding <=> query_embedding) AS similarity
+  FROM chunks c
+  WHERE c.folder_id = ANY(match_folder_ids)
+    AND c.embedding IS NOT NULL
+    AND 1 - (c.embedding <=> query_embedding) >= min_similarity
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
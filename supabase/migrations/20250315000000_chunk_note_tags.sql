@@ -0,0 +1,67 @@
+-- Note tags in chunk metadata (metadata.tags, written by indexPage)
+-- Lets askRegion restrict retrieval to notes with a given tag
+
+-- Tag containment filter (metadata->'tags' ? tag)
+CREATE INDEX IF NOT EXISTS chunks_metadata_tags_idx ON chunks USING GIN ((metadata->'tags'));
+
+-- Finding a note's chunks when its tags change
+CREATE INDEX IF NOT EXISTS chunks_metadata_note_id_idx ON chunks ((metadata->>'noteId'));
+
+DROP FUNCTION IF EXISTS match_chunks(VECTOR(1536), TEXT[], INT, FLOAT);
+
+CREATE OR REPLACE FUNCTION match_chunks(
+  query_embedding VECTOR(1536),
+  match_folder_ids TEXT[],
+  match_count INT DEFAULT 8,
+  min_similarity FLOAT DEFAULT 0.3,
+  match_tag TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  source_id TEXT,
+  page_index INTEGER,
+  chunk_text TEXT,
+  metadata JSONB,
+  similarity FLOAT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.source_id,
+    c.page_index,
+    c.chunk_text,
+    c.metadata,
+    1 - (c.embedding <=> query_embedding) AS similarity
+  FROM chunks c
+  WHERE c.folder_id = ANY(match_folder_ids)
+    AND (match_tag IS NULL OR c.metadata->'tags' ? match_tag)
+    AND c.embedding IS NOT NULL
+    AND 1 - (c.embedding <=> query_embedding) >= min_similarity
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+-- Replace the tags stored on every chunk of a note
+-- Returns the number of chunks updated
+CREATE OR REPLACE FUNCTION set_note_chunk_tags(
+  match_note_id TEXT,
+  new_tags TEXT[]
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  UPDATE chunks
+  SET metadata = jsonb_set(COALESCE(metadata, '{}'::jsonb), '{tags}', to_jsonb(new_tags))
+  WHERE source_type = 'page'
+    AND metadata->>'noteId' = match_note_id;
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$;